@@ -1,5 +1,5 @@
 
-import { GameState, FactionId } from '../../../shared/types';
+import { GameState, FactionId, SpendingCategory } from '../../../shared/types';
 import { MapRegistry } from '../../../shared/maps/MapRegistry';
 import { AI_PROFILES } from './profiles';
 import { analyzeTheaters, updateMissions } from './strategy';
@@ -13,6 +13,7 @@ import { applyBalancedRecruitmentOverride, allocateSiegeBudget } from './economy
 import { findBestSiegeOpportunity, reserveSiegeBudget } from '../../../shared/services/ai/military/siegePriority';
 import { executeSiegeFromOpportunity, executeCaptureFromOpportunity } from '../../../shared/services/ai/military/siegeExecution';
 import { distributeClandestineBudget } from '../../../shared/services/ai/budgetDistributor';
+import { getAIDifficultySettings } from '../../../shared/services/ai/difficulty';
 
 import { manageLeadersUnified } from '../../../shared/services/ai/leaders/core/UnifiedLeaderManager';
 // AI Leader Recruitment (CONSPIRATORS)
@@ -30,6 +31,8 @@ import {
     applyInternalFactionResult,
     INTERNAL_FACTION_MIN_TURN
 } from '../../../shared/services/ai/leaders/recruitment/AIRepublicansInternalFactions';
+// End-of-game statistics (shared)
+import { recordTreasuryDrop } from '../../../shared/services/domain/stats';
 
 // Note: Legacy processLeaderAI has been replaced by unified manageLeadersUnified
 // which is shared between solo (Application) and multiplayer (Server) modes.
@@ -40,7 +43,7 @@ import {
 export const processSingleFactionAITurn = (gameState: GameState, faction: FactionId): GameState => {
     // START HUMAN CHECK (Double safety)
     // Note: In multiplayer, humanFactions is used instead of playerFactions
-    const humanFactions = (gameState as any).humanFactions || (gameState as any).playerFactions || (gameState.playerFaction ? [gameState.playerFaction] : []);
+    const humanFactions: FactionId[] = (gameState as any).humanFactions || (gameState as any).playerFactions || (gameState.playerFaction ? [gameState.playerFaction] : []);
     if (humanFactions.includes(faction)) {
         console.warn(`[AI SERVER] Attempted to process AI for HUMAN faction ${faction}. Aborting.`);
         return gameState;
@@ -64,14 +67,14 @@ export const processSingleFactionAITurn = (gameState: GameState, faction: Factio
     // For now, I will redirect to a unified helper function or just copy the updated logic here?
     // Given the structure, processAITurn iterates. I will reimplement processSingleFactionAITurn properly.
 
-    return processAITurnForFaction(state, faction, profile);
+    return processAITurnForFaction(state, faction, profile, humanFactions);
 };
 
 export const processAITurn = (gameState: GameState): GameState => {
     let state = { ...gameState };
 
     // IMPROVED FILTERING FOR SERVER/MULTIPLAYER
-    const playerFactions = (state as any).playerFactions || (state.playerFaction ? [state.playerFaction] : []);
+    const playerFactions: FactionId[] = (state as any).playerFactions || (state.playerFaction ? [state.playerFaction] : []);
     const cpuFactions = MapRegistry.getFactions(state.mapId as any).filter(f => !playerFactions.includes(f));
 
     console.log(`[AI SERVER] Processing CPU Factions: ${cpuFactions.join(', ')} (Human: ${playerFactions.join(', ')})`);
@@ -80,14 +83,22 @@ export const processAITurn = (gameState: GameState): GameState => {
         const profile = AI_PROFILES[faction];
         if (!profile) continue;
 
-        state = processAITurnForFaction(state, faction, profile);
+        state = processAITurnForFaction(state, faction, profile, playerFactions);
     }
 
     return state;
 };
 
+/**
+ * Charge the gold a phase took from the treasury to a spending category
+ */
+const recordPhaseSpending = (state: GameState, faction: FactionId, category: SpendingCategory, goldBefore: number): GameState => ({
+    ...state,
+    stats: recordTreasuryDrop(state.stats, faction, category, goldBefore, state.resources[faction]?.gold ?? 0)
+});
+
 // Extracted core logic to share between single/multi processing
-function processAITurnForFaction(gameState: GameState, faction: FactionId, profile: any): GameState {
+function processAITurnForFaction(gameState: GameState, faction: FactionId, profile: any, humanFactions: FactionId[]): GameState {
     let state = { ...gameState };
 
     // 1. ANALYSIS & STRATEGY
@@ -130,6 +141,7 @@ function processAITurnForFaction(gameState: GameState, faction: FactionId, profi
     // Reduced reserve ratio
     let reserveRatio = isUnderThreat ? 0.1 : (profile.subversiveness > 0.6 ? 0.1 : 0.15);
     if (faction === FactionId.NOBLES && state.turn < 5) reserveRatio = 0.1;
+    reserveRatio *= getAIDifficultySettings(state, faction).reserveRatioMultiplier;
 
     const reserved = Math.floor(goldAfterSiegeReserve * reserveRatio);
     const available = goldAfterSiegeReserve - reserved;
@@ -187,7 +199,9 @@ function processAITurnForFaction(gameState: GameState, faction: FactionId, profi
         const internalFactionResult = processRepublicanInternalFaction(state, faction, state.turn);
 
         if (internalFactionResult.choiceMade) {
+            const goldBefore = state.resources[faction].gold;
             state = applyInternalFactionResult(state, internalFactionResult);
+            state = recordPhaseSpending(state, faction, 'GOVERNANCE', goldBefore);
             console.log(`[AI ${faction}] Chose Internal Faction: ${internalFactionResult.chosenOption} (cost: ${internalFactionResult.goldCost}g)`);
         } else if (internalFactionResult.inSavingsMode) {
             console.log(`[AI ${faction}] Saving for ${internalFactionResult.savingsTarget} (${internalFactionResult.savedGold}g saved)`);
@@ -245,9 +259,10 @@ function processAITurnForFaction(gameState: GameState, faction: FactionId, profi
 
     // 4. DIPLOMACY (Insurrections & Negotiations)
     // Legacy insurrections are disabled since we use unified leader AI
-    const dipResult = manageDiplomacy(state, faction, goals, profile, budget, true);
+    const goldBeforeDiplomacy = state.resources[faction].gold;
+    const dipResult = manageDiplomacy(state, faction, goals, profile, budget, true, humanFactions);
 
-    state = { ...state, ...dipResult };
+    state = recordPhaseSpending({ ...state, ...dipResult }, faction, 'DIPLOMACY', goldBeforeDiplomacy);
 
     // 5. MILITARY MOVEMENT
     state.armies = manageMilitary(state, faction, profile);
@@ -256,12 +271,13 @@ function processAITurnForFaction(gameState: GameState, faction: FactionId, profi
     if (siegeOpportunity && siegeOpportunity.action === 'SIEGE') {
         const siegeResult = executeSiegeFromOpportunity(state, faction, siegeOpportunity);
         if (siegeResult.executed) {
-            state = {
+            const goldBeforeSiege = state.resources[faction].gold;
+            state = recordPhaseSpending({
                 ...state,
                 locations: siegeResult.updatedLocations,
                 armies: siegeResult.updatedArmies,
                 resources: { ...state.resources, ...siegeResult.updatedResources }
-            };
+            }, faction, 'SIEGE', goldBeforeSiege);
             if (siegeResult.siegeNotification) {
                 state.siegeNotification = siegeResult.siegeNotification;
             }
@@ -280,13 +296,15 @@ function processAITurnForFaction(gameState: GameState, faction: FactionId, profi
     // Use unified IPG-based leader management (same as Application/solo mode)
     {
         // Distribute allocated diplomacy budget to leaders as clandestine budget
+        const goldBeforeClandestine = state.resources[faction].gold;
         const budgetResult = distributeClandestineBudget(state, faction, budget);
-        state = { ...state, ...budgetResult };
+        state = recordPhaseSpending({ ...state, ...budgetResult }, faction, 'CLANDESTINE', goldBeforeClandestine);
 
         // Calculate clandestine budget from diplomacy allocation
         const clandestineBudget = budget.allocations.diplomacy;
 
         // Use unified leader manager (shared between solo and multiplayer)
+        const goldBeforeLeaders = state.resources[faction].gold;
         const leaderResult = manageLeadersUnified(state, faction, clandestineBudget, state.turn);
 
         // Merge results
@@ -302,18 +320,20 @@ function processAITurnForFaction(gameState: GameState, faction: FactionId, profi
         if (leaderResult.chosenInternalFaction) {
             state.chosenInternalFaction = leaderResult.chosenInternalFaction as any;
         }
+        state = recordPhaseSpending(state, faction, 'LEADERS', goldBeforeLeaders);
     }
 
     // 7. LEADER RECRUITMENT (CONSPIRATORS only)
     // Process recruitment fund and recruit if ready
     if (faction === FactionId.CONSPIRATORS) {
+        const goldBeforeRecruitment = state.resources[faction].gold;
         const recruitResult = processAIRecruitment(
             state,
             faction,
             leaderRecruitmentReserve,
             leaderRecruitmentSeizeGoldLocation
         );
-        state = { ...state, ...recruitResult.updatedState };
+        state = recordPhaseSpending({ ...state, ...recruitResult.updatedState }, faction, 'LEADERS', goldBeforeRecruitment);
         recruitResult.logs.forEach(log => {
                 if (ENABLE_RECRUITMENT_LOGS || log.includes('SUCCESS')) {
                     console.log(log);
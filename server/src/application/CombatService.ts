@@ -124,8 +124,10 @@ export class CombatService {
         console.log(`[CombatService] Resolving combat with choice: ${finalChoice}`);
 
         // Apply combat resolution
-        const updates = resolveCombatResult(room.gameState, finalChoice, finalSiegeCost);
-        room.gameState = { ...room.gameState, ...updates };
+        const previousState = room.gameState;
+        const updates = resolveCombatResult(previousState, finalChoice, finalSiegeCost);
+        room.gameState = { ...previousState, ...updates };
+        this.gameRoomManager.recordEvent(code, { type: 'COMBAT_RESOLVED', choice: finalChoice, siegeCost: finalSiegeCost }, previousState);
 
         // Clear pending combat
         this.gameRoomManager.clearCombat(code);
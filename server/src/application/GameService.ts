@@ -53,7 +53,8 @@ export class GameService {
 
         // Process action using shared logic
         const sharedAction = { ...action, faction: playerFaction };
-        const result = processPlayerAction(room.gameState, sharedAction, playerFaction);
+        const previousState = room.gameState;
+        const result = processPlayerAction(previousState, sharedAction, playerFaction);
 
         if (!result.success) {
             return { success: false, error: result.error };
@@ -61,6 +62,7 @@ export class GameService {
 
         // Update room state
         room.gameState = result.newState;
+        this.gameRoomManager.recordEvent(code, { type: 'PLAYER_ACTION', faction: playerFaction, action: sharedAction }, previousState);
 
         // Check for combat
         if (result.newState.combatState) {
@@ -102,8 +104,10 @@ export class GameService {
             };
         }
 
-        const result = await advanceTurn(room.gameState);
+        const previousState = room.gameState;
+        const result = await advanceTurn(previousState);
         room.gameState = result.newState;
+        this.gameRoomManager.recordEvent(code, { type: 'ADVANCE_TURN' }, previousState);
 
         // Auto-resolve non-human combats
         this.autoResolveNonHumanCombats(room);
@@ -131,8 +135,10 @@ export class GameService {
             };
         }
 
-        const result = await advanceTurn(room.gameState);
+        const previousState = room.gameState;
+        const result = await advanceTurn(previousState);
         room.gameState = result.newState;
+        this.gameRoomManager.recordEvent(code, { type: 'ADVANCE_TURN' }, previousState);
 
         // Auto-resolve non-human combats
         this.autoResolveNonHumanCombats(room);
@@ -155,8 +161,10 @@ export class GameService {
 
             if (combatType === 'AI_VS_AI') {
                 console.log(`[GameService] Auto-resolving AI vs AI combat`);
-                const updates = resolveCombatResult(room.gameState, 'FIGHT', 0);
-                room.gameState = { ...room.gameState, ...updates };
+                const previousState = room.gameState;
+                const updates = resolveCombatResult(previousState, 'FIGHT', 0);
+                room.gameState = { ...previousState, ...updates };
+                this.gameRoomManager.recordEvent(room.code, { type: 'COMBAT_RESOLVED', choice: 'FIGHT', siegeCost: 0 }, previousState);
             } else {
                 // Human involved - stop auto-resolution
                 break;
@@ -171,8 +179,8 @@ export class GameService {
         room: GameRoom,
         combat: CombatState
     ): 'AI_VS_AI' | 'AI_ATTACKER' | 'AI_DEFENDER' | 'PVP' {
-        const attackerIsAI = combat.attackerFaction === room.aiFaction;
-        const defenderIsAI = combat.defenderFaction === room.aiFaction;
+        const attackerIsAI = room.aiFactions.has(combat.attackerFaction);
+        const defenderIsAI = room.aiFactions.has(combat.defenderFaction);
 
         // Check if defender is human (has a socket)
         const defenderSocketId = this.gameRoomManager.getSocketForFaction(
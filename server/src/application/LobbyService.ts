@@ -3,10 +3,13 @@
  * Encapsulates lobby-related use cases: create, join, leave, start game
  */
 
-import { LobbyManager } from '../lobbyManager';
+import { LobbyManager, DEFAULT_MAP_ID, buildSeats, getSeatFactions } from '../lobbyManager';
 import { GameRoomManager } from '../gameRoom';
 import { createMultiplayerGameState, getClientState } from '../gameLogic';
-import { FactionId, GameLobby } from '../types';
+import { resolveVictoryConditions } from '../../../shared/services/domain/victory';
+import { FactionId, GameLobby, PlayerInfo, TimerSettings, SeatType } from '../types';
+import { AIDifficulty, CombatRuleset, TreasuryRuleset } from '../../../shared/types';
+import { MapId } from '../../../shared/maps/types';
 
 export interface CreateGameResult {
     success: boolean;
@@ -27,7 +30,7 @@ export interface StartGameResult {
     gameState?: any;
     turnOrder?: FactionId[];
     humanFactions?: FactionId[];
-    aiFaction?: FactionId | null;
+    aiFactions?: FactionId[];
 }
 
 /**
@@ -42,8 +45,8 @@ export class LobbyService {
     /**
      * Create a new game lobby
      */
-    createGame(hostSocketId: string, maxPlayers: 2 | 3, nickname: string): CreateGameResult {
-        const lobby = this.lobbyManager.createLobby(hostSocketId, maxPlayers, nickname);
+    createGame(hostSocketId: string, maxPlayers: number | undefined, nickname: string, mapId?: MapId): CreateGameResult {
+        const lobby = this.lobbyManager.createLobby(hostSocketId, maxPlayers, nickname, mapId);
         return {
             success: true,
             lobby,
@@ -83,6 +86,78 @@ export class LobbyService {
         };
     }
 
+    /**
+     * Select the map (host only, resets faction choices)
+     */
+    selectMap(socketId: string, mapId: MapId): JoinGameResult {
+        const result = this.lobbyManager.selectMap(socketId, mapId);
+        return {
+            success: result.success,
+            error: result.error,
+            lobby: result.lobby
+        };
+    }
+
+    /**
+     * Change the lobby's turn, combat choice and disconnect timers (host only)
+     */
+    setTimerSettings(socketId: string, settings: Partial<TimerSettings>): JoinGameResult {
+        const result = this.lobbyManager.setTimerSettings(socketId, settings);
+        return {
+            success: result.success,
+            error: result.error,
+            lobby: result.lobby
+        };
+    }
+
+    /**
+     * Pick which of the map's victory conditions apply (host only)
+     */
+    setVictoryConditions(socketId: string, conditionIds: string[]): JoinGameResult {
+        const result = this.lobbyManager.setVictoryConditions(socketId, conditionIds);
+        return {
+            success: result.success,
+            error: result.error,
+            lobby: result.lobby
+        };
+    }
+
+    /**
+     * Pick how battles are decided (host only)
+     */
+    setCombatRuleset(socketId: string, combatRuleset: CombatRuleset): JoinGameResult {
+        const result = this.lobbyManager.setCombatRuleset(socketId, combatRuleset);
+        return {
+            success: result.success,
+            error: result.error,
+            lobby: result.lobby
+        };
+    }
+
+    /**
+     * Pick where tax gold goes (host only)
+     */
+    setTreasuryRuleset(socketId: string, treasuryRuleset: TreasuryRuleset): JoinGameResult {
+        const result = this.lobbyManager.setTreasuryRuleset(socketId, treasuryRuleset);
+        return {
+            success: result.success,
+            error: result.error,
+            lobby: result.lobby
+        };
+    }
+
+    /**
+     * Open a faction to players, give it to the AI or close it (host only)
+     */
+    configureSeat(socketId: string, faction: FactionId, type: SeatType, aiDifficulty?: AIDifficulty): JoinGameResult {
+        const result = this.lobbyManager.configureSeat(socketId, faction, type, aiDifficulty);
+        return {
+            success: result.success,
+            error: result.error,
+            lobby: result.lobby
+        };
+    }
+
     /**
      * Set player ready status
      */
@@ -113,19 +188,16 @@ export class LobbyService {
             return { success: false, error: startResult.error };
         }
 
-        // Determine human and AI factions
-        const humanFactions: FactionId[] = startResult.lobby!.players
-            .map(p => p.faction)
-            .filter((f): f is FactionId => f !== null);
-
-        let aiFaction: FactionId | null = null;
-        if (startResult.lobby!.maxPlayers === 2) {
-            const allFactions = [FactionId.REPUBLICANS, FactionId.CONSPIRATORS, FactionId.NOBLES];
-            aiFaction = allFactions.find(f => !humanFactions.includes(f)) || null;
-        }
+        // Determine human and AI factions from the seats
+        const { humanFactions, aiFactions, aiDifficulties } = getSeatFactions(startResult.lobby!);
+        const mapId = startResult.lobby!.mapId;
 
         // Create server-side game state
-        const serverGameState = createMultiplayerGameState(humanFactions, aiFaction);
+        const victoryConditions = resolveVictoryConditions(mapId, startResult.lobby!.victoryConditions);
+        const serverGameState = createMultiplayerGameState(
+            humanFactions, aiFactions, mapId, undefined, victoryConditions, aiDifficulties,
+            startResult.lobby!.combatRuleset, startResult.lobby!.treasuryRuleset
+        );
 
         // Create game room
         const room = this.gameRoomManager.createRoom(startResult.lobby!, serverGameState);
@@ -138,10 +210,64 @@ export class LobbyService {
             gameState: getClientState(serverGameState),
             turnOrder: room.turnOrder,
             humanFactions,
-            aiFaction
+            aiFactions
         };
     }
 
+    /**
+     * Reload persisted games on boot.
+     * Every player starts disconnected and reclaims their seat through rejoin_game.
+     * @returns Number of restored games
+     */
+    restorePersistedGames(): number {
+        let restored = 0;
+
+        for (const snapshot of this.gameRoomManager.loadSnapshots()) {
+            if (this.gameRoomManager.getRoom(snapshot.code)) continue;
+
+            // Finished and long abandoned games only keep their archive
+            if (this.gameRoomManager.isSnapshotExpired(snapshot)) {
+                this.gameRoomManager.discardSnapshot(snapshot.code);
+                continue;
+            }
+
+            const players: PlayerInfo[] = snapshot.lobby
+                ? snapshot.lobby.players.map(p => ({ ...p, isConnected: false, isReady: true }))
+                : snapshot.playerFactions.map(([odId, faction]) => ({
+                    odId,
+                    faction,
+                    isHost: false,
+                    isReady: true,
+                    isConnected: false,
+                    nickname: 'Disconnected'
+                }));
+            const mapId = snapshot.lobby?.mapId || snapshot.gameState?.mapId || DEFAULT_MAP_ID;
+            // Lobbies saved before seats existed: every faction with a player is human, the AI seat comes from the room
+            const seats = snapshot.lobby?.seats ?? buildSeats(
+                mapId,
+                snapshot.playerFactions.map(([, faction]) => faction),
+                snapshot.aiFactions ?? (snapshot.aiFaction ? [snapshot.aiFaction] : []),
+                snapshot.gameState?.aiDifficulties
+            );
+
+            const lobby = this.lobbyManager.restoreLobby(
+                snapshot.code,
+                players,
+                seats,
+                mapId,
+                snapshot.lobby?.timers,
+                snapshot.lobby?.spectatorSettings,
+                snapshot.lobby?.victoryConditions ?? snapshot.gameState?.victoryConditions?.map((c: { id: string }) => c.id),
+                snapshot.lobby?.combatRuleset ?? snapshot.gameState?.combatRuleset,
+                snapshot.lobby?.treasuryRuleset ?? snapshot.gameState?.treasuryRuleset
+            );
+            this.gameRoomManager.restoreRoom(snapshot, lobby);
+            restored++;
+        }
+
+        return restored;
+    }
+
     /**
      * Get player's current lobby
      */
@@ -11,10 +11,12 @@ import {
     CombatState,
     FACTION_NAMES,
     LogType,
-    LogSeverity
+    LogSeverity,
+    SpendingCategory
 } from '../../shared/types';
-import { createInitialState, getInitialResources } from '../../shared/data/initialState';
-import { INITIAL_PLAYER_RESOURCES, INITIAL_AI_RESOURCES } from '../../shared/data/gameConstants';
+import { createInitialState, getMapStartingResources } from '../../shared/data/initialState';
+import { MapRegistry } from '../../shared/maps/MapRegistry';
+import { MapId } from '../../shared/maps/types';
 import {
     executeRecruitment,
     executeArmyMove,
@@ -26,6 +28,7 @@ import {
     executeSendConvoy,
     executeSendNavalConvoy,
     executeReverseConvoy,
+    executeEmbarkArmy,
     executeAttachLeader,
     executeDetachLeader,
     executeMoveLeader,
@@ -54,58 +57,69 @@ import {
     KNIGHTLY_COUP_GOLD_COST,
     MERCHANT_DOMINATION_GOLD_COST
 } from '../../shared/services/domain/internalFactions/internalFactions';
-import { CharacterStatus, GovernorPolicy } from '../../shared/types';
+import { CharacterStatus, GovernorPolicy, VictoryCondition, AIDifficulty, CombatRuleset, TreasuryRuleset, AgreementProposal } from '../../shared/types';
+// Agreements between factions
+import {
+    proposeAgreement as proposeFactionAgreement,
+    answerAgreement as answerFactionAgreement,
+    detectAgreementBreaches
+} from '../../shared/services/domain/politics/agreements';
 import { resolveCombatResult } from '../../shared/services/combat';
 import { detectBattles } from '../../shared/services/combatDetection';
 import { processTurn } from '../../shared/services/turnProcessor';
+import { withRng, withGameRng, randomId } from '../../shared/services/rng';
+import { createGenericLog } from '../../shared/services/logs';
+import { resolveVictoryConditions } from '../../shared/services/domain/victory';
+import { resolveCombatRuleset } from '../../shared/services/combat/combatRuleset';
+import { resolveTreasuryRuleset } from '../../shared/services/domain/economy/treasury';
+import { recordTreasuryDrop } from '../../shared/services/domain/stats';
 import { calculateEconomyAndFood } from '../../shared/utils/economy';
 import { extractCoreState } from '../../shared/utils/stateUtils';
-import { processAITurn } from './ai';
+import { projectStateForFaction } from '../../shared/utils/fogOfWar';
+import { processAITurn, processSingleFactionAITurn as runSingleFactionAITurn } from './ai';
+import { validatePlayerAction } from './validation';
+import { ActionRejectionCode } from '../../shared/types/actionValidationTypes';
+import { FactionController } from './types';
 
 export interface MultiplayerGameState extends GameState {
     humanFactions: FactionId[];
-    aiFaction: FactionId | null;
+    aiFactions: FactionId[]; // AI seats of the lobby, plus human factions handed over to the AI
     currentTurnFaction: FactionId;
     turnOrder: FactionId[];
     currentTurnIndex: number;
 }
 
+/**
+ * Turn order: humans first, then the AI factions (each group in the map's faction order)
+ * This ensures the game starts with a human player's turn. Closed factions never get a turn.
+ */
+export function getTurnOrderForMap(mapId: MapId, humanFactions: FactionId[], aiFactions: FactionId[]): FactionId[] {
+    const mapOrder = MapRegistry.getTurnOrder(mapId);
+    return [
+        ...mapOrder.filter(f => humanFactions.includes(f)),
+        ...mapOrder.filter(f => aiFactions.includes(f) && !humanFactions.includes(f))
+    ];
+}
+
 /**
  * Create initial multiplayer game state
  */
 export function createMultiplayerGameState(
     humanFactions: FactionId[],
-    aiFaction: FactionId | null
+    aiFactions: FactionId[],
+    mapId: MapId = 'larion_alternate',
+    seed?: number,
+    victoryConditions: VictoryCondition[] = resolveVictoryConditions(mapId),
+    aiDifficulties: Partial<Record<FactionId, AIDifficulty>> = {},
+    combatRuleset: CombatRuleset = resolveCombatRuleset(mapId),
+    treasuryRuleset: TreasuryRuleset = resolveTreasuryRuleset(mapId)
 ): MultiplayerGameState {
-    const baseState = createInitialState(FactionId.NEUTRAL);
+    const baseState = createInitialState(FactionId.NEUTRAL, mapId, seed);
 
     // Set up resources - humans get base, AI gets bonus
-    const multiplayerResources = {
-        [FactionId.REPUBLICANS]: {
-            gold: aiFaction === FactionId.REPUBLICANS ? INITIAL_AI_RESOURCES.REPUBLICANS : INITIAL_PLAYER_RESOURCES.REPUBLICANS
-        },
-        [FactionId.CONSPIRATORS]: {
-            gold: aiFaction === FactionId.CONSPIRATORS ? INITIAL_AI_RESOURCES.CONSPIRATORS : INITIAL_PLAYER_RESOURCES.CONSPIRATORS
-        },
-        [FactionId.NOBLES]: {
-            gold: aiFaction === FactionId.NOBLES ? INITIAL_AI_RESOURCES.NOBLES : INITIAL_PLAYER_RESOURCES.NOBLES
-        },
-        [FactionId.NEUTRAL]: { gold: 0 },
-        [FactionId.LOYALISTS]: { gold: 0 },
-        [FactionId.PRINCELY_ARMY]: { gold: 0 },
-        [FactionId.CONFEDERATE_CITIES]: { gold: 0 },
-        [FactionId.LARION_KNIGHTS]: { gold: 0 },
-        [FactionId.THYRAKAT_SULTANATE]: { gold: 0 },
-        [FactionId.LINEAGES_COUNCIL]: { gold: 0 },
-        [FactionId.OATH_COALITION]: { gold: 0 },
-        [FactionId.LARION_EXPEDITION]: { gold: 0 }
-    };
+    const multiplayerResources = getMapStartingResources(mapId, aiFactions, aiDifficulties);
 
-    // Turn order: humans first (in faction order), then AI last
-    // This ensures the game starts with a human player's turn
-    const standardOrder = [FactionId.REPUBLICANS, FactionId.CONSPIRATORS, FactionId.NOBLES];
-    const humanTurns = standardOrder.filter(f => humanFactions.includes(f));
-    const turnOrder = aiFaction ? [...humanTurns, aiFaction] : humanTurns;
+    const turnOrder = getTurnOrderForMap(mapId, humanFactions, aiFactions);
 
     // Calculate initial economy
     const calculatedLocations = calculateEconomyAndFood(
@@ -123,33 +137,90 @@ export function createMultiplayerGameState(
         playerFaction: FactionId.NEUTRAL, // Server doesn't have a "player"
         showStartScreen: false,
         humanFactions,
-        aiFaction,
+        aiFactions,
+        aiDifficulties,
         currentTurnFaction: turnOrder[0],
         turnOrder,
         currentTurnIndex: 0,
+        victoryConditions,
+        combatRuleset,
+        treasuryRuleset,
         logs: [{ id: 'mp_start', type: LogType.GAME_START, message: 'Multiplayer game started.', turn: 1, visibleToFactions: [] as FactionId[], baseSeverity: LogSeverity.INFO }]
     };
 }
 
+/**
+ * Where the gold a player action takes from the treasury is counted (default 'OTHER')
+ */
+const ACTION_SPENDING_CATEGORIES: Partial<Record<GameAction['type'], SpendingCategory>> = {
+    RECRUIT: 'RECRUITMENT',
+    CONSCRIPT: 'RECRUITMENT',
+    FORTIFY: 'FORTIFICATION',
+    INCITE: 'CLANDESTINE',
+    SEND_UNDERCOVER: 'CLANDESTINE',
+    UPDATE_LEADER_CLANDESTINE_ACTIONS: 'CLANDESTINE',
+    NEGOTIATE: 'DIPLOMACY',
+    RECRUIT_LEADER: 'LEADERS',
+    RECRUIT_NOBLES_LEADER: 'LEADERS',
+    APPOINT_GOVERNOR: 'GOVERNANCE',
+    SET_GOVERNOR_POLICIES: 'GOVERNANCE',
+    UPDATE_CITY_MANAGEMENT: 'GOVERNANCE',
+    CHOOSE_INTERNAL_FACTION: 'GOVERNANCE',
+    SEND_CONVOY: 'LOGISTICS',
+    SEND_NAVAL_CONVOY: 'LOGISTICS'
+};
+
 /**
  * Process a player action on the server
- * Returns the updated game state
+ * Returns the updated game state, or a rejection code when the action is refused
  */
 export function processPlayerAction(
     state: MultiplayerGameState,
     action: GameAction,
     playerFaction: FactionId
-): { success: boolean; newState: MultiplayerGameState; error?: string } {
+): { success: boolean; newState: MultiplayerGameState; error?: string; errorCode?: ActionRejectionCode } {
 
     // Validate it's this player's turn
     if (state.currentTurnFaction !== playerFaction) {
         return {
             success: false,
             newState: state,
-            error: `Not your turn. Current turn: ${FACTION_NAMES[state.currentTurnFaction]}`
+            error: `Not your turn. Current turn: ${FACTION_NAMES[state.currentTurnFaction]}`,
+            errorCode: ActionRejectionCode.NOT_YOUR_TURN
         };
     }
 
+    // Validate ownership, costs, reachability and per-turn limits before dispatch
+    const rejection = validatePlayerAction(state, action, playerFaction);
+    if (rejection) {
+        console.log(`[SERVER] Rejected ${action?.type} from ${playerFaction}: ${rejection.code} (${rejection.message})`);
+        return { success: false, newState: state, error: rejection.message, errorCode: rejection.code };
+    }
+
+    const { result, rng } = withRng(state.rng, () => dispatchPlayerAction(state, action, playerFaction));
+    if (!result.success && !result.errorCode) {
+        return { ...result, errorCode: ActionRejectionCode.ACTION_FAILED };
+    }
+    if (!result.success) return result;
+
+    const stats = recordTreasuryDrop(
+        result.newState.stats,
+        playerFaction,
+        ACTION_SPENDING_CATEGORIES[action.type] ?? 'OTHER',
+        state.resources[playerFaction]?.gold ?? 0,
+        result.newState.resources[playerFaction]?.gold ?? 0
+    );
+    return { ...result, newState: { ...result.newState, stats, ...(rng ? { rng } : {}) } };
+}
+
+/**
+ * Apply an already validated action through the shared execute* services
+ */
+function dispatchPlayerAction(
+    state: MultiplayerGameState,
+    action: GameAction,
+    playerFaction: FactionId
+): { success: boolean; newState: MultiplayerGameState; error?: string; errorCode?: ActionRejectionCode } {
     let updatedState = { ...state };
 
     switch (action.type) {
@@ -227,7 +298,10 @@ export function processPlayerAction(
         }
 
         case 'SEND_CONVOY': {
-            const result = executeSendConvoy(updatedState, action.locationId, action.amount, action.destinationId, playerFaction);
+            const result = executeSendConvoy(
+                updatedState, action.locationId, action.amount, action.destinationId, playerFaction, action.routePreference,
+                action.goldAmount
+            );
             if (!result.success) {
                 return { success: false, newState: state, error: result.error || 'Failed to send convoy' };
             }
@@ -236,7 +310,9 @@ export function processPlayerAction(
         }
 
         case 'SEND_NAVAL_CONVOY': {
-            const result = executeSendNavalConvoy(updatedState, action.locationId, action.amount, action.destinationId, playerFaction);
+            const result = executeSendNavalConvoy(
+                updatedState, action.locationId, action.amount, action.destinationId, playerFaction, action.goldAmount
+            );
             if (!result.success) {
                 return { success: false, newState: state, error: result.error || 'Failed to send naval convoy' };
             }
@@ -253,6 +329,15 @@ export function processPlayerAction(
             break;
         }
 
+        case 'EMBARK_ARMY': {
+            const result = executeEmbarkArmy(updatedState, action.armyId, action.destinationPortId, playerFaction);
+            if (!result.success) {
+                return { success: false, newState: state, error: result.error || 'Failed to embark army' };
+            }
+            updatedState = { ...updatedState, ...result.newState } as MultiplayerGameState;
+            break;
+        }
+
         case 'ATTACH_LEADER': {
             const result = executeAttachLeader(updatedState, action.armyId, action.characterId);
             if (!result.success) {
@@ -408,7 +493,7 @@ export function processPlayerAction(
             // Handle special effects (army creation for Duke of Esmarch)
             if (result.newArmy) {
                 const newArmy = {
-                    id: `army_${Date.now()}_${result.newArmy.leaderId}`,
+                    id: `army_${randomId()}_${result.newArmy.leaderId}`,
                     faction: playerFaction,
                     strength: result.newArmy.strength,
                     locationType: 'LOCATION' as const,
@@ -638,11 +723,22 @@ export function processPlayerAction(
         }
 
         default:
-            return { success: false, newState: state, error: `Unknown action type: ${(action as any).type}` };
+            return { success: false, newState: state, error: `Unknown action type: ${(action as any).type}`, errorCode: ActionRejectionCode.UNKNOWN_ACTION };
+    }
+
+    // An army sent onto a pact partner's ground breaks the pact, then fights
+    const breaches = detectAgreementBreaches(updatedState.agreements, updatedState.armies, updatedState.locations, updatedState.roads, updatedState.turn);
+    if (breaches.logs.length > 0) {
+        updatedState = {
+            ...updatedState,
+            agreements: breaches.agreements,
+            locations: breaches.locations,
+            logs: [...updatedState.logs, ...breaches.logs]
+        } as MultiplayerGameState;
     }
 
     // Check for battles after action
-    const battles = detectBattles(updatedState.locations, updatedState.armies, updatedState.roads);
+    const battles = detectBattles(updatedState.locations, updatedState.armies, updatedState.roads, updatedState.agreements);
     const relevantBattles = battles.filter(
         b => b.attackerFaction === playerFaction || b.defenderFaction === playerFaction
     );
@@ -680,7 +776,7 @@ export async function advanceTurn(
         try {
             processed = await processTurn({
                 ...updatedState,
-                playerFaction: state.aiFaction || FactionId.NEUTRAL, // Let AI faction be processed
+                playerFaction: state.aiFactions[0] || FactionId.NEUTRAL, // Let AI faction be processed
                 humanFactions: state.humanFactions // Pass human factions for correct battle filtering
             } as any);
         } catch (processTurnError: any) {
@@ -699,7 +795,7 @@ export async function advanceTurn(
         updatedState = {
             ...processed as MultiplayerGameState,
             humanFactions: state.humanFactions,
-            aiFaction: state.aiFaction,
+            aiFactions: state.aiFactions,
             turnOrder: state.turnOrder,
             currentTurnIndex: newIndex,
             currentTurnFaction: nextFaction
@@ -712,14 +808,90 @@ export async function advanceTurn(
         updatedState.currentTurnFaction = nextFaction;
     }
 
-    const isAITurn = nextFaction === state.aiFaction;
+    const isAITurn = state.aiFactions.includes(nextFaction);
     console.log(`[ADVANCE_TURN] Returning. isAITurn=${isAITurn}`);
 
     return { newState: updatedState, nextFaction, isAITurn };
 }
 
-// Re-export processAITurn and processSingleFactionAITurn from ./ai
-export { processAITurn, processSingleFactionAITurn } from './ai';
+// Re-export processAITurn from ./ai
+export { processAITurn } from './ai';
+
+/**
+ * Process a single AI faction's turn on the game's seeded RNG stream
+ */
+export function processSingleFactionAITurn<S extends GameState>(state: S, faction: FactionId): S {
+    return withGameRng(state, () => runSingleFactionAITurn(state, faction) as S);
+}
+
+/**
+ * Hand a faction over to the AI or give it back to its player.
+ * The faction keeps its place in the turn order; only who plays it changes.
+ */
+export function setFactionController(
+    state: MultiplayerGameState,
+    faction: FactionId,
+    controller: FactionController
+): MultiplayerGameState {
+    const humanFactions = state.humanFactions.filter(f => f !== faction);
+    const aiFactions = state.aiFactions.filter(f => f !== faction);
+    if (controller === 'AI') aiFactions.push(faction);
+    else humanFactions.push(faction);
+
+    const message = controller === 'AI'
+        ? `${FACTION_NAMES[faction]} is now led by the AI.`
+        : `${FACTION_NAMES[faction]} is back under its player's command.`;
+
+    return withGameRng(state, () => ({
+        ...state,
+        humanFactions,
+        aiFactions,
+        logs: [...state.logs, createGenericLog(message, state.turn)]
+    }));
+}
+
+/**
+ * Propose an agreement to another faction.
+ * Diplomacy is not a turn action: any player may propose or answer at any time.
+ */
+export function proposeAgreement(
+    state: MultiplayerGameState,
+    faction: FactionId,
+    proposal: AgreementProposal
+): { success: boolean; newState: MultiplayerGameState; error?: string } {
+    const { result, rng } = withRng(state.rng, () => proposeFactionAgreement(state, faction, proposal));
+    if (!result.success) return { success: false, newState: state, error: result.error };
+    return { success: true, newState: { ...(result.newState as MultiplayerGameState), ...(rng ? { rng } : {}) } };
+}
+
+/**
+ * Accept or reject an agreement proposed to `faction`
+ */
+export function answerAgreement(
+    state: MultiplayerGameState,
+    faction: FactionId,
+    agreementId: string,
+    accept: boolean
+): { success: boolean; newState: MultiplayerGameState; error?: string } {
+    const { result, rng } = withRng(state.rng, () => answerFactionAgreement(state, faction, agreementId, accept));
+    if (!result.success) return { success: false, newState: state, error: result.error };
+
+    // Gold handed over on acceptance counts as diplomacy spending
+    let stats = result.newState.stats;
+    (Object.keys(result.newState.resources) as FactionId[]).forEach(fid => {
+        stats = recordTreasuryDrop(stats, fid, 'DIPLOMACY', state.resources[fid]?.gold ?? 0, result.newState.resources[fid]?.gold ?? 0);
+    });
+    return { success: true, newState: { ...(result.newState as MultiplayerGameState), stats, ...(rng ? { rng } : {}) } };
+}
+
+/**
+ * States saved before AI takeover existed carry a single `aiFaction`
+ */
+export function ensureAIFactions<S extends MultiplayerGameState>(state: S): S {
+    if (!state || Array.isArray(state.aiFactions)) return state;
+    const { aiFaction, ...rest } = state as any;
+    return { ...rest, aiFactions: aiFaction ? [aiFaction] : [] };
+}
 
 /**
  * Extract state for client (removes server-only fields)
@@ -727,3 +899,10 @@ export { processAITurn, processSingleFactionAITurn } from './ai';
 export function getClientState(state: MultiplayerGameState): CoreGameState {
     return extractCoreState(state);
 }
+
+/**
+ * Extract state for a single player (fog of war applied for their faction)
+ */
+export function getFactionClientState(state: MultiplayerGameState, faction: FactionId): CoreGameState {
+    return projectStateForFaction(extractCoreState(state), faction);
+}
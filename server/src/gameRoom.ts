@@ -1,6 +1,48 @@
 // Game Room - Manages a single multiplayer game session
 
-import { FactionId, GameLobby, GameAction } from './types';
+import { randomBytes } from 'crypto';
+import { FactionId, GameLobby, GameAction, FactionController, ChatMessage } from './types';
+import {
+    GameStore,
+    InMemoryGameStore,
+    RoomSnapshot,
+    JournalStore,
+    InMemoryJournalStore,
+    GameJournal,
+    JournalEvent,
+    LogArchiveStore,
+    InMemoryLogArchiveStore,
+    GameReportStore,
+    InMemoryGameReportStore
+} from './infrastructure/persistence';
+import { getTurnOrderForMap, setFactionController, ensureAIFactions } from './gameLogic';
+import { createRngState } from '../../shared/services/rng';
+import { queryLogs, LogQuery, LogPage } from '../../shared/services/logs';
+import { captureSnapshot, buildGameReport, TurnSnapshot, GameReport } from '../../shared/services/tracker';
+
+// States restored from clients or saved before seeding existed get a fresh RNG stream
+const ensureSeeded = (gameState: any): any => {
+    return gameState && !gameState.rng ? { ...gameState, rng: createRngState() } : gameState;
+};
+
+// Placeholder socket of a player who has not rejoined a restored game yet
+const OFFLINE_SOCKET_PREFIX = 'offline:';
+
+// Secret a player presents to take their seat back (never broadcast)
+const newRejoinToken = (): string => randomBytes(16).toString('hex');
+
+// Oldest chat lines are dropped past this many
+const MAX_CHAT_HISTORY = 500;
+
+// Changes within this window are written in one snapshot
+const SAVE_DELAY_MS = 2000;
+
+// Rooms are dropped once nobody needs them (their journal, log archive and report stay as the game's archive)
+const FINISHED_ROOM_RETENTION_MS = 60 * 60 * 1000;             // Won games: 1 hour after the last event
+const ABANDONED_ROOM_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;   // Paused games (no player left): 7 days
+
+// Bring states saved by older servers up to date
+const upgradeState = (gameState: any): any => ensureAIFactions(ensureSeeded(gameState));
 
 // Simplified game state for server - full game logic will be imported from shared code
 // For now, we store the state as-is and broadcast changes
@@ -9,13 +51,28 @@ export interface GameRoom {
     gameState: any; // Will be CoreGameState from client
     turnOrder: FactionId[];
     currentTurnIndex: number;
-    playerFactions: Map<string, FactionId>; // socketId -> faction
-    aiFaction: FactionId | null;
+    playerFactions: Map<string, FactionId>; // socketId -> faction (kept while the AI plays it, for rejoin)
+    aiFactions: Set<FactionId>;             // Factions played by the AI: the lobby's AI seats and handed-over factions
+    rejoinTokens: Map<FactionId, string>;   // Human faction -> rejoin secret, only ever sent to that faction's player
     pendingCombat: PendingCombat | null;
     // Battle Resolution Phase tracking
     battlePhaseActive: boolean;
     battlePhaseTotal: number;    // Total battles when phase started
     battlePhaseResolved: number; // How many have been resolved
+    // Lobby the room was created from (same object as in LobbyManager, persisted for restore)
+    lobby: GameLobby | null;
+    // First spectator view of each recent turn, for delayed spectating (not persisted)
+    spectatorHistory: { turn: number; gameState: any }[];
+    chat: ChatMessage[];
+    // Metrics at the start of each turn, for the end-of-game report
+    turnSnapshots: TurnSnapshot[];
+    // End-of-game report, set once a winner is declared (persisted in the report store)
+    report: GameReport | null;
+    // Who already received the report (not persisted)
+    reportAnnounced: { players: boolean; spectators: boolean };
+    // No player left (every human faction handed to the AI, everyone gone, or just restored):
+    // no turn is played and no timer runs until a player rejoins
+    paused: boolean;
 }
 
 export interface PendingCombat {
@@ -29,6 +86,21 @@ export interface PendingCombat {
 
 export class GameRoomManager {
     private rooms: Map<string, GameRoom> = new Map();
+    private journalLengths: Map<string, number> = new Map(); // code -> next journal seq
+    private archivedLogIds: Map<string, Set<string>> = new Map(); // code -> ids already in the log archive
+    private lastActivity: Map<string, number> = new Map(); // code -> time of the last saved change
+    private pendingSaves: Map<string, NodeJS.Timeout> = new Map(); // code -> scheduled snapshot write
+    private roomDeletedListeners: ((code: string) => void)[] = [];   // Per-room state kept outside this manager
+
+    constructor(
+        private store: GameStore = new InMemoryGameStore(),
+        private journal: JournalStore = new InMemoryJournalStore(),
+        private logArchive: LogArchiveStore = new InMemoryLogArchiveStore(),
+        private reports: GameReportStore = new InMemoryGameReportStore()
+    ) {
+        // Drop finished and abandoned rooms every 5 minutes
+        setInterval(() => this.cleanupRooms(), 5 * 60 * 1000);
+    }
 
     createRoom(lobby: GameLobby, initialGameState: any): GameRoom {
         const playerFactions = new Map<string, FactionId>();
@@ -41,33 +113,39 @@ export class GameRoomManager {
             }
         }
 
-        // Determine AI faction (if 2 players)
-        let aiFaction: FactionId | null = null;
-        if (lobby.maxPlayers === 2) {
-            const allFactions = [FactionId.REPUBLICANS, FactionId.CONSPIRATORS, FactionId.NOBLES];
-            aiFaction = allFactions.find(f => !humanFactions.includes(f)) || null;
-        }
+        // AI seats chosen in the lobby (closed seats are played by nobody)
+        const aiFactions = lobby.seats.filter(s => s.type === 'AI').map(s => s.faction);
 
-        // Calculate turn order: humans first (in faction order), then AI
-        const factionOrder = [FactionId.REPUBLICANS, FactionId.CONSPIRATORS, FactionId.NOBLES];
-        const humanTurnOrder = factionOrder.filter(f => humanFactions.includes(f));
-        const turnOrder = aiFaction ? [...humanTurnOrder, aiFaction] : humanTurnOrder;
+        // Calculate turn order: humans first (in map faction order), then AI
+        const turnOrder = getTurnOrderForMap(lobby.mapId, humanFactions, aiFactions);
 
         const room: GameRoom = {
             code: lobby.code,
-            gameState: initialGameState,
+            gameState: upgradeState(initialGameState),
             turnOrder,
             currentTurnIndex: 0,
             playerFactions,
-            aiFaction,
+            aiFactions: new Set(aiFactions),
+            rejoinTokens: new Map(humanFactions.map(f => [f, newRejoinToken()])),
             pendingCombat: null,
             battlePhaseActive: false,
             battlePhaseTotal: 0,
-            battlePhaseResolved: 0
+            battlePhaseResolved: 0,
+            lobby,
+            spectatorHistory: [],
+            chat: [],
+            turnSnapshots: [],
+            report: null,
+            reportAnnounced: { players: false, spectators: false },
+            paused: false
         };
 
         this.rooms.set(lobby.code, room);
         console.log(`[GameRoom] Created: ${lobby.code} with turn order: ${turnOrder.join(' -> ')}`);
+        this.startGameReport(lobby.code);
+        this.saveRoom(lobby.code);
+        this.startJournal(lobby.code);
+        this.startLogArchive(lobby.code);
 
         return room;
     }
@@ -76,6 +154,10 @@ export class GameRoomManager {
         return this.rooms.get(code);
     }
 
+    getRoomCodes(): string[] {
+        return Array.from(this.rooms.keys());
+    }
+
     /**
      * Find gameCode for a socket ID by searching all rooms' playerFactions
      * This handles socket reconnection where socket.data.gameCode might be lost
@@ -104,12 +186,15 @@ export class GameRoomManager {
         const playerFaction = room.playerFactions.get(socketId);
 
         console.log(`[GameRoom] isPlayerTurn check: current=${currentFaction}, player=${playerFaction}, match=${playerFaction === currentFaction}`);
-        return playerFaction === currentFaction;
+        return playerFaction === currentFaction && !room.aiFactions.has(playerFaction);
     }
 
+    /**
+     * Socket playing a faction, or null when the AI plays it
+     */
     getSocketForFaction(code: string, faction: FactionId): string | null {
         const room = this.rooms.get(code);
-        if (!room) return null;
+        if (!room || room.aiFactions.has(faction)) return null;
 
         for (const [socketId, f] of room.playerFactions) {
             if (f === faction) return socketId;
@@ -138,7 +223,7 @@ export class GameRoomManager {
             room.gameState.turn = turnNumber;
         }
 
-        const isAITurn = newFaction === room.aiFaction;
+        const isAITurn = room.aiFactions.has(newFaction);
 
         console.log(`[GameRoom] ${code}: Turn advanced to ${newFaction} (AI: ${isAITurn})`);
 
@@ -242,8 +327,486 @@ export class GameRoomManager {
         };
     }
 
+    /**
+     * Point a faction at a new socket (rejoin after disconnect or server restart).
+     * Drops stale socket entries so getSocketForFaction never returns a dead socket.
+     */
+    rebindSocket(code: string, faction: FactionId, socketId: string): void {
+        const room = this.rooms.get(code);
+        if (!room) return;
+
+        for (const [oldSocketId, f] of Array.from(room.playerFactions)) {
+            if (f !== faction || oldSocketId === socketId) continue;
+            room.playerFactions.delete(oldSocketId);
+
+            // Pending combat keeps socket IDs too
+            if (room.pendingCombat?.attackerSocketId === oldSocketId) {
+                room.pendingCombat.attackerSocketId = socketId;
+            }
+            if (room.pendingCombat?.defenderSocketId === oldSocketId) {
+                room.pendingCombat.defenderSocketId = socketId;
+            }
+        }
+        room.playerFactions.set(socketId, faction);
+    }
+
+    // Rejoin tokens
+    /**
+     * Secret the player of a faction rejoins with.
+     * Seats of rooms saved before tokens existed get theirs on the first rejoin.
+     */
+    getRejoinToken(code: string, faction: FactionId): string | null {
+        const room = this.rooms.get(code);
+        if (!room) return null;
+
+        let token = room.rejoinTokens.get(faction);
+        if (!token) {
+            token = newRejoinToken();
+            room.rejoinTokens.set(faction, token);
+            this.saveRoom(code);
+        }
+        return token;
+    }
+
+    /**
+     * Whether a rejoin request presents the faction's secret (any request passes for a seat without one yet)
+     */
+    isRejoinTokenValid(code: string, faction: FactionId, token: string | undefined): boolean {
+        const expected = this.rooms.get(code)?.rejoinTokens.get(faction);
+        return expected === undefined || token === expected;
+    }
+
+    // AI takeover
+    isAIControlled(code: string, faction: FactionId): boolean {
+        return this.rooms.get(code)?.aiFactions.has(faction) ?? false;
+    }
+
+    /**
+     * Hand a human faction over to the AI, or give it back to its player.
+     * Updates the lobby seat and journals the change. Returns false if nothing changed.
+     */
+    setFactionController(code: string, faction: FactionId, controller: FactionController): boolean {
+        const room = this.rooms.get(code);
+        if (!room) return false;
+
+        const isHumanSeat = Array.from(room.playerFactions.values()).includes(faction);
+        if (!isHumanSeat || room.aiFactions.has(faction) === (controller === 'AI')) return false;
+
+        if (controller === 'AI') room.aiFactions.add(faction);
+        else room.aiFactions.delete(faction);
+
+        const seat = room.lobby?.players.find(p => p.faction === faction);
+        if (seat) seat.aiControlled = controller === 'AI';
+
+        const previousState = room.gameState;
+        room.gameState = setFactionController(previousState, faction, controller);
+        this.recordEvent(code, { type: 'CONTROL_CHANGED', faction, controller }, previousState);
+        this.saveRoom(code);
+
+        console.log(`[GameRoom] ${code}: ${faction} is now played by ${controller === 'AI' ? 'the AI' : 'its player'}`);
+        return true;
+    }
+
+    /**
+     * Whether a player (not the AI) still plays at least one faction
+     */
+    hasHumanPlayer(code: string): boolean {
+        const room = this.rooms.get(code);
+        if (!room) return false;
+        return Array.from(room.playerFactions.values()).some(f => !room.aiFactions.has(f));
+    }
+
+    /**
+     * Pause or resume a room. Returns false if nothing changed.
+     */
+    setPaused(code: string, paused: boolean): boolean {
+        const room = this.rooms.get(code);
+        if (!room || room.paused === paused) return false;
+
+        room.paused = paused;
+        console.log(`[GameRoom] ${code}: ${paused ? 'Paused, waiting for a player' : 'Resumed'}`);
+        return true;
+    }
+
+    // Chat
+    addChatMessage(code: string, message: ChatMessage): void {
+        const room = this.rooms.get(code);
+        if (!room) return;
+
+        room.chat.push(message);
+        if (room.chat.length > MAX_CHAT_HISTORY) {
+            room.chat.splice(0, room.chat.length - MAX_CHAT_HISTORY);
+        }
+        this.saveRoom(code);
+    }
+
+    /**
+     * Room-wide lines plus the private lines a faction sent or received
+     */
+    getChatHistory(code: string, faction: FactionId): ChatMessage[] {
+        const room = this.rooms.get(code);
+        if (!room) return [];
+
+        return room.chat.filter(m =>
+            m.toFaction === null || m.fromFaction === faction || m.toFaction === faction
+        );
+    }
+
+    // Persistence
+    /**
+     * Schedule a snapshot of the room: every change within SAVE_DELAY_MS is written at once
+     */
+    saveRoom(code: string): void {
+        if (!this.rooms.has(code)) return;
+
+        this.lastActivity.set(code, Date.now());
+        if (this.pendingSaves.has(code)) return;
+        this.pendingSaves.set(code, setTimeout(() => this.writeSnapshot(code), SAVE_DELAY_MS));
+    }
+
+    /**
+     * Write every scheduled snapshot now (before shutting down)
+     */
+    flushSaves(): void {
+        for (const code of Array.from(this.pendingSaves.keys())) {
+            this.writeSnapshot(code);
+        }
+    }
+
+    /**
+     * Snapshot a room into the store. Never throws - a failed write must not break the game.
+     */
+    private writeSnapshot(code: string): void {
+        this.cancelSave(code);
+        const room = this.rooms.get(code);
+        if (!room) return;
+
+        const snapshot: RoomSnapshot = {
+            code: room.code,
+            savedAt: Date.now(),
+            gameState: room.gameState,
+            turnOrder: room.turnOrder,
+            currentTurnIndex: room.currentTurnIndex,
+            playerFactions: Array.from(room.playerFactions.entries()),
+            aiFactions: Array.from(room.aiFactions),
+            rejoinTokens: Array.from(room.rejoinTokens.entries()),
+            pendingCombat: room.pendingCombat,
+            battlePhaseActive: room.battlePhaseActive,
+            battlePhaseTotal: room.battlePhaseTotal,
+            battlePhaseResolved: room.battlePhaseResolved,
+            lobby: room.lobby,
+            chat: room.chat,
+            turnSnapshots: room.turnSnapshots
+        };
+
+        try {
+            this.store.save(snapshot);
+        } catch (err: any) {
+            console.error(`[GameRoom] ${code}: Failed to persist room (${this.store.kind}):`, err?.message);
+        }
+    }
+
+    private cancelSave(code: string): void {
+        const timer = this.pendingSaves.get(code);
+        if (timer) clearTimeout(timer);
+        this.pendingSaves.delete(code);
+    }
+
+    // Journal
+    /**
+     * Start the room's journal from its current state (replaces any previous journal)
+     */
+    startJournal(code: string): void {
+        const room = this.rooms.get(code);
+        if (!room) return;
+
+        try {
+            this.journal.start(code, room.gameState);
+            this.journalLengths.set(code, 0);
+        } catch (err: any) {
+            console.error(`[GameRoom] ${code}: Failed to start journal (${this.journal.kind}):`, err?.message);
+        }
+    }
+
+    /**
+     * Append a state transition to the room's journal. Call right after applying it:
+     * `before` is the state the event was applied to, room.gameState the result.
+     * Never throws - a failed write must not break the game.
+     */
+    recordEvent(code: string, event: JournalEvent, before: any): void {
+        const room = this.rooms.get(code);
+        if (!room) return;
+
+        try {
+            let seq = this.journalLengths.get(code);
+            if (seq === undefined) {
+                // First event since boot - continue the persisted journal
+                seq = this.journal.load(code)?.entries.length ?? 0;
+            }
+
+            this.journal.append(code, {
+                seq,
+                recordedAt: Date.now(),
+                event,
+                combatState: before.combatState ?? null,
+                combatQueue: before.combatQueue ?? [],
+                result: {
+                    turn: room.gameState.turn,
+                    currentTurnFaction: room.gameState.currentTurnFaction,
+                    rngState: room.gameState.rng?.state ?? null
+                }
+            });
+            this.journalLengths.set(code, seq + 1);
+        } catch (err: any) {
+            console.error(`[GameRoom] ${code}: Failed to record ${event.type} (${this.journal.kind}):`, err?.message);
+        }
+
+        this.archiveLogs(code);
+        this.recordTurnSnapshot(code);
+        this.finishGameReport(code);
+    }
+
+    /**
+     * Full journal of a room, including rooms that no longer exist
+     */
+    getJournal(code: string): GameJournal | null {
+        try {
+            return this.journal.load(code);
+        } catch (err: any) {
+            console.error(`[GameRoom] ${code}: Failed to load journal (${this.journal.kind}):`, err?.message);
+            return null;
+        }
+    }
+
+    // Log archive
+    /**
+     * Start the room's log archive from its current logs (replaces any previous archive)
+     */
+    startLogArchive(code: string): void {
+        try {
+            this.logArchive.clear(code);
+            this.archivedLogIds.set(code, new Set());
+        } catch (err: any) {
+            console.error(`[GameRoom] ${code}: Failed to start log archive (${this.logArchive.kind}):`, err?.message);
+        }
+        this.archiveLogs(code);
+    }
+
+    /**
+     * Archive the room's logs that are not archived yet. Runs after every recorded event,
+     * before the live window drops them. Never throws - a failed write must not break the game.
+     */
+    archiveLogs(code: string): void {
+        const room = this.rooms.get(code);
+        if (!room?.gameState?.logs) return;
+
+        try {
+            let archived = this.archivedLogIds.get(code);
+            if (!archived) {
+                // First archive since boot - continue the persisted archive
+                archived = new Set(this.logArchive.load(code).map(log => log.id));
+                this.archivedLogIds.set(code, archived);
+            }
+
+            const fresh = room.gameState.logs.filter((log: any) => !archived!.has(log.id));
+            if (fresh.length === 0) return;
+
+            this.logArchive.append(code, fresh);
+            fresh.forEach((log: any) => archived!.add(log.id));
+        } catch (err: any) {
+            console.error(`[GameRoom] ${code}: Failed to archive logs (${this.logArchive.kind}):`, err?.message);
+        }
+    }
+
+    /**
+     * One page of a room's full chronicle, including rooms that no longer exist
+     */
+    getLogArchive(code: string, query: LogQuery): LogPage {
+        this.archiveLogs(code);
+        try {
+            return queryLogs(this.logArchive.load(code), query);
+        } catch (err: any) {
+            console.error(`[GameRoom] ${code}: Failed to load log archive (${this.logArchive.kind}):`, err?.message);
+            return queryLogs([], query);
+        }
+    }
+
+    // End-of-game report
+    /**
+     * Start collecting turn snapshots from the room's current state (drops any previous report)
+     */
+    startGameReport(code: string): void {
+        try {
+            this.reports.delete(code);
+        } catch (err: any) {
+            console.error(`[GameRoom] ${code}: Failed to clear game report (${this.reports.kind}):`, err?.message);
+        }
+        this.recordTurnSnapshot(code);
+    }
+
+    /**
+     * Snapshot the room's metrics on the first event of each turn
+     */
+    recordTurnSnapshot(code: string): void {
+        const room = this.rooms.get(code);
+        if (!room?.gameState || room.report) return;
+
+        const last = room.turnSnapshots[room.turnSnapshots.length - 1];
+        if (last && last.turn >= room.gameState.turn) return;
+
+        try {
+            room.turnSnapshots.push(captureSnapshot(room.gameState));
+        } catch (err: any) {
+            console.error(`[GameRoom] ${code}: Failed to capture turn snapshot:`, err?.message);
+        }
+    }
+
+    /**
+     * Build and persist the end-of-game report once a winner is declared.
+     * Never throws - a failed write must not break the game.
+     */
+    finishGameReport(code: string): void {
+        const room = this.rooms.get(code);
+        if (!room?.gameState?.victory || room.report) return;
+
+        try {
+            room.report = buildGameReport(room.gameState, room.turnSnapshots);
+        } catch (err: any) {
+            console.error(`[GameRoom] ${code}: Failed to build game report:`, err?.message);
+            return;
+        }
+        if (!room.report) return;
+
+        console.log(`[GameRoom] ${code}: Game over on turn ${room.report.turn}, report ready`);
+        try {
+            this.reports.save(code, room.report);
+        } catch (err: any) {
+            console.error(`[GameRoom] ${code}: Failed to persist game report (${this.reports.kind}):`, err?.message);
+        }
+    }
+
+    /**
+     * End-of-game report of a room, including rooms that no longer exist
+     */
+    getGameReport(code: string): GameReport | null {
+        const room = this.rooms.get(code);
+        if (room?.report) return room.report;
+        try {
+            return this.reports.load(code);
+        } catch (err: any) {
+            console.error(`[GameRoom] ${code}: Failed to load game report (${this.reports.kind}):`, err?.message);
+            return null;
+        }
+    }
+
+    /**
+     * Rebuild a room from a persisted snapshot
+     */
+    restoreRoom(snapshot: RoomSnapshot, lobby: GameLobby | null): GameRoom {
+        // Players of a game that ended before the restart already got its report
+        const report = this.getGameReport(snapshot.code);
+
+        // Sockets of the last run are gone: players count as not yet reconnected until they rejoin
+        const socketFactions = new Map(snapshot.playerFactions);
+        const offline = (socketId: string): string => {
+            const faction = socketFactions.get(socketId);
+            return faction ? `${OFFLINE_SOCKET_PREFIX}${faction}` : socketId;
+        };
+        const pendingCombat = snapshot.pendingCombat && {
+            ...snapshot.pendingCombat,
+            attackerSocketId: offline(snapshot.pendingCombat.attackerSocketId),
+            defenderSocketId: snapshot.pendingCombat.defenderSocketId && offline(snapshot.pendingCombat.defenderSocketId)
+        };
+
+        const room: GameRoom = {
+            code: snapshot.code,
+            gameState: upgradeState(snapshot.gameState),
+            turnOrder: snapshot.turnOrder,
+            currentTurnIndex: snapshot.currentTurnIndex,
+            playerFactions: new Map(snapshot.playerFactions.map(([socketId, faction]) => [offline(socketId), faction])),
+            aiFactions: new Set(snapshot.aiFactions ?? (snapshot.aiFaction ? [snapshot.aiFaction] : [])),
+            rejoinTokens: new Map(snapshot.rejoinTokens ?? []),
+            pendingCombat,
+            battlePhaseActive: snapshot.battlePhaseActive,
+            battlePhaseTotal: snapshot.battlePhaseTotal,
+            battlePhaseResolved: snapshot.battlePhaseResolved,
+            lobby,
+            spectatorHistory: [],
+            chat: snapshot.chat ?? [],
+            turnSnapshots: snapshot.turnSnapshots ?? [],
+            report,
+            reportAnnounced: { players: !!report, spectators: !!report },
+            paused: true // Until the first player rejoins
+        };
+
+        this.rooms.set(room.code, room);
+        this.lastActivity.set(room.code, snapshot.savedAt);
+        console.log(`[GameRoom] Restored: ${room.code} (turn ${room.gameState?.turn}, saved ${new Date(snapshot.savedAt).toISOString()})`);
+        return room;
+    }
+
+    /**
+     * All snapshots currently held by the store (used on boot)
+     */
+    loadSnapshots(): RoomSnapshot[] {
+        try {
+            return this.store.loadAll();
+        } catch (err: any) {
+            console.error(`[GameRoom] Failed to load snapshots (${this.store.kind}):`, err?.message);
+            return [];
+        }
+    }
+
+    /**
+     * Whether a snapshot is past its retention and must not be reloaded
+     */
+    isSnapshotExpired(snapshot: RoomSnapshot, now: number = Date.now()): boolean {
+        return !!snapshot.gameState?.victory || now - snapshot.savedAt > ABANDONED_ROOM_RETENTION_MS;
+    }
+
+    /**
+     * Remove a snapshot from the store without touching the game's archive
+     */
+    discardSnapshot(code: string): void {
+        try {
+            this.store.delete(code);
+        } catch (err: any) {
+            console.error(`[GameRoom] ${code}: Failed to delete snapshot:`, err?.message);
+        }
+    }
+
+    /**
+     * Delete won rooms once their players had time to look at the result,
+     * and paused rooms nobody came back to
+     */
+    cleanupRooms(now: number = Date.now()): void {
+        for (const room of Array.from(this.rooms.values())) {
+            const idle = now - (this.lastActivity.get(room.code) ?? now);
+            const expired = room.gameState?.victory
+                ? idle > FINISHED_ROOM_RETENTION_MS
+                : room.paused && idle > ABANDONED_ROOM_RETENTION_MS;
+            if (expired) {
+                console.log(`[GameRoom] ${room.code}: ${room.gameState?.victory ? 'Finished' : 'Abandoned'}, cleaning up`);
+                this.deleteRoom(room.code);
+            }
+        }
+    }
+
+    /**
+     * Be told when a room is deleted, to drop state kept for it elsewhere (e.g. turn timers)
+     */
+    onRoomDeleted(listener: (code: string) => void): void {
+        this.roomDeletedListeners.push(listener);
+    }
+
     deleteRoom(code: string): void {
         this.rooms.delete(code);
+        this.journalLengths.delete(code);
+        this.archivedLogIds.delete(code);
+        this.lastActivity.delete(code);
+        this.cancelSave(code);
+        this.roomDeletedListeners.forEach(listener => listener(code));
+        this.discardSnapshot(code);
         console.log(`[GameRoom] Deleted: ${code}`);
     }
 }
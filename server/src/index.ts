@@ -13,18 +13,30 @@ import {
 } from './types';
 import { LobbyManager } from './lobbyManager';
 import { GameRoomManager } from './gameRoom';
+import { TurnTimerManager } from './turnTimers';
 import { LobbyService, GameService, CombatService } from './application';
-import { registerSocketHandlers } from './infrastructure/socket';
+import { registerSocketHandlers, registerTimerHandlers } from './infrastructure/socket';
+import { createGameStore, createJournalStore, createLogArchiveStore, createGameReportStore } from './infrastructure/persistence';
+import { handleJournalRequest, handleReportRequest } from './infrastructure/http';
+import { loadMapDirectory, reportMapIssues } from './infrastructure/maps';
 
 // Configuration
 const PORT = process.env.PORT || 3001;
 const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+// Directory for game snapshots; set GAME_STORE_DIR='' to keep games in memory only
+const GAME_STORE_DIR = process.env.GAME_STORE_DIR ?? './data/games';
+// Directory of extra JSON map files (see shared/maps/format); unset to play the built-in maps only
+const MAPS_DIR = process.env.MAPS_DIR;
 
-// Simple HTTP server with health check endpoint
+// Simple HTTP server with health check and game journal endpoints
 const httpServer = createServer((req: IncomingMessage, res: ServerResponse) => {
     if (req.url === '/health') {
         res.writeHead(200);
         res.end('OK');
+    } else if (handleJournalRequest(req, res, gameRoomManager, MAPS_DIR)) {
+        // Handled (possibly asynchronously for replays)
+    } else if (handleReportRequest(req, res, gameRoomManager)) {
+        // Handled
     } else {
         res.writeHead(404);
         res.end('Not found');
@@ -45,15 +57,35 @@ const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEve
     maxHttpBufferSize: 1e6   // 1MB
 });
 
+// Register map files before anything creates lobbies or restores games on them
+const loadedMaps = loadMapDirectory(MAPS_DIR);
+const brokenMaps = reportMapIssues();
+console.log(`[Maps] ${loadedMaps} map file(s) loaded, ${brokenMaps} map(s) with errors`);
+
 // Initialize managers (data layer)
+const gameStore = createGameStore(GAME_STORE_DIR);
+const journalStore = createJournalStore(GAME_STORE_DIR);
+const logArchiveStore = createLogArchiveStore(GAME_STORE_DIR);
+const gameReportStore = createGameReportStore(GAME_STORE_DIR);
 const lobbyManager = new LobbyManager();
-const gameRoomManager = new GameRoomManager();
+const gameRoomManager = new GameRoomManager(gameStore, journalStore, logArchiveStore, gameReportStore);
+gameRoomManager.onRoomDeleted(code => lobbyManager.removeLobby(code));
+const turnTimers = new TurnTimerManager(gameRoomManager);
+registerTimerHandlers(io, turnTimers, gameRoomManager);
 
 // Initialize services (application layer)
 const lobbyService = new LobbyService(lobbyManager, gameRoomManager);
 const gameService = new GameService(gameRoomManager);
 const combatService = new CombatService(gameRoomManager);
 
+// Reload games that were running before the last shutdown
+const restoredGames = lobbyService.restorePersistedGames();
+console.log(`[Persistence] Store: ${gameStore.kind}, restored ${restoredGames} game(s)`);
+// Restored rooms stay paused until a player rejoins: nobody is handed to the AI meanwhile
+for (const code of gameRoomManager.getRoomCodes()) {
+    turnTimers.refresh(code);
+}
+
 // Global error handlers to prevent server crashes
 process.on('uncaughtException', (error) => {
     console.error('=== UNCAUGHT EXCEPTION ===');
@@ -72,6 +104,14 @@ process.on('unhandledRejection', (reason, promise) => {
     // Don't exit - try to keep server alive
 });
 
+// Write the snapshots still waiting for their save delay before stopping
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+        gameRoomManager.flushSaves();
+        process.exit(0);
+    });
+}
+
 // Memory usage logging - helps diagnose OOM kills
 setInterval(() => {
     const used = process.memoryUsage();
@@ -103,7 +143,8 @@ io.on('connection', (socket) => {
         gameRoomManager,
         lobbyService,
         gameService,
-        combatService
+        combatService,
+        turnTimers
     });
 });
 
@@ -0,0 +1,6 @@
+/**
+ * HTTP Infrastructure - Main Export
+ */
+
+export { handleJournalRequest } from './journalRoutes';
+export { handleReportRequest } from './reportRoutes';
@@ -0,0 +1,103 @@
+/**
+ * Journal HTTP Routes
+ * GET /games/:code/journal          - raw journal (initial state + entries)
+ * GET /games/:code/replay?turn=N    - state rebuilt from the journal at the start of turn N
+ *
+ * Journals contain the unfogged state, so they are only served once a game is
+ * finished (victory): still running here, or known by its end-of-game report.
+ * Replays run on worker threads and are rate-limited per client address.
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { GameRoomManager } from '../../gameRoom';
+import { replayFinishedGame } from '../../replay';
+
+const JOURNAL_ROUTE = /^\/games\/([A-Za-z0-9_-]+)\/(journal|replay)$/;
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const RATE_LIMIT_REQUESTS = 10; // Per client address and window
+
+// Client address -> requests in the current window
+const rateLimits = new Map<string, { windowStart: number; requests: number }>();
+
+/**
+ * Count a request from a client. Returns false once the client is over its limit.
+ */
+function allowRequest(address: string, now: number = Date.now()): boolean {
+    let entry = rateLimits.get(address);
+    if (!entry || now - entry.windowStart >= RATE_LIMIT_WINDOW_MS) {
+        // Forget clients whose window is over before adding one
+        for (const [key, value] of rateLimits) {
+            if (now - value.windowStart >= RATE_LIMIT_WINDOW_MS) rateLimits.delete(key);
+        }
+        entry = { windowStart: now, requests: 0 };
+        rateLimits.set(address, entry);
+    }
+    entry.requests++;
+    return entry.requests <= RATE_LIMIT_REQUESTS;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Handle a journal request. Returns false when the URL is not a journal route.
+ */
+export function handleJournalRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    gameRoomManager: GameRoomManager,
+    mapsDir?: string
+): boolean {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const match = JOURNAL_ROUTE.exec(url.pathname);
+    if (!match || req.method !== 'GET') return false;
+
+    const [, code, resource] = match;
+
+    if (!allowRequest(req.socket.remoteAddress || 'unknown')) {
+        sendJson(res, 429, { error: 'Too many requests, try again later' });
+        return true;
+    }
+
+    const room = gameRoomManager.getRoom(code);
+    const finished = room ? !!room.gameState?.victory : gameRoomManager.getGameReport(code) !== null;
+    if (!finished) {
+        sendJson(res, 403, { error: 'Game is not finished' });
+        return true;
+    }
+
+    const journal = gameRoomManager.getJournal(code);
+    if (!journal) {
+        sendJson(res, 404, { error: `No journal for game ${code}` });
+        return true;
+    }
+
+    if (resource === 'journal') {
+        sendJson(res, 200, journal);
+        return true;
+    }
+
+    const turnParam = url.searchParams.get('turn');
+    const untilTurn = turnParam !== null ? Number(turnParam) : undefined;
+    if (untilTurn !== undefined && !Number.isInteger(untilTurn)) {
+        sendJson(res, 400, { error: 'turn must be an integer' });
+        return true;
+    }
+
+    const replay = replayFinishedGame(journal, { untilTurn }, mapsDir);
+    if (!replay) {
+        sendJson(res, 503, { error: 'Replays are busy, try again later' });
+        return true;
+    }
+
+    replay
+        .then(result => sendJson(res, 200, result))
+        .catch((err: any) => {
+            console.error(`[Replay] ${code}: Replay failed:`, err);
+            sendJson(res, 500, { error: `Replay failed: ${err?.message}` });
+        });
+    return true;
+}
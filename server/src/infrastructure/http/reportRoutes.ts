@@ -0,0 +1,39 @@
+/**
+ * Game Report HTTP Routes
+ * GET /games/:code/report           - end-of-game report of a finished game
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { GameRoomManager } from '../../gameRoom';
+
+const REPORT_ROUTE = /^\/games\/([A-Za-z0-9_-]+)\/report$/;
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Handle a report request. Returns false when the URL is not a report route.
+ */
+export function handleReportRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    gameRoomManager: GameRoomManager
+): boolean {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const match = REPORT_ROUTE.exec(url.pathname);
+    if (!match || req.method !== 'GET') return false;
+
+    const [, code] = match;
+
+    // Reports only exist once a winner is declared, so they never leak a running game
+    const report = gameRoomManager.getGameReport(code);
+    if (!report) {
+        sendJson(res, 404, { error: `No report for game ${code}` });
+        return true;
+    }
+
+    sendJson(res, 200, report);
+    return true;
+}
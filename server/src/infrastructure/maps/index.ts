@@ -0,0 +1,5 @@
+/**
+ * Maps Infrastructure - Main Export
+ */
+
+export { loadMapDirectory, reportMapIssues } from './mapFiles';
@@ -0,0 +1,63 @@
+/**
+ * Map Files
+ * Loads JSON map files from a directory on boot and reports integrity issues of every map
+ * The map format is JSON only: YAML files are skipped with a warning
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MapRegistry } from '../../../../shared/maps/MapRegistry';
+import { hasMapData } from '../../../../shared/data/maps';
+import { loadMapFile, validateRegisteredMap, MapValidationIssue } from '../../../../shared/maps/format';
+
+const MAP_FILE_EXTENSION = '.json';
+
+const logIssues = (mapId: string, issues: MapValidationIssue[]): void => {
+    for (const issue of issues) {
+        const log = issue.severity === 'ERROR' ? console.error : console.warn;
+        log(`[Maps] ${mapId}: ${issue.severity} ${issue.code} - ${issue.message}`);
+    }
+};
+
+/**
+ * Register every map file of a directory
+ * @returns Number of maps loaded
+ */
+export function loadMapDirectory(directory: string | undefined): number {
+    if (!directory || !fs.existsSync(directory)) return 0;
+
+    let loaded = 0;
+    for (const entry of fs.readdirSync(directory).sort()) {
+        if (/\.ya?ml$/.test(entry)) {
+            console.warn(`[Maps] Skipped ${path.join(directory, entry)}: YAML map files are not supported, convert it to JSON`);
+        }
+        if (!entry.endsWith(MAP_FILE_EXTENSION)) continue;
+
+        const file = path.join(directory, entry);
+        const result = loadMapFile(fs.readFileSync(file, 'utf8'));
+        logIssues(entry, result.issues);
+
+        if (!result.success || !result.definition) {
+            console.error(`[Maps] Skipped ${file}: ${result.error}`);
+            continue;
+        }
+        console.log(`[Maps] Loaded ${result.definition.id} from ${file}`);
+        loaded++;
+    }
+    return loaded;
+}
+
+/**
+ * Validate every playable map offered in lobbies and log what is wrong with them
+ * @returns Number of maps with at least one error
+ */
+export function reportMapIssues(): number {
+    let broken = 0;
+    for (const { id } of MapRegistry.getAvailableMaps()) {
+        if (!hasMapData(id)) continue;
+        const issues = validateRegisteredMap(id);
+        logIssues(id, issues);
+        if (issues.some(i => i.severity === 'ERROR')) broken++;
+    }
+    return broken;
+}
@@ -0,0 +1,47 @@
+/**
+ * File Game Report Store
+ * One JSON file per finished room
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameReport } from '../../../../shared/types';
+import { GameReportStore } from './GameReportStore';
+
+const REPORT_EXTENSION = '.report.json';
+
+export class FileGameReportStore implements GameReportStore {
+    readonly kind = 'file';
+
+    constructor(private directory: string) {
+        fs.mkdirSync(directory, { recursive: true });
+    }
+
+    private fileFor(code: string): string {
+        const safeCode = code.replace(/[^A-Za-z0-9_-]/g, '_');
+        return path.join(this.directory, `${safeCode}${REPORT_EXTENSION}`);
+    }
+
+    save(code: string, report: GameReport): void {
+        const target = this.fileFor(code);
+        const temp = `${target}.tmp`;
+        fs.writeFileSync(temp, JSON.stringify(report));
+        fs.renameSync(temp, target);
+    }
+
+    load(code: string): GameReport | null {
+        const file = this.fileFor(code);
+        if (!fs.existsSync(file)) return null;
+
+        try {
+            return JSON.parse(fs.readFileSync(file, 'utf8'));
+        } catch (err: any) {
+            console.error(`[FileGameReportStore] Corrupted report ${file}: ${err?.message}`);
+            return null;
+        }
+    }
+
+    delete(code: string): void {
+        fs.rmSync(this.fileFor(code), { force: true });
+    }
+}
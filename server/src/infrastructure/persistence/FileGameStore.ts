@@ -0,0 +1,59 @@
+/**
+ * File Game Store
+ * Persists one JSON snapshot per room in a directory (atomic write via temp file + rename)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameStore, RoomSnapshot } from './GameStore';
+
+const SNAPSHOT_EXTENSION = '.json';
+
+export class FileGameStore implements GameStore {
+    readonly kind = 'file';
+
+    constructor(private directory: string) {
+        fs.mkdirSync(directory, { recursive: true });
+    }
+
+    private fileFor(code: string): string {
+        // Game codes are generated server-side, but sanitize anyway - codes come back from clients
+        const safeCode = code.replace(/[^A-Za-z0-9_-]/g, '_');
+        return path.join(this.directory, `${safeCode}${SNAPSHOT_EXTENSION}`);
+    }
+
+    save(snapshot: RoomSnapshot): void {
+        const target = this.fileFor(snapshot.code);
+        const temp = `${target}.tmp`;
+        fs.writeFileSync(temp, JSON.stringify(snapshot));
+        fs.renameSync(temp, target);
+    }
+
+    load(code: string): RoomSnapshot | null {
+        const file = this.fileFor(code);
+        if (!fs.existsSync(file)) return null;
+        try {
+            return JSON.parse(fs.readFileSync(file, 'utf8'));
+        } catch (err: any) {
+            console.error(`[FileGameStore] Corrupted snapshot ${file}: ${err?.message}`);
+            return null;
+        }
+    }
+
+    loadAll(): RoomSnapshot[] {
+        const snapshots: RoomSnapshot[] = [];
+        for (const entry of fs.readdirSync(this.directory)) {
+            if (!entry.endsWith(SNAPSHOT_EXTENSION)) continue;
+            const snapshot = this.load(entry.slice(0, -SNAPSHOT_EXTENSION.length));
+            if (snapshot) snapshots.push(snapshot);
+        }
+        return snapshots;
+    }
+
+    delete(code: string): void {
+        const file = this.fileFor(code);
+        if (fs.existsSync(file)) {
+            fs.unlinkSync(file);
+        }
+    }
+}
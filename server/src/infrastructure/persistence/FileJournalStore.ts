@@ -0,0 +1,61 @@
+/**
+ * File Journal Store
+ * One JSON Lines file per room: a header line with the initial state, then one line per entry
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameJournal, JournalEntry, JournalStore } from './JournalStore';
+
+const JOURNAL_EXTENSION = '.journal.jsonl';
+
+export class FileJournalStore implements JournalStore {
+    readonly kind = 'file';
+
+    constructor(private directory: string) {
+        fs.mkdirSync(directory, { recursive: true });
+    }
+
+    private fileFor(code: string): string {
+        const safeCode = code.replace(/[^A-Za-z0-9_-]/g, '_');
+        return path.join(this.directory, `${safeCode}${JOURNAL_EXTENSION}`);
+    }
+
+    start(code: string, initialState: any): void {
+        const header = { code, startedAt: Date.now(), initialState };
+        fs.writeFileSync(this.fileFor(code), JSON.stringify(header) + '\n');
+    }
+
+    append(code: string, entry: JournalEntry): void {
+        fs.appendFileSync(this.fileFor(code), JSON.stringify(entry) + '\n');
+    }
+
+    load(code: string): GameJournal | null {
+        const file = this.fileFor(code);
+        if (!fs.existsSync(file)) return null;
+
+        const lines = fs.readFileSync(file, 'utf8').split('\n').filter(line => line.length > 0);
+        if (lines.length === 0) return null;
+
+        let header: Omit<GameJournal, 'entries'>;
+        try {
+            header = JSON.parse(lines[0]);
+        } catch (err: any) {
+            console.error(`[FileJournalStore] Corrupted journal header ${file}: ${err?.message}`);
+            return null;
+        }
+
+        const entries: JournalEntry[] = [];
+        for (let i = 1; i < lines.length; i++) {
+            try {
+                entries.push(JSON.parse(lines[i]));
+            } catch (err: any) {
+                // A crash mid-append leaves a truncated last line - keep everything before it
+                console.error(`[FileJournalStore] ${code}: Dropping unreadable entry at line ${i + 1}: ${err?.message}`);
+                break;
+            }
+        }
+
+        return { ...header, entries };
+    }
+}
@@ -0,0 +1,19 @@
+/**
+ * Game Report Store - Persistence Port
+ * End-of-game report of each finished room, kept next to its journal and log archive
+ */
+
+import { GameReport } from '../../../../shared/types';
+
+/**
+ * Storage contract - one report per room, written once when the game ends
+ */
+export interface GameReportStore {
+    /** Human-readable backend name for logs */
+    readonly kind: string;
+    save(code: string, report: GameReport): void;
+    /** The room's report, or null when the game has not ended (or the room is unknown) */
+    load(code: string): GameReport | null;
+    /** Drop a room's report (a new game starts under that code) */
+    delete(code: string): void;
+}
@@ -0,0 +1,42 @@
+/**
+ * Game Store - Persistence Port
+ * Defines the snapshot format and the storage contract used to survive server restarts
+ */
+
+import { FactionId, GameLobby, ChatMessage } from '../../types';
+import { TurnSnapshot } from '../../../../shared/types';
+import { PendingCombat } from '../../gameRoom';
+
+/**
+ * Serializable snapshot of a GameRoom (Maps flattened to entries)
+ */
+export interface RoomSnapshot {
+    code: string;
+    savedAt: number;
+    gameState: any;
+    turnOrder: FactionId[];
+    currentTurnIndex: number;
+    playerFactions: [string, FactionId][]; // [socketId, faction]
+    aiFactions: FactionId[];
+    aiFaction?: FactionId | null; // Snapshots saved before AI takeover existed
+    rejoinTokens?: [FactionId, string][]; // Missing in snapshots saved before rejoin tokens existed
+    pendingCombat: PendingCombat | null;
+    battlePhaseActive: boolean;
+    battlePhaseTotal: number;
+    battlePhaseResolved: number;
+    lobby: GameLobby | null;
+    chat?: ChatMessage[]; // Missing in snapshots saved before chat existed
+    turnSnapshots?: TurnSnapshot[]; // Missing in snapshots saved before game reports existed
+}
+
+/**
+ * Storage contract - GameRoomManager batches saves, at most one per room every few seconds
+ */
+export interface GameStore {
+    /** Human-readable backend name for logs */
+    readonly kind: string;
+    save(snapshot: RoomSnapshot): void;
+    load(code: string): RoomSnapshot | null;
+    loadAll(): RoomSnapshot[];
+    delete(code: string): void;
+}
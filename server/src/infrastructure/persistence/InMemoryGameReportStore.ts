@@ -0,0 +1,25 @@
+/**
+ * In-Memory Game Report Store
+ * Fallback backend when no writable storage is available (reports are lost on restart)
+ */
+
+import { GameReport } from '../../../../shared/types';
+import { GameReportStore } from './GameReportStore';
+
+export class InMemoryGameReportStore implements GameReportStore {
+    readonly kind = 'memory';
+    private reports: Map<string, string> = new Map(); // code -> serialized report
+
+    save(code: string, report: GameReport): void {
+        this.reports.set(code, JSON.stringify(report));
+    }
+
+    load(code: string): GameReport | null {
+        const raw = this.reports.get(code);
+        return raw ? JSON.parse(raw) : null;
+    }
+
+    delete(code: string): void {
+        this.reports.delete(code);
+    }
+}
@@ -0,0 +1,29 @@
+/**
+ * In-Memory Game Store
+ * Fallback backend when no writable storage is available (snapshots are lost on restart)
+ */
+
+import { GameStore, RoomSnapshot } from './GameStore';
+
+export class InMemoryGameStore implements GameStore {
+    readonly kind = 'memory';
+    private snapshots: Map<string, string> = new Map(); // code -> serialized snapshot
+
+    save(snapshot: RoomSnapshot): void {
+        // Serialize to detach the snapshot from the live room objects
+        this.snapshots.set(snapshot.code, JSON.stringify(snapshot));
+    }
+
+    load(code: string): RoomSnapshot | null {
+        const raw = this.snapshots.get(code);
+        return raw ? JSON.parse(raw) : null;
+    }
+
+    loadAll(): RoomSnapshot[] {
+        return Array.from(this.snapshots.values()).map(raw => JSON.parse(raw));
+    }
+
+    delete(code: string): void {
+        this.snapshots.delete(code);
+    }
+}
@@ -0,0 +1,32 @@
+/**
+ * In-Memory Journal Store
+ * Fallback backend when no writable storage is available (journals are lost on restart)
+ */
+
+import { GameJournal, JournalEntry, JournalStore } from './JournalStore';
+
+export class InMemoryJournalStore implements JournalStore {
+    readonly kind = 'memory';
+    private journals: Map<string, { header: string; entries: string[] }> = new Map(); // code -> serialized journal
+
+    start(code: string, initialState: any): void {
+        // Serialize to detach the journal from the live room objects
+        this.journals.set(code, {
+            header: JSON.stringify({ code, startedAt: Date.now(), initialState }),
+            entries: []
+        });
+    }
+
+    append(code: string, entry: JournalEntry): void {
+        this.journals.get(code)?.entries.push(JSON.stringify(entry));
+    }
+
+    load(code: string): GameJournal | null {
+        const journal = this.journals.get(code);
+        if (!journal) return null;
+        return {
+            ...JSON.parse(journal.header),
+            entries: journal.entries.map(raw => JSON.parse(raw))
+        };
+    }
+}
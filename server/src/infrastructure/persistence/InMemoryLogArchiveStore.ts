@@ -0,0 +1,26 @@
+/**
+ * In-Memory Log Archive Store
+ * Fallback backend when no writable storage is available (archives are lost on restart)
+ */
+
+import { LogEntry } from '../../../../shared/types';
+import { LogArchiveStore } from './LogArchiveStore';
+
+export class InMemoryLogArchiveStore implements LogArchiveStore {
+    readonly kind = 'memory';
+    private archives: Map<string, string[]> = new Map(); // code -> serialized entries
+
+    clear(code: string): void {
+        this.archives.delete(code);
+    }
+
+    append(code: string, entries: LogEntry[]): void {
+        if (!this.archives.has(code)) this.archives.set(code, []);
+        // Serialize to detach the archive from the live room objects
+        this.archives.get(code)!.push(...entries.map(entry => JSON.stringify(entry)));
+    }
+
+    load(code: string): LogEntry[] {
+        return (this.archives.get(code) ?? []).map(raw => JSON.parse(raw));
+    }
+}
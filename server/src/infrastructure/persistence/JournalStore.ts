@@ -0,0 +1,56 @@
+/**
+ * Journal Store - Persistence Port
+ * Append-only log of every state transition of a room, used to replay games offline
+ */
+
+import { FactionId, GameAction, FactionController } from '../../types';
+import { CombatState, AgreementProposal } from '../../../../shared/types';
+
+export type CombatResolutionChoice = 'FIGHT' | 'RETREAT' | 'RETREAT_CITY' | 'SIEGE';
+
+/**
+ * A state transition, named after the gameLogic function that applies it
+ */
+export type JournalEvent =
+    | { type: 'PLAYER_ACTION'; faction: FactionId; action: GameAction }
+    | { type: 'ADVANCE_TURN' }
+    | { type: 'AI_TURN'; faction: FactionId }
+    | { type: 'COMBAT_RESOLVED'; choice: CombatResolutionChoice; siegeCost: number }
+    | { type: 'CONTROL_CHANGED'; faction: FactionId; controller: FactionController }
+    | { type: 'AGREEMENT_PROPOSED'; faction: FactionId; proposal: AgreementProposal }
+    | { type: 'AGREEMENT_ANSWERED'; faction: FactionId; agreementId: string; accept: boolean };
+
+export interface JournalEntry {
+    seq: number;
+    recordedAt: number;
+    event: JournalEvent;
+    // Combat slot the event was applied to - handlers move battles in and out of
+    // pendingCombat outside of gameLogic, so replay restores it before each event
+    combatState: CombatState | null;
+    combatQueue: CombatState[];
+    // Fingerprint of the resulting state, compared during replay to detect divergence
+    result: {
+        turn: number;
+        currentTurnFaction: FactionId;
+        rngState: number | null;
+    };
+}
+
+export interface GameJournal {
+    code: string;
+    startedAt: number;
+    initialState: any; // MultiplayerGameState the first entry was applied to
+    entries: JournalEntry[];
+}
+
+/**
+ * Storage contract - like GameStore, implementations are called after every game event
+ */
+export interface JournalStore {
+    /** Human-readable backend name for logs */
+    readonly kind: string;
+    /** Begin a new journal for a room (replaces any previous journal with that code) */
+    start(code: string, initialState: any): void;
+    append(code: string, entry: JournalEntry): void;
+    load(code: string): GameJournal | null;
+}
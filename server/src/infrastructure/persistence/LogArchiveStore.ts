@@ -0,0 +1,20 @@
+/**
+ * Log Archive Store - Persistence Port
+ * Append-only chronicle of every log entry of a room (the live state only keeps a recent window)
+ */
+
+import { LogEntry } from '../../../../shared/types';
+
+/**
+ * Storage contract - like JournalStore, appends happen after every game event
+ */
+export interface LogArchiveStore {
+    /** Human-readable backend name for logs */
+    readonly kind: string;
+    /** Drop a room's archive (a new game starts under that code) */
+    clear(code: string): void;
+    /** Append entries in chronological order */
+    append(code: string, entries: LogEntry[]): void;
+    /** Every archived entry of a room, oldest first (empty when nothing was archived) */
+    load(code: string): LogEntry[];
+}
@@ -0,0 +1,93 @@
+/**
+ * Persistence Infrastructure - Main Export
+ */
+
+import { GameStore } from './GameStore';
+import { FileGameStore } from './FileGameStore';
+import { InMemoryGameStore } from './InMemoryGameStore';
+import { JournalStore } from './JournalStore';
+import { FileJournalStore } from './FileJournalStore';
+import { InMemoryJournalStore } from './InMemoryJournalStore';
+import { LogArchiveStore } from './LogArchiveStore';
+import { FileLogArchiveStore } from './FileLogArchiveStore';
+import { InMemoryLogArchiveStore } from './InMemoryLogArchiveStore';
+import { GameReportStore } from './GameReportStore';
+import { FileGameReportStore } from './FileGameReportStore';
+import { InMemoryGameReportStore } from './InMemoryGameReportStore';
+
+export type { GameStore, RoomSnapshot } from './GameStore';
+export { FileGameStore } from './FileGameStore';
+export { InMemoryGameStore } from './InMemoryGameStore';
+export type { JournalStore, GameJournal, JournalEntry, JournalEvent, CombatResolutionChoice } from './JournalStore';
+export { FileJournalStore } from './FileJournalStore';
+export { InMemoryJournalStore } from './InMemoryJournalStore';
+export type { LogArchiveStore } from './LogArchiveStore';
+export { FileLogArchiveStore } from './FileLogArchiveStore';
+export { InMemoryLogArchiveStore } from './InMemoryLogArchiveStore';
+export type { GameReportStore } from './GameReportStore';
+export { FileGameReportStore } from './FileGameReportStore';
+export { InMemoryGameReportStore } from './InMemoryGameReportStore';
+
+/**
+ * Create the configured store: file-backed when the directory is writable, in-memory otherwise
+ */
+export function createGameStore(directory: string | undefined): GameStore {
+    if (!directory) {
+        return new InMemoryGameStore();
+    }
+
+    try {
+        return new FileGameStore(directory);
+    } catch (err: any) {
+        console.error(`[Persistence] Cannot use ${directory} (${err?.message}), falling back to in-memory store`);
+        return new InMemoryGameStore();
+    }
+}
+
+/**
+ * Create the configured journal store, next to the game snapshots
+ */
+export function createJournalStore(directory: string | undefined): JournalStore {
+    if (!directory) {
+        return new InMemoryJournalStore();
+    }
+
+    try {
+        return new FileJournalStore(directory);
+    } catch (err: any) {
+        console.error(`[Persistence] Cannot use ${directory} for journals (${err?.message}), falling back to in-memory store`);
+        return new InMemoryJournalStore();
+    }
+}
+
+/**
+ * Create the configured log archive store, next to the game snapshots
+ */
+export function createLogArchiveStore(directory: string | undefined): LogArchiveStore {
+    if (!directory) {
+        return new InMemoryLogArchiveStore();
+    }
+
+    try {
+        return new FileLogArchiveStore(directory);
+    } catch (err: any) {
+        console.error(`[Persistence] Cannot use ${directory} for log archives (${err?.message}), falling back to in-memory store`);
+        return new InMemoryLogArchiveStore();
+    }
+}
+
+/**
+ * Create the configured game report store, next to the game snapshots
+ */
+export function createGameReportStore(directory: string | undefined): GameReportStore {
+    if (!directory) {
+        return new InMemoryGameReportStore();
+    }
+
+    try {
+        return new FileGameReportStore(directory);
+    } catch (err: any) {
+        console.error(`[Persistence] Cannot use ${directory} for game reports (${err?.message}), falling back to in-memory store`);
+        return new InMemoryGameReportStore();
+    }
+}
@@ -3,10 +3,12 @@
  * 
  * Manages the battle resolution phase state and emits events to all players.
  * This module provides functions to start, update, and end the battle phase.
+ * Each player is only told about the battles their faction fights in.
  */
 
 import { Server } from 'socket.io';
 import { FactionId, CombatState, BattleInfo, BattleResolutionPhase } from '../../../../shared/types';
+import { GameRoom } from '../../gameRoom';
 
 /**
  * Get battle location name from CombatState
@@ -66,21 +68,39 @@ export function createBattleResolutionPhase(
     };
 }
 
+/**
+ * Send a phase to each player with only the battles involving their faction
+ * (as projectStateForFaction filters the combat queue).
+ * Live spectators share the game room and see the whole board anyway.
+ */
+function emitPhase(
+    io: Server,
+    room: GameRoom,
+    event: 'combat_phase_started' | 'combat_phase_update',
+    phase: BattleResolutionPhase
+): void {
+    for (const [socketId, faction] of room.playerFactions) {
+        const battles = phase.battles.filter(b => b.attackerFaction === faction || b.defenderFaction === faction);
+        io.to(socketId).emit(event, { phase: { ...phase, battles } });
+    }
+    io.to(room.code).except(Array.from(room.playerFactions.keys())).emit(event, { phase });
+}
+
 /**
  * Emit combat_phase_started event to all players in a room
  */
 export function emitCombatPhaseStarted(
     io: Server,
-    roomCode: string,
+    room: GameRoom,
     currentCombat: CombatState,
     combatQueue: CombatState[],
     gameState: any
 ): void {
     const phase = createBattleResolutionPhase(currentCombat, combatQueue, gameState, 1);
 
-    console.log(`[COMBAT_PHASE] Starting phase for room ${roomCode} with ${phase.totalBattles} battles`);
+    console.log(`[COMBAT_PHASE] Starting phase for room ${room.code} with ${phase.totalBattles} battles`);
 
-    io.to(roomCode).emit('combat_phase_started', { phase });
+    emitPhase(io, room, 'combat_phase_started', phase);
 }
 
 /**
@@ -89,7 +109,7 @@ export function emitCombatPhaseStarted(
  */
 export function emitCombatPhaseUpdate(
     io: Server,
-    roomCode: string,
+    room: GameRoom,
     currentCombat: CombatState | null,
     combatQueue: CombatState[],
     gameState: any,
@@ -102,9 +122,9 @@ export function emitCombatPhaseUpdate(
         resolvedCount + 1 // 1-based index for display
     );
 
-    console.log(`[COMBAT_PHASE] Update for room ${roomCode}: battle ${phase.currentIndex}/${phase.totalBattles}`);
+    console.log(`[COMBAT_PHASE] Update for room ${room.code}: battle ${phase.currentIndex}/${phase.totalBattles}`);
 
-    io.to(roomCode).emit('combat_phase_update', { phase });
+    emitPhase(io, room, 'combat_phase_update', phase);
 }
 
 /**
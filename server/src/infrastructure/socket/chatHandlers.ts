@@ -0,0 +1,82 @@
+/**
+ * Chat Socket Handlers
+ * Relays room-wide chat and private faction-to-faction messages: send_chat
+ */
+
+import { Server, Socket } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { FactionId, ChatMessage } from '../../types';
+import { GameRoomManager } from '../../gameRoom';
+
+const MAX_CHAT_LENGTH = 500;
+const CHAT_RATE_LIMIT = 5;            // Messages per window
+const CHAT_RATE_WINDOW_MS = 10 * 1000;
+
+export function registerChatHandlers(
+    io: Server,
+    socket: Socket,
+    gameRoomManager: GameRoomManager
+): void {
+    // Send times of this socket's recent messages
+    let recentMessages: number[] = [];
+
+    socket.on('send_chat', ({ text, toFaction }: { text: string; toFaction?: FactionId | null }) => {
+        const code = socket.data.gameCode || gameRoomManager.getGameCodeForSocket(socket.id);
+        const room = code ? gameRoomManager.getRoom(code) : undefined;
+        const fromFaction = room?.playerFactions.get(socket.id);
+        if (!code || !room || !fromFaction) {
+            socket.emit('error', { message: 'Only players of a running game can chat' });
+            return;
+        }
+
+        const trimmed = typeof text === 'string' ? text.trim() : '';
+        if (!trimmed) {
+            socket.emit('error', { message: 'Message is empty' });
+            return;
+        }
+        if (trimmed.length > MAX_CHAT_LENGTH) {
+            socket.emit('error', { message: `Messages are limited to ${MAX_CHAT_LENGTH} characters`, code: 'CHAT_TOO_LONG' });
+            return;
+        }
+
+        const now = Date.now();
+        recentMessages = recentMessages.filter(sentAt => now - sentAt < CHAT_RATE_WINDOW_MS);
+        if (recentMessages.length >= CHAT_RATE_LIMIT) {
+            socket.emit('error', { message: 'You are sending messages too fast', code: 'CHAT_RATE_LIMITED' });
+            return;
+        }
+
+        // Private channel: the other faction must be a player of this game
+        let recipientSocketId: string | null = null;
+        if (toFaction) {
+            if (toFaction === fromFaction) {
+                socket.emit('error', { message: 'Cannot message your own faction' });
+                return;
+            }
+            recipientSocketId = gameRoomManager.getSocketForFaction(code, toFaction);
+            if (!recipientSocketId) {
+                socket.emit('error', { message: 'That faction is not played by anyone you can talk to' });
+                return;
+            }
+        }
+
+        recentMessages.push(now);
+
+        const message: ChatMessage = {
+            id: uuidv4(),
+            fromFaction,
+            fromNickname: room.lobby?.players.find(p => p.faction === fromFaction)?.nickname || fromFaction,
+            toFaction: toFaction || null,
+            text: trimmed,
+            sentAt: now,
+            turn: room.gameState.turn
+        };
+        gameRoomManager.addChatMessage(code, message);
+
+        if (recipientSocketId) {
+            io.to([socket.id, recipientSocketId]).emit('chat_message', { message });
+        } else {
+            io.to(code).emit('chat_message', { message });
+        }
+    });
+}
@@ -5,17 +5,27 @@
 
 import { Server, Socket } from 'socket.io';
 import { GameRoomManager } from '../../gameRoom';
-import { getClientState } from '../../gameLogic';
+import { TurnTimerManager } from '../../turnTimers';
+import { broadcastStateUpdate, combatChoiceRequest } from './stateBroadcast';
 import { resolveCombatResult } from '../../../../shared/services/combat';
+import { ActionRejectionCode } from '../../../../shared/types/actionValidationTypes';
 import { emitCombatPhaseUpdate, emitCombatPhaseEnded, createBattleResolutionPhase } from './battlePhaseUtils';
 
+export type CombatChoice = 'FIGHT' | 'RETREAT' | 'RETREAT_CITY' | 'SIEGE';
+
 export function registerCombatHandlers(
     io: Server,
     socket: Socket,
-    gameRoomManager: GameRoomManager
+    gameRoomManager: GameRoomManager,
+    turnTimers: TurnTimerManager
 ): void {
 
     socket.on('combat_choice', ({ choice, siegeCost }) => {
+        if (socket.data.spectating) {
+            socket.emit('error', { message: 'Spectators cannot choose in combat', code: ActionRejectionCode.SPECTATOR });
+            return;
+        }
+
         // Try to get gameCode from socket data, or recover it from room manager
         let code = socket.data.gameCode;
         if (!code) {
@@ -31,198 +41,205 @@ export function registerCombatHandlers(
             return;
         }
 
-        const room = gameRoomManager.getRoom(code);
-        if (!room || !room.pendingCombat) {
-            socket.emit('error', { message: 'No pending combat' });
-            return;
-        }
+        applyCombatChoice(io, gameRoomManager, code, socket.id, choice, siegeCost);
+        // The next awaited side (or the resumed turn) gets a fresh deadline
+        turnTimers.refresh(code);
+    });
+}
 
-        const combat = room.pendingCombat;
-
-        // Determine if this is attacker or defender choice
-        if (socket.id === combat.attackerSocketId) {
-            if (choice === 'FIGHT' || choice === 'RETREAT' || choice === 'SIEGE') {
-                gameRoomManager.setAttackerChoice(code, choice, siegeCost);
-
-                // ONLY for FIGHT: If defender is human, request their choice
-                // RETREAT and SIEGE don't require defender response - they resolve immediately
-                if (choice === 'FIGHT' && combat.defenderSocketId) {
-                    // Notify attacker they're waiting for defender
-                    io.to(socket.id).emit('attacker_waiting', {
-                        combatState: combat.combatState,
-                        message: 'Waiting for defender\'s reaction...'
-                    });
-                    // Request defender's choice
-                    io.to(combat.defenderSocketId).emit('combat_choice_requested', {
-                        combatState: combat.combatState,
-                        role: 'DEFENDER'
-                    });
-                    // Early return - wait for defender's response before checking isCombatReady
-                    // The defender's choice will trigger another combat_choice event
-                    return;
-                } else if (choice === 'RETREAT' || choice === 'SIEGE') {
-                    // RETREAT or SIEGE: Auto-set defender to FIGHT and resolve immediately
-                    console.log(`[Game] ${code}: Attacker chose ${choice} - no defender input needed, auto-resolving`);
-                    gameRoomManager.setDefenderChoice(code, 'FIGHT');
-                } else {
-                    // Defender is AI - auto-choose FIGHT and resolve immediately
-                    console.log(`[Game] ${code}: AI defender - auto-choosing FIGHT`);
-                    gameRoomManager.setDefenderChoice(code, 'FIGHT');
-                }
-            }
-        } else if (socket.id === combat.defenderSocketId) {
-            if (choice === 'FIGHT' || choice === 'RETREAT_CITY') {
-                gameRoomManager.setDefenderChoice(code, choice as 'FIGHT' | 'RETREAT_CITY');
+/**
+ * Apply one side's combat choice and resolve the battle once every side has chosen.
+ * Also used by the turn timers to submit the default choice of an idle player.
+ */
+export function applyCombatChoice(
+    io: Server,
+    gameRoomManager: GameRoomManager,
+    code: string,
+    socketId: string,
+    choice: CombatChoice,
+    siegeCost?: number
+): void {
+    const room = gameRoomManager.getRoom(code);
+    if (!room || !room.pendingCombat) {
+        io.to(socketId).emit('error', { message: 'No pending combat' });
+        return;
+    }
+
+    const combat = room.pendingCombat;
+
+    // Determine if this is attacker or defender choice
+    if (socketId === combat.attackerSocketId) {
+        if (choice === 'FIGHT' || choice === 'RETREAT' || choice === 'SIEGE') {
+            gameRoomManager.setAttackerChoice(code, choice, siegeCost);
+
+            // ONLY for FIGHT: If defender is human, request their choice
+            // RETREAT and SIEGE don't require defender response - they resolve immediately
+            if (choice === 'FIGHT' && combat.defenderSocketId) {
+                // Notify attacker they're waiting for defender
+                io.to(socketId).emit('attacker_waiting', {
+                    combatState: combat.combatState,
+                    message: 'Waiting for defender\'s reaction...'
+                });
+                // Request defender's choice
+                io.to(combat.defenderSocketId).emit('combat_choice_requested', combatChoiceRequest(room, combat.combatState, 'DEFENDER'));
+                // Early return - wait for defender's response before checking isCombatReady
+                // The defender's choice will trigger another combat_choice event
+                gameRoomManager.saveRoom(code);
+                return;
+            } else if (choice === 'RETREAT' || choice === 'SIEGE') {
+                // RETREAT or SIEGE: Auto-set defender to FIGHT and resolve immediately
+                console.log(`[Game] ${code}: Attacker chose ${choice} - no defender input needed, auto-resolving`);
+                gameRoomManager.setDefenderChoice(code, 'FIGHT');
+            } else {
+                // Defender is AI - auto-choose FIGHT and resolve immediately
+                console.log(`[Game] ${code}: AI defender - auto-choosing FIGHT`);
+                gameRoomManager.setDefenderChoice(code, 'FIGHT');
             }
         }
-
-        // Check if combat is ready to resolve
-        if (gameRoomManager.isCombatReady(code)) {
-            console.log(`[Game] ${code}: All parties chose. Resolving combat...`);
-
-            // Get final choices
-            const attackerChoice = room.pendingCombat.attackerChoice;
-            const defenderChoice = room.pendingCombat.defenderChoice || 'FIGHT';
-            const finalSiegeCost = room.pendingCombat.siegeCost;
-
-            let finalAction: 'FIGHT' | 'RETREAT' | 'RETREAT_CITY' | 'SIEGE' = 'FIGHT';
-
-            if (attackerChoice === 'RETREAT') finalAction = 'RETREAT';
-            else if (defenderChoice === 'RETREAT_CITY') finalAction = 'RETREAT_CITY';
-            else if (attackerChoice === 'SIEGE') finalAction = 'SIEGE';
-            else finalAction = 'FIGHT';
-
-            // IMPORTANT: We need to put the combat back into state.combatState for the resolver to find it!
-            // The handler cleared it earlier to put it into pendingCombat
-            const stateToResolve = {
-                ...room.gameState,
-                combatState: room.pendingCombat.combatState
-            };
-
-            console.log(`[COMBAT_HANDLER] stateToResolve.humanFactions = ${JSON.stringify((stateToResolve as any).humanFactions)}`);
-
-            const updates = resolveCombatResult(stateToResolve, finalAction, finalSiegeCost);
-
-            // APPLY UPDATES TO SERVER STATE
-            // This includes loss of troops, movement, etc.
-            room.gameState = { ...room.gameState, ...updates };
-
-            // Clear pending combat NOW, as it is resolved.
-            gameRoomManager.clearCombat(code);
-
-            // However, `updates.combatState` might contain the NEXT battle in the queue.
-            // We need to decide what to do with it.
-            // If we leave it in `room.gameState.combatState`, it will be broadcasted to everyone as "Battle Imminent".
-            // We want to hide it, but KEEP the results of the previous battle (armies moved/died).
-
-            let nextCombat = updates.combatState; // This is the next battle derived by resolveCombatResult
-            console.log(`[COMBAT_HANDLER] updates.combatState = ${nextCombat ? `${nextCombat.attackerFaction} vs ${nextCombat.defenderFaction}` : 'NULL'}`);
-
-            // Capture the state to broadcast - this state includes the RESULTS of the fight (deaths/moves)
-            // But we must sanitize `combatState` if it exists, to prevent public leak of the NEXT battle.
-            const rawStateForBroadcast = { ...room.gameState };
-
-            // Store any pending combat request to send AFTER state_update
-            let pendingCombatRequest: { socketId: string; combatState: any; role: 'ATTACKER' | 'DEFENDER' } | null = null;
-
-            // If there is a next combat, we must initiate it properly (Private) and hide it from Public
-            if (nextCombat) {
-                console.log(`[Game] ${code}: Subsequent combat detected after resolution!`);
-
-                // Identify participants
-                const attackerSocketId = gameRoomManager.getSocketForFaction(code, nextCombat.attackerFaction);
-                const defenderSocketId = gameRoomManager.getSocketForFaction(code, nextCombat.defenderFaction);
-                const attackerIsHuman = attackerSocketId !== null;
-                const defenderIsHuman = defenderSocketId !== null;
-
-                if (!attackerIsHuman && !defenderIsHuman) {
-                    // Auto-resolve non-human chain immediately
-                    // This is recursive/iterative ideally, but for now single step
-                    const autoUpdates = resolveCombatResult(room.gameState, 'FIGHT', 0);
-                    room.gameState = { ...room.gameState, ...autoUpdates };
-                    // Update the broadcast state with the result of this auto-resolve too
-                    Object.assign(rawStateForBroadcast, room.gameState);
-                } else {
-                    // Human involved: Initiate Private Pending Combat
-                    if (attackerIsHuman) {
-                        gameRoomManager.initiateCombat(code, nextCombat, attackerSocketId!, nextCombat.defenderFaction);
-                        // Store for later emission AFTER state_update
-                        pendingCombatRequest = { socketId: attackerSocketId!, combatState: nextCombat, role: 'ATTACKER' };
-                    } else if (defenderIsHuman) {
-                        // AI vs Human - AI chooses FIGHT, ask Defender
-                        gameRoomManager.initiateCombat(code, nextCombat, 'AI', nextCombat.defenderFaction);
-                        gameRoomManager.setAttackerChoice(code, 'FIGHT');
-                        // Store for later emission AFTER state_update
-                        pendingCombatRequest = { socketId: defenderSocketId!, combatState: nextCombat, role: 'DEFENDER' };
-                    }
+    } else if (socketId === combat.defenderSocketId) {
+        if (choice === 'FIGHT' || choice === 'RETREAT_CITY') {
+            gameRoomManager.setDefenderChoice(code, choice as 'FIGHT' | 'RETREAT_CITY');
+        }
+    }
+
+    // Check if combat is ready to resolve
+    if (gameRoomManager.isCombatReady(code)) {
+        console.log(`[Game] ${code}: All parties chose. Resolving combat...`);
+
+        // Get final choices
+        const attackerChoice = room.pendingCombat.attackerChoice;
+        const defenderChoice = room.pendingCombat.defenderChoice || 'FIGHT';
+        const finalSiegeCost = room.pendingCombat.siegeCost;
+
+        let finalAction: 'FIGHT' | 'RETREAT' | 'RETREAT_CITY' | 'SIEGE' = 'FIGHT';
+
+        if (attackerChoice === 'RETREAT') finalAction = 'RETREAT';
+        else if (defenderChoice === 'RETREAT_CITY') finalAction = 'RETREAT_CITY';
+        else if (attackerChoice === 'SIEGE') finalAction = 'SIEGE';
+        else finalAction = 'FIGHT';
+
+        // IMPORTANT: We need to put the combat back into state.combatState for the resolver to find it!
+        // The handler cleared it earlier to put it into pendingCombat
+        const stateToResolve = {
+            ...room.gameState,
+            combatState: room.pendingCombat.combatState
+        };
+
+        console.log(`[COMBAT_HANDLER] stateToResolve.humanFactions = ${JSON.stringify((stateToResolve as any).humanFactions)}`);
+
+        const updates = resolveCombatResult(stateToResolve, finalAction, finalSiegeCost);
+
+        // APPLY UPDATES TO SERVER STATE
+        // This includes loss of troops, movement, etc.
+        room.gameState = { ...room.gameState, ...updates };
+        gameRoomManager.recordEvent(code, { type: 'COMBAT_RESOLVED', choice: finalAction, siegeCost: finalSiegeCost || 0 }, stateToResolve);
+
+        // Clear pending combat NOW, as it is resolved.
+        gameRoomManager.clearCombat(code);
+
+        // However, `updates.combatState` might contain the NEXT battle in the queue.
+        // We need to decide what to do with it.
+        // If we leave it in `room.gameState.combatState`, it will be broadcasted to everyone as "Battle Imminent".
+        // We want to hide it, but KEEP the results of the previous battle (armies moved/died).
+
+        let nextCombat = updates.combatState; // This is the next battle derived by resolveCombatResult
+        console.log(`[COMBAT_HANDLER] updates.combatState = ${nextCombat ? `${nextCombat.attackerFaction} vs ${nextCombat.defenderFaction}` : 'NULL'}`);
+
+        // The broadcast below includes the RESULTS of the fight (deaths/moves)
+        // But we must sanitize `combatState` if it exists, to prevent public leak of the NEXT battle.
+
+        // Store any pending combat request to send AFTER state_update
+        let pendingCombatRequest: { socketId: string; combatState: any; role: 'ATTACKER' | 'DEFENDER' } | null = null;
+
+        // If there is a next combat, we must initiate it properly (Private) and hide it from Public
+        if (nextCombat) {
+            console.log(`[Game] ${code}: Subsequent combat detected after resolution!`);
+
+            // Identify participants
+            const attackerSocketId = gameRoomManager.getSocketForFaction(code, nextCombat.attackerFaction);
+            const defenderSocketId = gameRoomManager.getSocketForFaction(code, nextCombat.defenderFaction);
+            const attackerIsHuman = attackerSocketId !== null;
+            const defenderIsHuman = defenderSocketId !== null;
+
+            if (!attackerIsHuman && !defenderIsHuman) {
+                // Auto-resolve non-human chain immediately
+                // This is recursive/iterative ideally, but for now single step
+                const previousState = room.gameState;
+                const autoUpdates = resolveCombatResult(previousState, 'FIGHT', 0);
+                room.gameState = { ...previousState, ...autoUpdates };
+                gameRoomManager.recordEvent(code, { type: 'COMBAT_RESOLVED', choice: 'FIGHT', siegeCost: 0 }, previousState);
+            } else {
+                // Human involved: Initiate Private Pending Combat
+                if (attackerIsHuman) {
+                    gameRoomManager.initiateCombat(code, nextCombat, attackerSocketId!, nextCombat.defenderFaction);
+                    // Store for later emission AFTER state_update
+                    pendingCombatRequest = { socketId: attackerSocketId!, combatState: nextCombat, role: 'ATTACKER' };
+                } else if (defenderIsHuman) {
+                    // AI vs Human - AI chooses FIGHT, ask Defender
+                    gameRoomManager.initiateCombat(code, nextCombat, 'AI', nextCombat.defenderFaction);
+                    gameRoomManager.setAttackerChoice(code, 'FIGHT');
+                    // Store for later emission AFTER state_update
+                    pendingCombatRequest = { socketId: defenderSocketId!, combatState: nextCombat, role: 'DEFENDER' };
                 }
-
-                // HIDE combatState from the public broadcast
-                room.gameState.combatState = null;
             }
 
-            // Broadcast the state (with combatState nullified for privacy)
-            const clientState = getClientState(rawStateForBroadcast);
-            const stateForBroadcast = { ...clientState, combatState: null }; // Ensure null for public
-
-            console.log(`[COMBAT_DIAG] Broadcasting state update (size: ${JSON.stringify(stateForBroadcast).length} chars)...`);
-            io.to(code).emit('state_update', { gameState: stateForBroadcast });
-            console.log(`[COMBAT_DIAG] State update sent.`);
-
-            io.to(code).emit('combat_resolved', { result: 'Combat ended' });
-
-            // Update battle phase tracking
-            const phaseInfo = gameRoomManager.getBattlePhaseInfo(code);
-            if (phaseInfo.active) {
-                gameRoomManager.incrementBattleResolved(code);
-
-                // Check if there are more battles to resolve
-                if (nextCombat || (room.gameState.combatQueue && room.gameState.combatQueue.length > 0)) {
-                    // Emit phase update with new progress
-                    emitCombatPhaseUpdate(
-                        io,
-                        code,
-                        nextCombat,
-                        room.gameState.combatQueue || [],
-                        room.gameState,
-                        gameRoomManager.getBattlePhaseInfo(code).resolved
-                    );
-                } else {
-                    // No more battles - end the phase
-                    console.log(`[COMBAT_DIAG] Ending battle phase for room ${code}`);
-                    gameRoomManager.endBattlePhase(code);
-                    io.to(code).emit('combat_phase_ended');
-                    console.log(`[COMBAT_DIAG] Emitted combat_phase_ended`);
-                }
-            }
+            // HIDE combatState from the public broadcast
+            room.gameState.combatState = null;
+        }
 
-            // NOW send combat_choice_requested AFTER client has processed state_update
-            if (pendingCombatRequest) {
-                io.to(pendingCombatRequest.socketId).emit('combat_choice_requested', {
-                    combatState: pendingCombatRequest.combatState,
-                    role: pendingCombatRequest.role
-                });
-                console.log(`[COMBAT_HANDLER] Sent combat_choice_requested for next battle to ${pendingCombatRequest.role}`);
+        // Broadcast the state per player (fog of war applied, combatState nullified for privacy)
+        console.log(`[COMBAT_DIAG] Broadcasting state update...`);
+        broadcastStateUpdate(io, room);
+        console.log(`[COMBAT_DIAG] State update sent.`);
+
+        io.to(code).emit('combat_resolved', { result: 'Combat ended' });
+
+        // Update battle phase tracking
+        const phaseInfo = gameRoomManager.getBattlePhaseInfo(code);
+        if (phaseInfo.active) {
+            gameRoomManager.incrementBattleResolved(code);
+
+            // Check if there are more battles to resolve
+            if (nextCombat || (room.gameState.combatQueue && room.gameState.combatQueue.length > 0)) {
+                // Emit phase update with new progress
+                emitCombatPhaseUpdate(
+                    io,
+                    room,
+                    nextCombat,
+                    room.gameState.combatQueue || [],
+                    room.gameState,
+                    gameRoomManager.getBattlePhaseInfo(code).resolved
+                );
+            } else {
+                // No more battles - end the phase
+                console.log(`[COMBAT_DIAG] Ending battle phase for room ${code}`);
+                gameRoomManager.endBattlePhase(code);
+                io.to(code).emit('combat_phase_ended');
+                console.log(`[COMBAT_DIAG] Emitted combat_phase_ended`);
             }
+        }
 
-            console.log(`[Game] ${code}: Combat resolved with action ${finalAction}`);
-
-        } else {
-            // Waiting for other player
-            const isAttacker = socket.id === combat.attackerSocketId;
-            const otherSocketId = isAttacker ? combat.defenderSocketId : combat.attackerSocketId;
-
-            if (otherSocketId) {
-                // If I am attacker and just committed, notify defender
-                if (isAttacker && combat.attackerChoice) {
-                    io.to(combat.defenderSocketId!).emit('combat_choice_requested', {
-                        combatState: combat.combatState,
-                        role: 'DEFENDER'
-                    });
-                    socket.emit('action_result', { success: true, message: 'Attacking... Waiting for defender.' });
-                }
+        // NOW send combat_choice_requested AFTER client has processed state_update
+        if (pendingCombatRequest) {
+            io.to(pendingCombatRequest.socketId).emit('combat_choice_requested', combatChoiceRequest(room, pendingCombatRequest.combatState, pendingCombatRequest.role));
+            console.log(`[COMBAT_HANDLER] Sent combat_choice_requested for next battle to ${pendingCombatRequest.role}`);
+        }
+
+        gameRoomManager.saveRoom(code);
+        console.log(`[Game] ${code}: Combat resolved with action ${finalAction}`);
+
+    } else {
+        // Waiting for other player
+        const isAttacker = socketId === combat.attackerSocketId;
+        const otherSocketId = isAttacker ? combat.defenderSocketId : combat.attackerSocketId;
+
+        if (otherSocketId) {
+            // If I am attacker and just committed, notify defender
+            if (isAttacker && combat.attackerChoice) {
+                io.to(combat.defenderSocketId!).emit('combat_choice_requested', combatChoiceRequest(room, combat.combatState, 'DEFENDER'));
+                io.to(socketId).emit('action_result', { success: true, message: 'Attacking... Waiting for defender.' });
             }
-            // AI Opponent case is handled by isCombatReady auto-resolving or setup
         }
-    });
+        // AI Opponent case is handled by isCombatReady auto-resolving or setup
+    }
 }
@@ -0,0 +1,95 @@
+/**
+ * Diplomacy Socket Handlers
+ * Agreements between factions: propose_agreement, accept_agreement, reject_agreement
+ * Diplomacy is not bound to turns: players may propose and answer at any time.
+ */
+
+import { Server, Socket } from 'socket.io';
+import { AgreementProposal, DiplomaticAgreement } from '../../../../shared/types';
+import { GameRoomManager, GameRoom } from '../../gameRoom';
+import { proposeAgreement, answerAgreement, MultiplayerGameState } from '../../gameLogic';
+import { JournalEvent } from '../persistence';
+import { broadcastStateUpdate } from './stateBroadcast';
+import { FactionId } from '../../types';
+
+export function registerDiplomacyHandlers(
+    io: Server,
+    socket: Socket,
+    gameRoomManager: GameRoomManager
+): void {
+    /**
+     * Room and faction of the player behind this socket (null after reporting the error)
+     */
+    const getPlayer = (): { code: string; room: GameRoom; faction: FactionId } | null => {
+        const code = socket.data.gameCode || gameRoomManager.getGameCodeForSocket(socket.id);
+        const room = code ? gameRoomManager.getRoom(code) : undefined;
+        const faction = room?.playerFactions.get(socket.id);
+        if (socket.data.spectating || !code || !room || !faction) {
+            socket.emit('error', { message: 'Only players of a running game can negotiate' });
+            return null;
+        }
+        if (room.aiFactions.has(faction)) {
+            socket.emit('error', { message: 'Your faction is played by the AI - rejoin to take it back', code: 'AI_CONTROLLED' });
+            return null;
+        }
+        return { code, room, faction };
+    };
+
+    /**
+     * Store a successful transition, then tell both parties and refresh everyone's board
+     */
+    const commit = (
+        code: string,
+        room: GameRoom,
+        result: { success: boolean; newState: MultiplayerGameState; error?: string },
+        event: JournalEvent,
+        agreementId: string | undefined
+    ): void => {
+        if (!result.success) {
+            socket.emit('error', { message: result.error || 'Agreement refused', code: 'AGREEMENT_REFUSED' });
+            return;
+        }
+
+        const previousState = room.gameState;
+        room.gameState = result.newState;
+        gameRoomManager.recordEvent(code, event, previousState);
+        gameRoomManager.saveRoom(code);
+
+        const agreement = result.newState.agreements?.find(ag => ag.id === agreementId);
+        if (agreement) notifyParties(code, agreement);
+        broadcastStateUpdate(io, room);
+    };
+
+    const notifyParties = (code: string, agreement: DiplomaticAgreement): void => {
+        const socketIds = [agreement.proposer, agreement.recipient]
+            .map(faction => gameRoomManager.getSocketForFaction(code, faction))
+            .filter((id): id is string => !!id);
+        if (socketIds.length > 0) io.to(socketIds).emit('agreement_updated', { agreement });
+    };
+
+    socket.on('propose_agreement', ({ proposal }: { proposal: AgreementProposal }) => {
+        const player = getPlayer();
+        if (!player) return;
+        if (!proposal || typeof proposal !== 'object') {
+            socket.emit('error', { message: 'Invalid proposal' });
+            return;
+        }
+
+        const { code, room, faction } = player;
+        const result = proposeAgreement(room.gameState, faction, proposal);
+        const created = result.newState.agreements?.[result.newState.agreements.length - 1];
+        commit(code, room, result, { type: 'AGREEMENT_PROPOSED', faction, proposal }, created?.id);
+    });
+
+    const answer = (agreementId: string, accept: boolean) => {
+        const player = getPlayer();
+        if (!player) return;
+
+        const { code, room, faction } = player;
+        const result = answerAgreement(room.gameState, faction, agreementId, accept);
+        commit(code, room, result, { type: 'AGREEMENT_ANSWERED', faction, agreementId, accept }, agreementId);
+    };
+
+    socket.on('accept_agreement', ({ agreementId }: { agreementId: string }) => answer(agreementId, true));
+    socket.on('reject_agreement', ({ agreementId }: { agreementId: string }) => answer(agreementId, false));
+}
@@ -1,24 +1,38 @@
 /**
  * Game Socket Handlers
- * Handles all game-related socket events: player_action, end_turn
+ * Handles all game-related socket events: player_action, end_turn, hand_faction_to_ai
  */
 
 import { Server, Socket } from 'socket.io';
 import { GameRoomManager } from '../../gameRoom';
-import { processPlayerAction, advanceTurn, getClientState, processSingleFactionAITurn } from '../../gameLogic';
+import { TurnTimerManager } from '../../turnTimers';
+import { processPlayerAction, advanceTurn, processSingleFactionAITurn } from '../../gameLogic';
 import { resolveCombatResult } from '../../../../shared/services/combat';
 import { emitCombatPhaseStarted, emitCombatPhaseEnded, emitCombatPhaseUpdate } from './battlePhaseUtils';
+import { broadcastStateUpdate, combatChoiceRequest } from './stateBroadcast';
+import { applyCombatChoice } from './combatHandlers';
+import { ActionRejectionCode } from '../../../../shared/types/actionValidationTypes';
+import { FactionId } from '../../types';
+
+// Rooms whose end of turn is being processed (a timer expiry must not end the same turn twice)
+const endingTurns = new Set<string>();
 
 export function registerGameHandlers(
     io: Server,
     socket: Socket,
-    gameRoomManager: GameRoomManager
+    gameRoomManager: GameRoomManager,
+    turnTimers: TurnTimerManager
 ): void {
 
     socket.on('player_action', ({ action }) => {
         try {
             console.log(`[Game] Received player_action from socket ${socket.id}:`, action?.type);
 
+            if (socket.data.spectating) {
+                socket.emit('action_result', { success: false, error: 'Spectators cannot act', code: ActionRejectionCode.SPECTATOR });
+                return;
+            }
+
             // Try to get gameCode from socket data, or recover it from room manager
             let code = socket.data.gameCode;
             if (!code) {
@@ -44,7 +58,12 @@ export function registerGameHandlers(
             // Get player's faction
             const playerFaction = room.playerFactions.get(socket.id);
             if (!playerFaction) {
-                socket.emit('action_result', { success: false, error: 'Player faction not found' });
+                socket.emit('action_result', { success: false, error: 'Player faction not found', code: ActionRejectionCode.NOT_IN_GAME });
+                return;
+            }
+
+            if (room.aiFactions.has(playerFaction)) {
+                socket.emit('action_result', { success: false, error: 'Your faction is played by the AI - rejoin to take it back', code: ActionRejectionCode.AI_CONTROLLED });
                 return;
             }
 
@@ -60,30 +79,31 @@ export function registerGameHandlers(
                 if (playerIsInvolvedInCombat) {
                     socket.emit('action_result', {
                         success: false,
-                        error: 'Cannot perform action while combat is pending. Resolve the combat first.'
+                        error: 'Cannot perform action while combat is pending. Resolve the combat first.',
+                        code: ActionRejectionCode.COMBAT_PENDING
                     });
                     // Re-send the combat request in case client missed it
                     const role = combat.combatState.attackerFaction === playerFaction ? 'ATTACKER' : 'DEFENDER';
-                    socket.emit('combat_choice_requested', {
-                        combatState: combat.combatState,
-                        role
-                    });
+                    socket.emit('combat_choice_requested', combatChoiceRequest(room, combat.combatState, role));
                     return;
                 }
             }
 
             // Process action on server using shared game logic
             console.log(`[Game] ${code}: Processing ${action.type} from ${playerFaction}`);
-            const sharedAction = { ...action, faction: playerFaction }; // Add faction for shared type
-            const result = processPlayerAction(room.gameState, sharedAction as any, playerFaction);
+            // Add faction for shared type - a faction claimed by the client is kept so the validator can reject mismatches
+            const sharedAction = { ...action, faction: action.faction ?? playerFaction };
+            const previousState = room.gameState;
+            const result = processPlayerAction(previousState, sharedAction as any, playerFaction);
 
             if (!result.success) {
-                socket.emit('action_result', { success: false, error: result.error });
+                socket.emit('action_result', { success: false, error: result.error, code: result.errorCode });
                 return;
             }
 
             // Update server state
             room.gameState = result.newState;
+            gameRoomManager.recordEvent(code, { type: 'PLAYER_ACTION', faction: playerFaction, action: sharedAction as any }, previousState);
 
             // Check if combat was triggered by this action
             if (result.newState.combatState) {
@@ -103,7 +123,7 @@ export function registerGameHandlers(
                     console.log(`[COMBAT_PHASE] EMITTING combat_phase_started to room ${code} - ${totalBattles} battles`);
                     emitCombatPhaseStarted(
                         io,
-                        code,
+                        room,
                         combat,
                         room.gameState.combatQueue || [],
                         room.gameState
@@ -113,8 +133,10 @@ export function registerGameHandlers(
                 if (!attackerIsHuman && !defenderIsHuman) {
                     // AI/Neutral vs AI/Neutral - auto resolve with FIGHT
                     console.log(`[Game] ${code}: Non-human combat - auto-resolving`);
-                    const updates = resolveCombatResult(room.gameState, 'FIGHT', 0);
-                    room.gameState = { ...room.gameState, ...updates };
+                    const previousState = room.gameState;
+                    const updates = resolveCombatResult(previousState, 'FIGHT', 0);
+                    room.gameState = { ...previousState, ...updates };
+                    gameRoomManager.recordEvent(code, { type: 'COMBAT_RESOLVED', choice: 'FIGHT', siegeCost: 0 }, previousState);
                     // No need to end phase - it was never started for AI vs AI
                 } else if (!attackerIsHuman && defenderIsHuman) {
                     // AI/Neutral attacker vs Human defender - AI always fights, ask defender
@@ -123,52 +145,41 @@ export function registerGameHandlers(
                     gameRoomManager.setAttackerChoice(code, 'FIGHT');
                     // Clear combatState from server state - it's now tracked in pendingCombat
                     room.gameState.combatState = null;
-                    io.to(defenderSocketId).emit('combat_choice_requested', {
-                        combatState: combat,
-                        role: 'DEFENDER'
-                    });
+                    io.to(defenderSocketId).emit('combat_choice_requested', combatChoiceRequest(room, combat, 'DEFENDER'));
                 } else if (attackerIsHuman && !defenderIsHuman) {
                     // Human attacker vs AI/Neutral defender - ask attacker only, AI auto-responds
                     console.log(`[Game] ${code}: Human attacker vs AI defender - asking attacker only`);
                     gameRoomManager.initiateCombat(code, combat, attackerSocketId!, combat.defenderFaction);
                     // Clear combatState from server state - it's now tracked in pendingCombat
                     room.gameState.combatState = null;
-                    io.to(attackerSocketId!).emit('combat_choice_requested', {
-                        combatState: combat,
-                        role: 'ATTACKER'
-                    });
+                    io.to(attackerSocketId!).emit('combat_choice_requested', combatChoiceRequest(room, combat, 'ATTACKER'));
                 } else {
                     // Both human (PvP) - ask attacker first
                     console.log(`[Game] ${code}: PvP combat - asking attacker first`);
                     gameRoomManager.initiateCombat(code, combat, attackerSocketId!, combat.defenderFaction);
                     // Clear combatState from server state - it's now tracked in pendingCombat
                     room.gameState.combatState = null;
-                    io.to(attackerSocketId!).emit('combat_choice_requested', {
-                        combatState: combat,
-                        role: 'ATTACKER'
-                    });
+                    io.to(attackerSocketId!).emit('combat_choice_requested', combatChoiceRequest(room, combat, 'ATTACKER'));
                 }
             }
 
-            // Broadcast updated state to all players (with combatState null for non-involved players)
-            console.log(`[Game] ${code}: Preparing state for broadcast...`);
-            const clientState = getClientState(room.gameState);
-            // ALWAYS broadcast with null combatState - individual players get private combat requests
-            const stateForBroadcast = { ...clientState, combatState: null };
-
-            // Log state size to detect potential serialization issues
-            const stateSize = JSON.stringify(stateForBroadcast).length;
-            console.log(`[Game] ${code}: Broadcasting state (${Math.round(stateSize / 1024)}KB)...`);
+            // Persist before broadcasting so a crash never loses an acknowledged action
+            gameRoomManager.saveRoom(code);
+            // A battle waiting on a player pauses the turn timer and starts a combat choice timer
+            turnTimers.refresh(code);
 
-            io.to(code).emit('state_update', { gameState: stateForBroadcast });
-            console.log(`[Game] ${code}: Broadcast complete (combatState in broadcast: ${stateForBroadcast.combatState ? 'SET' : 'null'})`);
+            // Broadcast updated state to each player through their fog of war
+            // ALWAYS broadcast with null combatState - individual players get private combat requests
+            console.log(`[Game] ${code}: Broadcasting state...`);
+            broadcastStateUpdate(io, room);
+            console.log(`[Game] ${code}: Broadcast complete`);
 
             socket.emit('action_result', { success: true });
             console.log(`[Game] ${code}: Action ${action.type} processed successfully`);
         } catch (err: any) {
             console.error(`[Game] ERROR in player_action handler:`, err);
             console.error('Stack:', err.stack);
-            socket.emit('action_result', { success: false, error: 'Server error processing action' });
+            socket.emit('action_result', { success: false, error: 'Server error processing action', code: ActionRejectionCode.SERVER_ERROR });
         }
     });
 
@@ -176,6 +187,11 @@ export function registerGameHandlers(
     // DO NOT duplicate it here - the handler there includes proper routing for subsequent battles
 
     socket.on('end_turn', async () => {
+        if (socket.data.spectating) {
+            socket.emit('error', { message: 'Spectators cannot end turns', code: ActionRejectionCode.SPECTATOR });
+            return;
+        }
+
         // Try to get gameCode from socket data, or recover it from room manager
         let code = socket.data.gameCode;
         if (!code) {
@@ -196,68 +212,247 @@ export function registerGameHandlers(
             return;
         }
 
-        const room = gameRoomManager.getRoom(code);
-        if (!room) {
-            socket.emit('error', { message: 'Game room not found' });
+        await endTurnForRoom(io, code, gameRoomManager, turnTimers, message => socket.emit('error', { message }));
+    });
+
+    // A player hands over their own faction, or the host hands over a disconnected player's faction
+    socket.on('hand_faction_to_ai', async ({ faction }: { faction: FactionId }) => {
+        if (socket.data.spectating) {
+            socket.emit('error', { message: 'Spectators cannot hand factions over', code: ActionRejectionCode.SPECTATOR });
             return;
         }
 
-        console.log(`[Game] ${code}: Ending turn for ${room.gameState.currentTurnFaction}`);
+        const code = socket.data.gameCode || gameRoomManager.getGameCodeForSocket(socket.id);
+        const room = code ? gameRoomManager.getRoom(code) : undefined;
+        if (!code || !room) {
+            socket.emit('error', { message: 'Not in a game' });
+            return;
+        }
 
-        try {
-            // 1. Advance the turn (calculates next faction, potentially processes full turn if round complete)
-            console.log(`[END_TURN] Calling advanceTurn...`);
-            let result = await advanceTurn(room.gameState);
+        const ownFaction = room.playerFactions.get(socket.id);
+        const isHost = room.lobby?.players.some(p => p.odId === socket.id && p.isHost) ?? false;
+        const seat = room.lobby?.players.find(p => p.faction === faction);
 
-            // Update room state
-            room.gameState = result.newState;
+        if (faction !== ownFaction && !(isHost && seat && !seat.isConnected)) {
+            socket.emit('error', { message: 'Only your own faction or a disconnected player\'s faction can be handed to the AI' });
+            return;
+        }
+
+        await handFactionToAI(io, code, faction, gameRoomManager, turnTimers);
+    });
+}
 
-            // DEBUG: Log state after advanceTurn
-            console.log(`[END_TURN] advanceTurn complete. combatState=${room.gameState.combatState ? 'SET' : 'NULL'}`);
-            if (room.gameState.combatState) {
-                const cs = room.gameState.combatState;
-                console.log(`[END_TURN] combatState details: attacker=${cs.attackerFaction}, defender=${cs.defenderFaction}, location=${cs.locationId || cs.roadId}`);
+/**
+ * Let the AI play a human faction until its player rejoins.
+ * A battle waiting on the faction gets the AI's answer (FIGHT); a turn in progress is
+ * ended as is and the AI plays the faction from its next turn.
+ */
+export async function handFactionToAI(
+    io: Server,
+    code: string,
+    faction: FactionId,
+    gameRoomManager: GameRoomManager,
+    turnTimers: TurnTimerManager
+): Promise<void> {
+    const socketId = gameRoomManager.getSocketForFaction(code, faction);
+    if (!gameRoomManager.setFactionController(code, faction, 'AI')) return;
+
+    const room = gameRoomManager.getRoom(code)!;
+    io.to(code).emit('faction_control_changed', { faction, controller: 'AI', lobby: room.lobby });
+    broadcastStateUpdate(io, room);
+
+    const combat = room.pendingCombat;
+    if (combat && socketId) {
+        const awaitsAttacker = combat.attackerSocketId === socketId && !combat.attackerChoice;
+        const awaitsDefender = combat.defenderSocketId === socketId && !!combat.attackerChoice && !combat.defenderChoice;
+        if (awaitsAttacker || awaitsDefender) {
+            applyCombatChoice(io, gameRoomManager, code, socketId, 'FIGHT');
+        }
+    }
+
+    if (!room.pendingCombat && room.gameState.currentTurnFaction === faction) {
+        await endTurnForRoom(io, code, gameRoomManager, turnTimers, message => {
+            console.error(`[Game] ${code}: Ending the turn of ${faction} after AI takeover failed: ${message}`);
+        });
+    }
+
+    turnTimers.refresh(code);
+}
+
+/**
+ * End the current faction's turn: advance, route or auto-resolve battles and play AI turns.
+ * Shared by the end_turn event and the turn timer; failures are reported through onError.
+ */
+export async function endTurnForRoom(
+    io: Server,
+    code: string,
+    gameRoomManager: GameRoomManager,
+    turnTimers: TurnTimerManager,
+    onError: (message: string) => void
+): Promise<void> {
+    const room = gameRoomManager.getRoom(code);
+    if (!room) {
+        onError('Game room not found');
+        return;
+    }
+
+    if (endingTurns.has(code)) {
+        onError('Turn is already ending');
+        return;
+    }
+    endingTurns.add(code);
+
+    console.log(`[Game] ${code}: Ending turn for ${room.gameState.currentTurnFaction}`);
+
+    try {
+        // 1. Advance the turn (calculates next faction, potentially processes full turn if round complete)
+        console.log(`[END_TURN] Calling advanceTurn...`);
+        const previousState = room.gameState;
+        let result = await advanceTurn(previousState);
+
+        // Update room state
+        room.gameState = result.newState;
+        gameRoomManager.recordEvent(code, { type: 'ADVANCE_TURN' }, previousState);
+
+        // DEBUG: Log state after advanceTurn
+        console.log(`[END_TURN] advanceTurn complete. combatState=${room.gameState.combatState ? 'SET' : 'NULL'}`);
+        if (room.gameState.combatState) {
+            const cs = room.gameState.combatState;
+            console.log(`[END_TURN] combatState details: attacker=${cs.attackerFaction}, defender=${cs.defenderFaction}, location=${cs.locationId || cs.roadId}`);
+        }
+        console.log(`[END_TURN] humanFactions=${JSON.stringify(room.gameState.humanFactions)}`);
+        console.log(`[END_TURN] combatQueue length=${room.gameState.combatQueue?.length || 0}`);
+
+        // Handle any combats generated by processTurn (including insurrections)
+        // Loop to auto-resolve AI vs AI battles, and route human battles properly
+        let pendingCombatRequest: { socketId: string; combatState: any; role: 'ATTACKER' | 'DEFENDER' } | null = null;
+
+        // FIX: If combatState is NULL but combatQueue has battles, pop the first one
+        if (!room.gameState.combatState && room.gameState.combatQueue && room.gameState.combatQueue.length > 0) {
+            console.log(`[END_TURN] combatState is NULL but queue has ${room.gameState.combatQueue.length} battles. Popping first...`);
+            const [nextBattle, ...remainingQueue] = room.gameState.combatQueue;
+            room.gameState.combatState = nextBattle;
+            room.gameState.combatQueue = remainingQueue;
+            console.log(`[END_TURN] Popped: ${nextBattle.attackerFaction} vs ${nextBattle.defenderFaction}. Remaining queue: ${remainingQueue.length}`);
+        }
+
+        // START BATTLE PHASE only if there are human-involved battles
+        if (room.gameState.combatState) {
+            // Check if ANY battle involves humans (current + queue)
+            const allCombats = [room.gameState.combatState, ...(room.gameState.combatQueue || [])];
+            const hasHumanInvolved = allCombats.some(combat => {
+                const attackerSocketId = gameRoomManager.getSocketForFaction(code, combat.attackerFaction);
+                const defenderSocketId = gameRoomManager.getSocketForFaction(code, combat.defenderFaction);
+                return attackerSocketId !== null || defenderSocketId !== null;
+            });
+
+            if (hasHumanInvolved) {
+                const totalBattles = allCombats.length;
+                gameRoomManager.startBattlePhase(code, totalBattles);
+                console.log(`[COMBAT_PHASE] EMITTING combat_phase_started in end_turn to room ${code} - ${totalBattles} battles`);
+                emitCombatPhaseStarted(
+                    io,
+                    room,
+                    room.gameState.combatState,
+                    room.gameState.combatQueue || [],
+                    room.gameState
+                );
             }
-            console.log(`[END_TURN] humanFactions=${JSON.stringify(room.gameState.humanFactions)}`);
-            console.log(`[END_TURN] combatQueue length=${room.gameState.combatQueue?.length || 0}`);
-
-            // Handle any combats generated by processTurn (including insurrections)
-            // Loop to auto-resolve AI vs AI battles, and route human battles properly
-            let pendingCombatRequest: { socketId: string; combatState: any; role: 'ATTACKER' | 'DEFENDER' } | null = null;
-
-            // FIX: If combatState is NULL but combatQueue has battles, pop the first one
-            if (!room.gameState.combatState && room.gameState.combatQueue && room.gameState.combatQueue.length > 0) {
-                console.log(`[END_TURN] combatState is NULL but queue has ${room.gameState.combatQueue.length} battles. Popping first...`);
-                const [nextBattle, ...remainingQueue] = room.gameState.combatQueue;
-                room.gameState.combatState = nextBattle;
-                room.gameState.combatQueue = remainingQueue;
-                console.log(`[END_TURN] Popped: ${nextBattle.attackerFaction} vs ${nextBattle.defenderFaction}. Remaining queue: ${remainingQueue.length}`);
+        }
+
+        while (room.gameState.combatState) {
+            const combat = room.gameState.combatState;
+            const attackerSocketId = gameRoomManager.getSocketForFaction(code, combat.attackerFaction);
+            const defenderSocketId = gameRoomManager.getSocketForFaction(code, combat.defenderFaction);
+            const attackerIsHuman = attackerSocketId !== null;
+            const defenderIsHuman = defenderSocketId !== null;
+
+            console.log(`[Game] ${code}: Turn combat check - Attacker: ${combat.attackerFaction} (Human: ${attackerIsHuman}), Defender: ${combat.defenderFaction} (Human: ${defenderIsHuman})`);
+
+            if (!attackerIsHuman && !defenderIsHuman) {
+                // Neither is human (AI vs AI or AI vs Neutral) - auto-resolve
+                console.log(`[Game] ${code}: Auto-resolving non-human combat: ${combat.attackerFaction} vs ${combat.defenderFaction}`);
+                const previousState = room.gameState;
+                const updates = resolveCombatResult(previousState, 'FIGHT', 0);
+                room.gameState = { ...previousState, ...updates };
+                gameRoomManager.recordEvent(code, { type: 'COMBAT_RESOLVED', choice: 'FIGHT', siegeCost: 0 }, previousState);
+                // Continue loop to check for more combats
+            } else if (!attackerIsHuman && defenderIsHuman) {
+                // AI/Neutral attacker vs Human defender - route to defender
+                console.log(`[Game] ${code}: AI/Neutral attacker vs Human defender - asking defender`);
+                gameRoomManager.initiateCombat(code, combat, 'AI', combat.defenderFaction);
+                gameRoomManager.setAttackerChoice(code, 'FIGHT');
+                room.gameState.combatState = null; // Clear from public state
+                // Store for later emission AFTER state_update
+                pendingCombatRequest = { socketId: defenderSocketId!, combatState: combat, role: 'DEFENDER' };
+                break; // Wait for human response
+            } else if (attackerIsHuman && !defenderIsHuman) {
+                // Human attacker vs AI/Neutral defender - route to attacker
+                console.log(`[Game] ${code}: Human attacker vs AI/Neutral defender - asking attacker`);
+                gameRoomManager.initiateCombat(code, combat, attackerSocketId!, combat.defenderFaction);
+                room.gameState.combatState = null; // Clear from public state
+                // Store for later emission AFTER state_update
+                pendingCombatRequest = { socketId: attackerSocketId!, combatState: combat, role: 'ATTACKER' };
+                break; // Wait for human response
+            } else {
+                // Human vs Human (PvP) - route to attacker first
+                console.log(`[Game] ${code}: PvP combat - asking attacker first`);
+                gameRoomManager.initiateCombat(code, combat, attackerSocketId!, combat.defenderFaction);
+                room.gameState.combatState = null; // Clear from public state
+                // Store for later emission AFTER state_update
+                pendingCombatRequest = { socketId: attackerSocketId!, combatState: combat, role: 'ATTACKER' };
+                break; // Wait for human response
             }
+        }
 
-            // START BATTLE PHASE only if there are human-involved battles
-            if (room.gameState.combatState) {
-                // Check if ANY battle involves humans (current + queue)
-                const allCombats = [room.gameState.combatState, ...(room.gameState.combatQueue || [])];
-                const hasHumanInvolved = allCombats.some(combat => {
-                    const attackerSocketId = gameRoomManager.getSocketForFaction(code, combat.attackerFaction);
-                    const defenderSocketId = gameRoomManager.getSocketForFaction(code, combat.defenderFaction);
-                    return attackerSocketId !== null || defenderSocketId !== null;
-                });
-
-                if (hasHumanInvolved) {
-                    const totalBattles = allCombats.length;
-                    gameRoomManager.startBattlePhase(code, totalBattles);
-                    console.log(`[COMBAT_PHASE] EMITTING combat_phase_started in end_turn to room ${code} - ${totalBattles} battles`);
-                    emitCombatPhaseStarted(
-                        io,
-                        code,
-                        room.gameState.combatState,
-                        room.gameState.combatQueue || [],
-                        room.gameState
-                    );
-                }
+        // CRITICAL: Broadcast state_update FIRST to prevent race condition
+        // Then send combat_choice_requested to involved player
+        console.log(`[END_TURN] Emitting state_update`);
+        broadcastStateUpdate(io, room);
+        io.to(code).emit('turn_changed', {
+            currentFaction: room.gameState.currentTurnFaction,
+            turnNumber: room.gameState.turn
+        });
+
+        // NOW send combat_choice_requested after client has processed state_update
+        if (pendingCombatRequest) {
+            io.to(pendingCombatRequest.socketId).emit('combat_choice_requested', combatChoiceRequest(room, pendingCombatRequest.combatState, pendingCombatRequest.role));
+            console.log(`[Game] ${code}: Sent combat_choice_requested to ${pendingCombatRequest.role}`);
+        } else {
+            // No pending combat request means all combats were AI vs AI and auto-resolved
+            // End the battle phase if it was started
+            const phaseInfo = gameRoomManager.getBattlePhaseInfo(code);
+            if (phaseInfo.active && !room.gameState.combatState && (!room.gameState.combatQueue || room.gameState.combatQueue.length === 0)) {
+                console.log(`[Game] ${code}: All combats auto-resolved, ending battle phase`);
+                gameRoomManager.endBattlePhase(code);
+                emitCombatPhaseEnded(io, code);
             }
+        }
 
+        // 2. If it's an AI turn, process it immediately
+        // Loop in case multiple AI turns happen in sequence (unlikely in this design but good for robustness)
+        console.log(`[END_TURN] Entering AI loop. isAITurn=${result.isAITurn}, nextFaction=${result.nextFaction}`);
+        while (result.isAITurn) {
+            // Let other rooms and sockets run between AI turns
+            await new Promise(resolve => setImmediate(resolve));
+            if (gameRoomManager.getRoom(code) !== room) return;
+
+            console.log(`[Game] ${code}: Processing AI turn for ${result.nextFaction}`);
+            console.log(`[AI_TURN_DEBUG] Before processSingleFactionAITurn - turn=${room.gameState.turn}, currentTurnFaction=${room.gameState.currentTurnFaction}`);
+
+            // Execute AI logic for this faction
+            try {
+                const previousState = room.gameState;
+                room.gameState = processSingleFactionAITurn(previousState, result.nextFaction);
+                gameRoomManager.recordEvent(code, { type: 'AI_TURN', faction: result.nextFaction }, previousState);
+                console.log(`[AI_TURN_DEBUG] After processSingleFactionAITurn completed successfully`);
+            } catch (aiError: any) {
+                console.error(`[AI_TURN_ERROR] processSingleFactionAITurn failed:`, aiError?.message);
+                console.error(`[AI_TURN_ERROR] Stack:`, aiError?.stack);
+                throw aiError; // Re-throw to be caught by outer try/catch
+            }
+
+            // Handle any combats generated during AI turn
             while (room.gameState.combatState) {
                 const combat = room.gameState.combatState;
                 const attackerSocketId = gameRoomManager.getSocketForFaction(code, combat.attackerFaction);
@@ -265,262 +460,174 @@ export function registerGameHandlers(
                 const attackerIsHuman = attackerSocketId !== null;
                 const defenderIsHuman = defenderSocketId !== null;
 
-                console.log(`[Game] ${code}: Turn combat check - Attacker: ${combat.attackerFaction} (Human: ${attackerIsHuman}), Defender: ${combat.defenderFaction} (Human: ${defenderIsHuman})`);
-
                 if (!attackerIsHuman && !defenderIsHuman) {
                     // Neither is human (AI vs AI or AI vs Neutral) - auto-resolve
-                    console.log(`[Game] ${code}: Auto-resolving non-human combat: ${combat.attackerFaction} vs ${combat.defenderFaction}`);
-                    const updates = resolveCombatResult(room.gameState, 'FIGHT', 0);
-                    room.gameState = { ...room.gameState, ...updates };
-                    // Continue loop to check for more combats
+                    console.log(`[Game] ${code}: Auto-resolving AI combat: ${combat.attackerFaction} vs ${combat.defenderFaction}`);
+                    const previousState = room.gameState;
+                    const updates = resolveCombatResult(previousState, 'FIGHT', 0);
+                    room.gameState = { ...previousState, ...updates };
+                    gameRoomManager.recordEvent(code, { type: 'COMBAT_RESOLVED', choice: 'FIGHT', siegeCost: 0 }, previousState);
                 } else if (!attackerIsHuman && defenderIsHuman) {
-                    // AI/Neutral attacker vs Human defender - route to defender
-                    console.log(`[Game] ${code}: AI/Neutral attacker vs Human defender - asking defender`);
+                    // AI attacker vs Human defender - AI fights, ask defender
+                    console.log(`[Game] ${code}: AI attacker vs Human defender - asking defender`);
+
+                    // START BATTLE PHASE for AI vs Human combat
+                    if (!gameRoomManager.getBattlePhaseInfo(code).active) {
+                        const totalBattles = 1 + (room.gameState.combatQueue?.length || 0);
+                        gameRoomManager.startBattlePhase(code, totalBattles);
+                        console.log(`[COMBAT_PHASE] EMITTING combat_phase_started during AI turn - ${totalBattles} battles`);
+                        emitCombatPhaseStarted(
+                            io,
+                            room,
+                            combat,
+                            room.gameState.combatQueue || [],
+                            room.gameState
+                        );
+                    }
+
                     gameRoomManager.initiateCombat(code, combat, 'AI', combat.defenderFaction);
                     gameRoomManager.setAttackerChoice(code, 'FIGHT');
-                    room.gameState.combatState = null; // Clear from public state
-                    // Store for later emission AFTER state_update
-                    pendingCombatRequest = { socketId: defenderSocketId!, combatState: combat, role: 'DEFENDER' };
+                    room.gameState.combatState = null;
+                    io.to(defenderSocketId!).emit('combat_choice_requested', combatChoiceRequest(room, combat, 'DEFENDER'));
                     break; // Wait for human response
                 } else if (attackerIsHuman && !defenderIsHuman) {
-                    // Human attacker vs AI/Neutral defender - route to attacker
-                    console.log(`[Game] ${code}: Human attacker vs AI/Neutral defender - asking attacker`);
-                    gameRoomManager.initiateCombat(code, combat, attackerSocketId!, combat.defenderFaction);
-                    room.gameState.combatState = null; // Clear from public state
-                    // Store for later emission AFTER state_update
-                    pendingCombatRequest = { socketId: attackerSocketId!, combatState: combat, role: 'ATTACKER' };
-                    break; // Wait for human response
+                    // Human attacker vs AI/Neutral - Should not happen during AI turn, but handle it
+                    console.log(`[Game] ${code}: Human attacker during AI turn - unexpected, auto-resolving`);
+                    const previousState = room.gameState;
+                    const updates = resolveCombatResult(previousState, 'FIGHT', 0);
+                    room.gameState = { ...previousState, ...updates };
+                    gameRoomManager.recordEvent(code, { type: 'COMBAT_RESOLVED', choice: 'FIGHT', siegeCost: 0 }, previousState);
                 } else {
-                    // Human vs Human (PvP) - route to attacker first
-                    console.log(`[Game] ${code}: PvP combat - asking attacker first`);
-                    gameRoomManager.initiateCombat(code, combat, attackerSocketId!, combat.defenderFaction);
-                    room.gameState.combatState = null; // Clear from public state
-                    // Store for later emission AFTER state_update
-                    pendingCombatRequest = { socketId: attackerSocketId!, combatState: combat, role: 'ATTACKER' };
-                    break; // Wait for human response
+                    // Human vs Human - Should not happen during AI turn
+                    console.log(`[Game] ${code}: PvP combat during AI turn - unexpected`);
+                    break;
                 }
             }
 
-            // CRITICAL: Broadcast state_update FIRST to prevent race condition
-            // Then send combat_choice_requested to involved player
-            const clientStateAfterTurn = getClientState(room.gameState);
-            const sanitizedState = { ...clientStateAfterTurn, combatState: null };
-            console.log(`[END_TURN] Emitting state_update (combatState: ${sanitizedState.combatState ? 'SET' : 'null'})`);
-            io.to(code).emit('state_update', { gameState: sanitizedState });
+            // Send updates after AI turn - ALWAYS EXCLUDE combatState from broadcast
+            // Individual players get private combat_choice_requested events
+            broadcastStateUpdate(io, room);
             io.to(code).emit('turn_changed', {
                 currentFaction: room.gameState.currentTurnFaction,
                 turnNumber: room.gameState.turn
             });
 
-            // NOW send combat_choice_requested after client has processed state_update
-            if (pendingCombatRequest) {
-                io.to(pendingCombatRequest.socketId).emit('combat_choice_requested', {
-                    combatState: pendingCombatRequest.combatState,
-                    role: pendingCombatRequest.role
-                });
-                console.log(`[Game] ${code}: Sent combat_choice_requested to ${pendingCombatRequest.role}`);
-            } else {
-                // No pending combat request means all combats were AI vs AI and auto-resolved
-                // End the battle phase if it was started
-                const phaseInfo = gameRoomManager.getBattlePhaseInfo(code);
-                if (phaseInfo.active && !room.gameState.combatState && (!room.gameState.combatQueue || room.gameState.combatQueue.length === 0)) {
-                    console.log(`[Game] ${code}: All combats auto-resolved, ending battle phase`);
-                    gameRoomManager.endBattlePhase(code);
-                    emitCombatPhaseEnded(io, code);
-                }
+            // If there's pending combat with a human, stop advancing turns
+            if (room.pendingCombat) {
+                console.log(`[Game] ${code}: Waiting for human combat response`);
+                break;
             }
 
-            // 2. If it's an AI turn, process it immediately
-            // Loop in case multiple AI turns happen in sequence (unlikely in this design but good for robustness)
-            console.log(`[END_TURN] Entering AI loop. isAITurn=${result.isAITurn}, nextFaction=${result.nextFaction}`);
-            while (result.isAITurn) {
-                console.log(`[Game] ${code}: Processing AI turn for ${result.nextFaction}`);
-                console.log(`[AI_TURN_DEBUG] Before processSingleFactionAITurn - turn=${room.gameState.turn}, currentTurnFaction=${room.gameState.currentTurnFaction}`);
-
-                // Execute AI logic for this faction
-                try {
-                    room.gameState = processSingleFactionAITurn(room.gameState, result.nextFaction);
-                    console.log(`[AI_TURN_DEBUG] After processSingleFactionAITurn completed successfully`);
-                } catch (aiError: any) {
-                    console.error(`[AI_TURN_ERROR] processSingleFactionAITurn failed:`, aiError?.message);
-                    console.error(`[AI_TURN_ERROR] Stack:`, aiError?.stack);
-                    throw aiError; // Re-throw to be caught by outer try/catch
-                }
-
-                // Handle any combats generated during AI turn
-                while (room.gameState.combatState) {
-                    const combat = room.gameState.combatState;
-                    const attackerSocketId = gameRoomManager.getSocketForFaction(code, combat.attackerFaction);
-                    const defenderSocketId = gameRoomManager.getSocketForFaction(code, combat.defenderFaction);
-                    const attackerIsHuman = attackerSocketId !== null;
-                    const defenderIsHuman = defenderSocketId !== null;
-
-                    if (!attackerIsHuman && !defenderIsHuman) {
-                        // Neither is human (AI vs AI or AI vs Neutral) - auto-resolve
-                        console.log(`[Game] ${code}: Auto-resolving AI combat: ${combat.attackerFaction} vs ${combat.defenderFaction}`);
-                        const updates = resolveCombatResult(room.gameState, 'FIGHT', 0);
-                        room.gameState = { ...room.gameState, ...updates };
-                    } else if (!attackerIsHuman && defenderIsHuman) {
-                        // AI attacker vs Human defender - AI fights, ask defender
-                        console.log(`[Game] ${code}: AI attacker vs Human defender - asking defender`);
-
-                        // START BATTLE PHASE for AI vs Human combat
-                        if (!gameRoomManager.getBattlePhaseInfo(code).active) {
-                            const totalBattles = 1 + (room.gameState.combatQueue?.length || 0);
-                            gameRoomManager.startBattlePhase(code, totalBattles);
-                            console.log(`[COMBAT_PHASE] EMITTING combat_phase_started during AI turn - ${totalBattles} battles`);
-                            emitCombatPhaseStarted(
-                                io,
-                                code,
-                                combat,
-                                room.gameState.combatQueue || [],
-                                room.gameState
-                            );
-                        }
-
-                        gameRoomManager.initiateCombat(code, combat, 'AI', combat.defenderFaction);
-                        gameRoomManager.setAttackerChoice(code, 'FIGHT');
-                        room.gameState.combatState = null;
-                        io.to(defenderSocketId!).emit('combat_choice_requested', {
-                            combatState: combat,
-                            role: 'DEFENDER'
-                        });
-                        break; // Wait for human response
-                    } else if (attackerIsHuman && !defenderIsHuman) {
-                        // Human attacker vs AI/Neutral - Should not happen during AI turn, but handle it
-                        console.log(`[Game] ${code}: Human attacker during AI turn - unexpected, auto-resolving`);
-                        const updates = resolveCombatResult(room.gameState, 'FIGHT', 0);
-                        room.gameState = { ...room.gameState, ...updates };
-                    } else {
-                        // Human vs Human - Should not happen during AI turn
-                        console.log(`[Game] ${code}: PvP combat during AI turn - unexpected`);
-                        break;
-                    }
-                }
-
-                // Send updates after AI turn - ALWAYS EXCLUDE combatState from broadcast
-                // Individual players get private combat_choice_requested events
-                const aiClientState = getClientState(room.gameState);
-                const aiStateForBroadcast = { ...aiClientState, combatState: null };
-                io.to(code).emit('state_update', { gameState: aiStateForBroadcast });
-                io.to(code).emit('turn_changed', {
-                    currentFaction: room.gameState.currentTurnFaction,
-                    turnNumber: room.gameState.turn
-                });
-
-                // If there's pending combat with a human, stop advancing turns
-                if (room.pendingCombat) {
-                    console.log(`[Game] ${code}: Waiting for human combat response`);
-                    break;
-                }
+            if (room.gameState.victory) break;
 
-                // Advance to next player after AI finishes
-                console.log(`[AI_TURN_DEBUG] After AI turn, calling advanceTurn again...`);
-                result = await advanceTurn(room.gameState);
-                room.gameState = result.newState;
-                console.log(`[AI_TURN_DEBUG] After advanceTurn - isAITurn=${result.isAITurn}, nextFaction=${result.nextFaction}, turn=${room.gameState.turn}`);
-
-                // Send state update after advancing turn - ALWAYS clear combatState
-                const stateAfterAdvance = getClientState(room.gameState);
-                io.to(code).emit('state_update', { gameState: { ...stateAfterAdvance, combatState: null } });
-                io.to(code).emit('turn_changed', {
-                    currentFaction: room.gameState.currentTurnFaction,
-                    turnNumber: room.gameState.turn
-                });
+            // Nobody left to play for: wait here until a player rejoins (the next turn starts then)
+            if (!gameRoomManager.hasHumanPlayer(code)) {
+                gameRoomManager.setPaused(code, true);
+                break;
             }
-            console.log(`[END_TURN] Exited AI loop. Final state: turn=${room.gameState.turn}, currentFaction=${room.gameState.currentTurnFaction}`);
-
-            // CRITICAL FIX: After AI turn loop completes, check for any battles that need routing
-            // This catches insurrection battles from processTurn that weren't detected during the loop
-            if (room.gameState.combatState && !room.pendingCombat) {
-                console.log(`[END_TURN] Post-AI check: Found unrouted combat!`);
-                const combat = room.gameState.combatState;
-                const attackerSocketId = gameRoomManager.getSocketForFaction(code, combat.attackerFaction);
-                const defenderSocketId = gameRoomManager.getSocketForFaction(code, combat.defenderFaction);
-                const attackerIsHuman = attackerSocketId !== null;
-                const defenderIsHuman = defenderSocketId !== null;
-
-                console.log(`[END_TURN] Post-AI combat: ${combat.attackerFaction} vs ${combat.defenderFaction}, attackerHuman=${attackerIsHuman}, defenderHuman=${defenderIsHuman}`);
 
-                // START BATTLE PHASE for human-involved combat (if not already active)
-                if ((attackerIsHuman || defenderIsHuman) && !gameRoomManager.getBattlePhaseInfo(code).active) {
-                    const totalBattles = 1 + (room.gameState.combatQueue?.length || 0);
-                    gameRoomManager.startBattlePhase(code, totalBattles);
-                    console.log(`[COMBAT_PHASE] EMITTING combat_phase_started in post-AI check - ${totalBattles} battles`);
-                    emitCombatPhaseStarted(
-                        io,
-                        code,
-                        combat,
-                        room.gameState.combatQueue || [],
-                        room.gameState
-                    );
-                }
-
-                if (!attackerIsHuman && !defenderIsHuman) {
-                    // Auto-resolve non-human combat
-                    const updates = resolveCombatResult(room.gameState, 'FIGHT', 0);
-                    room.gameState = { ...room.gameState, ...updates };
-                } else if (!attackerIsHuman && defenderIsHuman) {
-                    // AI/Neutral attacker vs Human defender
-                    gameRoomManager.initiateCombat(code, combat, 'AI', combat.defenderFaction);
-                    gameRoomManager.setAttackerChoice(code, 'FIGHT');
-                    room.gameState.combatState = null;
-
-                    // Broadcast sanitized state FIRST
-                    const clientState = getClientState(room.gameState);
-                    io.to(code).emit('state_update', { gameState: { ...clientState, combatState: null } });
-
-                    // THEN send combat request
-                    io.to(defenderSocketId!).emit('combat_choice_requested', {
-                        combatState: combat,
-                        role: 'DEFENDER'
-                    });
-                    console.log(`[END_TURN] Sent combat_choice_requested to defender`);
-                } else if (attackerIsHuman && !defenderIsHuman) {
-                    // Human attacker vs AI/Neutral defender
-                    gameRoomManager.initiateCombat(code, combat, attackerSocketId!, combat.defenderFaction);
-                    room.gameState.combatState = null;
+            // Advance to next player after AI finishes
+            console.log(`[AI_TURN_DEBUG] After AI turn, calling advanceTurn again...`);
+            const previousState = room.gameState;
+            result = await advanceTurn(previousState);
+            room.gameState = result.newState;
+            gameRoomManager.recordEvent(code, { type: 'ADVANCE_TURN' }, previousState);
+            console.log(`[AI_TURN_DEBUG] After advanceTurn - isAITurn=${result.isAITurn}, nextFaction=${result.nextFaction}, turn=${room.gameState.turn}`);
 
-                    // Broadcast sanitized state FIRST
-                    const clientState = getClientState(room.gameState);
-                    io.to(code).emit('state_update', { gameState: { ...clientState, combatState: null } });
+            // Send state update after advancing turn - ALWAYS clear combatState
+            broadcastStateUpdate(io, room);
+            io.to(code).emit('turn_changed', {
+                currentFaction: room.gameState.currentTurnFaction,
+                turnNumber: room.gameState.turn
+            });
+        }
+        console.log(`[END_TURN] Exited AI loop. Final state: turn=${room.gameState.turn}, currentFaction=${room.gameState.currentTurnFaction}`);
+
+        // CRITICAL FIX: After AI turn loop completes, check for any battles that need routing
+        // This catches insurrection battles from processTurn that weren't detected during the loop
+        if (room.gameState.combatState && !room.pendingCombat) {
+            console.log(`[END_TURN] Post-AI check: Found unrouted combat!`);
+            const combat = room.gameState.combatState;
+            const attackerSocketId = gameRoomManager.getSocketForFaction(code, combat.attackerFaction);
+            const defenderSocketId = gameRoomManager.getSocketForFaction(code, combat.defenderFaction);
+            const attackerIsHuman = attackerSocketId !== null;
+            const defenderIsHuman = defenderSocketId !== null;
+
+            console.log(`[END_TURN] Post-AI combat: ${combat.attackerFaction} vs ${combat.defenderFaction}, attackerHuman=${attackerIsHuman}, defenderHuman=${defenderIsHuman}`);
+
+            // START BATTLE PHASE for human-involved combat (if not already active)
+            if ((attackerIsHuman || defenderIsHuman) && !gameRoomManager.getBattlePhaseInfo(code).active) {
+                const totalBattles = 1 + (room.gameState.combatQueue?.length || 0);
+                gameRoomManager.startBattlePhase(code, totalBattles);
+                console.log(`[COMBAT_PHASE] EMITTING combat_phase_started in post-AI check - ${totalBattles} battles`);
+                emitCombatPhaseStarted(
+                    io,
+                    room,
+                    combat,
+                    room.gameState.combatQueue || [],
+                    room.gameState
+                );
+            }
 
-                    // THEN send combat request
-                    io.to(attackerSocketId!).emit('combat_choice_requested', {
-                        combatState: combat,
-                        role: 'ATTACKER'
-                    });
-                    console.log(`[END_TURN] Sent combat_choice_requested to attacker`);
-                } else {
-                    // PvP - route to attacker first
-                    gameRoomManager.initiateCombat(code, combat, attackerSocketId!, combat.defenderFaction);
-                    room.gameState.combatState = null;
+            if (!attackerIsHuman && !defenderIsHuman) {
+                // Auto-resolve non-human combat
+                const previousState = room.gameState;
+                const updates = resolveCombatResult(previousState, 'FIGHT', 0);
+                room.gameState = { ...previousState, ...updates };
+                gameRoomManager.recordEvent(code, { type: 'COMBAT_RESOLVED', choice: 'FIGHT', siegeCost: 0 }, previousState);
+            } else if (!attackerIsHuman && defenderIsHuman) {
+                // AI/Neutral attacker vs Human defender
+                gameRoomManager.initiateCombat(code, combat, 'AI', combat.defenderFaction);
+                gameRoomManager.setAttackerChoice(code, 'FIGHT');
+                room.gameState.combatState = null;
+
+                // Broadcast sanitized state FIRST
+                broadcastStateUpdate(io, room);
+
+                // THEN send combat request
+                io.to(defenderSocketId!).emit('combat_choice_requested', combatChoiceRequest(room, combat, 'DEFENDER'));
+                console.log(`[END_TURN] Sent combat_choice_requested to defender`);
+            } else if (attackerIsHuman && !defenderIsHuman) {
+                // Human attacker vs AI/Neutral defender
+                gameRoomManager.initiateCombat(code, combat, attackerSocketId!, combat.defenderFaction);
+                room.gameState.combatState = null;
+
+                // Broadcast sanitized state FIRST
+                broadcastStateUpdate(io, room);
+
+                // THEN send combat request
+                io.to(attackerSocketId!).emit('combat_choice_requested', combatChoiceRequest(room, combat, 'ATTACKER'));
+                console.log(`[END_TURN] Sent combat_choice_requested to attacker`);
+            } else {
+                // PvP - route to attacker first
+                gameRoomManager.initiateCombat(code, combat, attackerSocketId!, combat.defenderFaction);
+                room.gameState.combatState = null;
 
-                    // Broadcast sanitized state FIRST
-                    const clientState = getClientState(room.gameState);
-                    io.to(code).emit('state_update', { gameState: { ...clientState, combatState: null } });
+                // Broadcast sanitized state FIRST
+                broadcastStateUpdate(io, room);
 
-                    // THEN send combat request
-                    io.to(attackerSocketId!).emit('combat_choice_requested', {
-                        combatState: combat,
-                        role: 'ATTACKER'
-                    });
-                    console.log(`[END_TURN] Sent PvP combat_choice_requested to attacker`);
-                }
+                // THEN send combat request
+                io.to(attackerSocketId!).emit('combat_choice_requested', combatChoiceRequest(room, combat, 'ATTACKER'));
+                console.log(`[END_TURN] Sent PvP combat_choice_requested to attacker`);
             }
+        }
 
-        } catch (err: any) {
-            // Enhanced error logging - capture ALL forms of errors
-            const errStr = typeof err === 'string' ? err : (err?.message || err?.toString?.() || JSON.stringify(err) || 'Unknown error');
-            const errStack = err?.stack || new Error().stack || 'No stack available';
-            console.error(`[Game] ${code}: Error ending turn:`, err);
-            console.error(`[Game] ${code}: Error type:`, typeof err);
-            console.error(`[Game] ${code}: Error string:`, errStr);
-            console.error(`[Game] ${code}: Error stack:`, errStack);
-            if (err && typeof err === 'object') {
-                console.error(`[Game] ${code}: Error keys:`, Object.keys(err));
-            }
-            socket.emit('error', { message: `Failed to process end turn: ${errStr}` });
+        gameRoomManager.saveRoom(code);
+        turnTimers.refresh(code);
+
+    } catch (err: any) {
+        // Enhanced error logging - capture ALL forms of errors
+        const errStr = typeof err === 'string' ? err : (err?.message || err?.toString?.() || JSON.stringify(err) || 'Unknown error');
+        const errStack = err?.stack || new Error().stack || 'No stack available';
+        console.error(`[Game] ${code}: Error ending turn:`, err);
+        console.error(`[Game] ${code}: Error type:`, typeof err);
+        console.error(`[Game] ${code}: Error string:`, errStr);
+        console.error(`[Game] ${code}: Error stack:`, errStack);
+        if (err && typeof err === 'object') {
+            console.error(`[Game] ${code}: Error keys:`, Object.keys(err));
         }
-    });
+        onError(`Failed to process end turn: ${errStr}`);
+    } finally {
+        endingTurns.delete(code);
+    }
 }
@@ -6,10 +6,16 @@
 import { Server, Socket } from 'socket.io';
 import { LobbyManager } from '../../lobbyManager';
 import { GameRoomManager } from '../../gameRoom';
+import { TurnTimerManager } from '../../turnTimers';
 import { LobbyService, GameService, CombatService } from '../../application';
 import { registerLobbyHandlers } from './lobbyHandlers';
 import { registerGameHandlers } from './gameHandlers';
 import { registerCombatHandlers } from './combatHandlers';
+import { registerSpectatorHandlers, stopSpectating } from './spectatorHandlers';
+import { registerChatHandlers } from './chatHandlers';
+import { registerLogHandlers } from './logHandlers';
+import { registerReportHandlers } from './reportHandlers';
+import { registerDiplomacyHandlers } from './diplomacyHandlers';
 
 /**
  * Services and managers container for dependency injection
@@ -20,6 +26,7 @@ export interface SocketDependencies {
     lobbyService: LobbyService;
     gameService: GameService;
     combatService: CombatService;
+    turnTimers: TurnTimerManager;
 }
 
 /**
@@ -34,20 +41,32 @@ export function registerSocketHandlers(
     socket.data.odId = socket.id;
     socket.data.gameCode = null;
     socket.data.faction = null;
+    socket.data.spectating = null;
 
     // Register handlers from each domain (still using managers for now, can migrate to services incrementally)
-    registerLobbyHandlers(io, socket, deps.lobbyManager, deps.gameRoomManager);
-    registerGameHandlers(io, socket, deps.gameRoomManager);
-    registerCombatHandlers(io, socket, deps.gameRoomManager);
+    registerLobbyHandlers(io, socket, deps.lobbyManager, deps.gameRoomManager, deps.turnTimers);
+    registerGameHandlers(io, socket, deps.gameRoomManager, deps.turnTimers);
+    registerCombatHandlers(io, socket, deps.gameRoomManager, deps.turnTimers);
+    registerSpectatorHandlers(io, socket, deps.lobbyManager, deps.gameRoomManager);
+    registerChatHandlers(io, socket, deps.gameRoomManager);
+    registerLogHandlers(io, socket, deps.gameRoomManager);
+    registerReportHandlers(io, socket, deps.gameRoomManager);
+    registerDiplomacyHandlers(io, socket, deps.gameRoomManager);
 
     // Disconnect handler
     socket.on('disconnect', (reason) => {
         console.log(`[Connection] Client disconnected: ${socket.id} (${reason})`);
 
+        stopSpectating(io, socket, deps.lobbyManager);
+
         const lobby = deps.lobbyService.markDisconnected(socket.id);
         if (lobby) {
             io.to(lobby.code).emit('player_left', { odId: socket.id, lobby });
         }
+
+        // Start the disconnect grace period of a player in a running game
+        const code = deps.gameRoomManager.getGameCodeForSocket(socket.id);
+        if (code) deps.turnTimers.refresh(code);
     });
 }
 
@@ -55,4 +74,10 @@ export function registerSocketHandlers(
 export { registerLobbyHandlers } from './lobbyHandlers';
 export { registerGameHandlers } from './gameHandlers';
 export { registerCombatHandlers } from './combatHandlers';
+export { registerTimerHandlers } from './timerHandlers';
+export { registerSpectatorHandlers } from './spectatorHandlers';
+export { registerChatHandlers } from './chatHandlers';
+export { registerLogHandlers } from './logHandlers';
+export { registerReportHandlers } from './reportHandlers';
+export { registerDiplomacyHandlers } from './diplomacyHandlers';
 
@@ -4,23 +4,29 @@
 */
 
 import { Server, Socket } from 'socket.io';
-import { FactionId, PlayerInfo } from '../../types';
-import { LobbyManager } from '../../lobbyManager';
+import { FactionId } from '../../types';
+import { LobbyManager, getSeatFactions } from '../../lobbyManager';
 import { GameRoomManager } from '../../gameRoom';
-import { createMultiplayerGameState, getClientState } from '../../gameLogic';
-
-// Track sockets waiting to rejoin a game (key: lobbyCode, value: Map<socketId, faction>)
-const pendingRejoins = new Map<string, Map<string, FactionId>>();
+import { TurnTimerManager } from '../../turnTimers';
+import { createMultiplayerGameState, getFactionClientState } from '../../gameLogic';
+import { resolveVictoryConditions } from '../../../../shared/services/domain/victory';
+import { broadcastStateUpdate, getSpectatorState, spectatorRoom, combatChoiceRequest } from './stateBroadcast';
+import { stopSpectating } from './spectatorHandlers';
+import { endTurnForRoom } from './gameHandlers';
 
 export function registerLobbyHandlers(
     io: Server,
     socket: Socket,
     lobbyManager: LobbyManager,
-    gameRoomManager: GameRoomManager
+    gameRoomManager: GameRoomManager,
+    turnTimers: TurnTimerManager
 ): void {
 
-    socket.on('create_game', ({ maxPlayers, nickname }) => {
-        const lobby = lobbyManager.createLobby(socket.id, maxPlayers, nickname);
+    socket.on('create_game', ({ maxPlayers, nickname, mapId }) => {
+        // Taking a seat ends spectating
+        stopSpectating(io, socket, lobbyManager);
+
+        const lobby = lobbyManager.createLobby(socket.id, maxPlayers, nickname, mapId);
         socket.data.gameCode = lobby.code;
         socket.join(lobby.code);
 
@@ -28,6 +34,8 @@ export function registerLobbyHandlers(
     });
 
     socket.on('join_game', ({ code, nickname }) => {
+        stopSpectating(io, socket, lobbyManager);
+
         const result = lobbyManager.joinLobby(code, socket.id, nickname);
 
         if (!result.success || !result.lobby) {
@@ -79,6 +87,90 @@ export function registerLobbyHandlers(
         });
     });
 
+    socket.on('select_map', ({ mapId }) => {
+        const result = lobbyManager.selectMap(socket.id, mapId);
+
+        if (!result.success || !result.lobby) {
+            socket.emit('error', { message: result.error || 'Failed to select map' });
+            return;
+        }
+
+        io.to(result.lobby.code).emit('map_selected', {
+            mapId,
+            lobby: result.lobby
+        });
+    });
+
+    socket.on('set_timer_settings', ({ timers }) => {
+        const result = lobbyManager.setTimerSettings(socket.id, timers);
+
+        if (!result.success || !result.lobby) {
+            socket.emit('error', { message: result.error || 'Failed to change timers' });
+            return;
+        }
+
+        io.to(result.lobby.code).emit('timer_settings_updated', {
+            timers: result.lobby.timers,
+            lobby: result.lobby
+        });
+    });
+
+    socket.on('set_victory_conditions', ({ conditionIds }) => {
+        const result = lobbyManager.setVictoryConditions(socket.id, conditionIds);
+
+        if (!result.success || !result.lobby) {
+            socket.emit('error', { message: result.error || 'Failed to change victory conditions' });
+            return;
+        }
+
+        io.to(result.lobby.code).emit('victory_conditions_updated', {
+            victoryConditions: result.lobby.victoryConditions,
+            lobby: result.lobby
+        });
+    });
+
+    socket.on('set_combat_ruleset', ({ combatRuleset }) => {
+        const result = lobbyManager.setCombatRuleset(socket.id, combatRuleset);
+
+        if (!result.success || !result.lobby) {
+            socket.emit('error', { message: result.error || 'Failed to change combat rules' });
+            return;
+        }
+
+        io.to(result.lobby.code).emit('combat_ruleset_updated', {
+            combatRuleset: result.lobby.combatRuleset,
+            lobby: result.lobby
+        });
+    });
+
+    socket.on('set_treasury_ruleset', ({ treasuryRuleset }) => {
+        const result = lobbyManager.setTreasuryRuleset(socket.id, treasuryRuleset);
+
+        if (!result.success || !result.lobby) {
+            socket.emit('error', { message: result.error || 'Failed to change treasury rules' });
+            return;
+        }
+
+        io.to(result.lobby.code).emit('treasury_ruleset_updated', {
+            treasuryRuleset: result.lobby.treasuryRuleset,
+            lobby: result.lobby
+        });
+    });
+
+    socket.on('configure_seat', ({ faction, type, aiDifficulty }) => {
+        const result = lobbyManager.configureSeat(socket.id, faction, type, aiDifficulty);
+
+        if (!result.success || !result.lobby) {
+            socket.emit('error', { message: result.error || 'Failed to change seat' });
+            return;
+        }
+
+        io.to(result.lobby.code).emit('seats_updated', {
+            seats: result.lobby.seats,
+            lobby: result.lobby
+        });
+    });
+
     socket.on('set_ready', ({ isReady }) => {
         const result = lobbyManager.setPlayerReady(socket.id, isReady);
 
@@ -116,52 +208,51 @@ export function registerLobbyHandlers(
         // Notify all players that game is starting
         io.to(lobby.code).emit('game_starting', { lobby: startResult.lobby! });
 
-        // Determine human and AI factions
-        // IMPORTANT: Sort by standard faction order (REPUBLICANS < CONSPIRATORS < NOBLES)
-        const standardOrder = [FactionId.REPUBLICANS, FactionId.CONSPIRATORS, FactionId.NOBLES];
-        const humanFactions: FactionId[] = startResult.lobby!.players
-            .map(p => p.faction)
-            .filter((f): f is FactionId => f !== null)
-            .sort((a, b) => standardOrder.indexOf(a) - standardOrder.indexOf(b));
-
-        let aiFaction: FactionId | null = null;
-        if (startResult.lobby!.maxPlayers === 2) {
-            const allFactions = [FactionId.REPUBLICANS, FactionId.CONSPIRATORS, FactionId.NOBLES];
-            aiFaction = allFactions.find(f => !humanFactions.includes(f as FactionId)) as FactionId || null;
-        }
+        // Human and AI factions come from the seats (in the map's turn order)
+        // Every human seat is taken: the lobby only starts once all players picked one
+        const mapId = startResult.lobby!.mapId;
+        const { humanFactions, aiFactions, aiDifficulties } = getSeatFactions(startResult.lobby!);
 
         // Create REAL server-side game state using shared logic
-        const serverGameState = createMultiplayerGameState(humanFactions, aiFaction);
+        const victoryConditions = resolveVictoryConditions(mapId, startResult.lobby!.victoryConditions);
+        const serverGameState = createMultiplayerGameState(
+            humanFactions, aiFactions, mapId, undefined, victoryConditions, aiDifficulties,
+            startResult.lobby!.combatRuleset, startResult.lobby!.treasuryRuleset
+        );
 
         // Create game room with the proper state
         const room = gameRoomManager.createRoom(startResult.lobby!, serverGameState);
 
         lobbyManager.setGameInProgress(lobby.code);
 
-        // Notify all players that game has started with the full state
-        io.to(lobby.code).emit('game_started', {
-            gameState: getClientState(serverGameState),
+        // Notify each player that game has started with their faction's view of the state
+        // and the secret to take the seat back with after a disconnect
+        for (const [socketId, faction] of room.playerFactions) {
+            io.to(socketId).emit('game_started', {
+                gameState: getFactionClientState(serverGameState, faction),
+                turnOrder: room.turnOrder,
+                rejoinToken: gameRoomManager.getRejoinToken(room.code, faction)
+            });
+        }
+        io.to(spectatorRoom(lobby.code)).emit('game_started', {
+            gameState: getSpectatorState(room),
             turnOrder: room.turnOrder
         });
 
-        console.log(`[Game] Started: ${lobby.code} with factions: humans=${humanFactions}, AI=${aiFaction}`);
+        turnTimers.refresh(lobby.code);
+
+        console.log(`[Game] Started: ${lobby.code} on ${mapId} with factions: humans=${humanFactions}, AI=${aiFactions}`);
     });
 
     // Rejoin game after disconnect/reconnect
-    socket.on('rejoin_game', ({ lobbyCode, faction }: { lobbyCode: string; faction: FactionId }) => {
+    socket.on('rejoin_game', ({ lobbyCode, faction, rejoinToken }: { lobbyCode: string; faction: FactionId; rejoinToken?: string }) => {
         console.log(`[Rejoin] Player ${socket.id} attempting to rejoin ${lobbyCode} as ${faction}`);
 
         // Find the game room
         const room = gameRoomManager.getRoom(lobbyCode);
+        // Games only come back from the server's own store: a client's fogged copy can't rebuild one
         if (!room) {
-            console.log(`[Rejoin] No room found for ${lobbyCode}, adding to pending rejoins`);
-            
-            // Add to pending rejoins - will be notified when game is restored
-            if (!pendingRejoins.has(lobbyCode)) {
-                pendingRejoins.set(lobbyCode, new Map());
-            }
-            pendingRejoins.get(lobbyCode)!.set(socket.id, faction);
-            
+            console.log(`[Rejoin] No room found for ${lobbyCode}`);
             socket.emit('rejoin_error', { message: 'Game not found or has ended' });
             return;
         }
@@ -174,6 +265,20 @@ export function registerLobbyHandlers(
             return;
         }
 
+        // Only the seat's own player, and only once their previous connection is gone
+        if (!gameRoomManager.isRejoinTokenValid(lobbyCode, faction, rejoinToken)) {
+            console.log(`[Rejoin] Wrong rejoin token for ${faction} in ${lobbyCode}`);
+            socket.emit('rejoin_error', { message: 'Invalid rejoin token' });
+            return;
+        }
+        const seatConnected = Array.from(room.playerFactions).some(([socketId, f]) =>
+            f === faction && socketId !== socket.id && io.sockets.sockets.has(socketId)
+        );
+        if (seatConnected) {
+            socket.emit('rejoin_error', { message: 'This faction is still connected' });
+            return;
+        }
+
         // Update socket data
         socket.data.gameCode = lobbyCode;
         socket.data.faction = faction;
@@ -193,100 +298,52 @@ export function registerLobbyHandlers(
 
         // CRITICAL: Update room.playerFactions with new socketId
         // This map is used by isPlayerTurn and getSocketForFaction
-        room.playerFactions.set(socket.id, faction);
-
-        // Send current game state to the rejoined player
-        const currentState = getClientState(room.gameState);
-        socket.emit('state_update', { gameState: currentState });
+        // Stale entries for the same faction are dropped (including pending combat participants)
+        gameRoomManager.rebindSocket(lobbyCode, faction, socket.id);
+
+        // Take the faction back from the AI if it was handed over while away
+        const reclaimed = gameRoomManager.setFactionController(lobbyCode, faction, 'HUMAN');
+        gameRoomManager.saveRoom(lobbyCode);
+
+        if (reclaimed) {
+            io.to(lobbyCode).emit('faction_control_changed', { faction, controller: 'HUMAN', lobby: room.lobby });
+            // Everyone gets the state (and its log of the change)
+            broadcastStateUpdate(io, room);
+        } else {
+            // Send current game state to the rejoined player
+            const currentState = getFactionClientState(room.gameState, faction);
+            socket.emit('state_update', { gameState: currentState });
+        }
 
-        // Notify successful rejoin
-        socket.emit('game_rejoined', { lobbyCode, faction });
+        // Room chat and this faction's private conversations
+        socket.emit('chat_history', { messages: gameRoomManager.getChatHistory(lobbyCode, faction) });
 
-        console.log(`[Rejoin] Player ${socket.id} successfully rejoined ${lobbyCode} as ${faction}`);
-    });
+        // Re-send a combat choice that was waiting on this faction (e.g. across a server restart)
+        const combat = room.pendingCombat;
+        if (combat) {
+            if (combat.attackerSocketId === socket.id && !combat.attackerChoice) {
+                socket.emit('combat_choice_requested', combatChoiceRequest(room, combat.combatState, 'ATTACKER'));
+            } else if (combat.defenderSocketId === socket.id && combat.attackerChoice && !combat.defenderChoice) {
+                socket.emit('combat_choice_requested', combatChoiceRequest(room, combat.combatState, 'DEFENDER'));
+            }
+        }
 
-    // Restore game from client state (after server restart)
-    socket.on('restore_game', ({ lobbyCode, faction, gameState, aiFaction }) => {
-        console.log(`[Restore] Player ${socket.id} attempting to restore ${lobbyCode} as ${faction}`);
-
-        // Double check if room exists (race condition)
-        if (gameRoomManager.getRoom(lobbyCode)) {
-            console.log(`[Restore] Room ${lobbyCode} already exists, treating as rejoin`);
-            // Trigger rejoin logic manually or tell client to rejoin
-            // Ideally we'd just call the rejoin logic, but for simplicity let's emit error and client will rejoin
-            // Actually, client won't retry rejoin if restore fails with "exists".
-            // Let's just tell client it's restored (which effectively joins them)
-            // But we need to ensure they are joined to socket room
-            socket.emit('rejoin_error', { message: 'Game already exists, please rejoin' });
-            return;
+        // Notify successful rejoin
+        socket.emit('game_rejoined', { lobbyCode, faction, rejoinToken: gameRoomManager.getRejoinToken(lobbyCode, faction) });
+
+        // A room waiting for a player goes on: the AI turn it stopped after is over
+        const resumed = gameRoomManager.setPaused(lobbyCode, false);
+        const currentFaction = room.gameState.currentTurnFaction;
+        if (resumed && !room.pendingCombat && gameRoomManager.getSocketForFaction(lobbyCode, currentFaction) === null) {
+            endTurnForRoom(io, lobbyCode, gameRoomManager, turnTimers, message => {
+                console.error(`[Rejoin] ${lobbyCode}: Resuming turns failed: ${message}`);
+            });
         }
 
-        // Reconstruct Lobby
-        // We need to infer other players. 
-        // If 3 player game (aiFaction is null), we have 3 humans.
-        // If 2 player game (aiFaction not null), we have 2 humans.
-        const allFactions = [FactionId.REPUBLICANS, FactionId.CONSPIRATORS, FactionId.NOBLES];
-        const humanFactions = aiFaction
-            ? allFactions.filter(f => f !== aiFaction)
-            : allFactions;
-
-        const players: PlayerInfo[] = humanFactions.map(f => ({
-            odId: f === faction ? socket.id : `disconnected-${f}`, // Placeholder for others
-            faction: f,
-            isHost: f === faction, // Restorer becomes host effectively
-            isReady: true,
-            isConnected: f === faction,
-            nickname: f === faction ? 'Restored Player' : 'Disconnected'
-        }));
-
-        const maxPlayers = aiFaction ? 2 : 3;
-
-        // Restore Lobby
-        const lobby = lobbyManager.restoreLobby(lobbyCode, players, maxPlayers);
-
-        // Restore Game Room
-        // Note: We use the gameState from client. Check security? (Ideally yes, but for now trust client)
-        const room = gameRoomManager.createRoom(lobby, gameState);
-
-        // Sync currentTurnIndex with gameState.currentTurnFaction (server field name)
-        // Client might send as currentPlayerFaction or currentTurnFaction depending on source
-        const currentFaction = gameState.currentTurnFaction || gameState.currentPlayerFaction;
-        room.currentTurnIndex = room.turnOrder.indexOf(currentFaction);
-        if (room.currentTurnIndex === -1) room.currentTurnIndex = 0; // Fallback
-
-        // CRITICAL: Ensure server game state has all required multiplayer fields
-        // advanceTurn uses state.currentTurnIndex, state.turnOrder, state.humanFactions, state.aiFaction
-        room.gameState.currentTurnFaction = room.turnOrder[room.currentTurnIndex];
-        room.gameState.currentTurnIndex = room.currentTurnIndex;
-        room.gameState.turnOrder = room.turnOrder;
-        room.gameState.humanFactions = humanFactions;
-        room.gameState.aiFaction = aiFaction;
-
-        console.log(`[Restore] Turn sync: currentFaction=${currentFaction}, turnIndex=${room.currentTurnIndex}, serverCurrentTurn=${room.gameState.currentTurnFaction}`);
-
-        // Join socket
-        socket.data.gameCode = lobbyCode;
-        socket.data.faction = faction;
-        socket.join(lobbyCode);
+        // Back in time: drop the grace timer, then send the running deadlines
+        turnTimers.refresh(lobbyCode);
+        socket.emit('timers_updated', { timers: turnTimers.getStatus(lobbyCode), serverTime: Date.now() });
 
-        // Notify client
-        socket.emit('game_restored');
-        socket.emit('state_update', { gameState: getClientState(room.gameState) });
-
-        console.log(`[Restore] Successfully restored game ${lobbyCode} from player state`);
-
-        // Notify pending rejoins that the game has been restored
-        const pending = pendingRejoins.get(lobbyCode);
-        if (pending && pending.size > 0) {
-            console.log(`[Restore] Notifying ${pending.size} pending clients to rejoin ${lobbyCode}`);
-            for (const [pendingSocketId, pendingFaction] of pending) {
-                // Don't notify the restorer themselves
-                if (pendingSocketId !== socket.id) {
-                    io.to(pendingSocketId).emit('game_ready_to_rejoin', { lobbyCode, faction: pendingFaction });
-                    console.log(`[Restore] Notified ${pendingSocketId} (${pendingFaction}) to rejoin`);
-                }
-            }
-            pendingRejoins.delete(lobbyCode);
-        }
+        console.log(`[Rejoin] Player ${socket.id} successfully rejoined ${lobbyCode} as ${faction}`);
     });
 }
@@ -0,0 +1,74 @@
+/**
+ * Chronicle Socket Handlers
+ * Pages through the full log archive of a game: get_log_archive
+ */
+
+import { Server, Socket } from 'socket.io';
+import { GameRoomManager } from '../../gameRoom';
+import { getSpectatorState } from './stateBroadcast';
+import { LogQuery } from '../../../../shared/services/logs';
+import { LogType } from '../../../../shared/types';
+
+const LOG_TYPES = new Set<string>(Object.values(LogType));
+const HIGHLIGHT_TYPES = new Set(['LOCATION', 'ARMY', 'ROAD_STAGE']);
+
+const asInteger = (value: unknown): number | undefined =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.floor(value) : undefined;
+
+/**
+ * Keep only well-formed filters from a client query (the faction filter is set by the server)
+ */
+function sanitizeLogQuery(raw: any): LogQuery {
+    const query: LogQuery = {};
+    if (!raw || typeof raw !== 'object') return query;
+
+    query.fromTurn = asInteger(raw.fromTurn);
+    query.toTurn = asInteger(raw.toTurn);
+    query.offset = asInteger(raw.offset);
+    query.limit = asInteger(raw.limit);
+    if (raw.order === 'asc' || raw.order === 'desc') query.order = raw.order;
+    if (Array.isArray(raw.types)) {
+        query.types = raw.types.filter((type: unknown) => typeof type === 'string' && LOG_TYPES.has(type));
+    }
+
+    const target = raw.highlightTarget;
+    if (target && typeof target === 'object') {
+        query.highlightTarget = {
+            type: HIGHLIGHT_TYPES.has(target.type) ? target.type : undefined,
+            id: typeof target.id === 'string' ? target.id : undefined
+        };
+    }
+    return query;
+}
+
+export function registerLogHandlers(
+    io: Server,
+    socket: Socket,
+    gameRoomManager: GameRoomManager
+): void {
+
+    socket.on('get_log_archive', ({ query: rawQuery } = {}) => {
+        const query = sanitizeLogQuery(rawQuery);
+
+        // Players see what their faction could see, whatever they ask for
+        const code = socket.data.gameCode || gameRoomManager.getGameCodeForSocket(socket.id);
+        const room = code ? gameRoomManager.getRoom(code) : undefined;
+        const faction = room?.playerFactions.get(socket.id);
+        if (code && room && faction) {
+            query.faction = faction;
+            socket.emit('log_archive_page', { page: gameRoomManager.getLogArchive(code, query), query });
+            return;
+        }
+
+        // Spectators see the chronicle up to the turn their (possibly delayed) feed shows
+        const watched = socket.data.spectating ? gameRoomManager.getRoom(socket.data.spectating) : undefined;
+        if (watched) {
+            const shownTurn = getSpectatorState(watched).turn;
+            query.toTurn = query.toTurn === undefined ? shownTurn : Math.min(query.toTurn, shownTurn);
+            socket.emit('log_archive_page', { page: gameRoomManager.getLogArchive(watched.code, query), query });
+            return;
+        }
+
+        socket.emit('error', { message: 'Only players and spectators of a running game can read its chronicle' });
+    });
+}
@@ -0,0 +1,33 @@
+/**
+ * Game Report Socket Handlers
+ * End-of-game report on request (e.g. after a reconnect): get_game_report
+ */
+
+import { Server, Socket } from 'socket.io';
+import { GameRoomManager } from '../../gameRoom';
+import { getSpectatorState } from './stateBroadcast';
+
+export function registerReportHandlers(
+    io: Server,
+    socket: Socket,
+    gameRoomManager: GameRoomManager
+): void {
+
+    socket.on('get_game_report', () => {
+        const code = socket.data.gameCode || gameRoomManager.getGameCodeForSocket(socket.id);
+        const room = code ? gameRoomManager.getRoom(code) : undefined;
+        if (room?.playerFactions.has(socket.id) && room.report) {
+            socket.emit('game_report', { report: room.report });
+            return;
+        }
+
+        // Delayed spectators only get it once their feed shows the end of the game
+        const watched = socket.data.spectating ? gameRoomManager.getRoom(socket.data.spectating) : undefined;
+        if (watched?.report && getSpectatorState(watched).victory) {
+            socket.emit('game_report', { report: watched.report });
+            return;
+        }
+
+        socket.emit('error', { message: 'No end-of-game report available' });
+    });
+}
@@ -0,0 +1,108 @@
+/**
+ * Spectator Socket Handlers
+ * Handles read-only watchers of lobbies and running games: spectate, stop, settings
+ */
+
+import { Server, Socket } from 'socket.io';
+import { LobbyManager } from '../../lobbyManager';
+import { GameRoomManager } from '../../gameRoom';
+import { getSpectatorState, spectatorRoom } from './stateBroadcast';
+
+export function registerSpectatorHandlers(
+    io: Server,
+    socket: Socket,
+    lobbyManager: LobbyManager,
+    gameRoomManager: GameRoomManager
+): void {
+
+    socket.on('spectate_game', ({ code, nickname }) => {
+        // Sockets controlling a faction anywhere must not get the unfogged board
+        if (socket.data.gameCode || socket.data.faction || gameRoomManager.getGameCodeForSocket(socket.id)) {
+            socket.emit('error', { message: 'Players cannot spectate' });
+            return;
+        }
+
+        // Watching another game first leaves the previous one
+        stopSpectating(io, socket, lobbyManager);
+
+        const result = lobbyManager.addSpectator(code || '', socket.id, nickname);
+        if (!result.success || !result.lobby || !result.spectator) {
+            socket.emit('error', { message: result.error || 'Failed to spectate game' });
+            return;
+        }
+
+        const lobby = result.lobby;
+        socket.data.spectating = lobby.code;
+        socket.join(spectatorRoom(lobby.code));
+        if (lobby.spectatorSettings.delayTurns === 0) {
+            socket.join(lobby.code);
+        }
+
+        const room = gameRoomManager.getRoom(lobby.code);
+        socket.emit('spectating', {
+            code: lobby.code,
+            lobby,
+            delayTurns: lobby.spectatorSettings.delayTurns,
+            gameState: room ? getSpectatorState(room) : undefined,
+            turnOrder: room?.turnOrder
+        });
+
+        io.to([lobby.code, spectatorRoom(lobby.code)]).emit('spectator_joined', { spectator: result.spectator, lobby });
+    });
+
+    socket.on('stop_spectating', () => {
+        stopSpectating(io, socket, lobbyManager);
+    });
+
+    socket.on('set_spectator_settings', ({ settings }) => {
+        const watching = lobbyManager.getPlayerLobby(socket.id)?.spectators ?? [];
+        const result = lobbyManager.setSpectatorSettings(socket.id, settings);
+
+        if (!result.success || !result.lobby) {
+            socket.emit('error', { message: result.error || 'Failed to change spectator settings' });
+            return;
+        }
+
+        const lobby = result.lobby;
+
+        for (const spectator of watching) {
+            const spectatorSocket = io.sockets.sockets.get(spectator.socketId);
+            if (!spectatorSocket) continue;
+
+            // Closing spectating sends everyone watching away
+            if (!lobby.spectators.some(s => s.socketId === spectator.socketId)) {
+                spectatorSocket.data.spectating = null;
+                spectatorSocket.leave(lobby.code);
+                spectatorSocket.leave(spectatorRoom(lobby.code));
+                spectatorSocket.emit('error', { message: 'The host closed the game to spectators', code: 'SPECTATING_CLOSED' });
+                continue;
+            }
+
+            // Only live spectators follow the game room's events
+            if (lobby.spectatorSettings.delayTurns === 0) spectatorSocket.join(lobby.code);
+            else spectatorSocket.leave(lobby.code);
+        }
+
+        io.to([lobby.code, spectatorRoom(lobby.code)]).emit('spectator_settings_updated', {
+            settings: lobby.spectatorSettings,
+            lobby
+        });
+    });
+}
+
+/**
+ * Remove a socket from the game it watches (no-op for non-spectators)
+ */
+export function stopSpectating(io: Server, socket: Socket, lobbyManager: LobbyManager): void {
+    const code = socket.data.spectating;
+    if (!code) return;
+
+    socket.data.spectating = null;
+    socket.leave(code);
+    socket.leave(spectatorRoom(code));
+
+    const lobby = lobbyManager.removeSpectator(socket.id);
+    if (lobby) {
+        io.to([lobby.code, spectatorRoom(lobby.code)]).emit('spectator_left', { socketId: socket.id, lobby });
+    }
+}
@@ -0,0 +1,90 @@
+/**
+ * State Broadcast Utilities
+ *
+ * Sends game state to each player of a room individually, projected through
+ * that player's fog of war. Room-wide emits would leak hidden information.
+ * Spectators get the unfogged board, live or delayed, in their own socket room.
+ */
+
+import { Server } from 'socket.io';
+import { GameRoom } from '../../gameRoom';
+import { getFactionClientState, getClientState } from '../../gameLogic';
+import { CombatState } from '../../../../shared/types';
+import { buildCombatPreview } from '../../../../shared/services/combat/combatPreview';
+
+/**
+ * Socket room of a game's spectators. Live spectators also sit in the game room
+ * (turn, combat phase and timer events); delayed spectators only get this one.
+ */
+export const spectatorRoom = (code: string): string => `${code}:spectators`;
+
+/**
+ * Board shown to spectators: the live state, or the first state of the turn
+ * `delayTurns` turns ago (the initial board until the game is old enough)
+ */
+export function getSpectatorState(room: GameRoom): any {
+    const live = { ...getClientState(room.gameState), combatState: null };
+    const delayTurns = room.lobby?.spectatorSettings?.delayTurns ?? 0;
+    if (delayTurns === 0) return live;
+
+    const history = room.spectatorHistory;
+    const turn = room.gameState.turn;
+    if (history.length === 0 || history[history.length - 1].turn < turn) {
+        history.push({ turn, gameState: live });
+    }
+
+    // Keep the newest state that is old enough, and everything after it
+    const shownTurn = turn - delayTurns;
+    while (history.length > 1 && history[1].turn <= shownTurn) {
+        history.shift();
+    }
+    return history[0].gameState;
+}
+
+/**
+ * Emit state_update to every player in the room with their faction's view.
+ * combatState is ALWAYS null - involved players get private combat_choice_requested events.
+ */
+export function broadcastStateUpdate(io: Server, room: GameRoom): void {
+    for (const [socketId, faction] of room.playerFactions) {
+        const clientState = getFactionClientState(room.gameState, faction);
+        io.to(socketId).emit('state_update', { gameState: { ...clientState, combatState: null } });
+    }
+
+    // Computed even without spectators so a delayed feed has history when someone joins
+    const spectatorState = getSpectatorState(room);
+    if (room.lobby?.spectators?.length) {
+        io.to(spectatorRoom(room.code)).emit('state_update', { gameState: spectatorState });
+    }
+
+    announceGameReport(io, room, spectatorState);
+}
+
+/**
+ * Payload of combat_choice_requested: the battle plus the engine's preview of it
+ * (strengths, odds, expected losses, leader risk, siege cost)
+ */
+export function combatChoiceRequest(room: GameRoom, combatState: CombatState, role: 'ATTACKER' | 'DEFENDER') {
+    return { combatState, role, preview: buildCombatPreview(room.gameState, combatState) };
+}
+
+/**
+ * Send the end-of-game report once: to players as soon as there is a winner,
+ * to spectators when the board they are shown reaches it
+ */
+function announceGameReport(io: Server, room: GameRoom, spectatorState: any): void {
+    const report = room.report;
+    if (!report) return;
+
+    if (!room.reportAnnounced.players) {
+        for (const socketId of room.playerFactions.keys()) {
+            io.to(socketId).emit('game_report', { report });
+        }
+        room.reportAnnounced.players = true;
+    }
+
+    if (!room.reportAnnounced.spectators && spectatorState.victory) {
+        io.to(spectatorRoom(room.code)).emit('game_report', { report });
+        room.reportAnnounced.spectators = true;
+    }
+}
@@ -0,0 +1,57 @@
+/**
+ * Timer Socket Handlers
+ * Connects the turn timers to the rooms: auto end-turn, default combat choices, AI takeover
+ * of players who did not come back and countdown broadcasts
+ */
+
+import { Server } from 'socket.io';
+import { GameRoomManager } from '../../gameRoom';
+import { TurnTimerManager } from '../../turnTimers';
+import { endTurnForRoom, handFactionToAI } from './gameHandlers';
+import { applyCombatChoice } from './combatHandlers';
+
+export function registerTimerHandlers(
+    io: Server,
+    turnTimers: TurnTimerManager,
+    gameRoomManager: GameRoomManager
+): void {
+    turnTimers.setHandlers({
+        isSocketConnected: socketId => io.sockets.sockets.has(socketId),
+
+        onTimersChanged: (code, timers) => {
+            io.to(code).emit('timers_updated', { timers, serverTime: Date.now() });
+        },
+
+        onTurnExpired: (code, faction) => {
+            const room = gameRoomManager.getRoom(code);
+            if (!room || room.gameState.currentTurnFaction !== faction) return;
+
+            // The turn can only end once the battle is decided
+            if (room.pendingCombat) {
+                turnTimers.retryTurn(code);
+                return;
+            }
+
+            io.to(code).emit('timer_expired', { kind: 'TURN', faction });
+            endTurnForRoom(io, code, gameRoomManager, turnTimers, message => {
+                console.error(`[Timers] ${code}: Auto end-turn for ${faction} failed: ${message}`);
+                turnTimers.retryTurn(code);
+            });
+        },
+
+        onCombatChoiceExpired: (code, faction, socketId) => {
+            const room = gameRoomManager.getRoom(code);
+            if (!room || !room.pendingCombat) return;
+
+            // Idle players stand their ground
+            io.to(code).emit('timer_expired', { kind: 'COMBAT_CHOICE', faction });
+            applyCombatChoice(io, gameRoomManager, code, socketId, 'FIGHT');
+            turnTimers.refresh(code);
+        },
+
+        onGraceExpired: (code, faction) => {
+            io.to(code).emit('timer_expired', { kind: 'DISCONNECT_GRACE', faction });
+            handFactionToAI(io, code, faction, gameRoomManager, turnTimers);
+        }
+    });
+}
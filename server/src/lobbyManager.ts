@@ -1,7 +1,100 @@
 // Lobby Manager - Handles game lobby creation and management
 
 import { v4 as uuidv4 } from 'uuid';
-import { GameLobby, PlayerInfo, FactionId } from './types';
+import { GameLobby, PlayerInfo, FactionId, TimerSettings, SpectatorSettings, SpectatorInfo, LobbySeat, SeatType } from './types';
+import { AIDifficulty, DEFAULT_AI_DIFFICULTY, CombatRuleset, COMBAT_RULESETS, TreasuryRuleset, TREASURY_RULESETS } from '../../shared/types';
+import { MapId } from '../../shared/maps/types';
+import { MapRegistry } from '../../shared/maps/MapRegistry';
+import { hasMapData } from '../../shared/data/maps';
+import { getMapVictoryConditions, getDefaultVictoryConditionIds } from '../../shared/services/domain/victory';
+import { getMapCombatRuleset } from '../../shared/services/combat/combatRuleset';
+import { getMapTreasuryRuleset } from '../../shared/services/domain/economy/treasury';
+
+export const DEFAULT_MAP_ID: MapId = 'larion_alternate';
+
+export const DEFAULT_TIMER_SETTINGS: TimerSettings = {
+    turnSeconds: 300,
+    combatChoiceSeconds: 60,
+    disconnectGraceSeconds: 120
+};
+
+// Spectators see the whole board, so watching is opt-in and delayed unless the host asks for live
+export const DEFAULT_SPECTATOR_SETTINGS: SpectatorSettings = {
+    allowed: false,
+    delayTurns: 1
+};
+
+export const DEFAULT_HUMAN_SEATS = 2;
+
+const SEAT_TYPES: SeatType[] = ['HUMAN', 'AI', 'CLOSED'];
+const AI_DIFFICULTIES: AIDifficulty[] = ['EASY', 'NORMAL', 'HARD', 'BRUTAL'];
+
+// A game needs someone to play against
+const MIN_PLAYED_SEATS = 2;
+
+const MAX_SPECTATORS = 20;
+const MAX_SPECTATOR_DELAY_TURNS = 10;
+
+// Allowed range for each timer when enabled (0 always disables it)
+const TIMER_LIMITS: Record<keyof TimerSettings, { min: number; max: number }> = {
+    turnSeconds: { min: 30, max: 3600 },
+    combatChoiceSeconds: { min: 10, max: 600 },
+    disconnectGraceSeconds: { min: 10, max: 1800 }
+};
+
+/**
+ * A map can be picked in a lobby if it is listed for selection and has starting data
+ */
+const isSelectableMap = (mapId: MapId): boolean => {
+    return MapRegistry.getAvailableMaps().some(m => m.id === mapId) && hasMapData(mapId);
+};
+
+/**
+ * Seats of a new lobby: the first humanSeats factions (in turn order) for players, the others for the AI
+ */
+export const createDefaultSeats = (mapId: MapId, humanSeats: number): LobbySeat[] => {
+    const factions = MapRegistry.getTurnOrder(mapId);
+    const humans = Math.min(factions.length, Math.max(1, Math.floor(humanSeats) || DEFAULT_HUMAN_SEATS));
+    return factions.map((faction, i) => i < humans
+        ? { faction, type: 'HUMAN' as const }
+        : { faction, type: 'AI' as const, aiDifficulty: DEFAULT_AI_DIFFICULTY });
+};
+
+/**
+ * Seats of a game restored from its factions (map factions nobody plays are closed)
+ */
+export const buildSeats = (
+    mapId: MapId,
+    humanFactions: FactionId[],
+    aiFactions: FactionId[],
+    aiDifficulties: Partial<Record<FactionId, AIDifficulty>> = {}
+): LobbySeat[] => {
+    return MapRegistry.getTurnOrder(mapId).map((faction): LobbySeat => {
+        if (humanFactions.includes(faction)) return { faction, type: 'HUMAN' };
+        if (aiFactions.includes(faction)) {
+            return { faction, type: 'AI', aiDifficulty: aiDifficulties[faction] ?? DEFAULT_AI_DIFFICULTY };
+        }
+        return { faction, type: 'CLOSED' };
+    });
+};
+
+/**
+ * Factions of a lobby by who plays them, in the map's turn order
+ */
+export const getSeatFactions = (lobby: GameLobby): {
+    humanFactions: FactionId[];
+    aiFactions: FactionId[];
+    aiDifficulties: Partial<Record<FactionId, AIDifficulty>>;
+} => {
+    const aiSeats = lobby.seats.filter(s => s.type === 'AI');
+    return {
+        humanFactions: lobby.seats.filter(s => s.type === 'HUMAN').map(s => s.faction),
+        aiFactions: aiSeats.map(s => s.faction),
+        aiDifficulties: Object.fromEntries(aiSeats.map(s => [s.faction, s.aiDifficulty ?? DEFAULT_AI_DIFFICULTY]))
+    };
+};
+
+const countSeats = (seats: LobbySeat[], type: SeatType): number => seats.filter(s => s.type === type).length;
 
 // Generate a readable game code like "LARION-7X3K"
 const generateGameCode = (): string => {
@@ -17,13 +110,19 @@ const generateGameCode = (): string => {
 export class LobbyManager {
     private lobbies: Map<string, GameLobby> = new Map();
     private playerToLobby: Map<string, string> = new Map(); // odId -> gameCode
+    private spectatorToLobby: Map<string, string> = new Map(); // socketId -> gameCode
 
     constructor() {
         // Clean up stale lobbies every 5 minutes
         setInterval(() => this.cleanupStaleLobbies(), 5 * 60 * 1000);
     }
 
-    createLobby(hostSocketId: string, maxPlayers: 2 | 3, nickname?: string): GameLobby {
+    createLobby(hostSocketId: string, maxPlayers: number = DEFAULT_HUMAN_SEATS, nickname?: string, mapId: MapId = DEFAULT_MAP_ID): GameLobby {
+        if (!isSelectableMap(mapId)) {
+            mapId = DEFAULT_MAP_ID;
+        }
+        const seats = createDefaultSeats(mapId, maxPlayers);
+
         let code: string;
         // Ensure unique code
         do {
@@ -42,8 +141,16 @@ export class LobbyManager {
         const lobby: GameLobby = {
             code,
             hostSocketId,
-            maxPlayers,
+            maxPlayers: countSeats(seats, 'HUMAN'),
+            mapId,
+            seats,
+            timers: { ...DEFAULT_TIMER_SETTINGS },
+            spectatorSettings: { ...DEFAULT_SPECTATOR_SETTINGS },
+            victoryConditions: getDefaultVictoryConditionIds(mapId),
+            combatRuleset: getMapCombatRuleset(mapId),
+            treasuryRuleset: getMapTreasuryRuleset(mapId),
             players: [hostPlayer],
+            spectators: [],
             status: 'WAITING',
             createdAt: Date.now()
         };
@@ -51,16 +158,35 @@ export class LobbyManager {
         this.lobbies.set(code, lobby);
         this.playerToLobby.set(hostSocketId, code);
 
-        console.log(`[Lobby] Created: ${code} by ${hostSocketId} (${maxPlayers} players)`);
+        console.log(`[Lobby] Created: ${code} by ${hostSocketId} (${lobby.maxPlayers} players, map ${mapId})`);
         return lobby;
     }
 
-    restoreLobby(code: string, players: PlayerInfo[], maxPlayers: 2 | 3): GameLobby {
+    restoreLobby(
+        code: string,
+        players: PlayerInfo[],
+        seats: LobbySeat[],
+        mapId: MapId = DEFAULT_MAP_ID,
+        timers?: Partial<TimerSettings>,
+        spectatorSettings?: Partial<SpectatorSettings>,
+        victoryConditions?: string[],
+        combatRuleset?: CombatRuleset,
+        treasuryRuleset?: TreasuryRuleset
+    ): GameLobby {
         const lobby: GameLobby = {
             code,
             hostSocketId: players.find(p => p.isConnected)?.odId || players[0].odId,
-            maxPlayers,
+            maxPlayers: countSeats(seats, 'HUMAN'),
+            mapId,
+            seats,
+            // Snapshots saved before timers existed get the defaults
+            timers: { ...DEFAULT_TIMER_SETTINGS, ...timers },
+            spectatorSettings: { ...DEFAULT_SPECTATOR_SETTINGS, ...spectatorSettings },
+            victoryConditions: victoryConditions ?? getDefaultVictoryConditionIds(mapId),
+            combatRuleset: combatRuleset ?? getMapCombatRuleset(mapId),
+            treasuryRuleset: treasuryRuleset ?? getMapTreasuryRuleset(mapId),
             players,
+            spectators: [], // Spectator sockets do not survive a restart
             status: 'IN_PROGRESS',
             createdAt: Date.now()
         };
@@ -145,6 +271,14 @@ export class LobbyManager {
         const lobby = this.lobbies.get(code);
         if (!lobby) return { success: false, error: 'Game not found' };
 
+        const seat = lobby.seats.find(s => s.faction === faction);
+        if (!seat) {
+            return { success: false, error: 'Faction not available on this map' };
+        }
+        if (seat.type !== 'HUMAN') {
+            return { success: false, error: 'Faction is not open to players' };
+        }
+
         // Check if faction is already taken
         const factionTaken = lobby.players.some(p => p.faction === faction && p.odId !== socketId);
         if (factionTaken) {
@@ -161,6 +295,309 @@ export class LobbyManager {
         return { success: true, lobby };
     }
 
+    selectMap(socketId: string, mapId: MapId): { success: boolean; lobby?: GameLobby; error?: string } {
+        const code = this.playerToLobby.get(socketId);
+        if (!code) return { success: false, error: 'Not in a game' };
+
+        const lobby = this.lobbies.get(code);
+        if (!lobby) return { success: false, error: 'Game not found' };
+
+        if (lobby.hostSocketId !== socketId) {
+            return { success: false, error: 'Only the host can change the map' };
+        }
+
+        if (lobby.status !== 'WAITING') {
+            return { success: false, error: 'Game already in progress' };
+        }
+
+        if (!isSelectableMap(mapId)) {
+            return { success: false, error: 'Map not available' };
+        }
+
+        const factionCount = MapRegistry.getTurnOrder(mapId).length;
+        if (lobby.players.length > factionCount) {
+            return { success: false, error: `Map has only ${factionCount} factions for ${lobby.players.length} players` };
+        }
+
+        // Factions and victory rules differ between maps: everyone picks again
+        lobby.mapId = mapId;
+        lobby.seats = createDefaultSeats(mapId, Math.max(lobby.maxPlayers, lobby.players.length));
+        lobby.maxPlayers = countSeats(lobby.seats, 'HUMAN');
+        lobby.victoryConditions = getDefaultVictoryConditionIds(mapId);
+        lobby.combatRuleset = getMapCombatRuleset(mapId);
+        lobby.treasuryRuleset = getMapTreasuryRuleset(mapId);
+        for (const player of lobby.players) {
+            player.faction = null;
+            player.isReady = false;
+        }
+
+        console.log(`[Lobby] ${code} switched to map ${mapId}`);
+        return { success: true, lobby };
+    }
+
+    setTimerSettings(socketId: string, settings: Partial<TimerSettings>): { success: boolean; lobby?: GameLobby; error?: string } {
+        const code = this.playerToLobby.get(socketId);
+        if (!code) return { success: false, error: 'Not in a game' };
+
+        const lobby = this.lobbies.get(code);
+        if (!lobby) return { success: false, error: 'Game not found' };
+
+        if (lobby.hostSocketId !== socketId) {
+            return { success: false, error: 'Only the host can change the timers' };
+        }
+
+        if (lobby.status !== 'WAITING') {
+            return { success: false, error: 'Game already in progress' };
+        }
+
+        const timers = { ...lobby.timers };
+        for (const key of Object.keys(TIMER_LIMITS) as (keyof TimerSettings)[]) {
+            const value = settings?.[key];
+            if (value === undefined) continue;
+
+            const { min, max } = TIMER_LIMITS[key];
+            if (!Number.isInteger(value) || (value !== 0 && (value < min || value > max))) {
+                return { success: false, error: `${key} must be 0 (disabled) or between ${min} and ${max}` };
+            }
+            timers[key] = value;
+        }
+
+        lobby.timers = timers;
+
+        console.log(`[Lobby] ${code} timers: turn ${timers.turnSeconds}s, combat ${timers.combatChoiceSeconds}s, grace ${timers.disconnectGraceSeconds}s`);
+        return { success: true, lobby };
+    }
+
+    /**
+     * Open a faction to players, give it to the AI (at a difficulty) or close it (host only).
+     * A player who picked a faction that is no longer open to players picks again.
+     */
+    configureSeat(
+        socketId: string,
+        faction: FactionId,
+        type: SeatType,
+        aiDifficulty?: AIDifficulty
+    ): { success: boolean; lobby?: GameLobby; error?: string } {
+        const code = this.playerToLobby.get(socketId);
+        if (!code) return { success: false, error: 'Not in a game' };
+
+        const lobby = this.lobbies.get(code);
+        if (!lobby) return { success: false, error: 'Game not found' };
+
+        if (lobby.hostSocketId !== socketId) {
+            return { success: false, error: 'Only the host can change the seats' };
+        }
+
+        if (lobby.status !== 'WAITING') {
+            return { success: false, error: 'Game already in progress' };
+        }
+
+        const index = lobby.seats.findIndex(s => s.faction === faction);
+        if (index === -1) {
+            return { success: false, error: 'Faction not available on this map' };
+        }
+        if (!SEAT_TYPES.includes(type)) {
+            return { success: false, error: `Seat type must be one of ${SEAT_TYPES.join(', ')}` };
+        }
+        if (aiDifficulty !== undefined && (type !== 'AI' || !AI_DIFFICULTIES.includes(aiDifficulty))) {
+            return { success: false, error: `AI difficulty must be one of ${AI_DIFFICULTIES.join(', ')} (AI seats only)` };
+        }
+
+        const seat: LobbySeat = type === 'AI'
+            ? { faction, type, aiDifficulty: aiDifficulty ?? lobby.seats[index].aiDifficulty ?? DEFAULT_AI_DIFFICULTY }
+            : { faction, type };
+        const seats = lobby.seats.map((s, i) => i === index ? seat : s);
+
+        if (countSeats(seats, 'HUMAN') < lobby.players.length) {
+            return { success: false, error: `${lobby.players.length} player(s) need a seat` };
+        }
+        if (seats.length - countSeats(seats, 'CLOSED') < MIN_PLAYED_SEATS) {
+            return { success: false, error: `At least ${MIN_PLAYED_SEATS} factions must be played` };
+        }
+
+        lobby.seats = seats;
+        lobby.maxPlayers = countSeats(seats, 'HUMAN');
+        if (type !== 'HUMAN') {
+            for (const player of lobby.players.filter(p => p.faction === faction)) {
+                player.faction = null;
+                player.isReady = false;
+            }
+        }
+
+        console.log(`[Lobby] ${code} seat ${faction}: ${type}${seat.aiDifficulty ? ` (${seat.aiDifficulty})` : ''}`);
+        return { success: true, lobby };
+    }
+
+    setVictoryConditions(socketId: string, conditionIds: string[]): { success: boolean; lobby?: GameLobby; error?: string } {
+        const code = this.playerToLobby.get(socketId);
+        if (!code) return { success: false, error: 'Not in a game' };
+
+        const lobby = this.lobbies.get(code);
+        if (!lobby) return { success: false, error: 'Game not found' };
+
+        if (lobby.hostSocketId !== socketId) {
+            return { success: false, error: 'Only the host can change the victory conditions' };
+        }
+
+        if (lobby.status !== 'WAITING') {
+            return { success: false, error: 'Game already in progress' };
+        }
+
+        if (!Array.isArray(conditionIds) || conditionIds.length === 0) {
+            return { success: false, error: 'At least one victory condition is required' };
+        }
+
+        const available = getMapVictoryConditions(lobby.mapId).map(c => c.id);
+        const unknown = conditionIds.find(id => !available.includes(id));
+        if (unknown !== undefined) {
+            return { success: false, error: `Unknown victory condition for this map: ${unknown}` };
+        }
+
+        // Keep the map's order so rules are always checked the same way
+        lobby.victoryConditions = available.filter(id => conditionIds.includes(id));
+
+        console.log(`[Lobby] ${code} victory conditions: ${lobby.victoryConditions.join(', ')}`);
+        return { success: true, lobby };
+    }
+
+    setCombatRuleset(socketId: string, combatRuleset: CombatRuleset): { success: boolean; lobby?: GameLobby; error?: string } {
+        const code = this.playerToLobby.get(socketId);
+        if (!code) return { success: false, error: 'Not in a game' };
+
+        const lobby = this.lobbies.get(code);
+        if (!lobby) return { success: false, error: 'Game not found' };
+
+        if (lobby.hostSocketId !== socketId) {
+            return { success: false, error: 'Only the host can change the combat rules' };
+        }
+
+        if (lobby.status !== 'WAITING') {
+            return { success: false, error: 'Game already in progress' };
+        }
+
+        if (!COMBAT_RULESETS.includes(combatRuleset)) {
+            return { success: false, error: `Unknown combat ruleset: ${combatRuleset}` };
+        }
+
+        lobby.combatRuleset = combatRuleset;
+
+        console.log(`[Lobby] ${code} combat ruleset: ${combatRuleset}`);
+        return { success: true, lobby };
+    }
+
+    setTreasuryRuleset(socketId: string, treasuryRuleset: TreasuryRuleset): { success: boolean; lobby?: GameLobby; error?: string } {
+        const code = this.playerToLobby.get(socketId);
+        if (!code) return { success: false, error: 'Not in a game' };
+
+        const lobby = this.lobbies.get(code);
+        if (!lobby) return { success: false, error: 'Game not found' };
+
+        if (lobby.hostSocketId !== socketId) {
+            return { success: false, error: 'Only the host can change the treasury rules' };
+        }
+
+        if (lobby.status !== 'WAITING') {
+            return { success: false, error: 'Game already in progress' };
+        }
+
+        if (!TREASURY_RULESETS.includes(treasuryRuleset)) {
+            return { success: false, error: `Unknown treasury ruleset: ${treasuryRuleset}` };
+        }
+
+        lobby.treasuryRuleset = treasuryRuleset;
+
+        console.log(`[Lobby] ${code} treasury ruleset: ${treasuryRuleset}`);
+        return { success: true, lobby };
+    }
+
+    setSpectatorSettings(socketId: string, settings: Partial<SpectatorSettings>): { success: boolean; lobby?: GameLobby; error?: string } {
+        const code = this.playerToLobby.get(socketId);
+        if (!code) return { success: false, error: 'Not in a game' };
+
+        const lobby = this.lobbies.get(code);
+        if (!lobby) return { success: false, error: 'Game not found' };
+
+        if (lobby.hostSocketId !== socketId) {
+            return { success: false, error: 'Only the host can change spectator settings' };
+        }
+
+        if (lobby.status !== 'WAITING') {
+            return { success: false, error: 'Game already in progress' };
+        }
+
+        const { allowed, delayTurns } = settings ?? {};
+        if (allowed !== undefined && typeof allowed !== 'boolean') {
+            return { success: false, error: 'allowed must be true or false' };
+        }
+        if (delayTurns !== undefined &&
+            (!Number.isInteger(delayTurns) || delayTurns < 0 || delayTurns > MAX_SPECTATOR_DELAY_TURNS)) {
+            return { success: false, error: `delayTurns must be between 0 and ${MAX_SPECTATOR_DELAY_TURNS}` };
+        }
+
+        lobby.spectatorSettings = {
+            allowed: allowed ?? lobby.spectatorSettings.allowed,
+            delayTurns: delayTurns ?? lobby.spectatorSettings.delayTurns
+        };
+
+        // Spectators already watching cannot stay once spectating is closed
+        if (!lobby.spectatorSettings.allowed) {
+            for (const spectator of lobby.spectators) {
+                this.spectatorToLobby.delete(spectator.socketId);
+            }
+            lobby.spectators = [];
+        }
+
+        console.log(`[Lobby] ${code} spectators: ${lobby.spectatorSettings.allowed ? `allowed, ${lobby.spectatorSettings.delayTurns} turn(s) delay` : 'not allowed'}`);
+        return { success: true, lobby };
+    }
+
+    addSpectator(code: string, socketId: string, nickname?: string): { success: boolean; lobby?: GameLobby; spectator?: SpectatorInfo; error?: string } {
+        const lobby = this.lobbies.get(code.toUpperCase());
+        if (!lobby) return { success: false, error: 'Game not found' };
+
+        if (!lobby.spectatorSettings.allowed) {
+            return { success: false, error: 'This game does not allow spectators' };
+        }
+
+        if (lobby.status === 'FINISHED') {
+            return { success: false, error: 'Game has ended' };
+        }
+
+        if (this.playerToLobby.has(socketId) || lobby.players.some(p => p.odId === socketId)) {
+            return { success: false, error: 'Players cannot spectate' };
+        }
+
+        // Watching another game first stops watching the previous one
+        this.removeSpectator(socketId);
+
+        if (lobby.spectators.length >= MAX_SPECTATORS) {
+            return { success: false, error: 'Too many spectators' };
+        }
+
+        const spectator: SpectatorInfo = {
+            socketId,
+            nickname: nickname || `Spectator ${lobby.spectators.length + 1}`
+        };
+        lobby.spectators.push(spectator);
+        this.spectatorToLobby.set(socketId, lobby.code);
+
+        console.log(`[Lobby] ${socketId} is spectating ${lobby.code}`);
+        return { success: true, lobby, spectator };
+    }
+
+    removeSpectator(socketId: string): GameLobby | undefined {
+        const code = this.spectatorToLobby.get(socketId);
+        if (!code) return undefined;
+        this.spectatorToLobby.delete(socketId);
+
+        const lobby = this.lobbies.get(code);
+        if (!lobby) return undefined;
+
+        lobby.spectators = lobby.spectators.filter(s => s.socketId !== socketId);
+        console.log(`[Lobby] ${socketId} stopped spectating ${code}`);
+        return lobby;
+    }
+
     setPlayerReady(socketId: string, isReady: boolean): { success: boolean; lobby?: GameLobby; error?: string } {
         const code = this.playerToLobby.get(socketId);
         if (!code) return { success: false, error: 'Not in a game' };
@@ -244,6 +681,23 @@ export class LobbyManager {
         return lobby;
     }
 
+    /**
+     * Forget the lobby of a deleted game room, with its players and spectators
+     */
+    removeLobby(code: string): void {
+        const lobby = this.lobbies.get(code);
+        if (!lobby) return;
+
+        for (const player of lobby.players) {
+            if (this.playerToLobby.get(player.odId) === code) this.playerToLobby.delete(player.odId);
+        }
+        for (const spectator of lobby.spectators) {
+            this.spectatorToLobby.delete(spectator.socketId);
+        }
+        this.lobbies.delete(code);
+        console.log(`[Lobby] Removed: ${code}`);
+    }
+
     private cleanupStaleLobbies(): void {
         const now = Date.now();
         const maxAge = 2 * 60 * 60 * 1000; // 2 hours
@@ -0,0 +1,7 @@
+/**
+ * Replay - Main Export
+ */
+
+export { replayJournal, applyJournalEntry } from './replayEngine';
+export type { ReplayOptions, ReplayResult } from './replayEngine';
+export { replayFinishedGame } from './replayPool';
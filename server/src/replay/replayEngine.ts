@@ -0,0 +1,115 @@
+/**
+ * Replay Engine
+ * Rebuilds a room's game state from its journal by re-applying every recorded
+ * transition through the same gameLogic functions the live handlers use.
+ * The seeded RNG stored in the initial state makes the result identical to the live game.
+ */
+
+import { GameJournal, JournalEntry } from '../infrastructure/persistence';
+import {
+    MultiplayerGameState,
+    processPlayerAction,
+    advanceTurn,
+    processSingleFactionAITurn,
+    setFactionController,
+    ensureAIFactions,
+    proposeAgreement,
+    answerAgreement
+} from '../gameLogic';
+import { resolveCombatResult } from '../../../shared/services/combat';
+
+export interface ReplayOptions {
+    /** Stop once the state reaches this turn (state at the start of that turn) */
+    untilTurn?: number;
+    /** Stop after applying the entry with this sequence number */
+    untilSeq?: number;
+}
+
+export interface ReplayResult {
+    state: MultiplayerGameState;
+    appliedEntries: number;
+    /** First entry whose result did not match the recorded fingerprint (null if none) */
+    divergedAtSeq: number | null;
+}
+
+/**
+ * Apply a single journal entry to a state
+ */
+export async function applyJournalEntry(
+    state: MultiplayerGameState,
+    entry: JournalEntry
+): Promise<MultiplayerGameState> {
+    // Restore the combat slot the live handler applied the event to
+    const before = {
+        ...state,
+        combatState: entry.combatState,
+        combatQueue: entry.combatQueue
+    };
+    const event = entry.event;
+
+    switch (event.type) {
+        case 'PLAYER_ACTION': {
+            const result = processPlayerAction(before, event.action as any, event.faction);
+            if (!result.success) {
+                console.warn(`[Replay] Entry ${entry.seq}: ${event.action.type} was rejected (${result.errorCode})`);
+            }
+            return result.newState;
+        }
+
+        case 'ADVANCE_TURN': {
+            const result = await advanceTurn(before);
+            return result.newState;
+        }
+
+        case 'AI_TURN':
+            return processSingleFactionAITurn(before, event.faction);
+
+        case 'COMBAT_RESOLVED': {
+            const updates = resolveCombatResult(before, event.choice, event.siegeCost);
+            return { ...before, ...updates };
+        }
+
+        case 'CONTROL_CHANGED':
+            return setFactionController(before, event.faction, event.controller);
+
+        case 'AGREEMENT_PROPOSED':
+            return proposeAgreement(before, event.faction, event.proposal).newState;
+
+        case 'AGREEMENT_ANSWERED':
+            return answerAgreement(before, event.faction, event.agreementId, event.accept).newState;
+
+        default:
+            console.warn(`[Replay] Entry ${(entry as JournalEntry).seq}: Unknown event type`);
+            return state;
+    }
+}
+
+function matchesFingerprint(state: MultiplayerGameState, entry: JournalEntry): boolean {
+    return state.turn === entry.result.turn &&
+        state.currentTurnFaction === entry.result.currentTurnFaction &&
+        (state.rng?.state ?? null) === entry.result.rngState;
+}
+
+/**
+ * Replay a journal from its initial state
+ */
+export async function replayJournal(journal: GameJournal, options: ReplayOptions = {}): Promise<ReplayResult> {
+    let state: MultiplayerGameState = ensureAIFactions(JSON.parse(JSON.stringify(journal.initialState)));
+    let appliedEntries = 0;
+    let divergedAtSeq: number | null = null;
+
+    for (const entry of journal.entries) {
+        if (options.untilTurn !== undefined && state.turn >= options.untilTurn) break;
+        if (options.untilSeq !== undefined && entry.seq > options.untilSeq) break;
+
+        state = await applyJournalEntry(state, entry);
+        appliedEntries++;
+
+        if (divergedAtSeq === null && !matchesFingerprint(state, entry)) {
+            divergedAtSeq = entry.seq;
+            console.warn(`[Replay] ${journal.code}: Diverged at entry ${entry.seq} (${entry.event.type})`);
+        }
+    }
+
+    return { state, appliedEntries, divergedAtSeq };
+}
@@ -0,0 +1,60 @@
+/**
+ * Replay Pool
+ * Runs replays on worker threads so a long game never blocks the server's event loop.
+ * Journals of finished games do not change, so each result is cached per game and turn.
+ */
+
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { GameJournal } from '../infrastructure/persistence';
+import { ReplayOptions, ReplayResult } from './replayEngine';
+import { ReplayWorkerData } from './replayWorker';
+
+// Compiled (.js) or run through a TypeScript loader (.ts, inherited by the workers)
+const WORKER_FILE = path.join(__dirname, `replayWorker${path.extname(__filename)}`);
+
+const MAX_RUNNING_REPLAYS = 2;
+const MAX_CACHED_REPLAYS = 50;
+
+// `${code}:${untilTurn}` -> replay, running or done (oldest first)
+const cache = new Map<string, Promise<ReplayResult>>();
+let running = 0;
+
+function runInWorker(journal: GameJournal, options: ReplayOptions, mapsDir?: string): Promise<ReplayResult> {
+    running++;
+    return new Promise<ReplayResult>((resolve, reject) => {
+        const workerData: ReplayWorkerData = { journal, options, mapsDir };
+        const worker = new Worker(WORKER_FILE, { workerData });
+
+        worker.once('message', resolve);
+        worker.once('error', reject);
+        worker.once('exit', code => reject(new Error(`Replay worker exited with code ${code}`)));
+    }).finally(() => {
+        running--;
+    });
+}
+
+/**
+ * Replay a finished game's journal, or return the cached replay.
+ * Returns null when every worker is busy with another replay.
+ */
+export function replayFinishedGame(
+    journal: GameJournal,
+    options: { untilTurn?: number },
+    mapsDir?: string
+): Promise<ReplayResult> | null {
+    const key = `${journal.code}:${options.untilTurn ?? 'end'}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    if (running >= MAX_RUNNING_REPLAYS) return null;
+
+    const replay = runInWorker(journal, options, mapsDir);
+    cache.set(key, replay);
+    replay.catch(() => cache.delete(key));
+
+    while (cache.size > MAX_CACHED_REPLAYS) {
+        cache.delete(cache.keys().next().value!);
+    }
+    return replay;
+}
@@ -0,0 +1,31 @@
+/**
+ * Replay Worker
+ * Worker thread entry: replays one journal and posts the result back
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { loadMapDirectory } from '../infrastructure/maps';
+import { GameJournal } from '../infrastructure/persistence';
+import { replayJournal, ReplayOptions } from './replayEngine';
+
+export interface ReplayWorkerData {
+    journal: GameJournal;
+    options: ReplayOptions;
+    mapsDir?: string;   // Map files to register first (every thread has its own registry)
+}
+
+async function runReplay({ journal, options, mapsDir }: ReplayWorkerData): Promise<void> {
+    // The game's own logging would flood the server output
+    console.log = () => { };
+    console.warn = () => { };
+    loadMapDirectory(mapsDir);
+
+    parentPort!.postMessage(await replayJournal(journal, options));
+}
+
+if (parentPort) {
+    runReplay(workerData as ReplayWorkerData).catch((err: any) => {
+        console.error(`[Replay] Worker failed:`, err);
+        process.exit(1);
+    });
+}
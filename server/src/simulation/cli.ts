@@ -0,0 +1,133 @@
+/**
+ * Simulation CLI
+ * Plays AI-vs-AI games headlessly and prints or writes the balance report.
+ *
+ * Usage: npm run simulate -- --map larion_alternate --games 200 [--workers 4] [--max-turns 60]
+ *        [--seed 1] [--victory id,id] [--difficulty HARD | NOBLES=HARD,REPUBLICANS=EASY]
+ *        [--combat DETERMINISTIC | PROBABILISTIC] [--treasury CENTRAL | PHYSICAL]
+ *        [--maps-dir dir] [--out dir] [--verbose]
+ * With --out, writes summary.json, curves.csv and games.csv; otherwise prints the summary JSON.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FactionId, AIDifficulty, CombatRuleset, COMBAT_RULESETS, TreasuryRuleset, TREASURY_RULESETS } from '../../../shared/types';
+import { MapRegistry } from '../../../shared/maps/MapRegistry';
+import { AI_DIFFICULTY_SETTINGS } from '../../../shared/services/ai/difficulty';
+import { MapId } from '../../../shared/maps/types';
+import { loadMapDirectory } from '../infrastructure/maps';
+import { DEFAULT_MAX_TURNS } from './simulationRunner';
+import { runSimulationBatch, defaultWorkerCount, SimulationBatchOptions } from './simulationPool';
+import { summarizeSimulations, curvesToCsv, gamesToCsv } from './simulationSummary';
+
+const parseArgs = (argv: string[]): Record<string, string | true> => {
+    const args: Record<string, string | true> = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (!argv[i].startsWith('--')) continue;
+        const next = argv[i + 1];
+        args[argv[i].slice(2)] = next === undefined || next.startsWith('--') ? true : argv[++i];
+    }
+    return args;
+};
+
+const positiveInt = (value: string | true | undefined, fallback: number, name: string): number => {
+    if (value === undefined) return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new Error(`--${name} must be a positive integer`);
+    }
+    return parsed;
+};
+
+// One tier for every faction, or faction=tier pairs
+const parseDifficulties = (value: string | true | undefined, mapId: MapId): Partial<Record<FactionId, AIDifficulty>> => {
+    if (value === undefined) return {};
+    const factions = MapRegistry.getFactions(mapId);
+    const isTier = (tier: string): tier is AIDifficulty => tier in AI_DIFFICULTY_SETTINGS;
+    const entries = typeof value === 'string' ? value.split(',') : [''];
+    if (entries.length === 1 && isTier(entries[0])) {
+        return Object.fromEntries(factions.map(f => [f, entries[0]]));
+    }
+
+    const difficulties: Partial<Record<FactionId, AIDifficulty>> = {};
+    for (const entry of entries) {
+        const [faction, tier] = entry.split('=');
+        if (!factions.includes(faction as FactionId) || !isTier(tier)) {
+            throw new Error(`--difficulty expects a tier (${Object.keys(AI_DIFFICULTY_SETTINGS).join(', ')}) or FACTION=TIER pairs, got '${entry}'`);
+        }
+        difficulties[faction as FactionId] = tier;
+    }
+    return difficulties;
+};
+
+const parseCombatRuleset = (value: string | true | undefined): CombatRuleset | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string' || !COMBAT_RULESETS.includes(value as CombatRuleset)) {
+        throw new Error(`--combat must be one of: ${COMBAT_RULESETS.join(', ')}`);
+    }
+    return value as CombatRuleset;
+};
+
+const parseTreasuryRuleset = (value: string | true | undefined): TreasuryRuleset | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string' || !TREASURY_RULESETS.includes(value as TreasuryRuleset)) {
+        throw new Error(`--treasury must be one of: ${TREASURY_RULESETS.join(', ')}`);
+    }
+    return value as TreasuryRuleset;
+};
+
+async function main(): Promise<void> {
+    const args = parseArgs(process.argv.slice(2));
+    const mapsDir = typeof args['maps-dir'] === 'string' ? args['maps-dir'] : process.env.MAPS_DIR;
+
+    // Validate the map here too, workers would only report it per game
+    const log = console.log;
+    console.log = () => { };
+    loadMapDirectory(mapsDir);
+    console.log = log;
+
+    const mapId = args.map;
+    if (typeof mapId !== 'string' || !MapRegistry.has(mapId)) {
+        throw new Error(`--map must be one of: ${MapRegistry.getAll().map(m => m.id).join(', ')}`);
+    }
+
+    const options: SimulationBatchOptions = {
+        mapId: mapId as MapId,
+        games: positiveInt(args.games, 10, 'games'),
+        firstSeed: positiveInt(args.seed, 1, 'seed'),
+        maxTurns: positiveInt(args['max-turns'], DEFAULT_MAX_TURNS, 'max-turns'),
+        victoryConditionIds: typeof args.victory === 'string' ? args.victory.split(',') : undefined,
+        aiDifficulties: parseDifficulties(args.difficulty, mapId as MapId),
+        combatRuleset: parseCombatRuleset(args.combat),
+        treasuryRuleset: parseTreasuryRuleset(args.treasury),
+        workers: positiveInt(args.workers, defaultWorkerCount(), 'workers'),
+        mapsDir,
+        verbose: args.verbose === true
+    };
+
+    let done = 0;
+    const startedAt = Date.now();
+    const results = await runSimulationBatch(options, result => {
+        done++;
+        const outcome = result.error ? `error: ${result.error}` : result.victory ? `${result.victory.winner} wins` : 'undecided';
+        process.stderr.write(`[Simulation] ${done}/${options.games} seed ${result.seed}: ${outcome} after ${result.turns} turns\n`);
+    });
+    const summary = summarizeSimulations(options.mapId, results);
+    process.stderr.write(`[Simulation] ${results.length} games in ${((Date.now() - startedAt) / 1000).toFixed(1)}s\n`);
+
+    const outDir = args.out;
+    if (typeof outDir !== 'string') {
+        process.stdout.write(JSON.stringify(summary, null, 2) + '\n');
+        return;
+    }
+    fs.mkdirSync(outDir, { recursive: true });
+    fs.writeFileSync(path.join(outDir, 'summary.json'), JSON.stringify(summary, null, 2));
+    fs.writeFileSync(path.join(outDir, 'curves.csv'), curvesToCsv(summary));
+    fs.writeFileSync(path.join(outDir, 'games.csv'), gamesToCsv(results));
+    process.stderr.write(`[Simulation] Report written to ${outDir}\n`);
+}
+
+main().catch((err: any) => {
+    console.error(`[Simulation] ${err?.message ?? err}`);
+    process.exit(1);
+});
@@ -0,0 +1,11 @@
+/**
+ * Simulation - Main Export
+ * Headless AI-vs-AI games for balance testing
+ */
+
+export { runSimulatedGame, createSimulationState, DEFAULT_MAX_TURNS } from './simulationRunner';
+export type { SimulationGameOptions, SimulatedGameResult } from './simulationRunner';
+export { runSimulationBatch, defaultWorkerCount } from './simulationPool';
+export type { SimulationBatchOptions } from './simulationPool';
+export { summarizeSimulations, curvesToCsv, gamesToCsv, CURVE_METRICS } from './simulationSummary';
+export type { SimulationSummary, CurvePoint, CurveMetric } from './simulationSummary';
@@ -0,0 +1,69 @@
+/**
+ * Simulation Pool
+ * Spreads a batch of simulated games over worker threads
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { FactionId, AIDifficulty, CombatRuleset, TreasuryRuleset } from '../../../shared/types';
+import { MapId } from '../../../shared/maps/types';
+import { SimulationGameOptions, SimulatedGameResult } from './simulationRunner';
+import { SimulationWorkerData } from './simulationWorker';
+
+export interface SimulationBatchOptions {
+    mapId: MapId;
+    games: number;
+    firstSeed: number;              // Game i is played with seed firstSeed + i
+    maxTurns?: number;
+    victoryConditionIds?: string[];
+    aiDifficulties?: Partial<Record<FactionId, AIDifficulty>>;
+    combatRuleset?: CombatRuleset;
+    treasuryRuleset?: TreasuryRuleset;
+    workers?: number;               // Default: one per CPU core but one, at least one
+    mapsDir?: string;
+    verbose?: boolean;
+}
+
+// Compiled (.js) or run through a TypeScript loader (.ts, inherited by the workers)
+const WORKER_FILE = path.join(__dirname, `simulationWorker${path.extname(__filename)}`);
+
+export const defaultWorkerCount = (): number => Math.max(1, os.cpus().length - 1);
+
+/**
+ * Play every game of a batch. Results come back in seed order.
+ * @param onResult - Called as each game finishes (progress reporting)
+ */
+export async function runSimulationBatch(
+    options: SimulationBatchOptions,
+    onResult?: (result: SimulatedGameResult) => void
+): Promise<SimulatedGameResult[]> {
+    const jobs: SimulationGameOptions[] = Array.from({ length: options.games }, (_, i) => ({
+        mapId: options.mapId,
+        seed: options.firstSeed + i,
+        maxTurns: options.maxTurns,
+        victoryConditionIds: options.victoryConditionIds,
+        aiDifficulties: options.aiDifficulties,
+        combatRuleset: options.combatRuleset,
+        treasuryRuleset: options.treasuryRuleset
+    }));
+
+    const workerCount = Math.min(jobs.length, options.workers ?? defaultWorkerCount());
+    const shares: SimulationGameOptions[][] = Array.from({ length: workerCount }, () => []);
+    jobs.forEach((job, i) => shares[i % workerCount].push(job));
+
+    const results: SimulatedGameResult[] = [];
+    await Promise.all(shares.map(share => new Promise<void>((resolve, reject) => {
+        const workerData: SimulationWorkerData = { jobs: share, mapsDir: options.mapsDir, verbose: !!options.verbose };
+        const worker = new Worker(WORKER_FILE, { workerData });
+
+        worker.on('message', (result: SimulatedGameResult) => {
+            results.push(result);
+            onResult?.(result);
+        });
+        worker.on('error', reject);
+        worker.on('exit', code => code === 0 ? resolve() : reject(new Error(`Simulation worker exited with code ${code}`)));
+    })));
+
+    return results.sort((a, b) => a.seed - b.seed);
+}
@@ -0,0 +1,113 @@
+/**
+ * Simulation Runner
+ * Plays a whole game without players: every faction is run by processAITurn and
+ * turns are resolved by the shared processTurn on the game's seeded RNG stream,
+ * so the same map, seed and rules always give the same game.
+ */
+
+import { GameState, FactionId, TrackerState, VictoryResult, AIDifficulty, CombatRuleset, TreasuryRuleset } from '../../../shared/types';
+import { createInitialState, getMapStartingResources } from '../../../shared/data/initialState';
+import { MapRegistry } from '../../../shared/maps/MapRegistry';
+import { MapId } from '../../../shared/maps/types';
+import { calculateEconomyAndFood } from '../../../shared/utils/economy';
+import { processTurn } from '../../../shared/services/turnProcessor';
+import { resolveCombatResult } from '../../../shared/services/combat';
+import { resolveVictoryConditions } from '../../../shared/services/domain/victory';
+import { resolveCombatRuleset } from '../../../shared/services/combat/combatRuleset';
+import { resolveTreasuryRuleset } from '../../../shared/services/domain/economy/treasury';
+import { captureSnapshot, addSnapshot } from '../../../shared/services/tracker';
+import { processAITurn } from '../ai';
+
+export const DEFAULT_MAX_TURNS = 60;
+
+// A turn never leaves more battles than this; guards against a queue that never empties
+const MAX_BATTLES_PER_TURN = 50;
+
+export interface SimulationGameOptions {
+    mapId: MapId;
+    seed: number;
+    /** Turn cap (default DEFAULT_MAX_TURNS) */
+    maxTurns?: number;
+    /** Ids of the map's victory rules that apply (default: the map's default rules) */
+    victoryConditionIds?: string[];
+    /** Difficulty tier per faction (default: NORMAL) */
+    aiDifficulties?: Partial<Record<FactionId, AIDifficulty>>;
+    /** How battles are decided (default: the map's ruleset) */
+    combatRuleset?: CombatRuleset;
+    /** Where tax gold goes (default: the map's ruleset) */
+    treasuryRuleset?: TreasuryRuleset;
+}
+
+export interface SimulatedGameResult {
+    mapId: MapId;
+    seed: number;
+    turns: number;                  // Turns played
+    victory: VictoryResult | null;  // null when the turn cap came first
+    tracker: TrackerState;          // Starting board, then one snapshot per turn played
+    error?: string;                 // Set when the game crashed (turns and tracker stop there)
+}
+
+/**
+ * Starting state of a game where every faction of the map is played by the AI
+ */
+export function createSimulationState(
+    mapId: MapId,
+    seed: number,
+    victoryConditionIds?: string[],
+    aiDifficulties: Partial<Record<FactionId, AIDifficulty>> = {},
+    combatRuleset?: CombatRuleset,
+    treasuryRuleset?: TreasuryRuleset
+): GameState {
+    const factions = MapRegistry.getFactions(mapId).filter(f => f !== FactionId.NEUTRAL);
+    const baseState = createInitialState(FactionId.NEUTRAL, mapId, seed, aiDifficulties);
+
+    return {
+        ...baseState,
+        locations: calculateEconomyAndFood(baseState, baseState.locations, baseState.armies, baseState.characters, baseState.roads),
+        resources: getMapStartingResources(mapId, factions, aiDifficulties), // AI starting gold for everyone
+        playerFaction: FactionId.NEUTRAL,                    // processAITurn plays every other faction
+        humanFactions: [],                                   // Every battle is resolved automatically
+        showStartScreen: false,
+        victoryConditions: resolveVictoryConditions(mapId, victoryConditionIds),
+        combatRuleset: resolveCombatRuleset(mapId, combatRuleset),
+        treasuryRuleset: resolveTreasuryRuleset(mapId, treasuryRuleset),
+        trackerState: { enabled: true, snapshots: [] }
+    } as GameState;
+}
+
+/**
+ * Fight out battles a turn left waiting for a player choice (insurrections against nobody's army, sieges...)
+ */
+function resolvePendingBattles(state: GameState): GameState {
+    let resolved = state;
+    for (let i = 0; resolved.combatState && i < MAX_BATTLES_PER_TURN; i++) {
+        resolved = { ...resolved, ...resolveCombatResult(resolved, 'FIGHT') };
+    }
+    return { ...resolved, combatState: null, combatQueue: [] };
+}
+
+/**
+ * Play one game to victory or to the turn cap
+ */
+export async function runSimulatedGame(options: SimulationGameOptions): Promise<SimulatedGameResult> {
+    const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+    let state = createSimulationState(
+        options.mapId, options.seed, options.victoryConditionIds, options.aiDifficulties,
+        options.combatRuleset, options.treasuryRuleset
+    );
+    let tracker = addSnapshot(state.trackerState!, captureSnapshot(state));
+    let turns = 0;
+
+    try {
+        while (!state.victory && turns < maxTurns) {
+            // A failed turn must end the game as crashed, not be played again from the same state
+            state = resolvePendingBattles(await processTurn(state, { processAITurn, rethrow: true }));
+            tracker = addSnapshot(tracker, captureSnapshot(state));
+            turns++;
+        }
+    } catch (err: any) {
+        return { mapId: options.mapId, seed: options.seed, turns, victory: null, tracker, error: err?.message ?? String(err) };
+    }
+
+    return { mapId: options.mapId, seed: options.seed, turns, victory: state.victory ?? null, tracker };
+}
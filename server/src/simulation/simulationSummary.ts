@@ -0,0 +1,125 @@
+/**
+ * Simulation Summary
+ * Aggregates simulated games into win rates, game length and average tracker curves,
+ * and writes them out as JSON-ready objects or CSV tables.
+ */
+
+import { FactionId, FactionSnapshot } from '../../../shared/types';
+import { MapId } from '../../../shared/maps/types';
+import { SimulatedGameResult } from './simulationRunner';
+
+/** Tracker metrics averaged in the curves, in CSV column order */
+export const CURVE_METRICS = ['gold', 'stability', 'troops', 'leaders', 'income', 'foodBalance', 'locations', 'cities'] as const;
+export type CurveMetric = typeof CURVE_METRICS[number];
+
+/**
+ * Average of one faction's metrics over the games that reached a turn
+ */
+export interface CurvePoint {
+    turn: number;
+    faction: FactionId;
+    games: number;
+    values: Record<CurveMetric, number>;
+}
+
+export interface SimulationSummary {
+    mapId: MapId;
+    games: number;
+    failedGames: number;                          // Crashed games (left out of everything below)
+    winRates: Partial<Record<FactionId, number>>; // Share of finished games won, 0-1
+    wins: Partial<Record<FactionId, number>>;
+    undecided: number;                            // Games that reached the turn cap
+    winsByCondition: Record<string, number>;      // Victory rule id -> games won with it
+    averageTurns: number;
+    curves: CurvePoint[];                         // Sorted by turn, then faction
+}
+
+const round = (value: number, decimals: number = 2): number => {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+};
+
+function buildCurves(results: SimulatedGameResult[]): CurvePoint[] {
+    const sums = new Map<string, CurvePoint>();
+
+    for (const result of results) {
+        for (const snapshot of result.tracker.snapshots) {
+            for (const [faction, metrics] of Object.entries(snapshot.factions) as [FactionId, FactionSnapshot][]) {
+                const key = `${snapshot.turn}:${faction}`;
+                let point = sums.get(key);
+                if (!point) {
+                    point = { turn: snapshot.turn, faction, games: 0, values: {} as Record<CurveMetric, number> };
+                    CURVE_METRICS.forEach(metric => point!.values[metric] = 0);
+                    sums.set(key, point);
+                }
+                point.games++;
+                CURVE_METRICS.forEach(metric => point!.values[metric] += metrics[metric] ?? 0);
+            }
+        }
+    }
+
+    return [...sums.values()]
+        .map(point => {
+            CURVE_METRICS.forEach(metric => point.values[metric] = round(point.values[metric] / point.games));
+            return point;
+        })
+        .sort((a, b) => a.turn - b.turn || a.faction.localeCompare(b.faction));
+}
+
+/**
+ * Aggregate the games of one map
+ */
+export function summarizeSimulations(mapId: MapId, results: SimulatedGameResult[]): SimulationSummary {
+    const finished = results.filter(r => !r.error);
+    const wins: Partial<Record<FactionId, number>> = {};
+    const winsByCondition: Record<string, number> = {};
+
+    for (const result of finished) {
+        if (!result.victory) continue;
+        wins[result.victory.winner] = (wins[result.victory.winner] ?? 0) + 1;
+        const conditionId = result.victory.conditionId ?? 'unknown';
+        winsByCondition[conditionId] = (winsByCondition[conditionId] ?? 0) + 1;
+    }
+
+    const winRates: Partial<Record<FactionId, number>> = {};
+    for (const [faction, count] of Object.entries(wins) as [FactionId, number][]) {
+        winRates[faction] = round(count / finished.length, 4);
+    }
+
+    return {
+        mapId,
+        games: results.length,
+        failedGames: results.length - finished.length,
+        winRates,
+        wins,
+        undecided: finished.filter(r => !r.victory).length,
+        winsByCondition,
+        averageTurns: finished.length > 0 ? round(finished.reduce((sum, r) => sum + r.turns, 0) / finished.length) : 0,
+        curves: buildCurves(finished)
+    };
+}
+
+/**
+ * Tracker curves as CSV: one row per turn and faction
+ */
+export function curvesToCsv(summary: SimulationSummary): string {
+    const header = ['turn', 'faction', 'games', ...CURVE_METRICS].join(',');
+    const rows = summary.curves.map(point =>
+        [point.turn, point.faction, point.games, ...CURVE_METRICS.map(metric => point.values[metric])].join(','));
+    return [header, ...rows].join('\n') + '\n';
+}
+
+/**
+ * One row per game: seed, length and outcome
+ */
+export function gamesToCsv(results: SimulatedGameResult[]): string {
+    const header = 'seed,turns,winner,condition,error';
+    const rows = results.map(r => [
+        r.seed,
+        r.turns,
+        r.victory?.winner ?? '',
+        r.victory?.conditionId ?? '',
+        r.error ? JSON.stringify(r.error) : ''
+    ].join(','));
+    return [header, ...rows].join('\n') + '\n';
+}
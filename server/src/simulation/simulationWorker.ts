@@ -0,0 +1,33 @@
+/**
+ * Simulation Worker
+ * Worker thread entry: plays its share of the games and posts each result back
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { loadMapDirectory } from '../infrastructure/maps';
+import { runSimulatedGame, SimulationGameOptions } from './simulationRunner';
+
+export interface SimulationWorkerData {
+    jobs: SimulationGameOptions[];
+    mapsDir?: string;   // Map files to register first (every thread has its own registry)
+    verbose: boolean;   // Keep the game's console output
+}
+
+async function runJobs({ jobs, mapsDir, verbose }: SimulationWorkerData): Promise<void> {
+    if (!verbose) {
+        console.log = () => { };
+        console.warn = () => { };
+    }
+    loadMapDirectory(mapsDir);
+
+    for (const job of jobs) {
+        parentPort!.postMessage(await runSimulatedGame(job));
+    }
+}
+
+if (parentPort) {
+    runJobs(workerData as SimulationWorkerData).catch((err: any) => {
+        console.error(`[Simulation] Worker failed:`, err);
+        process.exit(1);
+    });
+}
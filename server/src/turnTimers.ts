@@ -0,0 +1,366 @@
+// Turn Timers - Deadlines for human turns, combat choices and disconnected players
+
+import { FactionId, TimerSettings, TimerStatus } from './types';
+import { GameRoomManager, GameRoom, PendingCombat } from './gameRoom';
+import { DEFAULT_TIMER_SETTINGS } from './lobbyManager';
+
+// Wait before expiring a turn again when its automatic end did not go through
+const TURN_RETRY_MS = 5000;
+
+/**
+ * Callbacks wired by the socket layer (the timers never touch game state themselves)
+ */
+export interface TurnTimerHandlers {
+    onTurnExpired: (code: string, faction: FactionId) => void;
+    onCombatChoiceExpired: (code: string, faction: FactionId, socketId: string) => void;
+    onGraceExpired: (code: string, faction: FactionId) => void;
+    onTimersChanged: (code: string, timers: TimerStatus[]) => void;
+    isSocketConnected: (socketId: string) => boolean;
+}
+
+interface RoomTimers {
+    turnKey: string | null;             // `${turn}:${faction}` the turn deadline belongs to
+    turnFaction: FactionId | null;
+    turnDeadline: number | null;        // null when the turn is not timed
+    turnPausedRemaining: number | null; // Remaining ms while a battle waits on a choice
+    turnFired: boolean;
+    turnNotBefore: number;              // Earliest next expiry after a failed automatic end (0: none)
+    combat: PendingCombat | null;       // Battle the combat deadline belongs to
+    combatRole: 'ATTACKER' | 'DEFENDER' | null;
+    combatFaction: FactionId | null;
+    combatSocketId: string | null;
+    combatDeadline: number | null;
+    combatFired: boolean;
+    graceDeadlines: Map<FactionId, number>;
+    absentFactions: Set<FactionId>;     // Grace expired: turns and choices are skipped immediately
+    handle: NodeJS.Timeout | null;
+    lastStatus: string;
+}
+
+const createRoomTimers = (): RoomTimers => ({
+    turnKey: null,
+    turnFaction: null,
+    turnDeadline: null,
+    turnPausedRemaining: null,
+    turnFired: false,
+    turnNotBefore: 0,
+    combat: null,
+    combatRole: null,
+    combatFaction: null,
+    combatSocketId: null,
+    combatDeadline: null,
+    combatFired: false,
+    graceDeadlines: new Map(),
+    absentFactions: new Set(),
+    handle: null,
+    lastStatus: '[]'
+});
+
+export class TurnTimerManager {
+    private rooms: Map<string, RoomTimers> = new Map();
+    private handlers: TurnTimerHandlers | null = null;
+
+    constructor(private gameRoomManager: GameRoomManager) {
+        gameRoomManager.onRoomDeleted(code => this.clearRoom(code));
+    }
+
+    setHandlers(handlers: TurnTimerHandlers): void {
+        this.handlers = handlers;
+    }
+
+    /**
+     * Re-read a room and update its deadlines. Call after anything that can change
+     * the current turn, the pending combat or a player's connection.
+     */
+    refresh(code: string): void {
+        const room = this.gameRoomManager.getRoom(code);
+        if (!room || !this.handlers) {
+            this.clearRoom(code);
+            return;
+        }
+
+        let timers = this.rooms.get(code);
+        if (!timers) {
+            timers = createRoomTimers();
+            this.rooms.set(code, timers);
+        }
+
+        if (room.gameState?.victory || room.paused) {
+            this.stop(timers);
+            this.publish(code, timers);
+            return;
+        }
+
+        const settings: TimerSettings = room.lobby?.timers ?? DEFAULT_TIMER_SETTINGS;
+        const now = Date.now();
+
+        const departed = this.updateGrace(room, timers, settings, now);
+        if (room.paused) {
+            this.stop(timers);
+            this.publish(code, timers);
+        } else {
+            this.updateTurn(room, timers, settings, now);
+            this.updateCombat(room, timers, settings, now);
+            this.schedule(code, timers, now);
+            this.publish(code, timers);
+        }
+
+        for (const faction of departed) {
+            this.handlers.onGraceExpired(code, faction);
+        }
+    }
+
+    /**
+     * Current timers of a room (empty when nothing is running)
+     */
+    getStatus(code: string): TimerStatus[] {
+        const timers = this.rooms.get(code);
+        if (!timers) return [];
+
+        const now = Date.now();
+        const status: TimerStatus[] = [];
+
+        if (timers.turnFaction && timers.turnPausedRemaining !== null) {
+            status.push({
+                kind: 'TURN',
+                faction: timers.turnFaction,
+                expiresAt: now + timers.turnPausedRemaining,
+                remainingMs: timers.turnPausedRemaining,
+                paused: true
+            });
+        } else if (timers.turnFaction && timers.turnDeadline !== null) {
+            status.push({
+                kind: 'TURN',
+                faction: timers.turnFaction,
+                expiresAt: timers.turnDeadline,
+                remainingMs: Math.max(0, timers.turnDeadline - now)
+            });
+        }
+
+        if (timers.combatFaction && timers.combatDeadline !== null) {
+            status.push({
+                kind: 'COMBAT_CHOICE',
+                faction: timers.combatFaction,
+                expiresAt: timers.combatDeadline,
+                remainingMs: Math.max(0, timers.combatDeadline - now)
+            });
+        }
+
+        for (const [faction, deadline] of timers.graceDeadlines) {
+            status.push({
+                kind: 'DISCONNECT_GRACE',
+                faction,
+                expiresAt: deadline,
+                remainingMs: Math.max(0, deadline - now)
+            });
+        }
+
+        return status;
+    }
+
+    /**
+     * The automatic end of an expired turn did not go through (it failed, or a battle
+     * was still waiting): expire the turn again after TURN_RETRY_MS
+     */
+    retryTurn(code: string): void {
+        const timers = this.rooms.get(code);
+        if (!timers?.turnFired) return;
+
+        timers.turnFired = false;
+        timers.turnNotBefore = Date.now() + TURN_RETRY_MS;
+        timers.turnDeadline = timers.turnNotBefore;
+        this.refresh(code);
+    }
+
+    clearRoom(code: string): void {
+        const timers = this.rooms.get(code);
+        if (!timers) return;
+
+        this.stop(timers);
+        this.rooms.delete(code);
+    }
+
+    // Disconnected factions get a grace period, then count as absent until they rejoin
+    // The last faction a player still plays is never given up: the room pauses instead
+    // Returns the factions whose grace period just ran out
+    private updateGrace(room: GameRoom, timers: RoomTimers, settings: TimerSettings, now: number): FactionId[] {
+        const factionSockets = new Map<FactionId, string>();
+        for (const [socketId, faction] of room.playerFactions) {
+            factionSockets.set(faction, socketId);
+        }
+
+        const departed: FactionId[] = [];
+        for (const [faction, socketId] of factionSockets) {
+            // The AI already plays it: nobody to wait for
+            if (room.aiFactions.has(faction)) {
+                timers.graceDeadlines.delete(faction);
+                continue;
+            }
+
+            if (this.handlers!.isSocketConnected(socketId)) {
+                if (timers.absentFactions.delete(faction)) {
+                    console.log(`[Timers] ${room.code}: ${faction} is back`);
+                }
+                timers.graceDeadlines.delete(faction);
+                continue;
+            }
+
+            if (timers.absentFactions.has(faction) || settings.disconnectGraceSeconds === 0) continue;
+
+            const deadline = timers.graceDeadlines.get(faction);
+            if (deadline === undefined) {
+                timers.graceDeadlines.set(faction, now + settings.disconnectGraceSeconds * 1000);
+            } else if (deadline <= now) {
+                timers.graceDeadlines.delete(faction);
+                const othersPlayed = Array.from(factionSockets.keys()).some(f =>
+                    f !== faction && !room.aiFactions.has(f) && !timers.absentFactions.has(f)
+                );
+                if (!othersPlayed) {
+                    console.log(`[Timers] ${room.code}: ${faction} did not come back, no player left`);
+                    this.gameRoomManager.setPaused(room.code, true);
+                    continue;
+                }
+                timers.absentFactions.add(faction);
+                departed.push(faction);
+                console.log(`[Timers] ${room.code}: ${faction} did not come back`);
+            }
+        }
+        return departed;
+    }
+
+    private updateTurn(room: GameRoom, timers: RoomTimers, settings: TimerSettings, now: number): void {
+        const faction: FactionId | undefined = room.gameState?.currentTurnFaction;
+        const isHuman = !!faction && this.gameRoomManager.getSocketForFaction(room.code, faction) !== null;
+
+        if (!faction || !isHuman) {
+            timers.turnKey = null;
+            timers.turnFaction = null;
+            timers.turnDeadline = null;
+            timers.turnPausedRemaining = null;
+            return;
+        }
+
+        const key = `${room.gameState.turn}:${faction}`;
+        if (timers.turnKey !== key) {
+            timers.turnKey = key;
+            timers.turnFaction = faction;
+            timers.turnPausedRemaining = null;
+            timers.turnFired = false;
+            timers.turnNotBefore = 0;
+            timers.turnDeadline = settings.turnSeconds > 0 ? now + settings.turnSeconds * 1000 : null;
+        }
+        if (timers.turnFired) return;
+
+        // A player who left is skipped right away, even on untimed turns
+        if (timers.absentFactions.has(faction)) {
+            if (timers.turnPausedRemaining !== null) timers.turnPausedRemaining = 0;
+            else timers.turnDeadline = Math.max(now, timers.turnNotBefore);
+        }
+
+        // A battle waiting on a choice freezes the turn clock
+        if (room.pendingCombat) {
+            if (timers.turnDeadline !== null && timers.turnPausedRemaining === null) {
+                timers.turnPausedRemaining = Math.max(0, timers.turnDeadline - now);
+                timers.turnDeadline = null;
+            }
+        } else if (timers.turnPausedRemaining !== null) {
+            timers.turnDeadline = now + timers.turnPausedRemaining;
+            timers.turnPausedRemaining = null;
+        }
+    }
+
+    private updateCombat(room: GameRoom, timers: RoomTimers, settings: TimerSettings, now: number): void {
+        const combat = room.pendingCombat;
+        let role: 'ATTACKER' | 'DEFENDER' | null = null;
+        if (combat && !combat.attackerChoice) role = 'ATTACKER';
+        else if (combat && combat.defenderSocketId && !combat.defenderChoice) role = 'DEFENDER';
+
+        if (!combat || !role) {
+            timers.combat = null;
+            timers.combatRole = null;
+            timers.combatFaction = null;
+            timers.combatSocketId = null;
+            timers.combatDeadline = null;
+            return;
+        }
+
+        const faction: FactionId = role === 'ATTACKER'
+            ? combat.combatState.attackerFaction
+            : combat.combatState.defenderFaction;
+
+        if (timers.combat !== combat || timers.combatRole !== role) {
+            timers.combat = combat;
+            timers.combatRole = role;
+            timers.combatFaction = faction;
+            timers.combatFired = false;
+            timers.combatDeadline = settings.combatChoiceSeconds > 0 ? now + settings.combatChoiceSeconds * 1000 : null;
+        }
+        // Sockets change when a player rejoins
+        timers.combatSocketId = role === 'ATTACKER' ? combat.attackerSocketId : combat.defenderSocketId;
+
+        if (!timers.combatFired && timers.absentFactions.has(faction)) {
+            timers.combatDeadline = now;
+        }
+    }
+
+    // One timeout per room, for whichever deadline comes first
+    private schedule(code: string, timers: RoomTimers, now: number): void {
+        if (timers.handle) {
+            clearTimeout(timers.handle);
+            timers.handle = null;
+        }
+
+        const deadlines = [timers.combatDeadline, timers.turnDeadline, ...timers.graceDeadlines.values()]
+            .filter((d): d is number => d !== null);
+        if (deadlines.length === 0) return;
+
+        const delay = Math.max(0, Math.min(...deadlines) - now);
+        timers.handle = setTimeout(() => this.expire(code), delay);
+    }
+
+    private expire(code: string): void {
+        const timers = this.rooms.get(code);
+        if (!timers) return;
+        timers.handle = null;
+
+        // Grace expiries only need a refresh (they make the current deadline immediate)
+        this.refresh(code);
+
+        const now = Date.now();
+
+        if (timers.combatDeadline !== null && timers.combatDeadline <= now) {
+            const faction = timers.combatFaction!;
+            const socketId = timers.combatSocketId!;
+            timers.combatDeadline = null;
+            timers.combatFired = true; // Never again for this choice
+            this.schedule(code, timers, now);
+            console.log(`[Timers] ${code}: Combat choice of ${faction} expired`);
+            this.handlers?.onCombatChoiceExpired(code, faction, socketId);
+            return;
+        }
+
+        if (timers.turnDeadline !== null && timers.turnDeadline <= now) {
+            const faction = timers.turnFaction!;
+            timers.turnDeadline = null;
+            timers.turnFired = true;
+            this.schedule(code, timers, now);
+            console.log(`[Timers] ${code}: Turn of ${faction} expired`);
+            this.handlers?.onTurnExpired(code, faction);
+        }
+    }
+
+    private stop(timers: RoomTimers): void {
+        if (timers.handle) clearTimeout(timers.handle);
+        Object.assign(timers, createRoomTimers(), { lastStatus: timers.lastStatus });
+    }
+
+    // Tell clients only when a deadline actually changed
+    private publish(code: string, timers: RoomTimers): void {
+        const status = this.getStatus(code);
+        const fingerprint = JSON.stringify(status.map(t => [t.kind, t.faction, t.paused ? t.remainingMs : t.expiresAt]));
+        if (fingerprint === timers.lastStatus) return;
+
+        timers.lastStatus = fingerprint;
+        this.handlers?.onTimersChanged(code, status);
+    }
+}
@@ -1,6 +1,13 @@
 // Shared Types - Used by both client and server
 // These mirror the types in Application/types.ts but are standalone for the server
 
+import { MapId } from '../../shared/maps/types';
+import { ActionRejectionCode } from '../../shared/types/actionValidationTypes';
+import { LogQuery, LogPage } from '../../shared/services/logs/logArchive';
+import { GameReport } from '../../shared/types/gameReportTypes';
+import { CombatPreview } from '../../shared/services/combat/types';
+import { AIDifficulty, CombatRuleset, ConvoyRoutePreference, TreasuryRuleset, AgreementProposal, DiplomaticAgreement } from '../../shared/types';
+
 export enum FactionId {
     REPUBLICANS = 'REPUBLICANS',
     CONSPIRATORS = 'CONSPIRATORS',
@@ -29,13 +36,78 @@ export interface PlayerInfo {
     isReady: boolean;
     isConnected: boolean;
     nickname?: string;
+    aiControlled?: boolean; // Faction handed over to the AI until the player rejoins
+}
+
+export type FactionController = 'HUMAN' | 'AI';
+
+/** Who plays a faction of the lobby's map (CLOSED factions keep their land but never act) */
+export type SeatType = 'HUMAN' | 'AI' | 'CLOSED';
+
+export interface LobbySeat {
+    faction: FactionId;
+    type: SeatType;
+    aiDifficulty?: AIDifficulty; // AI seats only
+}
+
+/**
+ * A chat line: room-wide (toFaction null) or private between two factions
+ */
+export interface ChatMessage {
+    id: string;
+    fromFaction: FactionId;
+    fromNickname: string;
+    toFaction: FactionId | null;
+    text: string;
+    sentAt: number;
+    turn: number;
+}
+
+export interface SpectatorInfo {
+    socketId: string;
+    nickname: string;
+}
+
+/**
+ * Who may watch a lobby and what they see
+ */
+export interface SpectatorSettings {
+    allowed: boolean;
+    delayTurns: number; // 0 = live (omniscient board and all room events), N = board as it was N turns ago
+}
+
+/**
+ * Per-lobby time limits in seconds (0 disables a limit)
+ */
+export interface TimerSettings {
+    turnSeconds: number;            // Time a human faction has to end its turn
+    combatChoiceSeconds: number;    // Time a combatant has to answer a combat choice
+    disconnectGraceSeconds: number; // Time a disconnected player has to come back before being skipped
+}
+
+export type TimerKind = 'TURN' | 'COMBAT_CHOICE' | 'DISCONNECT_GRACE';
+
+export interface TimerStatus {
+    kind: TimerKind;
+    faction: FactionId;
+    expiresAt: number;   // Server timestamp (ms)
+    remainingMs: number;
+    paused?: boolean;    // Turn timer frozen while a battle is waiting on a choice
 }
 
 export interface GameLobby {
     code: string;
     hostSocketId: string;
-    maxPlayers: 2 | 3;
+    maxPlayers: number;          // Number of HUMAN seats
+    mapId: MapId;
+    seats: LobbySeat[];          // One per map faction, in the map's turn order
+    timers: TimerSettings;
+    spectatorSettings: SpectatorSettings;
+    victoryConditions: string[]; // Ids of the map's victory rules that apply (MapDefinition.victoryConditions)
+    combatRuleset: CombatRuleset; // How battles are decided (defaults to the map's ruleset)
+    treasuryRuleset: TreasuryRuleset; // Where tax gold goes (defaults to the map's ruleset)
     players: PlayerInfo[];
+    spectators: SpectatorInfo[];
     status: 'WAITING' | 'STARTING' | 'IN_PROGRESS' | 'FINISHED';
     createdAt: number;
 }
@@ -48,19 +120,49 @@ export interface ServerToClientEvents {
     player_left: (data: { odId: string; lobby: GameLobby }) => void;
     faction_selected: (data: { odId: string; faction: FactionId; lobby: GameLobby }) => void;
     player_ready: (data: { odId: string; isReady: boolean; lobby: GameLobby }) => void;
+    map_selected: (data: { mapId: MapId; lobby: GameLobby }) => void;
+    timer_settings_updated: (data: { timers: TimerSettings; lobby: GameLobby }) => void;
+    victory_conditions_updated: (data: { victoryConditions: string[]; lobby: GameLobby }) => void;
+    combat_ruleset_updated: (data: { combatRuleset: CombatRuleset; lobby: GameLobby }) => void;
+    treasury_ruleset_updated: (data: { treasuryRuleset: TreasuryRuleset; lobby: GameLobby }) => void;
+    seats_updated: (data: { seats: LobbySeat[]; lobby: GameLobby }) => void;
     game_starting: (data: { lobby: GameLobby }) => void;
 
+    // Spectator events
+    spectating: (data: { code: string; lobby: GameLobby; delayTurns: number; gameState?: any; turnOrder?: FactionId[] }) => void;
+    spectator_joined: (data: { spectator: SpectatorInfo; lobby: GameLobby }) => void;
+    spectator_left: (data: { socketId: string; lobby: GameLobby }) => void;
+    spectator_settings_updated: (data: { settings: SpectatorSettings; lobby: GameLobby }) => void;
+
     // Game events
-    game_started: (data: { gameState: any; turnOrder: FactionId[] }) => void;
+    game_started: (data: { gameState: any; turnOrder: FactionId[]; rejoinToken?: string }) => void; // rejoinToken: players only
     state_update: (data: { gameState: any }) => void;
     turn_changed: (data: { currentFaction: FactionId; turnNumber: number }) => void;
-    action_result: (data: { success: boolean; error?: string; gameState?: any }) => void;
+    faction_control_changed: (data: { faction: FactionId; controller: FactionController; lobby: GameLobby | null }) => void;
+    action_result: (data: { success: boolean; error?: string; code?: ActionRejectionCode; gameState?: any }) => void;
 
     // Combat events
     combat_initiated: (data: { combatState: any }) => void;
-    combat_choice_requested: (data: { combatState: any; role: 'ATTACKER' | 'DEFENDER' }) => void;
+    combat_choice_requested: (data: { combatState: any; role: 'ATTACKER' | 'DEFENDER'; preview: CombatPreview }) => void;
     combat_resolved: (data: { result: any; gameState: any }) => void;
 
+    // Chat events
+    chat_message: (data: { message: ChatMessage }) => void;
+    chat_history: (data: { messages: ChatMessage[] }) => void;
+
+    // Diplomacy events (sent to both parties of the agreement)
+    agreement_updated: (data: { agreement: DiplomaticAgreement }) => void;
+
+    // Chronicle events
+    log_archive_page: (data: { page: LogPage; query: LogQuery }) => void;
+
+    // End-of-game events
+    game_report: (data: { report: GameReport }) => void;
+
+    // Timer events
+    timers_updated: (data: { timers: TimerStatus[]; serverTime: number }) => void;
+    timer_expired: (data: { kind: TimerKind; faction: FactionId }) => void;
+
     // Connection events
     error: (data: { message: string; code?: string }) => void;
     reconnected: (data: { lobby: GameLobby; gameState?: any }) => void;
@@ -68,16 +170,42 @@ export interface ServerToClientEvents {
 
 export interface ClientToServerEvents {
     // Lobby events
-    create_game: (data: { maxPlayers: 2 | 3; nickname?: string }) => void;
+    create_game: (data: { maxPlayers?: number; nickname?: string; mapId?: MapId }) => void;
     join_game: (data: { code: string; nickname?: string }) => void;
     leave_game: () => void;
     select_faction: (data: { faction: FactionId }) => void;
+    select_map: (data: { mapId: MapId }) => void;
+    set_timer_settings: (data: { timers: Partial<TimerSettings> }) => void;
+    set_victory_conditions: (data: { conditionIds: string[] }) => void;
+    set_combat_ruleset: (data: { combatRuleset: CombatRuleset }) => void;
+    set_treasury_ruleset: (data: { treasuryRuleset: TreasuryRuleset }) => void;
+    configure_seat: (data: { faction: FactionId; type: SeatType; aiDifficulty?: AIDifficulty }) => void;
     set_ready: (data: { isReady: boolean }) => void;
     start_game: () => void;
 
+    // Spectator events
+    spectate_game: (data: { code: string; nickname?: string }) => void;
+    stop_spectating: () => void;
+    set_spectator_settings: (data: { settings: Partial<SpectatorSettings> }) => void;
+
     // Game events
     player_action: (data: { action: GameAction }) => void;
     end_turn: () => void;
+    hand_faction_to_ai: (data: { faction: FactionId }) => void;
+
+    // Chat events
+    send_chat: (data: { text: string; toFaction?: FactionId | null }) => void;
+
+    // Diplomacy events
+    propose_agreement: (data: { proposal: AgreementProposal }) => void;
+    accept_agreement: (data: { agreementId: string }) => void;
+    reject_agreement: (data: { agreementId: string }) => void;
+
+    // Chronicle events
+    get_log_archive: (data: { query?: LogQuery }) => void;
+
+    // End-of-game events
+    get_game_report: () => void;
 
     // Combat events
     combat_choice: (data: { choice: 'FIGHT' | 'RETREAT' | 'RETREAT_CITY' | 'SIEGE'; siegeCost?: number }) => void;
@@ -93,9 +221,10 @@ export type GameAction =
     | { type: 'FORTIFY'; locationType: 'LOCATION' | 'ROAD_STAGE'; id: string; stageIndex?: number }
     | { type: 'INCITE'; locationId: string; characterId: string; gold: number }
     | { type: 'REQUISITION'; locationId: string; resourceType: 'GOLD' | 'FOOD' }
-    | { type: 'SEND_CONVOY'; locationId: string; amount: number; destinationId: string }
-    | { type: 'SEND_NAVAL_CONVOY'; locationId: string; amount: number; destinationId: string }
+    | { type: 'SEND_CONVOY'; locationId: string; amount: number; destinationId: string; routePreference?: ConvoyRoutePreference; goldAmount?: number }
+    | { type: 'SEND_NAVAL_CONVOY'; locationId: string; amount: number; destinationId: string; goldAmount?: number }
     | { type: 'REVERSE_CONVOY'; convoyId: string }
+    | { type: 'EMBARK_ARMY'; armyId: string; destinationPortId: string }
     | { type: 'ATTACH_LEADER'; armyId: string; characterId: string }
     | { type: 'DETACH_LEADER'; characterId: string }
     | { type: 'MOVE_LEADER'; characterId: string; destinationId: string }
@@ -110,4 +239,5 @@ export interface SocketData {
     odId: string;
     gameCode: string | null;
     faction: FactionId | null;
+    spectating: string | null; // Game code the socket watches (never set together with gameCode)
 }
@@ -0,0 +1,434 @@
+/**
+ * Action Validator
+ * Runs before processPlayerAction dispatches to the execute* services.
+ * Checks ownership, affordability, reachability and per-turn limits so that
+ * a modified client cannot act with another faction's pieces or bypass costs.
+ */
+
+import {
+    Army,
+    Character,
+    CharacterStatus,
+    FactionId,
+    GameAction,
+    GameState,
+    Location
+} from '../../../shared/types';
+import { ActionRejection, ActionRejectionCode } from '../../../shared/types/actionValidationTypes';
+import { FORTIFICATION_LEVELS } from '../../../shared/data/gameConstants';
+import { canRecruit } from '../../../shared/services/domain/military/recruitment';
+import { canConscript } from '../../../shared/services/domain/military/conscription';
+import { calculateLeaderTravelTime } from '../../../shared/services/domain/leaders/leaderPathfinding';
+import { planConvoyRoute } from '../../../shared/services/domain/convoyRouting';
+import { isPhysicalTreasury } from '../../../shared/services/domain/economy/treasury';
+import { getEmbarkationPort, getLandingPorts } from '../../../shared/services/domain/military/navalTransport';
+import {
+    KNIGHTLY_COUP_GOLD_COST,
+    MERCHANT_DOMINATION_GOLD_COST
+} from '../../../shared/services/domain/internalFactions/internalFactions';
+
+// calculateLeaderTravelTime returns this when no route exists
+const UNREACHABLE_TRAVEL_TIME = 999;
+
+const reject = (code: ActionRejectionCode, message: string): ActionRejection => ({ code, message });
+
+// ============================================================================
+// TARGET LOOKUPS - each returns the entity or a rejection
+// ============================================================================
+
+function findLocation(state: GameState, locationId: string): Location | ActionRejection {
+    const location = state.locations.find(l => l.id === locationId);
+    return location || reject(ActionRejectionCode.LOCATION_NOT_FOUND, `Location ${locationId} not found`);
+}
+
+function findOwnedLocation(state: GameState, locationId: string, faction: FactionId): Location | ActionRejection {
+    const location = findLocation(state, locationId);
+    if (isRejection(location)) return location;
+    if (location.faction !== faction) {
+        return reject(ActionRejectionCode.NOT_YOUR_LOCATION, `${location.name} is not controlled by your faction`);
+    }
+    return location;
+}
+
+function findOwnedArmy(state: GameState, armyId: string, faction: FactionId): Army | ActionRejection {
+    const army = state.armies.find(a => a.id === armyId);
+    if (!army) return reject(ActionRejectionCode.ARMY_NOT_FOUND, `Army ${armyId} not found`);
+    if (army.faction !== faction) return reject(ActionRejectionCode.NOT_YOUR_ARMY, 'Army does not belong to your faction');
+    return army;
+}
+
+function findOwnedLeader(state: GameState, leaderId: string, faction: FactionId): Character | ActionRejection {
+    const leader = state.characters.find(c => c.id === leaderId);
+    if (!leader) return reject(ActionRejectionCode.LEADER_NOT_FOUND, `Leader ${leaderId} not found`);
+    if (leader.faction !== faction) return reject(ActionRejectionCode.NOT_YOUR_LEADER, 'Leader does not belong to your faction');
+    if (leader.status === CharacterStatus.DEAD) return reject(ActionRejectionCode.LEADER_UNAVAILABLE, `${leader.name} is dead`);
+    return leader;
+}
+
+function isRejection(value: unknown): value is ActionRejection {
+    return !!value && typeof value === 'object' && 'code' in value && 'message' in value;
+}
+
+// ============================================================================
+// SHARED CHECKS
+// ============================================================================
+
+function checkGold(state: GameState, faction: FactionId, cost: number): ActionRejection | null {
+    const gold = state.resources[faction]?.gold ?? 0;
+    if (gold < cost) {
+        return reject(ActionRejectionCode.INSUFFICIENT_GOLD, `Not enough gold (need ${cost}, have ${gold})`);
+    }
+    return null;
+}
+
+function checkAmount(amount: unknown, label: string, allowZero: boolean = false): ActionRejection | null {
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0 || (!allowZero && amount === 0)) {
+        return reject(ActionRejectionCode.INVALID_PARAMETERS, `Invalid ${label}`);
+    }
+    return null;
+}
+
+function checkArmyCanAct(army: Army): ActionRejection | null {
+    if (army.isSpent) return reject(ActionRejectionCode.ARMY_UNAVAILABLE, 'Army is spent');
+    if (army.isSieging) return reject(ActionRejectionCode.ARMY_UNAVAILABLE, 'Army is sieging');
+    return null;
+}
+
+function hasRoadBetween(state: GameState, fromId: string | null | undefined, toId: string): boolean {
+    if (!fromId) return false;
+    return state.roads.some(r =>
+        (r.from === fromId && r.to === toId) ||
+        (r.to === fromId && r.from === toId)
+    );
+}
+
+// ============================================================================
+// VALIDATOR
+// ============================================================================
+
+/**
+ * Validate a player action against the authoritative server state
+ * @returns null if the action may be dispatched, otherwise the rejection
+ */
+export function validatePlayerAction(
+    state: GameState,
+    action: GameAction,
+    faction: FactionId
+): ActionRejection | null {
+    if (!action || typeof action.type !== 'string') {
+        return reject(ActionRejectionCode.INVALID_PARAMETERS, 'Malformed action');
+    }
+
+    // The socket decides who acts, never the payload
+    if (action.faction && action.faction !== faction) {
+        return reject(ActionRejectionCode.FACTION_MISMATCH, `Action sent for ${action.faction} by ${faction}`);
+    }
+
+    switch (action.type) {
+        case 'RECRUIT': {
+            const location = findOwnedLocation(state, action.locationId, faction);
+            if (isRejection(location)) return location;
+            const check = canRecruit(state, action.locationId, faction);
+            if (!check.canRecruit) {
+                if ((location.actionsTaken?.recruit || 0) >= 4) {
+                    return reject(ActionRejectionCode.TURN_LIMIT_REACHED, check.reason || 'Maximum recruits this turn reached');
+                }
+                return checkGold(state, faction, check.cost)
+                    || reject(ActionRejectionCode.ACTION_FAILED, check.reason || 'Cannot recruit here');
+            }
+            return null;
+        }
+
+        case 'CONSCRIPT': {
+            const location = findOwnedLocation(state, action.locationId, faction);
+            if (isRejection(location)) return location;
+            const check = canConscript(state, action.locationId, faction);
+            if (!check.canConscript) {
+                const code = check.reason === 'Insufficient gold'
+                    ? ActionRejectionCode.INSUFFICIENT_GOLD
+                    : ActionRejectionCode.ACTION_FAILED;
+                return reject(code, check.reason || 'Cannot conscript here');
+            }
+            return null;
+        }
+
+        case 'MOVE_ARMY': {
+            const army = findOwnedArmy(state, action.armyId, faction);
+            if (isRejection(army)) return army;
+            const destination = findLocation(state, action.destinationId);
+            if (isRejection(destination)) return destination;
+            const unavailable = checkArmyCanAct(army);
+            if (unavailable) return unavailable;
+            if (!hasRoadBetween(state, army.locationId, action.destinationId)) {
+                return reject(ActionRejectionCode.NOT_ADJACENT, `No road to ${destination.name}`);
+            }
+            return null;
+        }
+
+        case 'SPLIT_ARMY': {
+            const army = findOwnedArmy(state, action.armyId, faction);
+            if (isRejection(army)) return army;
+            if (!Number.isInteger(action.amount) || action.amount <= 0 || action.amount >= army.strength) {
+                return reject(ActionRejectionCode.INVALID_PARAMETERS, `Split amount must be between 1 and ${army.strength - 1}`);
+            }
+            return null;
+        }
+
+        case 'GARRISON':
+        case 'RETREAT_ARMY': {
+            const army = findOwnedArmy(state, action.armyId, faction);
+            return isRejection(army) ? army : null;
+        }
+
+        case 'MERGE_REGIMENTS': {
+            const location = findLocation(state, action.locationId);
+            if (isRejection(location)) return location;
+            if (!state.armies.some(a => a.faction === faction && a.locationType === 'LOCATION' && a.locationId === action.locationId)) {
+                return reject(ActionRejectionCode.NOT_YOUR_ARMY, `No regiments of yours at ${location.name}`);
+            }
+            return null;
+        }
+
+        case 'FORTIFY': {
+            let currentLevel = 0;
+            if (action.locationType === 'LOCATION') {
+                const location = findLocation(state, action.id);
+                if (isRejection(location)) return location;
+                currentLevel = location.fortificationLevel || 0;
+            } else {
+                const road = state.roads.find(r => r.id === action.id);
+                if (!road) return reject(ActionRejectionCode.ROAD_NOT_FOUND, `Road ${action.id} not found`);
+                const stage = action.stageIndex !== undefined ? road.stages[action.stageIndex] : undefined;
+                if (!stage) return reject(ActionRejectionCode.INVALID_PARAMETERS, 'Invalid road stage');
+                currentLevel = stage.fortificationLevel || 0;
+            }
+            const nextLevel = FORTIFICATION_LEVELS[currentLevel + 1];
+            if (!nextLevel) return reject(ActionRejectionCode.ALREADY_DONE, 'Maximum fortification level reached');
+            return checkGold(state, faction, nextLevel.cost);
+        }
+
+        case 'INCITE': {
+            const location = findLocation(state, action.locationId);
+            if (isRejection(location)) return location;
+            if (location.faction === faction) {
+                return reject(ActionRejectionCode.OWN_LOCATION, 'Cannot incite your own location');
+            }
+            const leader = findOwnedLeader(state, action.characterId, faction);
+            if (isRejection(leader)) return leader;
+            if (leader.status === CharacterStatus.ON_MISSION) {
+                return reject(ActionRejectionCode.LEADER_UNAVAILABLE, `${leader.name} is already on a mission`);
+            }
+            if ((location.actionsTaken?.incite || 0) >= 1) {
+                return reject(ActionRejectionCode.TURN_LIMIT_REACHED, `${location.name} was already incited this turn`);
+            }
+            return checkAmount(action.gold, 'gold amount') || checkGold(state, faction, action.gold);
+        }
+
+        case 'REQUISITION': {
+            const location = findOwnedLocation(state, action.locationId, faction);
+            if (isRejection(location)) return location;
+            const alreadyTaken = action.resourceType === 'GOLD'
+                ? location.actionsTaken?.seizeGold
+                : location.actionsTaken?.seizeFood;
+            if (alreadyTaken) {
+                return reject(ActionRejectionCode.TURN_LIMIT_REACHED, `Already seized ${action.resourceType.toLowerCase()} this turn`);
+            }
+            return null;
+        }
+
+        case 'NEGOTIATE': {
+            const location = findLocation(state, action.locationId);
+            if (isRejection(location)) return location;
+            if (location.faction === faction) {
+                return reject(ActionRejectionCode.OWN_LOCATION, 'Cannot negotiate with your own location');
+            }
+            const invalid = checkAmount(action.gold, 'gold amount', true) || checkAmount(action.food, 'food amount', true);
+            if (invalid) return invalid;
+            for (const sourceId of action.foodSourceIds || []) {
+                const source = findOwnedLocation(state, sourceId, faction);
+                if (isRejection(source)) return source;
+            }
+            return checkGold(state, faction, action.gold);
+        }
+
+        case 'UPDATE_CITY_MANAGEMENT': {
+            const location = findOwnedLocation(state, action.locationId, faction);
+            return isRejection(location) ? location : null;
+        }
+
+        case 'SEND_CONVOY':
+        case 'SEND_NAVAL_CONVOY': {
+            const source = findOwnedLocation(state, action.locationId, faction);
+            if (isRejection(source)) return source;
+            const destination = findLocation(state, action.destinationId);
+            if (isRejection(destination)) return destination;
+            const goldAmount = action.goldAmount ?? 0;
+            const invalid = checkAmount(action.amount, 'convoy amount', goldAmount > 0)
+                || checkAmount(goldAmount, 'convoy gold amount', true);
+            if (invalid) return invalid;
+            if (source.foodStock < action.amount) {
+                return reject(ActionRejectionCode.INSUFFICIENT_FOOD, `Not enough food in ${source.name}`);
+            }
+            if (goldAmount > 0) {
+                if (!isPhysicalTreasury(state)) {
+                    return reject(ActionRejectionCode.INVALID_PARAMETERS, 'Gold only travels by convoy with the physical treasury');
+                }
+                if ((source.goldStock ?? 0) < goldAmount) {
+                    return reject(ActionRejectionCode.INSUFFICIENT_GOLD, `Not enough gold stored in ${source.name}`);
+                }
+            }
+            if (action.type === 'SEND_CONVOY') {
+                if (destination.faction !== faction) {
+                    return reject(ActionRejectionCode.NOT_YOUR_LOCATION, `${destination.name} is not your city`);
+                }
+                const route = source.linkedLocationId && destination.linkedLocationId
+                    ? planConvoyRoute(source.linkedLocationId, destination.linkedLocationId, faction, state.locations, state.roads, action.routePreference)
+                    : null;
+                if (!route || route.path.length === 0) {
+                    return reject(ActionRejectionCode.NOT_REACHABLE, `No open road from ${source.name} to ${destination.name}`);
+                }
+            }
+            return null;
+        }
+
+        case 'REVERSE_CONVOY': {
+            const convoy = state.convoys.find(c => c.id === action.convoyId);
+            if (!convoy) return reject(ActionRejectionCode.CONVOY_NOT_FOUND, `Convoy ${action.convoyId} not found`);
+            if (convoy.faction !== faction) return reject(ActionRejectionCode.NOT_YOUR_CONVOY, 'Convoy does not belong to your faction');
+            return null;
+        }
+
+        case 'EMBARK_ARMY': {
+            const army = findOwnedArmy(state, action.armyId, faction);
+            if (isRejection(army)) return army;
+            const destination = findLocation(state, action.destinationPortId);
+            if (isRejection(destination)) return destination;
+            const unavailable = checkArmyCanAct(army);
+            if (unavailable) return unavailable;
+            const sourcePortId = army.locationType === 'LOCATION' && army.locationId ? getEmbarkationPort(state, army.locationId) : null;
+            if (!sourcePortId) return reject(ActionRejectionCode.NOT_REACHABLE, 'Army is not at a port');
+            const sourcePort = findOwnedLocation(state, sourcePortId, faction);
+            if (isRejection(sourcePort)) return sourcePort;
+            if (!getLandingPorts(state, faction, sourcePortId).includes(action.destinationPortId)) {
+                return reject(ActionRejectionCode.NOT_REACHABLE, `${destination.name} is not a friendly or contested port`);
+            }
+            return null;
+        }
+
+        case 'ATTACH_LEADER': {
+            const leader = findOwnedLeader(state, action.characterId, faction);
+            if (isRejection(leader)) return leader;
+            const army = findOwnedArmy(state, action.armyId, faction);
+            if (isRejection(army)) return army;
+            if (army.locationType !== 'LOCATION' || army.locationId !== leader.locationId) {
+                return reject(ActionRejectionCode.NOT_REACHABLE, `${leader.name} is not with this army`);
+            }
+            return null;
+        }
+
+        case 'DETACH_LEADER':
+        case 'UPDATE_LEADER_CLANDESTINE_ACTIONS':
+        case 'CANCEL_GOVERNOR_APPOINTMENT': {
+            const leaderId = action.type === 'DETACH_LEADER' ? action.characterId : action.leaderId;
+            const leader = findOwnedLeader(state, leaderId, faction);
+            return isRejection(leader) ? leader : null;
+        }
+
+        case 'MOVE_LEADER': {
+            const leader = findOwnedLeader(state, action.characterId, faction);
+            if (isRejection(leader)) return leader;
+            const destination = findLocation(state, action.destinationId);
+            if (isRejection(destination)) return destination;
+            if (leader.status === CharacterStatus.ON_MISSION) {
+                return reject(ActionRejectionCode.LEADER_UNAVAILABLE, `${leader.name} is on a mission`);
+            }
+            if (leader.lastExfiltrationTurn === state.turn) {
+                return reject(ActionRejectionCode.TURN_LIMIT_REACHED, `${leader.name} already moved this turn`);
+            }
+            const travelTime = calculateLeaderTravelTime(leader.locationId || '', action.destinationId, state.locations, state.roads);
+            if (travelTime >= UNREACHABLE_TRAVEL_TIME) {
+                return reject(ActionRejectionCode.NOT_REACHABLE, `${leader.name} cannot reach ${destination.name}`);
+            }
+            return null;
+        }
+
+        case 'RECRUIT_LEADER': {
+            if (faction !== FactionId.CONSPIRATORS) {
+                return reject(ActionRejectionCode.FACTION_RESTRICTED, 'Only Conspirators can use RECRUIT_LEADER');
+            }
+            if (!state.characters.some(c => c.id === action.leaderId)) {
+                return reject(ActionRejectionCode.LEADER_NOT_FOUND, `Leader ${action.leaderId} not found`);
+            }
+            if (action.destinationId) {
+                const destination = findLocation(state, action.destinationId);
+                if (isRejection(destination)) return destination;
+            }
+            return null;
+        }
+
+        case 'RECRUIT_NOBLES_LEADER': {
+            if (faction !== FactionId.NOBLES) {
+                return reject(ActionRejectionCode.FACTION_RESTRICTED, 'Only Nobles can use RECRUIT_NOBLES_LEADER');
+            }
+            if (!state.characters.some(c => c.id === action.leaderId)) {
+                return reject(ActionRejectionCode.LEADER_NOT_FOUND, `Leader ${action.leaderId} not found`);
+            }
+            const fiefdom = findOwnedLocation(state, action.fiefdomLocationId, faction);
+            if (isRejection(fiefdom)) return fiefdom;
+            // Destination may be enemy territory (leader arrives undercover)
+            const destination = findLocation(state, action.destinationId);
+            return isRejection(destination) ? destination : null;
+        }
+
+        case 'SEND_UNDERCOVER': {
+            const leader = findOwnedLeader(state, action.leaderId, faction);
+            if (isRejection(leader)) return leader;
+            const target = findLocation(state, action.targetLocationId);
+            if (isRejection(target)) return target;
+            if (target.faction === faction) {
+                return reject(ActionRejectionCode.OWN_LOCATION, 'Cannot go undercover in your own territory');
+            }
+            return checkAmount(action.goldBudget, 'gold budget', true) || checkGold(state, faction, action.goldBudget);
+        }
+
+        case 'SET_GOVERNOR_POLICIES': {
+            const leader = findOwnedLeader(state, action.characterId, faction);
+            if (isRejection(leader)) return leader;
+            const location = findOwnedLocation(state, action.locationId, faction);
+            if (isRejection(location)) return location;
+            if (leader.locationId !== action.locationId) {
+                return reject(ActionRejectionCode.NOT_REACHABLE, `${leader.name} is not at ${location.name}`);
+            }
+            if (!Array.isArray(action.policies)) {
+                return reject(ActionRejectionCode.INVALID_PARAMETERS, 'Invalid policies');
+            }
+            return null;
+        }
+
+        case 'APPOINT_GOVERNOR': {
+            const leader = findOwnedLeader(state, action.leaderId, faction);
+            if (isRejection(leader)) return leader;
+            const location = findOwnedLocation(state, action.locationId, faction);
+            return isRejection(location) ? location : null;
+        }
+
+        case 'CHOOSE_INTERNAL_FACTION': {
+            if (faction !== FactionId.REPUBLICANS) {
+                return reject(ActionRejectionCode.FACTION_RESTRICTED, 'Only Republicans can choose internal faction');
+            }
+            if (state.chosenInternalFaction) {
+                return reject(ActionRejectionCode.ALREADY_DONE, 'Internal faction already chosen');
+            }
+            if (action.choice === 'KNIGHTLY_COUP') return checkGold(state, faction, KNIGHTLY_COUP_GOLD_COST);
+            if (action.choice === 'MERCHANT_DOMINATION') return checkGold(state, faction, MERCHANT_DOMINATION_GOLD_COST);
+            if (action.choice !== 'RABBLE_VICTORY') {
+                return reject(ActionRejectionCode.INVALID_PARAMETERS, 'Invalid internal faction choice');
+            }
+            return null;
+        }
+
+        default:
+            // Unknown types (and END_TURN / COMBAT_CHOICE, which have dedicated events) are rejected by the dispatcher
+            return null;
+    }
+}
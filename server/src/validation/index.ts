@@ -0,0 +1,5 @@
+/**
+ * Validation - Main Export
+ */
+
+export { validatePlayerAction } from './actionValidator';
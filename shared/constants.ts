@@ -19,6 +19,7 @@ export {
   PORT_SEQUENCE,
   getNavalTravelTime,
   FORTIFICATION_LEVELS,
+  SIEGE_COSTS,
   FORTIFY_COST,
   FORTIFY_DEFENSE_BONUS,
 
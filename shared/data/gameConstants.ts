@@ -73,6 +73,14 @@ export const FORTIFICATION_LEVELS: Record<number, FortificationLevel> = {
     4: { name: "Stormbay Fortress", legend: "The impregnable headquarters of the Order.", bonus: 10000, cost: 250, manpower: 2000, time: 3 }
 };
 
+// Gold cost of building siege engines per fortification level
+export const SIEGE_COSTS: Record<number, number> = {
+    1: 15,
+    2: 30,
+    3: 50,
+    4: 100
+};
+
 // Initial Resources (Spec 7.6)
 // Note: When player selects a faction, AI factions get boosted resources
 export const INITIAL_PLAYER_RESOURCES = {
@@ -82,7 +90,11 @@ export const INITIAL_PLAYER_RESOURCES = {
     // Thyrakat
     LINEAGES_COUNCIL: 400,
     OATH_COALITION: 400,
-    LARION_EXPEDITION: 800
+    LARION_EXPEDITION: 800,
+    // Valis
+    LOYALISTS: 600,
+    PRINCELY_ARMY: 400,
+    CONFEDERATE_CITIES: 800
 };
 
 export const INITIAL_AI_RESOURCES = {
@@ -92,7 +104,11 @@ export const INITIAL_AI_RESOURCES = {
     // Thyrakat
     LINEAGES_COUNCIL: 800,
     OATH_COALITION: 800,
-    LARION_EXPEDITION: 1600
+    LARION_EXPEDITION: 1600,
+    // Valis
+    LOYALISTS: 1200,
+    PRINCELY_ARMY: 900,
+    CONFEDERATE_CITIES: 1500
 };
 
 // Deprecated constants kept for compatibility
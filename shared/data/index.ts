@@ -19,6 +19,7 @@ export {
     NAVAL_STAGE_DAYS,
     getNavalTravelTime,
     FORTIFICATION_LEVELS,
+    SIEGE_COSTS,
     INITIAL_PLAYER_RESOURCES,
     INITIAL_AI_RESOURCES,
     FORTIFY_COST,
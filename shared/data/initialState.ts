@@ -3,18 +3,20 @@
  * Consolidates logic from useGameEngine.ts INITIAL_STATE
  */
 
-import { GameState, FactionId, Army, LogType, LogSeverity } from '../types';
-import { LARION_ALTERNATE_LOCATIONS, LARION_ALTERNATE_GARRISONS } from './maps/larion_alternate';
-import { LARION_ALTERNATE_ROADS } from './maps/larion_alternate';
+import { GameState, FactionId, Army, LogType, LogSeverity, AIDifficulty } from '../types';
+import { getMapData } from './maps';
 import { CHARACTERS_NEW as CHARACTERS } from './characters';
 import { INITIAL_PLAYER_RESOURCES, INITIAL_AI_RESOURCES } from './gameConstants';
+import { createRngState } from '../services/rng';
+import { scaleAIStartingGold } from '../services/ai/difficulty';
 
 /**
  * Generate initial armies based on garrison data and locations
  */
-export const generateInitialArmies = (): Army[] => {
-    return Object.entries(LARION_ALTERNATE_GARRISONS).map(([locId, strength], index) => {
-        const loc = LARION_ALTERNATE_LOCATIONS.find(l => l.id === locId);
+export const generateInitialArmies = (mapId: MapId = 'larion_alternate'): Army[] => {
+    const { locations, garrisons } = getMapData(mapId);
+    return Object.entries(garrisons).map(([locId, strength], index) => {
+        const loc = locations.find(l => l.id === locId);
         if (!loc) return null;
         return {
             id: `start_army_${index}`,
@@ -39,91 +41,153 @@ export const generateInitialArmies = (): Army[] => {
 
 /**
  * Generate initial resources based on player faction choice
- * AI factions receive boosted resources
+ * AI factions receive boosted resources, scaled by their difficulty tier
  */
-export const getInitialResources = (playerFaction: FactionId) => {
+export const getInitialResources = (playerFaction: FactionId, aiDifficulties: Partial<Record<FactionId, AIDifficulty>> = {}) => {
     return {
         [FactionId.REPUBLICANS]: {
             gold: playerFaction === FactionId.REPUBLICANS
                 ? INITIAL_PLAYER_RESOURCES.REPUBLICANS
-                : INITIAL_AI_RESOURCES.REPUBLICANS
+                : scaleAIStartingGold(INITIAL_AI_RESOURCES.REPUBLICANS, aiDifficulties[FactionId.REPUBLICANS])
         },
         [FactionId.CONSPIRATORS]: {
             gold: playerFaction === FactionId.CONSPIRATORS
                 ? INITIAL_PLAYER_RESOURCES.CONSPIRATORS
-                : INITIAL_AI_RESOURCES.CONSPIRATORS
+                : scaleAIStartingGold(INITIAL_AI_RESOURCES.CONSPIRATORS, aiDifficulties[FactionId.CONSPIRATORS])
         },
         [FactionId.NOBLES]: {
             gold: playerFaction === FactionId.NOBLES
                 ? INITIAL_PLAYER_RESOURCES.NOBLES
-                : INITIAL_AI_RESOURCES.NOBLES
+                : scaleAIStartingGold(INITIAL_AI_RESOURCES.NOBLES, aiDifficulties[FactionId.NOBLES])
         },
         // Thyrakat
         [FactionId.LINEAGES_COUNCIL]: {
             gold: playerFaction === FactionId.LINEAGES_COUNCIL
                 ? INITIAL_PLAYER_RESOURCES.LINEAGES_COUNCIL
-                : INITIAL_AI_RESOURCES.LINEAGES_COUNCIL
+                : scaleAIStartingGold(INITIAL_AI_RESOURCES.LINEAGES_COUNCIL, aiDifficulties[FactionId.LINEAGES_COUNCIL])
         },
         [FactionId.OATH_COALITION]: {
             gold: playerFaction === FactionId.OATH_COALITION
                 ? INITIAL_PLAYER_RESOURCES.OATH_COALITION
-                : INITIAL_AI_RESOURCES.OATH_COALITION
+                : scaleAIStartingGold(INITIAL_AI_RESOURCES.OATH_COALITION, aiDifficulties[FactionId.OATH_COALITION])
         },
         [FactionId.LARION_EXPEDITION]: {
             gold: playerFaction === FactionId.LARION_EXPEDITION
                 ? INITIAL_PLAYER_RESOURCES.LARION_EXPEDITION
-                : INITIAL_AI_RESOURCES.LARION_EXPEDITION
+                : scaleAIStartingGold(INITIAL_AI_RESOURCES.LARION_EXPEDITION, aiDifficulties[FactionId.LARION_EXPEDITION])
+        },
+        // Valis
+        [FactionId.LOYALISTS]: {
+            gold: playerFaction === FactionId.LOYALISTS
+                ? INITIAL_PLAYER_RESOURCES.LOYALISTS
+                : scaleAIStartingGold(INITIAL_AI_RESOURCES.LOYALISTS, aiDifficulties[FactionId.LOYALISTS])
+        },
+        [FactionId.PRINCELY_ARMY]: {
+            gold: playerFaction === FactionId.PRINCELY_ARMY
+                ? INITIAL_PLAYER_RESOURCES.PRINCELY_ARMY
+                : scaleAIStartingGold(INITIAL_AI_RESOURCES.PRINCELY_ARMY, aiDifficulties[FactionId.PRINCELY_ARMY])
+        },
+        [FactionId.CONFEDERATE_CITIES]: {
+            gold: playerFaction === FactionId.CONFEDERATE_CITIES
+                ? INITIAL_PLAYER_RESOURCES.CONFEDERATE_CITIES
+                : scaleAIStartingGold(INITIAL_AI_RESOURCES.CONFEDERATE_CITIES, aiDifficulties[FactionId.CONFEDERATE_CITIES])
         },
         [FactionId.NEUTRAL]: { gold: 0 },
     };
 };
 
+// Factions without a dedicated starting budget
+const DEFAULT_STARTING_GOLD = 500;
+
+/**
+ * Generate starting resources for a map
+ * Only the map's factions receive gold, AI-controlled ones get the boosted amount scaled by their difficulty tier
+ */
+export const getMapStartingResources = (
+    mapId: MapId,
+    aiFactions: FactionId[],
+    aiDifficulties: Partial<Record<FactionId, AIDifficulty>> = {}
+): { [key in FactionId]: { gold: number } } => {
+    const resources = {} as { [key in FactionId]: { gold: number } };
+    Object.values(FactionId).forEach(faction => {
+        resources[faction] = { gold: 0 };
+    });
+
+    for (const faction of MapRegistry.getFactions(mapId)) {
+        const isAI = aiFactions.includes(faction);
+        const table = isAI ? INITIAL_AI_RESOURCES : INITIAL_PLAYER_RESOURCES;
+        const gold = table[faction as keyof typeof table] ?? DEFAULT_STARTING_GOLD;
+        resources[faction] = { gold: isAI ? scaleAIStartingGold(gold, aiDifficulties[faction]) : gold };
+    }
+
+    return resources;
+};
+
 import { MapRegistry } from '../maps/MapRegistry';
 import { MapId } from '../maps/types';
 
 /**
  * Create the initial game state for starting a new game
+ * Pass a seed to reproduce a previous game's random draws, and the tier of each AI faction
  */
-export const createInitialState = (playerFaction: FactionId, mapId: MapId = 'larion_alternate'): GameState => {
+export const createInitialState = (
+    playerFaction: FactionId,
+    mapId: MapId = 'larion_alternate',
+    seed?: number,
+    aiDifficulties?: Partial<Record<FactionId, AIDifficulty>>
+): GameState => {
     // Get map definition rules
     const mapDef = MapRegistry.get(mapId);
     const initialCharacters = mapDef.rules ? mapDef.rules.getInitialCharacters() : [];
+    const mapData = getMapData(mapId);
 
     return {
         turn: 1,
         // (NEW) Store mapId in state so economy calculator knows which rules to use
         mapId: mapId,
         playerFaction: playerFaction,
-        locations: JSON.parse(JSON.stringify(LARION_ALTERNATE_LOCATIONS)), // Deep copy to prevent mutation persistence
+        locations: JSON.parse(JSON.stringify(mapData.locations)), // Deep copy to prevent mutation persistence
         characters: JSON.parse(JSON.stringify(initialCharacters)),
 
-        armies: generateInitialArmies(),
+        armies: generateInitialArmies(mapId),
         convoys: [],
         navalConvoys: [],
-        roads: JSON.parse(JSON.stringify(LARION_ALTERNATE_ROADS)),
+        roads: JSON.parse(JSON.stringify(mapData.roads)),
         resources: {
             [FactionId.REPUBLICANS]: { gold: INITIAL_PLAYER_RESOURCES.REPUBLICANS },
             [FactionId.CONSPIRATORS]: { gold: INITIAL_PLAYER_RESOURCES.CONSPIRATORS },
             [FactionId.NOBLES]: { gold: INITIAL_PLAYER_RESOURCES.NOBLES },
-            [FactionId.LOYALISTS]: { gold: 500 },
-            [FactionId.PRINCELY_ARMY]: { gold: 500 },
-            [FactionId.CONFEDERATE_CITIES]: { gold: 500 },
+            [FactionId.LOYALISTS]: {
+                gold: playerFaction === FactionId.LOYALISTS
+                    ? INITIAL_PLAYER_RESOURCES.LOYALISTS
+                    : scaleAIStartingGold(INITIAL_AI_RESOURCES.LOYALISTS, aiDifficulties?.[FactionId.LOYALISTS])
+            },
+            [FactionId.PRINCELY_ARMY]: {
+                gold: playerFaction === FactionId.PRINCELY_ARMY
+                    ? INITIAL_PLAYER_RESOURCES.PRINCELY_ARMY
+                    : scaleAIStartingGold(INITIAL_AI_RESOURCES.PRINCELY_ARMY, aiDifficulties?.[FactionId.PRINCELY_ARMY])
+            },
+            [FactionId.CONFEDERATE_CITIES]: {
+                gold: playerFaction === FactionId.CONFEDERATE_CITIES
+                    ? INITIAL_PLAYER_RESOURCES.CONFEDERATE_CITIES
+                    : scaleAIStartingGold(INITIAL_AI_RESOURCES.CONFEDERATE_CITIES, aiDifficulties?.[FactionId.CONFEDERATE_CITIES])
+            },
             [FactionId.LARION_KNIGHTS]: { gold: 500 },
             [FactionId.THYRAKAT_SULTANATE]: { gold: 500 },
             [FactionId.LINEAGES_COUNCIL]: {
                 gold: playerFaction === FactionId.LINEAGES_COUNCIL
                     ? INITIAL_PLAYER_RESOURCES.LINEAGES_COUNCIL
-                    : INITIAL_AI_RESOURCES.LINEAGES_COUNCIL
+                    : scaleAIStartingGold(INITIAL_AI_RESOURCES.LINEAGES_COUNCIL, aiDifficulties?.[FactionId.LINEAGES_COUNCIL])
             },
             [FactionId.OATH_COALITION]: {
                 gold: playerFaction === FactionId.OATH_COALITION
                     ? INITIAL_PLAYER_RESOURCES.OATH_COALITION
-                    : INITIAL_AI_RESOURCES.OATH_COALITION
+                    : scaleAIStartingGold(INITIAL_AI_RESOURCES.OATH_COALITION, aiDifficulties?.[FactionId.OATH_COALITION])
             },
             [FactionId.LARION_EXPEDITION]: {
                 gold: playerFaction === FactionId.LARION_EXPEDITION
                     ? INITIAL_PLAYER_RESOURCES.LARION_EXPEDITION
-                    : INITIAL_AI_RESOURCES.LARION_EXPEDITION
+                    : scaleAIStartingGold(INITIAL_AI_RESOURCES.LARION_EXPEDITION, aiDifficulties?.[FactionId.LARION_EXPEDITION])
             },
             [FactionId.NEUTRAL]: { gold: 0 },
         },
@@ -152,6 +216,8 @@ export const createInitialState = (playerFaction: FactionId, mapId: MapId = 'lar
         famineNotification: null,
         siegeNotification: null,
         leaderEliminatedNotification: null,
-        hasScannedBattles: false
+        hasScannedBattles: false,
+        aiDifficulties,
+        rng: createRngState(seed)
     };
 };
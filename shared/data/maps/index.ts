@@ -0,0 +1,58 @@
+/**
+ * Map Data Registry - Starting locations, garrisons and roads per map
+ * Maps without an entry here have no playable data yet
+ */
+
+import { Location, Road } from '../../types';
+import { MapId } from '../../maps/types';
+import { LARION_ALTERNATE_LOCATIONS, LARION_ALTERNATE_GARRISONS, LARION_ALTERNATE_ROADS } from './larion_alternate';
+import { THYRAKAT_LOCATIONS, THYRAKAT_GARRISONS, THYRAKAT_ROADS } from './thyrakat';
+import { VALIS_LOCATIONS, VALIS_GARRISONS, VALIS_ROADS } from './valis';
+
+export interface MapData {
+    locations: Location[];
+    garrisons: Record<string, number>; // locationId -> starting garrison strength
+    roads: Road[];
+}
+
+const LARION_ALTERNATE_DATA: MapData = {
+    locations: LARION_ALTERNATE_LOCATIONS,
+    garrisons: LARION_ALTERNATE_GARRISONS,
+    roads: LARION_ALTERNATE_ROADS
+};
+
+const MAP_DATA: Partial<Record<MapId, MapData>> = {
+    'larion': LARION_ALTERNATE_DATA, // Legacy id, shares the alternate layout
+    'larion_alternate': LARION_ALTERNATE_DATA,
+    'thyrakat': {
+        locations: THYRAKAT_LOCATIONS,
+        garrisons: THYRAKAT_GARRISONS,
+        roads: THYRAKAT_ROADS
+    },
+    'valis': {
+        locations: VALIS_LOCATIONS,
+        garrisons: VALIS_GARRISONS,
+        roads: VALIS_ROADS
+    }
+};
+
+/**
+ * Add or replace a map's starting data (maps loaded from map files)
+ */
+export const registerMapData = (mapId: MapId, data: MapData): void => {
+    MAP_DATA[mapId] = data;
+};
+
+/**
+ * Check if a map has starting data (i.e. can actually be played)
+ */
+export const hasMapData = (mapId: MapId): boolean => {
+    return MAP_DATA[mapId] !== undefined;
+};
+
+/**
+ * Get starting data for a map (falls back to Larion like MapRegistry.get)
+ */
+export const getMapData = (mapId: MapId): MapData => {
+    return MAP_DATA[mapId] || LARION_ALTERNATE_DATA;
+};
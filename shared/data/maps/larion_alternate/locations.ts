@@ -227,7 +227,7 @@ export const NEW_LOCATIONS: Location[] = [
         resentment: { [FactionId.NOBLES]: 33, [FactionId.CONSPIRATORS]: 0, [FactionId.REPUBLICANS]: 40 }
     },
     {
-        id: 'fairemere_viscounty', name: 'Fairemere Viscounty', type: 'RURAL', linkedLocationId: 'Highwall', faction: FactionId.NOBLES,
+        id: 'fairemere_viscounty', name: 'Fairemere Viscounty', type: 'RURAL', linkedLocationId: 'cathair', faction: FactionId.NOBLES,
         population: 230000, ruralCategory: RuralCategory.INHOSPITABLE, isCoastal: true, foodCollectionLevel: 'LOW',
         goldIncome: 0, foodIncome: 0, foodStock: 0, stability: 50, defense: 0, fortificationLevel: 0,
         position: { x: 887, y: 465 },
@@ -7,7 +7,6 @@ import { Road, RoadQuality, FactionId } from '../../../types';
 
 export const THYRAKAT_ROADS: Road[] = [
   { id: 'new_larion_faith_pier_road', from: 'new_larion', to: 'faith_pier', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
-  { id: 'tamnit_2_road', from: 'tamnit', to: '2', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
   { id: 'grenecoste_protectorate_harabour_road', from: 'grenecoste_protectorate', to: 'harabour', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
   { id: 'hannon_lone_valley_district_road', from: 'hannon', to: 'lone_valley_district', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
   { id: 'endless_rivages_saphir_road', from: 'endless_rivages', to: 'saphir', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
@@ -0,0 +1,380 @@
+/**
+ * Valis Map Characters
+ * Leaders for each faction
+ */
+
+import { FactionId, CharacterStatus } from '../../../types';
+import { LeaderStatLevel, CharacterTrait } from '../../../types/leaderTypes';
+import { CharacterNew } from '../../characters';
+
+export const VALIS_CHARACTERS: CharacterNew[] = [
+    // ============================================================
+    // LOYALISTS
+    // ============================================================
+    {
+        id: 'queen_ysaline',
+        name: 'Queen Ysaline',
+        title: 'Queen of Valis',
+        faction: FactionId.LOYALISTS,
+        status: CharacterStatus.AVAILABLE,
+        locationId: 'aurelle',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'Crowned at sixteen, she means to keep her father\'s throne.',
+        bonuses: {},
+        budget: 0,
+        stats: {
+            stabilityPerTurn: 8,
+            commandBonus: 0.10,
+            clandestineOps: LeaderStatLevel.INEPT,
+            discretion: LeaderStatLevel.INEPT,
+            statesmanship: LeaderStatLevel.EXCEPTIONAL,
+            ability: ['LEGENDARY'],
+            traits: [],
+            insurrectionValue: 20
+        }
+    },
+    {
+        id: 'marshal_daubigne',
+        name: 'Marshal Daubigne',
+        title: 'Marshal of the Crown',
+        faction: FactionId.LOYALISTS,
+        status: CharacterStatus.AVAILABLE,
+        locationId: 'aurelle',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'An old soldier who has never lost a pitched battle.',
+        bonuses: {},
+        budget: 0,
+        stats: {
+            stabilityPerTurn: 0,
+            commandBonus: 0.35,
+            clandestineOps: LeaderStatLevel.INEPT,
+            discretion: LeaderStatLevel.UNRELIABLE,
+            statesmanship: LeaderStatLevel.CAPABLE,
+            ability: [],
+            traits: [],
+            insurrectionValue: 20
+        }
+    },
+    {
+        id: 'abbess_ermengarde',
+        name: 'Abbess Ermengarde',
+        title: 'Abbess of Sainte-Maure',
+        faction: FactionId.LOYALISTS,
+        status: CharacterStatus.AVAILABLE,
+        locationId: 'sainte_maure',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'The Church keeps the vales loyal, and she keeps the Church.',
+        bonuses: {},
+        budget: 0,
+        stats: {
+            stabilityPerTurn: 5,
+            commandBonus: 0,
+            clandestineOps: LeaderStatLevel.UNRELIABLE,
+            discretion: LeaderStatLevel.CAPABLE,
+            statesmanship: LeaderStatLevel.EFFECTIVE,
+            ability: ['MAN_OF_CHURCH'],
+            traits: [],
+            insurrectionValue: 20
+        }
+    },
+    {
+        id: 'count_de_vire',
+        name: 'Count de Vire',
+        title: 'Lord of Corvignac',
+        faction: FactionId.LOYALISTS,
+        status: CharacterStatus.AVAILABLE,
+        locationId: 'corvignac',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'Collects the southern tolls, and a share for himself.',
+        bonuses: {},
+        budget: 0,
+        stats: {
+            stabilityPerTurn: 0,
+            commandBonus: 0.10,
+            clandestineOps: LeaderStatLevel.UNRELIABLE,
+            discretion: LeaderStatLevel.UNRELIABLE,
+            statesmanship: LeaderStatLevel.CAPABLE,
+            ability: ['MANAGER'],
+            traits: [],
+            insurrectionValue: 20
+        }
+    },
+    {
+        id: 'sire_aldric',
+        name: 'Sire Aldric',
+        title: 'Queen\'s Eye',
+        faction: FactionId.LOYALISTS,
+        status: CharacterStatus.UNDERCOVER,
+        locationId: 'merivant_delta',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'Watches the League on behalf of the Crown.',
+        bonuses: {},
+        budget: 400,
+        stats: {
+            stabilityPerTurn: -2,
+            commandBonus: 0,
+            clandestineOps: LeaderStatLevel.EFFECTIVE,
+            discretion: LeaderStatLevel.EFFECTIVE,
+            statesmanship: LeaderStatLevel.UNRELIABLE,
+            ability: ['ELITE_NETWORKS'],
+            traits: [],
+            insurrectionValue: 20
+        }
+    },
+    // ============================================================
+    // PRINCELY_ARMY
+    // ============================================================
+    {
+        id: 'prince_lothaire',
+        name: 'Prince Lothaire',
+        title: 'Pretender to the throne',
+        faction: FactionId.PRINCELY_ARMY,
+        status: CharacterStatus.AVAILABLE,
+        locationId: 'hautfer',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'The Queen\'s uncle, who believes the crown should have been his.',
+        bonuses: {},
+        budget: 0,
+        stats: {
+            stabilityPerTurn: 3,
+            commandBonus: 0.30,
+            clandestineOps: LeaderStatLevel.UNRELIABLE,
+            discretion: LeaderStatLevel.UNRELIABLE,
+            statesmanship: LeaderStatLevel.CAPABLE,
+            ability: ['CONSCRIPTION'],
+            traits: [CharacterTrait.IRON_FIST],
+            insurrectionValue: 20
+        }
+    },
+    {
+        id: 'captain_greymane',
+        name: 'Captain Greymane',
+        title: 'Captain of the Iron Companies',
+        faction: FactionId.PRINCELY_ARMY,
+        status: CharacterStatus.AVAILABLE,
+        locationId: 'brenmoor',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'A mercenary who found a cause worth his pay.',
+        bonuses: {},
+        budget: 0,
+        stats: {
+            stabilityPerTurn: 0,
+            commandBonus: 0.40,
+            clandestineOps: LeaderStatLevel.INEPT,
+            discretion: LeaderStatLevel.INEPT,
+            statesmanship: LeaderStatLevel.UNRELIABLE,
+            ability: ['DAREDEVIL'],
+            traits: [],
+            insurrectionValue: 20
+        }
+    },
+    {
+        id: 'lady_morcerf',
+        name: 'Lady Morcerf',
+        title: 'Chatelaine of Castel-Orgueil',
+        faction: FactionId.PRINCELY_ARMY,
+        status: CharacterStatus.AVAILABLE,
+        locationId: 'castel_orgueil',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'Holds the uplands with an iron hand and a full granary.',
+        bonuses: {},
+        budget: 0,
+        stats: {
+            stabilityPerTurn: 4,
+            commandBonus: 0.15,
+            clandestineOps: LeaderStatLevel.INEPT,
+            discretion: LeaderStatLevel.UNRELIABLE,
+            statesmanship: LeaderStatLevel.EFFECTIVE,
+            ability: ['PARANOID'],
+            traits: [CharacterTrait.IRON_FIST],
+            insurrectionValue: 20
+        }
+    },
+    {
+        id: 'master_oswin',
+        name: 'Master Oswin',
+        title: 'Ironmaster of Hautfer',
+        faction: FactionId.PRINCELY_ARMY,
+        status: CharacterStatus.AVAILABLE,
+        locationId: 'hautfer',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'The mines of Hautfer pay for the Prince\'s war.',
+        bonuses: {},
+        budget: 0,
+        stats: {
+            stabilityPerTurn: 0,
+            commandBonus: 0,
+            clandestineOps: LeaderStatLevel.INEPT,
+            discretion: LeaderStatLevel.UNRELIABLE,
+            statesmanship: LeaderStatLevel.CAPABLE,
+            ability: ['MANAGER'],
+            traits: [],
+            insurrectionValue: 20
+        }
+    },
+    {
+        id: 'brother_caddoc',
+        name: 'Brother Caddoc',
+        title: 'Wandering preacher',
+        faction: FactionId.PRINCELY_ARMY,
+        status: CharacterStatus.UNDERCOVER,
+        locationId: 'crown_demesne',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'Preaches that the Queen\'s crown is cursed.',
+        bonuses: {},
+        budget: 300,
+        stats: {
+            stabilityPerTurn: -3,
+            commandBonus: 0,
+            clandestineOps: LeaderStatLevel.EFFECTIVE,
+            discretion: LeaderStatLevel.CAPABLE,
+            statesmanship: LeaderStatLevel.UNRELIABLE,
+            ability: ['FIREBRAND', 'AGITATIONAL_NETWORKS'],
+            traits: [],
+            insurrectionValue: 20
+        }
+    },
+    // ============================================================
+    // CONFEDERATE_CITIES
+    // ============================================================
+    {
+        id: 'syndic_perrault',
+        name: 'Syndic Perrault',
+        title: 'First Syndic of the League',
+        faction: FactionId.CONFEDERATE_CITIES,
+        status: CharacterStatus.AVAILABLE,
+        locationId: 'lisselport',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'A merchant prince who would rather buy a war than fight it.',
+        bonuses: {},
+        budget: 0,
+        stats: {
+            stabilityPerTurn: 3,
+            commandBonus: 0,
+            clandestineOps: LeaderStatLevel.UNRELIABLE,
+            discretion: LeaderStatLevel.CAPABLE,
+            statesmanship: LeaderStatLevel.EXCEPTIONAL,
+            ability: ['MANAGER', 'ELITE_NETWORKS'],
+            traits: [],
+            insurrectionValue: 20
+        }
+    },
+    {
+        id: 'admiral_sennet',
+        name: 'Admiral Sennet',
+        title: 'Admiral of the League fleet',
+        faction: FactionId.CONFEDERATE_CITIES,
+        status: CharacterStatus.AVAILABLE,
+        locationId: 'merivant',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'Her galleys rule the western sea.',
+        bonuses: {},
+        budget: 0,
+        stats: {
+            stabilityPerTurn: 0,
+            commandBonus: 0.25,
+            clandestineOps: LeaderStatLevel.INEPT,
+            discretion: LeaderStatLevel.UNRELIABLE,
+            statesmanship: LeaderStatLevel.CAPABLE,
+            ability: [],
+            traits: [],
+            insurrectionValue: 20
+        }
+    },
+    {
+        id: 'colonel_vasse',
+        name: 'Colonel Vasse',
+        title: 'Colonel of the City Militias',
+        faction: FactionId.CONFEDERATE_CITIES,
+        status: CharacterStatus.AVAILABLE,
+        locationId: 'merivant',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'Drills shopkeepers into pikemen.',
+        bonuses: {},
+        budget: 0,
+        stats: {
+            stabilityPerTurn: 2,
+            commandBonus: 0.20,
+            clandestineOps: LeaderStatLevel.INEPT,
+            discretion: LeaderStatLevel.INEPT,
+            statesmanship: LeaderStatLevel.CAPABLE,
+            ability: ['CONSCRIPTION'],
+            traits: [],
+            insurrectionValue: 20
+        }
+    },
+    {
+        id: 'widow_falque',
+        name: 'Widow Falque',
+        title: 'Smuggler queen of Salbrune',
+        faction: FactionId.CONFEDERATE_CITIES,
+        status: CharacterStatus.AVAILABLE,
+        locationId: 'salbrune',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'Nothing crosses the marshes without her leave.',
+        bonuses: {},
+        budget: 0,
+        stats: {
+            stabilityPerTurn: 0,
+            commandBonus: 0,
+            clandestineOps: LeaderStatLevel.CAPABLE,
+            discretion: LeaderStatLevel.EFFECTIVE,
+            statesmanship: LeaderStatLevel.UNRELIABLE,
+            ability: ['SMUGGLER'],
+            traits: [],
+            insurrectionValue: 20
+        }
+    },
+    {
+        id: 'scribe_tollemer',
+        name: 'Scribe Tollemer',
+        title: 'Pamphleteer',
+        faction: FactionId.CONFEDERATE_CITIES,
+        status: CharacterStatus.UNDERCOVER,
+        locationId: 'corvignac_marches',
+        destinationId: null,
+        turnsUntilArrival: 0,
+        armyId: null,
+        description: 'His pamphlets turn peasants against their lords.',
+        bonuses: {},
+        budget: 400,
+        stats: {
+            stabilityPerTurn: -3,
+            commandBonus: 0,
+            clandestineOps: LeaderStatLevel.EFFECTIVE,
+            discretion: LeaderStatLevel.EFFECTIVE,
+            statesmanship: LeaderStatLevel.UNRELIABLE,
+            ability: ['AGITATIONAL_NETWORKS', 'GHOST'],
+            traits: [],
+            insurrectionValue: 20
+        }
+    }
+];
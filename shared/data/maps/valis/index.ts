@@ -0,0 +1,8 @@
+/**
+ * Valis Map Data Exports
+ */
+
+export { VALIS_LOCATIONS, VALIS_GARRISONS } from './locations';
+export { VALIS_ROADS } from './roads';
+export { VALIS_CHARACTERS } from './characters';
+export { VALIS_PORTS, VALIS_NAVAL_TIMES } from './ports';
@@ -0,0 +1,254 @@
+/**
+ * Valis Map Locations
+ * Kingdom split between the Queen's loyalists, the Prince's army and the League of Confederate Cities
+ */
+
+import { Location, FactionId, RuralCategory } from '../../../types';
+
+export const VALIS_LOCATIONS: Location[] = [
+  {
+    id: 'crown_demesne', name: 'The Crown Demesne', type: 'RURAL', linkedLocationId: 'aurelle', faction: FactionId.LOYALISTS,
+    population: 420000, ruralCategory: RuralCategory.FERTILE, isCoastal: false, foodCollectionLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 0, stability: 70, defense: 0, fortificationLevel: 0,
+    position: { x: 450, y: 360 },
+    backgroundPosition: { x: 450, y: 360 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 420000 },
+    resentment: { [FactionId.LOYALISTS]: 10, [FactionId.PRINCELY_ARMY]: 55, [FactionId.CONFEDERATE_CITIES]: 40 }
+  },
+  {
+    id: 'maure_vales', name: 'Vales of Maure', type: 'RURAL', linkedLocationId: 'sainte_maure', faction: FactionId.LOYALISTS,
+    population: 260000, ruralCategory: RuralCategory.FERTILE, isCoastal: false, foodCollectionLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 0, stability: 60, defense: 0, fortificationLevel: 0,
+    position: { x: 420, y: 190 },
+    backgroundPosition: { x: 420, y: 190 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 260000 },
+    resentment: { [FactionId.LOYALISTS]: 20, [FactionId.PRINCELY_ARMY]: 45, [FactionId.CONFEDERATE_CITIES]: 45 }
+  },
+  {
+    id: 'corvignac_marches', name: 'Corvignac Marches', type: 'RURAL', linkedLocationId: 'corvignac', faction: FactionId.LOYALISTS,
+    population: 210000, ruralCategory: RuralCategory.ORDINARY, isCoastal: true, foodCollectionLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 0, stability: 50, defense: 0, fortificationLevel: 0,
+    position: { x: 430, y: 550 },
+    backgroundPosition: { x: 430, y: 550 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 210000 },
+    resentment: { [FactionId.LOYALISTS]: 30, [FactionId.PRINCELY_ARMY]: 40, [FactionId.CONFEDERATE_CITIES]: 50 }
+  },
+  {
+    id: 'iron_hills', name: 'The Iron Hills', type: 'RURAL', linkedLocationId: 'hautfer', faction: FactionId.PRINCELY_ARMY,
+    population: 180000, ruralCategory: RuralCategory.INHOSPITABLE, isCoastal: false, foodCollectionLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 0, stability: 65, defense: 0, fortificationLevel: 0,
+    position: { x: 820, y: 160 },
+    backgroundPosition: { x: 820, y: 160 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 180000 },
+    resentment: { [FactionId.LOYALISTS]: 50, [FactionId.PRINCELY_ARMY]: 10, [FactionId.CONFEDERATE_CITIES]: 60 }
+  },
+  {
+    id: 'brenmoor_heath', name: 'Brenmoor Heath', type: 'RURAL', linkedLocationId: 'brenmoor', faction: FactionId.PRINCELY_ARMY,
+    population: 240000, ruralCategory: RuralCategory.ORDINARY, isCoastal: false, foodCollectionLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 0, stability: 55, defense: 0, fortificationLevel: 0,
+    position: { x: 790, y: 370 },
+    backgroundPosition: { x: 790, y: 370 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 240000 },
+    resentment: { [FactionId.LOYALISTS]: 45, [FactionId.PRINCELY_ARMY]: 20, [FactionId.CONFEDERATE_CITIES]: 55 }
+  },
+  {
+    id: 'pride_uplands', name: 'The Pride Uplands', type: 'RURAL', linkedLocationId: 'castel_orgueil', faction: FactionId.PRINCELY_ARMY,
+    population: 200000, ruralCategory: RuralCategory.ORDINARY, isCoastal: false, foodCollectionLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 0, stability: 50, defense: 0, fortificationLevel: 0,
+    position: { x: 750, y: 560 },
+    backgroundPosition: { x: 750, y: 560 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 200000 },
+    resentment: { [FactionId.LOYALISTS]: 40, [FactionId.PRINCELY_ARMY]: 25, [FactionId.CONFEDERATE_CITIES]: 50 }
+  },
+  {
+    id: 'lissel_coast', name: 'Lissel Coast', type: 'RURAL', linkedLocationId: 'lisselport', faction: FactionId.CONFEDERATE_CITIES,
+    population: 230000, ruralCategory: RuralCategory.ORDINARY, isCoastal: true, foodCollectionLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 0, stability: 60, defense: 0, fortificationLevel: 0,
+    position: { x: 150, y: 160 },
+    backgroundPosition: { x: 150, y: 160 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 230000 },
+    resentment: { [FactionId.LOYALISTS]: 45, [FactionId.PRINCELY_ARMY]: 60, [FactionId.CONFEDERATE_CITIES]: 10 }
+  },
+  {
+    id: 'merivant_delta', name: 'Merivant Delta', type: 'RURAL', linkedLocationId: 'merivant', faction: FactionId.CONFEDERATE_CITIES,
+    population: 320000, ruralCategory: RuralCategory.FERTILE, isCoastal: true, foodCollectionLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 0, stability: 60, defense: 0, fortificationLevel: 0,
+    position: { x: 170, y: 370 },
+    backgroundPosition: { x: 170, y: 370 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 320000 },
+    resentment: { [FactionId.LOYALISTS]: 40, [FactionId.PRINCELY_ARMY]: 60, [FactionId.CONFEDERATE_CITIES]: 15 }
+  },
+  {
+    id: 'salt_marshes', name: 'The Salt Marshes', type: 'RURAL', linkedLocationId: 'salbrune', faction: FactionId.CONFEDERATE_CITIES,
+    population: 150000, ruralCategory: RuralCategory.INHOSPITABLE, isCoastal: true, foodCollectionLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 0, stability: 55, defense: 0, fortificationLevel: 0,
+    position: { x: 190, y: 560 },
+    backgroundPosition: { x: 190, y: 560 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 150000 },
+    resentment: { [FactionId.LOYALISTS]: 50, [FactionId.PRINCELY_ARMY]: 55, [FactionId.CONFEDERATE_CITIES]: 20 }
+  },
+  {
+    id: 'vaudrec_forest', name: 'Vaudrec Forest', type: 'RURAL', linkedLocationId: 'vaudrec', faction: FactionId.NEUTRAL,
+    population: 140000, ruralCategory: RuralCategory.ORDINARY, isCoastal: false, foodCollectionLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 0, stability: 50, defense: 0, fortificationLevel: 0,
+    position: { x: 630, y: 210 },
+    backgroundPosition: { x: 630, y: 210 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 140000 },
+    resentment: { [FactionId.LOYALISTS]: 40, [FactionId.PRINCELY_ARMY]: 40, [FactionId.CONFEDERATE_CITIES]: 40 }
+  },
+  {
+    id: 'ostmark_steppe', name: 'Ostmark Steppe', type: 'RURAL', linkedLocationId: 'ostmark', faction: FactionId.NEUTRAL,
+    population: 120000, ruralCategory: RuralCategory.INHOSPITABLE, isCoastal: true, foodCollectionLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 0, stability: 45, defense: 0, fortificationLevel: 0,
+    position: { x: 920, y: 540 },
+    backgroundPosition: { x: 920, y: 540 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 120000 },
+    resentment: { [FactionId.LOYALISTS]: 50, [FactionId.PRINCELY_ARMY]: 35, [FactionId.CONFEDERATE_CITIES]: 45 }
+  },
+  {
+    id: 'aurelle', name: 'Aurelle', type: 'CITY', linkedLocationId: 'crown_demesne', faction: FactionId.LOYALISTS,
+    population: 85000, taxLevel: 'NORMAL', tradeTaxLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 300, stability: 75, defense: 4000, fortificationLevel: 3,
+    position: { x: 500, y: 320 },
+    backgroundPosition: { x: 500, y: 320 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 85000 },
+    resentment: { [FactionId.LOYALISTS]: 5, [FactionId.PRINCELY_ARMY]: 60, [FactionId.CONFEDERATE_CITIES]: 45 }
+  },
+  {
+    id: 'sainte_maure', name: 'Sainte-Maure', type: 'CITY', linkedLocationId: 'maure_vales', faction: FactionId.LOYALISTS,
+    population: 24000, taxLevel: 'NORMAL', tradeTaxLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 150, stability: 65, defense: 1500, fortificationLevel: 2,
+    position: { x: 460, y: 130 },
+    backgroundPosition: { x: 460, y: 130 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 24000 },
+    resentment: { [FactionId.LOYALISTS]: 15, [FactionId.PRINCELY_ARMY]: 45, [FactionId.CONFEDERATE_CITIES]: 45 }
+  },
+  {
+    id: 'corvignac', name: 'Corvignac', type: 'CITY', linkedLocationId: 'corvignac_marches', faction: FactionId.LOYALISTS,
+    population: 30000, taxLevel: 'NORMAL', tradeTaxLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 150, stability: 55, defense: 1500, fortificationLevel: 2,
+    position: { x: 470, y: 620 },
+    backgroundPosition: { x: 470, y: 620 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 30000 },
+    resentment: { [FactionId.LOYALISTS]: 25, [FactionId.PRINCELY_ARMY]: 45, [FactionId.CONFEDERATE_CITIES]: 45 }
+  },
+  {
+    id: 'hautfer', name: 'Hautfer', type: 'CITY', linkedLocationId: 'iron_hills', faction: FactionId.PRINCELY_ARMY,
+    population: 20000, taxLevel: 'NORMAL', tradeTaxLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 200, stability: 70, defense: 4000, fortificationLevel: 3,
+    position: { x: 870, y: 110 },
+    backgroundPosition: { x: 870, y: 110 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 20000 },
+    resentment: { [FactionId.LOYALISTS]: 55, [FactionId.PRINCELY_ARMY]: 5, [FactionId.CONFEDERATE_CITIES]: 60 }
+  },
+  {
+    id: 'brenmoor', name: 'Brenmoor', type: 'CITY', linkedLocationId: 'brenmoor_heath', faction: FactionId.PRINCELY_ARMY,
+    population: 26000, taxLevel: 'NORMAL', tradeTaxLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 150, stability: 60, defense: 1500, fortificationLevel: 2,
+    position: { x: 860, y: 340 },
+    backgroundPosition: { x: 860, y: 340 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 26000 },
+    resentment: { [FactionId.LOYALISTS]: 45, [FactionId.PRINCELY_ARMY]: 15, [FactionId.CONFEDERATE_CITIES]: 55 }
+  },
+  {
+    id: 'castel_orgueil', name: 'Castel-Orgueil', type: 'CITY', linkedLocationId: 'pride_uplands', faction: FactionId.PRINCELY_ARMY,
+    population: 14000, taxLevel: 'NORMAL', tradeTaxLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 150, stability: 60, defense: 4000, fortificationLevel: 3,
+    position: { x: 800, y: 610 },
+    backgroundPosition: { x: 800, y: 610 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 14000 },
+    resentment: { [FactionId.LOYALISTS]: 40, [FactionId.PRINCELY_ARMY]: 20, [FactionId.CONFEDERATE_CITIES]: 50 }
+  },
+  {
+    id: 'lisselport', name: 'Lisselport', type: 'CITY', linkedLocationId: 'lissel_coast', faction: FactionId.CONFEDERATE_CITIES,
+    population: 70000, taxLevel: 'NORMAL', tradeTaxLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 250, stability: 65, defense: 1500, fortificationLevel: 2,
+    position: { x: 90, y: 110 },
+    backgroundPosition: { x: 90, y: 110 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 70000 },
+    resentment: { [FactionId.LOYALISTS]: 45, [FactionId.PRINCELY_ARMY]: 65, [FactionId.CONFEDERATE_CITIES]: 5 }
+  },
+  {
+    id: 'merivant', name: 'Merivant', type: 'CITY', linkedLocationId: 'merivant_delta', faction: FactionId.CONFEDERATE_CITIES,
+    population: 48000, taxLevel: 'NORMAL', tradeTaxLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 200, stability: 65, defense: 1500, fortificationLevel: 2,
+    position: { x: 90, y: 400 },
+    backgroundPosition: { x: 90, y: 400 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 48000 },
+    resentment: { [FactionId.LOYALISTS]: 40, [FactionId.PRINCELY_ARMY]: 60, [FactionId.CONFEDERATE_CITIES]: 10 }
+  },
+  {
+    id: 'salbrune', name: 'Salbrune', type: 'CITY', linkedLocationId: 'salt_marshes', faction: FactionId.CONFEDERATE_CITIES,
+    population: 22000, taxLevel: 'NORMAL', tradeTaxLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 150, stability: 55, defense: 500, fortificationLevel: 1,
+    position: { x: 120, y: 620 },
+    backgroundPosition: { x: 120, y: 620 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 22000 },
+    resentment: { [FactionId.LOYALISTS]: 50, [FactionId.PRINCELY_ARMY]: 55, [FactionId.CONFEDERATE_CITIES]: 15 }
+  },
+  {
+    id: 'vaudrec', name: 'Vaudrec', type: 'CITY', linkedLocationId: 'vaudrec_forest', faction: FactionId.NEUTRAL,
+    population: 9000, taxLevel: 'NORMAL', tradeTaxLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 100, stability: 50, defense: 500, fortificationLevel: 1,
+    position: { x: 680, y: 160 },
+    backgroundPosition: { x: 680, y: 160 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 9000 },
+    resentment: { [FactionId.LOYALISTS]: 40, [FactionId.PRINCELY_ARMY]: 40, [FactionId.CONFEDERATE_CITIES]: 40 }
+  },
+  {
+    id: 'ostmark', name: 'Ostmark', type: 'CITY', linkedLocationId: 'ostmark_steppe', faction: FactionId.NEUTRAL,
+    population: 12000, taxLevel: 'NORMAL', tradeTaxLevel: 'NORMAL',
+    goldIncome: 0, foodIncome: 0, foodStock: 100, stability: 45, defense: 500, fortificationLevel: 1,
+    position: { x: 960, y: 620 },
+    backgroundPosition: { x: 960, y: 620 },
+    actionsTaken: { seizeGold: 0, seizeFood: 0, recruit: 0, incite: 0 },
+    demographics: { nobles: 0, wealthyCommoners: 0, labouringFolks: 12000 },
+    resentment: { [FactionId.LOYALISTS]: 50, [FactionId.PRINCELY_ARMY]: 35, [FactionId.CONFEDERATE_CITIES]: 45 }
+  }
+];
+
+export const VALIS_GARRISONS: Record<string, number> = {
+  'crown_demesne': 2000,
+  'maure_vales': 1000,
+  'corvignac_marches': 1000,
+  'iron_hills': 2000,
+  'brenmoor_heath': 2000,
+  'pride_uplands': 1500,
+  'lissel_coast': 1000,
+  'merivant_delta': 1000,
+  'salt_marshes': 500,
+  'vaudrec_forest': 500,
+  'ostmark_steppe': 500,
+  'aurelle': 2000,
+  'sainte_maure': 500,
+  'corvignac': 500,
+  'hautfer': 1000,
+  'brenmoor': 500,
+  'castel_orgueil': 1000,
+  'lisselport': 1500,
+  'merivant': 1000,
+  'salbrune': 500,
+  'vaudrec': 500,
+  'ostmark': 500
+};
@@ -0,0 +1,35 @@
+/**
+ * Valis Map Ports
+ * Coastal cities that can send/receive naval convoys
+ */
+
+// List of location IDs that are ports
+export const VALIS_PORTS: string[] = [
+    'lisselport',
+    'merivant',
+    'salbrune',
+    'corvignac',
+    'ostmark',
+];
+
+// Naval travel times between ports (west coast down to the southern sea)
+export const VALIS_NAVAL_TIMES: Record<string, Record<string, number>> = {
+    lisselport: {
+        merivant: 2,
+        salbrune: 3,
+        corvignac: 5,
+        ostmark: 8
+    },
+    merivant: {
+        salbrune: 2,
+        corvignac: 4,
+        ostmark: 7
+    },
+    salbrune: {
+        corvignac: 3,
+        ostmark: 6
+    },
+    corvignac: {
+        ostmark: 4
+    },
+};
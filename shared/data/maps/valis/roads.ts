@@ -0,0 +1,121 @@
+/**
+ * Valis Map Roads
+ */
+
+import { Road, RoadQuality } from '../../../types';
+
+export const VALIS_ROADS: Road[] = [
+  { id: 'crown_demesne_aurelle_road', from: 'crown_demesne', to: 'aurelle', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
+  { id: 'maure_vales_sainte_maure_road', from: 'maure_vales', to: 'sainte_maure', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
+  { id: 'corvignac_marches_corvignac_road', from: 'corvignac_marches', to: 'corvignac', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
+  { id: 'iron_hills_hautfer_road', from: 'iron_hills', to: 'hautfer', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
+  { id: 'brenmoor_heath_brenmoor_road', from: 'brenmoor_heath', to: 'brenmoor', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
+  { id: 'pride_uplands_castel_orgueil_road', from: 'pride_uplands', to: 'castel_orgueil', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
+  { id: 'lissel_coast_lisselport_road', from: 'lissel_coast', to: 'lisselport', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
+  { id: 'merivant_delta_merivant_road', from: 'merivant_delta', to: 'merivant', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
+  { id: 'salt_marshes_salbrune_road', from: 'salt_marshes', to: 'salbrune', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
+  { id: 'vaudrec_forest_vaudrec_road', from: 'vaudrec_forest', to: 'vaudrec', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
+  { id: 'ostmark_steppe_ostmark_road', from: 'ostmark_steppe', to: 'ostmark', quality: RoadQuality.LOCAL, travelTurns: 0, stages: [] },
+  {
+    id: 'lissel_coast_merivant_delta_road', from: 'lissel_coast', to: 'merivant_delta', quality: RoadQuality.GOOD, travelTurns: 2, stages: [
+      { index: 0, position: { x: 157, y: 230 }, backgroundPosition: { x: 157, y: 230 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Tidewater Road", flavorText: "The paved coast road of the League, busy with carts and couriers." },
+      { index: 1, position: { x: 163, y: 300 }, backgroundPosition: { x: 163, y: 300 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Gullmere", flavorText: "A fishing town where the League taxes every passing barrel." }
+    ]
+  },
+  {
+    id: 'merivant_delta_salt_marshes_road', from: 'merivant_delta', to: 'salt_marshes', quality: RoadQuality.MEDIOCRE, travelTurns: 2, stages: [
+      { index: 0, position: { x: 177, y: 433 }, backgroundPosition: { x: 177, y: 433 }, fortificationLevel: 0, naturalDefense: 500, faction: null, name: "Reedford", flavorText: "Causeways of packed earth over the river mouths." },
+      { index: 1, position: { x: 183, y: 497 }, backgroundPosition: { x: 183, y: 497 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Saltpans of Brune", flavorText: "Glittering pans where half of Valis gets its salt." }
+    ]
+  },
+  {
+    id: 'lissel_coast_maure_vales_road', from: 'lissel_coast', to: 'maure_vales', quality: RoadQuality.MEDIOCRE, travelTurns: 3, stages: [
+      { index: 0, position: { x: 218, y: 168 }, backgroundPosition: { x: 218, y: 168 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Lissel Gate", flavorText: "Toll house marking the end of League lands." },
+      { index: 1, position: { x: 285, y: 175 }, backgroundPosition: { x: 285, y: 175 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "The Long Ascent", flavorText: "The road climbs slowly towards the vales." },
+      { index: 2, position: { x: 352, y: 182 }, backgroundPosition: { x: 352, y: 182 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Maure Orchards", flavorText: "Rows of apple trees, owned by the abbey of Sainte-Maure." }
+    ]
+  },
+  {
+    id: 'merivant_delta_crown_demesne_road', from: 'merivant_delta', to: 'crown_demesne', quality: RoadQuality.GOOD, travelTurns: 3, stages: [
+      { index: 0, position: { x: 240, y: 368 }, backgroundPosition: { x: 240, y: 368 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Queen's Causeway", flavorText: "The royal highway from the capital to the western sea." },
+      { index: 1, position: { x: 310, y: 365 }, backgroundPosition: { x: 310, y: 365 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Fontclair", flavorText: "A market town that owes both the Crown and the League." },
+      { index: 2, position: { x: 380, y: 362 }, backgroundPosition: { x: 380, y: 362 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Aurelle Tollbridge", flavorText: "The last bridge before the Crown Demesne." }
+    ]
+  },
+  {
+    id: 'salt_marshes_corvignac_marches_road', from: 'salt_marshes', to: 'corvignac_marches', quality: RoadQuality.BAD, travelTurns: 3, stages: [
+      { index: 0, position: { x: 250, y: 558 }, backgroundPosition: { x: 250, y: 558 }, fortificationLevel: 0, naturalDefense: 1000, faction: null, name: "Drowned Fields", flavorText: "Flooded farmland, ruined by the spring tides." },
+      { index: 1, position: { x: 310, y: 555 }, backgroundPosition: { x: 310, y: 555 }, fortificationLevel: 0, naturalDefense: 1500, faction: null, name: "Smugglers' Fen", flavorText: "Nobody asks what moves through these reeds at night." },
+      { index: 2, position: { x: 370, y: 552 }, backgroundPosition: { x: 370, y: 552 }, fortificationLevel: 0, naturalDefense: 500, faction: null, name: "Corvignac Dykes", flavorText: "Old dykes guarding the marches from the sea." }
+    ]
+  },
+  {
+    id: 'maure_vales_crown_demesne_road', from: 'maure_vales', to: 'crown_demesne', quality: RoadQuality.GOOD, travelTurns: 2, stages: [
+      { index: 0, position: { x: 430, y: 247 }, backgroundPosition: { x: 430, y: 247 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Pilgrims' Way", flavorText: "A wide road lined with shrines." },
+      { index: 1, position: { x: 440, y: 303 }, backgroundPosition: { x: 440, y: 303 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Chapel of Saint Odile", flavorText: "A hilltop chapel overlooking the capital plain." }
+    ]
+  },
+  {
+    id: 'crown_demesne_corvignac_marches_road', from: 'crown_demesne', to: 'corvignac_marches', quality: RoadQuality.GOOD, travelTurns: 2, stages: [
+      { index: 0, position: { x: 443, y: 423 }, backgroundPosition: { x: 443, y: 423 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Royal Stud", flavorText: "The Crown's horse farms." },
+      { index: 1, position: { x: 437, y: 487 }, backgroundPosition: { x: 437, y: 487 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Corvignac Road", flavorText: "A straight road down to the southern sea." }
+    ]
+  },
+  {
+    id: 'maure_vales_vaudrec_forest_road', from: 'maure_vales', to: 'vaudrec_forest', quality: RoadQuality.MEDIOCRE, travelTurns: 2, stages: [
+      { index: 0, position: { x: 490, y: 197 }, backgroundPosition: { x: 490, y: 197 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Forest Edge", flavorText: "The last villages before the woods." },
+      { index: 1, position: { x: 560, y: 203 }, backgroundPosition: { x: 560, y: 203 }, fortificationLevel: 0, naturalDefense: 1000, faction: null, name: "Hunters' Lodge", flavorText: "A royal hunting lodge, long abandoned." }
+    ]
+  },
+  {
+    id: 'crown_demesne_vaudrec_forest_road', from: 'crown_demesne', to: 'vaudrec_forest', quality: RoadQuality.MEDIOCRE, travelTurns: 2, stages: [
+      { index: 0, position: { x: 510, y: 310 }, backgroundPosition: { x: 510, y: 310 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Old Mill", flavorText: "A watermill on the Vaud river." },
+      { index: 1, position: { x: 570, y: 260 }, backgroundPosition: { x: 570, y: 260 }, fortificationLevel: 0, naturalDefense: 1000, faction: null, name: "Vaudrec Clearings", flavorText: "Charcoal burners' camps deep in the forest." }
+    ]
+  },
+  {
+    id: 'vaudrec_forest_iron_hills_road', from: 'vaudrec_forest', to: 'iron_hills', quality: RoadQuality.BAD, travelTurns: 2, stages: [
+      { index: 0, position: { x: 693, y: 193 }, backgroundPosition: { x: 693, y: 193 }, fortificationLevel: 0, naturalDefense: 2000, faction: null, name: "Vaudrec Pass", flavorText: "A narrow pass between wooded crags, easy to hold." },
+      { index: 1, position: { x: 757, y: 177 }, backgroundPosition: { x: 757, y: 177 }, fortificationLevel: 0, naturalDefense: 500, faction: null, name: "Slag Heaps", flavorText: "The first mines of the Iron Hills." }
+    ]
+  },
+  {
+    id: 'crown_demesne_brenmoor_heath_road', from: 'crown_demesne', to: 'brenmoor_heath', quality: RoadQuality.GOOD, travelTurns: 3, stages: [
+      { index: 0, position: { x: 535, y: 362 }, backgroundPosition: { x: 535, y: 362 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Valmont", flavorText: "A prosperous town on the eastern highway." },
+      { index: 1, position: { x: 620, y: 365 }, backgroundPosition: { x: 620, y: 365 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Ford of the Two Princes", flavorText: "Where the Prince and the Queen last met in peace." },
+      { index: 2, position: { x: 705, y: 368 }, backgroundPosition: { x: 705, y: 368 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Brenmoor Milestones", flavorText: "Old milestones counting the leagues to Aurelle." }
+    ]
+  },
+  {
+    id: 'iron_hills_brenmoor_heath_road', from: 'iron_hills', to: 'brenmoor_heath', quality: RoadQuality.MEDIOCRE, travelTurns: 2, stages: [
+      { index: 0, position: { x: 810, y: 230 }, backgroundPosition: { x: 810, y: 230 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Forgeward", flavorText: "Smithies working day and night for the Prince." },
+      { index: 1, position: { x: 800, y: 300 }, backgroundPosition: { x: 800, y: 300 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Heath Road", flavorText: "A windswept track across the heath." }
+    ]
+  },
+  {
+    id: 'brenmoor_heath_pride_uplands_road', from: 'brenmoor_heath', to: 'pride_uplands', quality: RoadQuality.MEDIOCRE, travelTurns: 2, stages: [
+      { index: 0, position: { x: 777, y: 433 }, backgroundPosition: { x: 777, y: 433 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Barrow Fields", flavorText: "Ancient burial mounds dot the heath." },
+      { index: 1, position: { x: 763, y: 497 }, backgroundPosition: { x: 763, y: 497 }, fortificationLevel: 0, naturalDefense: 1000, faction: null, name: "Orgueil Steps", flavorText: "The road climbs in switchbacks to the uplands." }
+    ]
+  },
+  {
+    id: 'corvignac_marches_pride_uplands_road', from: 'corvignac_marches', to: 'pride_uplands', quality: RoadQuality.MEDIOCRE, travelTurns: 3, stages: [
+      { index: 0, position: { x: 510, y: 552 }, backgroundPosition: { x: 510, y: 552 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Southern Vineyards", flavorText: "Terraced vines on the lower slopes." },
+      { index: 1, position: { x: 590, y: 555 }, backgroundPosition: { x: 590, y: 555 }, fortificationLevel: 0, naturalDefense: 500, faction: null, name: "Border Keep", flavorText: "A ruined keep on the old royal border." },
+      { index: 2, position: { x: 670, y: 558 }, backgroundPosition: { x: 670, y: 558 }, fortificationLevel: 0, naturalDefense: 1500, faction: null, name: "Upland Gate", flavorText: "The fortified gate of the Pride Uplands." }
+    ]
+  },
+  {
+    id: 'pride_uplands_ostmark_steppe_road', from: 'pride_uplands', to: 'ostmark_steppe', quality: RoadQuality.BAD, travelTurns: 2, stages: [
+      { index: 0, position: { x: 807, y: 553 }, backgroundPosition: { x: 807, y: 553 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Steppe Edge", flavorText: "The hills end abruptly in endless grass." },
+      { index: 1, position: { x: 863, y: 547 }, backgroundPosition: { x: 863, y: 547 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Nomad Wells", flavorText: "Wells used by herders since before the kingdom." }
+    ]
+  },
+  {
+    id: 'brenmoor_heath_ostmark_steppe_road', from: 'brenmoor_heath', to: 'ostmark_steppe', quality: RoadQuality.BAD, travelTurns: 3, stages: [
+      { index: 0, position: { x: 822, y: 412 }, backgroundPosition: { x: 822, y: 412 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Stone Circles", flavorText: "Standing stones older than Valis." },
+      { index: 1, position: { x: 855, y: 455 }, backgroundPosition: { x: 855, y: 455 }, fortificationLevel: 0, naturalDefense: 500, faction: null, name: "Dry Riverbed", flavorText: "The only path east when the rains fail." },
+      { index: 2, position: { x: 888, y: 498 }, backgroundPosition: { x: 888, y: 498 }, fortificationLevel: 0, naturalDefense: 0, faction: null, name: "Ostmark Watch", flavorText: "A wooden tower watching for raiders." }
+    ]
+  }
+];
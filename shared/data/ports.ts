@@ -3,6 +3,8 @@
  * Centralized port configurations for naval travel times
  */
 
+import { VALIS_PORTS, VALIS_NAVAL_TIMES } from './maps/valis/ports';
+
 // ===========================================
 // LARION (Original Map) - 7 ports
 // ===========================================
@@ -241,7 +243,8 @@ export const ALL_PORTS: Set<string> = new Set([
     ...LARION_PORTS,
     ...LARION_LARGE_PORTS,
     ...LARION_ALTERNATE_PORTS,
-    ...THYRAKAT_PORTS
+    ...THYRAKAT_PORTS,
+    ...VALIS_PORTS
 ]);
 
 /**
@@ -252,9 +255,13 @@ export const isPort = (locationId: string): boolean => ALL_PORTS.has(locationId)
 // ===========================================
 // Map-specific accessors
 // ===========================================
-export type MapId = 'larion' | 'larion_large' | 'larion_alternate' | 'thyrakat' | 'thyrakat_tutorial';
+export type MapId = 'larion' | 'larion_large' | 'larion_alternate' | 'thyrakat' | 'thyrakat_tutorial' | 'valis';
+
+// Ports of maps loaded from map files (take precedence over the tables above)
+const REGISTERED_PORTS: Record<string, { ports: string[]; navalTimes: Record<string, Record<string, number>> }> = {};
 
 export const getPortsForMap = (mapId: MapId | undefined): string[] => {
+    if (mapId && REGISTERED_PORTS[mapId]) return REGISTERED_PORTS[mapId].ports;
     switch (mapId) {
         case 'larion_large':
             return LARION_LARGE_PORTS;
@@ -263,6 +270,8 @@ export const getPortsForMap = (mapId: MapId | undefined): string[] => {
         case 'thyrakat':
         case 'thyrakat_tutorial':
             return THYRAKAT_PORTS;
+        case 'valis':
+            return VALIS_PORTS;
         case 'larion_alternate':
         default:
             return LARION_ALTERNATE_PORTS;
@@ -270,6 +279,7 @@ export const getPortsForMap = (mapId: MapId | undefined): string[] => {
 };
 
 export const getNavalTimesForMap = (mapId: MapId | undefined): Record<string, Record<string, number>> => {
+    if (mapId && REGISTERED_PORTS[mapId]) return REGISTERED_PORTS[mapId].navalTimes;
     switch (mapId) {
         case 'larion_large':
             return LARION_LARGE_NAVAL_TIMES;
@@ -278,6 +288,8 @@ export const getNavalTimesForMap = (mapId: MapId | undefined): Record<string, Re
         case 'thyrakat':
         case 'thyrakat_tutorial':
             return THYRAKAT_NAVAL_TIMES;
+        case 'valis':
+            return VALIS_NAVAL_TIMES;
         case 'larion_alternate':
         default:
             return LARION_ALTERNATE_NAVAL_TIMES;
@@ -318,7 +330,8 @@ export const ALL_NAVAL_TIMES: Record<string, Record<string, number>> = mergeNava
     LARION_NAVAL_TIMES,
     LARION_LARGE_NAVAL_TIMES,
     LARION_ALTERNATE_NAVAL_TIMES,
-    THYRAKAT_NAVAL_TIMES
+    THYRAKAT_NAVAL_TIMES,
+    VALIS_NAVAL_TIMES
 );
 
 /**
@@ -330,3 +343,17 @@ export const getNavalTravelTimeUnified = (from: string, to: string): number => {
     if (from === to) return 0;
     return ALL_NAVAL_TIMES[from]?.[to] || ALL_NAVAL_TIMES[to]?.[from] || 2;
 };
+
+/**
+ * Register the ports of a map loaded from a map file
+ * Also feeds the map-agnostic lookups (ALL_PORTS, ALL_NAVAL_TIMES)
+ */
+export const registerMapPorts = (
+    mapId: string,
+    ports: string[],
+    navalTimes: Record<string, Record<string, number>>
+): void => {
+    REGISTERED_PORTS[mapId] = { ports, navalTimes };
+    ports.forEach(port => ALL_PORTS.add(port));
+    Object.assign(ALL_NAVAL_TIMES, mergeNavalTimes(ALL_NAVAL_TIMES, navalTimes));
+};
@@ -12,6 +12,13 @@ const REGISTRY: Record<MapId, MapDefinition> = {
     'thyrakat': ThyrakatDefinition
 };
 
+// Maps offered in lobbies and the solo selector
+const AVAILABLE_MAPS: { id: MapId, nameKey: string }[] = [
+    { id: 'larion_alternate', nameKey: 'maps.larion_alternate' },
+    { id: 'valis', nameKey: 'maps.valis' },
+    { id: 'thyrakat', nameKey: 'maps.thyrakat' }
+];
+
 export const MapRegistry = {
     get: (id: MapId): MapDefinition => {
         return REGISTRY[id] || LarionAlternateDefinition;
@@ -19,16 +26,26 @@ export const MapRegistry = {
     getFactions: (id: MapId) => {
         return (REGISTRY[id] || LarionAlternateDefinition).factions;
     },
+    getTurnOrder: (id: MapId) => {
+        const def = REGISTRY[id] || LarionAlternateDefinition;
+        return def.turnOrder || def.factions;
+    },
     getAll: (): MapDefinition[] => {
         return Object.values(REGISTRY);
     },
+    has: (id: string): boolean => {
+        return id in REGISTRY;
+    },
     // Helper to get available maps for UI
     getAvailableMaps: (): { id: MapId, nameKey: string }[] => {
         // Return valid maps. Can filter out 'larion' if we want to hide deprecated ones later.
-        return [
-            { id: 'larion_alternate', nameKey: 'maps.larion_alternate' },
-            { id: 'valis', nameKey: 'maps.valis' },
-            { id: 'thyrakat', nameKey: 'maps.thyrakat' }
-        ];
+        return [...AVAILABLE_MAPS];
+    },
+    // Add or replace a map (maps loaded from map files, see maps/format)
+    register: (definition: MapDefinition, selectable: boolean = true): void => {
+        REGISTRY[definition.id] = definition;
+        const listed = AVAILABLE_MAPS.findIndex(m => m.id === definition.id);
+        if (listed !== -1) AVAILABLE_MAPS.splice(listed, 1);
+        if (selectable) AVAILABLE_MAPS.push({ id: definition.id, nameKey: definition.nameKey });
     }
 };
@@ -1,5 +1,5 @@
 import { MapDefinition } from '../types';
-import { FactionId } from '../../types';
+import { FactionId, VictoryCondition } from '../../types';
 
 const FACTION_STYLE = {
     [FactionId.NOBLES]: {
@@ -35,6 +35,7 @@ const FACTION_STYLE = {
 const LARION_METADATA = {
     [FactionId.REPUBLICANS]: {
         id: FactionId.REPUBLICANS,
+        victoryMessageKey: 'victory.messages.REPUBLICANS',
         nameKey: 'factions.republicans',
         descriptionKey: 'common:factionSelect.descriptions.republicans',
         colors: { primary: '#4070a0', secondary: '#101828', text: '#93c5fd' },
@@ -42,6 +43,7 @@ const LARION_METADATA = {
     },
     [FactionId.CONSPIRATORS]: {
         id: FactionId.CONSPIRATORS,
+        victoryMessageKey: 'victory.messages.CONSPIRATORS',
         nameKey: 'factions.conspirators',
         descriptionKey: 'common:factionSelect.descriptions.conspirators',
         colors: { primary: '#8b7040', secondary: '#2a2010', text: '#fcd34d' },
@@ -49,6 +51,7 @@ const LARION_METADATA = {
     },
     [FactionId.NOBLES]: {
         id: FactionId.NOBLES,
+        victoryMessageKey: 'victory.messages.NOBLES',
         nameKey: 'factions.nobles',
         descriptionKey: 'common:factionSelect.descriptions.nobles',
         colors: { primary: '#8b4040', secondary: '#2a1010', text: '#fca5a5' },
@@ -63,6 +66,17 @@ const LARION_METADATA = {
     }
 };
 
+// Conquest is the classic rule; the others are opt-in for the lobby host
+const LARION_VICTORY_CONDITIONS: VictoryCondition[] = [
+    { id: 'conquest', type: 'TOTAL_CONQUEST', nameKey: 'victory.conditions.conquest' },
+    {
+        id: 'key_cities', type: 'HOLD_KEY_LOCATIONS', nameKey: 'victory.conditions.key_cities',
+        locationIds: ['sunbreach', 'stormbay', 'port_de_sable'], turns: 3, enabledByDefault: false
+    },
+    { id: 'score', type: 'SCORE_AT_TURN_LIMIT', nameKey: 'victory.conditions.score', turnLimit: 40, enabledByDefault: false },
+    { id: 'leaders', type: 'ELIMINATE_LEADERS', nameKey: 'victory.conditions.leaders', enabledByDefault: false }
+];
+
 import { LarionMapRules } from '../rules/LarionMapRules';
 
 export const LarionDefinition: MapDefinition = {
@@ -70,8 +84,10 @@ export const LarionDefinition: MapDefinition = {
     nameKey: 'maps.larion',
     loreKey: 'common:factionSelect.lore',
     factions: [FactionId.NOBLES, FactionId.CONSPIRATORS, FactionId.REPUBLICANS],
+    turnOrder: [FactionId.REPUBLICANS, FactionId.CONSPIRATORS, FactionId.NOBLES],
     factionMetadata: LARION_METADATA,
-    rules: new LarionMapRules()
+    rules: new LarionMapRules(),
+    victoryConditions: LARION_VICTORY_CONDITIONS
 };
 
 export const LarionAlternateDefinition: MapDefinition = {
@@ -79,6 +95,8 @@ export const LarionAlternateDefinition: MapDefinition = {
     nameKey: 'maps.larion_alternate',
     loreKey: 'common:factionSelect.lore',
     factions: [FactionId.NOBLES, FactionId.CONSPIRATORS, FactionId.REPUBLICANS],
+    turnOrder: [FactionId.REPUBLICANS, FactionId.CONSPIRATORS, FactionId.NOBLES],
     factionMetadata: LARION_METADATA,
-    rules: new LarionMapRules()
+    rules: new LarionMapRules(),
+    victoryConditions: LARION_VICTORY_CONDITIONS
 };
@@ -1,5 +1,5 @@
 import { MapDefinition } from '../types';
-import { FactionId } from '../../types';
+import { FactionId, VictoryCondition } from '../../types';
 import { ThyrakatMapRules } from '../rules/ThyrakatMapRules';
 
 /**
@@ -50,6 +50,7 @@ const THYRAKAT_FACTION_STYLE = {
 const THYRAKAT_METADATA = {
     [FactionId.LINEAGES_COUNCIL]: {
         id: FactionId.LINEAGES_COUNCIL,
+        victoryMessageKey: 'thyrakat:victory.messages.LINEAGES_COUNCIL',
         nameKey: 'factions.thyrakat_lineages_council',
         descriptionKey: 'common:factionSelect.descriptions.thyrakat_lineages_council',
         colors: { primary: '#7b3fa0', secondary: '#1e0f28', text: '#c084fc' },
@@ -57,6 +58,7 @@ const THYRAKAT_METADATA = {
     },
     [FactionId.OATH_COALITION]: {
         id: FactionId.OATH_COALITION,
+        victoryMessageKey: 'thyrakat:victory.messages.OATH_COALITION',
         nameKey: 'factions.thyrakat_oath_coalition',
         descriptionKey: 'common:factionSelect.descriptions.thyrakat_oath_coalition',
         colors: { primary: '#c9c4b5', secondary: '#252420', text: '#f5f0e5' },
@@ -64,6 +66,7 @@ const THYRAKAT_METADATA = {
     },
     [FactionId.LARION_EXPEDITION]: {
         id: FactionId.LARION_EXPEDITION,
+        victoryMessageKey: 'thyrakat:victory.messages.LARION_EXPEDITION',
         nameKey: 'factions.thyrakat_larion_expedition',
         descriptionKey: 'common:factionSelect.descriptions.thyrakat_larion_expedition',
         colors: { primary: '#8b4040', secondary: '#2a1010', text: '#fca5a5' },
@@ -78,6 +81,17 @@ const THYRAKAT_METADATA = {
     }
 };
 
+// Conquest is the classic rule; the others are opt-in for the lobby host
+const THYRAKAT_VICTORY_CONDITIONS: VictoryCondition[] = [
+    { id: 'conquest', type: 'TOTAL_CONQUEST', nameKey: 'victory.conditions.conquest' },
+    {
+        id: 'key_cities', type: 'HOLD_KEY_LOCATIONS', nameKey: 'victory.conditions.key_cities',
+        locationIds: ['harabour', 'archaris', 'tamnit'], turns: 3, enabledByDefault: false
+    },
+    { id: 'score', type: 'SCORE_AT_TURN_LIMIT', nameKey: 'victory.conditions.score', turnLimit: 40, enabledByDefault: false },
+    { id: 'leaders', type: 'ELIMINATE_LEADERS', nameKey: 'victory.conditions.leaders', enabledByDefault: false }
+];
+
 export const ThyrakatDefinition: MapDefinition = {
     id: 'thyrakat',
     nameKey: 'maps.thyrakat',
@@ -85,6 +99,7 @@ export const ThyrakatDefinition: MapDefinition = {
     factions: [FactionId.LINEAGES_COUNCIL, FactionId.OATH_COALITION, FactionId.LARION_EXPEDITION],
     factionMetadata: THYRAKAT_METADATA,
     rules: new ThyrakatMapRules(),
+    victoryConditions: THYRAKAT_VICTORY_CONDITIONS,
     uiConfig: {
         mapImageStr: '/assets/ThyrakatMap.jpg'
     }
@@ -1,5 +1,5 @@
 import { MapDefinition } from '../types';
-import { FactionId } from '../../types';
+import { FactionId, VictoryCondition } from '../../types';
 import { BaseMapRules } from '../rules/BaseMapRules';
 
 const FACTION_STYLE = {
@@ -29,6 +29,7 @@ const FACTION_STYLE = {
 const THYRAKAT_TUTORIAL_METADATA = {
     [FactionId.LARION_KNIGHTS]: {
         id: FactionId.LARION_KNIGHTS,
+        victoryMessageKey: 'tutorial:tutorial.victory.message',
         nameKey: 'map:factions.larion_knights',
         descriptionKey: 'map:factionSelect.descriptions.larion_knights',
         colors: { primary: '#b8960c', secondary: '#151515', text: '#d4af37' },
@@ -56,5 +57,9 @@ export const ThyrakatTutorialDefinition: MapDefinition = {
     loreKey: 'map:factionSelect.lore',
     factions: [FactionId.LARION_KNIGHTS, FactionId.THYRAKAT_SULTANATE],
     factionMetadata: THYRAKAT_TUTORIAL_METADATA,
-    rules: new BaseMapRules()
+    rules: new BaseMapRules(),
+    // Only the player's Knights can win the tutorial
+    victoryConditions: [
+        { id: 'conquest', type: 'TOTAL_CONQUEST', nameKey: 'victory.conditions.conquest', factions: [FactionId.LARION_KNIGHTS] }
+    ]
 };
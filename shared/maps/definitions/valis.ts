@@ -1,5 +1,5 @@
 import { MapDefinition } from '../types';
-import { FactionId } from '../../types';
+import { FactionId, VictoryCondition } from '../../types';
 
 // Valis Faction Styles
 // Loyalists: Royal Purple
@@ -71,6 +71,14 @@ const VALIS_METADATA = {
     }
 };
 
+// Conquest is the classic rule; the others are opt-in for the lobby host
+const VALIS_VICTORY_CONDITIONS: VictoryCondition[] = [
+    { id: 'conquest', type: 'TOTAL_CONQUEST', nameKey: 'victory.conditions.conquest' },
+    { id: 'key_cities', type: 'HOLD_KEY_LOCATIONS', nameKey: 'victory.conditions.key_cities', locationIds: ['aurelle', 'hautfer', 'lisselport'], turns: 3, enabledByDefault: false },
+    { id: 'score', type: 'SCORE_AT_TURN_LIMIT', nameKey: 'victory.conditions.score', turnLimit: 40, enabledByDefault: false },
+    { id: 'leaders', type: 'ELIMINATE_LEADERS', nameKey: 'victory.conditions.leaders', enabledByDefault: false }
+];
+
 import { ValisMapRules } from '../rules/ValisMapRules';
 
 export const ValisDefinition: MapDefinition = {
@@ -80,6 +88,7 @@ export const ValisDefinition: MapDefinition = {
     factions: [FactionId.LOYALISTS, FactionId.PRINCELY_ARMY, FactionId.CONFEDERATE_CITIES],
     factionMetadata: VALIS_METADATA,
     rules: new ValisMapRules(),
+    victoryConditions: VALIS_VICTORY_CONDITIONS,
     uiConfig: {
         mapImageStr: '/assets/Valismap.jpg'
     }
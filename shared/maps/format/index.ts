@@ -0,0 +1,7 @@
+/**
+ * Map File Format - Main Export
+ */
+
+export * from './types';
+export { validateMap, validateMapShape, isMapPlayable } from './validateMap';
+export { parseMapFile, buildMapDefinition, loadMapFile, exportMapFile, validateRegisteredMap } from './mapLoader';
@@ -0,0 +1,166 @@
+import { GameState, Location, Army, Character, Road } from '../../types';
+import { CharacterNew } from '../../data/characters';
+import { getMapData, hasMapData, registerMapData } from '../../data/maps';
+import { getPortsForMap, getNavalTimesForMap, registerMapPorts } from '../../data/ports';
+import { MapRegistry } from '../MapRegistry';
+import { MapDefinition, MapId, MapRules, RevenueModifiers } from '../types';
+import { BaseMapRules } from '../rules/BaseMapRules';
+import { LarionMapRules } from '../rules/LarionMapRules';
+import { ThyrakatMapRules } from '../rules/ThyrakatMapRules';
+import { ValisMapRules } from '../rules/ValisMapRules';
+import { MapFile, MapLoadResult, MapRulesId, MapValidationIssue, MAP_FORMAT_VERSION } from './types';
+import { validateMap, isMapPlayable } from './validateMap';
+
+/**
+ * Map File Loader
+ *
+ * Turns a map file into a MapDefinition plus starting data and registers both,
+ * so the map is played exactly like the built-in TypeScript maps.
+ */
+
+const RULES: Record<MapRulesId, () => MapRules> = {
+    base: () => new BaseMapRules(),
+    larion: () => new LarionMapRules(),
+    thyrakat: () => new ThyrakatMapRules(),
+    valis: () => new ValisMapRules()
+};
+
+/**
+ * Economy of a built-in rule set, with the map file's own starting leaders
+ */
+class MapFileRules implements MapRules {
+    private readonly base: MapRules;
+
+    constructor(
+        public readonly rulesId: MapRulesId,
+        private readonly characters?: CharacterNew[]
+    ) {
+        this.base = RULES[rulesId]();
+    }
+
+    calculateEconomy(state: GameState, locations: Location[], armies: Army[], characters: Character[], roads: Road[]): Location[] {
+        return this.base.calculateEconomy(state, locations, armies, characters, roads);
+    }
+
+    getInitialCharacters(): any[] {
+        return this.characters ?? this.base.getInitialCharacters();
+    }
+
+    getRevenueModifiers(city: Location, locations: Location[], baseTotal: number): RevenueModifiers {
+        return this.base.getRevenueModifiers(city, locations, baseTotal);
+    }
+}
+
+const rulesIdOf = (rules: MapRules | undefined): MapRulesId => {
+    if (rules instanceof MapFileRules) return rules.rulesId;
+    if (rules instanceof ThyrakatMapRules) return 'thyrakat';
+    if (rules instanceof ValisMapRules) return 'valis';
+    if (rules instanceof LarionMapRules) return 'larion';
+    return 'base';
+};
+
+/**
+ * Parse the text of a JSON map file
+ */
+export function parseMapFile(text: string): { file?: MapFile; issues: MapValidationIssue[] } {
+    try {
+        return { file: JSON.parse(text), issues: [] };
+    } catch (err: any) {
+        return { issues: [{ severity: 'ERROR', code: 'INVALID_FORMAT', message: `Invalid JSON: ${err?.message}` }] };
+    }
+}
+
+/**
+ * Build the MapDefinition of a map file (no validation, no registration)
+ */
+export function buildMapDefinition(file: MapFile): MapDefinition {
+    const rulesId = file.rules && RULES[file.rules] ? file.rules : 'base';
+    return {
+        id: file.id as MapId,
+        nameKey: file.nameKey,
+        descriptionKey: file.descriptionKey,
+        loreKey: file.loreKey,
+        factions: file.factions,
+        turnOrder: file.turnOrder,
+        factionMetadata: file.factionMetadata,
+        uiConfig: file.uiConfig,
+        rules: new MapFileRules(rulesId, file.characters),
+        victoryConditions: file.victoryConditions,
+        combatRuleset: file.combatRuleset,
+        treasuryRuleset: file.treasuryRuleset
+    };
+}
+
+/**
+ * Validate a map file (JSON text or an already parsed object)
+ * and register it. Maps with errors are not registered.
+ */
+export function loadMapFile(input: string | MapFile): MapLoadResult {
+    let file: MapFile | undefined;
+    if (typeof input === 'string') {
+        const parsed = parseMapFile(input);
+        if (!parsed.file) return { success: false, error: 'Map file is not valid JSON', issues: parsed.issues };
+        file = parsed.file;
+    } else {
+        file = input;
+    }
+
+    const issues = validateMap(file);
+    if (!isMapPlayable(issues)) {
+        const errors = issues.filter(i => i.severity === 'ERROR').length;
+        return { success: false, error: `Map ${file?.id ?? '(no id)'} has ${errors} error(s)`, issues };
+    }
+
+    const definition = buildMapDefinition(file);
+    MapRegistry.register(definition, file.selectable !== false);
+    registerMapData(definition.id, {
+        locations: file.locations,
+        garrisons: file.garrisons,
+        roads: file.roads
+    });
+    if (file.ports) {
+        registerMapPorts(file.id, file.ports, file.navalTimes ?? {});
+    }
+
+    return { success: true, definition, issues };
+}
+
+/**
+ * Write a registered map out in the map file format (e.g. to convert or check a built-in map)
+ */
+export function exportMapFile(mapId: MapId): MapFile {
+    const definition = MapRegistry.get(mapId);
+    const data = getMapData(mapId);
+    // Maps without board data (e.g. the tutorial) only borrow another map's port tables
+    const ports = hasMapData(mapId) ? getPortsForMap(mapId as any) : [];
+
+    return {
+        formatVersion: MAP_FORMAT_VERSION,
+        id: definition.id,
+        nameKey: definition.nameKey,
+        descriptionKey: definition.descriptionKey,
+        loreKey: definition.loreKey,
+        factions: definition.factions,
+        turnOrder: definition.turnOrder,
+        factionMetadata: definition.factionMetadata,
+        uiConfig: definition.uiConfig,
+        victoryConditions: definition.victoryConditions,
+        combatRuleset: definition.combatRuleset,
+        treasuryRuleset: definition.treasuryRuleset,
+        rules: rulesIdOf(definition.rules),
+        selectable: MapRegistry.getAvailableMaps().some(m => m.id === mapId),
+        locations: hasMapData(mapId) ? data.locations : [],
+        roads: hasMapData(mapId) ? data.roads : [],
+        garrisons: hasMapData(mapId) ? data.garrisons : {},
+        characters: definition.rules?.getInitialCharacters(),
+        ports,
+        navalTimes: hasMapData(mapId) ? getNavalTimesForMap(mapId as any) : {}
+    };
+}
+
+/**
+ * Integrity report of a registered map (built-in or loaded)
+ */
+export function validateRegisteredMap(mapId: MapId): MapValidationIssue[] {
+    return validateMap(exportMapFile(mapId));
+}
@@ -0,0 +1,70 @@
+import { CombatRuleset, FactionId, Location, Road, TreasuryRuleset, VictoryCondition } from '../../types';
+import { CharacterNew } from '../../data/characters';
+import { FactionMetadata, MapDefinition } from '../types';
+
+/**
+ * Map File Format - a whole map as plain JSON data
+ * YAML is not supported (no parser ships with the server): convert YAML sources to JSON first.
+ *
+ * Version 1 covers everything a map needs except its economy code, which is
+ * picked by name from the built-in rules (`rules`).
+ */
+
+export const MAP_FORMAT_VERSION = 1;
+
+/** Built-in economy rules a map file can use */
+export type MapRulesId = 'base' | 'larion' | 'thyrakat' | 'valis';
+
+export interface MapFile {
+    formatVersion: typeof MAP_FORMAT_VERSION;
+    id: string;
+    nameKey: string;
+    descriptionKey?: string;
+    loreKey: string;
+    factions: FactionId[];
+    turnOrder?: FactionId[];
+    factionMetadata: Partial<Record<FactionId, FactionMetadata>>;
+    uiConfig?: MapDefinition['uiConfig'];
+    victoryConditions?: VictoryCondition[];
+    combatRuleset?: CombatRuleset;   // Default 'DETERMINISTIC'
+    treasuryRuleset?: TreasuryRuleset; // Default 'CENTRAL'
+    rules?: MapRulesId;              // Default 'base'
+    selectable?: boolean;            // Offered in lobbies (default true)
+
+    locations: Location[];
+    roads: Road[];                   // Stages included
+    garrisons: Record<string, number>; // locationId -> starting garrison strength
+    characters?: CharacterNew[];     // Starting leaders (default: those of the rules)
+    ports?: string[];                // Location ids that can send/receive naval convoys
+    navalTimes?: Record<string, Record<string, number>>; // port -> port -> turns (one direction is enough)
+}
+
+export type MapIssueSeverity = 'ERROR' | 'WARNING';
+
+export type MapIssueCode =
+    | 'INVALID_FORMAT'
+    | 'DUPLICATE_ID'
+    | 'DANGLING_ROAD_ENDPOINT'
+    | 'ASYMMETRIC_LINK'
+    | 'UNREACHABLE_LOCATION'
+    | 'UNKNOWN_PORT'
+    | 'MISSING_NAVAL_TIME'
+    | 'FACTION_WITHOUT_TERRITORY'
+    | 'UNKNOWN_LOCATION_REFERENCE';
+
+export interface MapValidationIssue {
+    severity: MapIssueSeverity;
+    code: MapIssueCode;
+    message: string;
+    ref?: string; // Id of the offending location, road, port or faction
+}
+
+/**
+ * Outcome of loading a map file (errors block registration, warnings do not)
+ */
+export interface MapLoadResult {
+    success: boolean;
+    definition?: MapDefinition;
+    error?: string;
+    issues: MapValidationIssue[];
+}
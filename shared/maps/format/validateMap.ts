@@ -0,0 +1,221 @@
+import { CharacterStatus, COMBAT_RULESETS, TREASURY_RULESETS } from '../../types';
+import { MapFile, MapValidationIssue, MapIssueCode, MapIssueSeverity, MAP_FORMAT_VERSION } from './types';
+
+/**
+ * Map Integrity Validator
+ *
+ * Checks a map file for broken references and unplayable layouts.
+ * Errors make a map unusable (the loader refuses it), warnings are reported only.
+ */
+
+const issue = (severity: MapIssueSeverity, code: MapIssueCode, message: string, ref?: string): MapValidationIssue =>
+    ({ severity, code, message, ref });
+
+/**
+ * Check the top-level shape of a parsed file (run before any other check)
+ */
+export function validateMapShape(file: any): MapValidationIssue[] {
+    if (!file || typeof file !== 'object') {
+        return [issue('ERROR', 'INVALID_FORMAT', 'Map file is not an object')];
+    }
+
+    const issues: MapValidationIssue[] = [];
+    if (file.formatVersion !== MAP_FORMAT_VERSION) {
+        issues.push(issue('ERROR', 'INVALID_FORMAT', `Unsupported formatVersion ${file.formatVersion} (expected ${MAP_FORMAT_VERSION})`));
+    }
+    for (const key of ['id', 'nameKey', 'loreKey']) {
+        if (typeof file[key] !== 'string' || !file[key]) {
+            issues.push(issue('ERROR', 'INVALID_FORMAT', `${key} must be a non-empty string`));
+        }
+    }
+    for (const key of ['factions', 'locations', 'roads']) {
+        if (!Array.isArray(file[key])) {
+            issues.push(issue('ERROR', 'INVALID_FORMAT', `${key} must be an array`));
+        }
+    }
+    for (const key of ['factionMetadata', 'garrisons']) {
+        if (!file[key] || typeof file[key] !== 'object') {
+            issues.push(issue('ERROR', 'INVALID_FORMAT', `${key} must be an object`));
+        }
+    }
+    if (file.combatRuleset !== undefined && !COMBAT_RULESETS.includes(file.combatRuleset)) {
+        issues.push(issue('ERROR', 'INVALID_FORMAT', `Unknown combatRuleset '${file.combatRuleset}' (expected ${COMBAT_RULESETS.join(' or ')})`));
+    }
+    if (file.treasuryRuleset !== undefined && !TREASURY_RULESETS.includes(file.treasuryRuleset)) {
+        issues.push(issue('ERROR', 'INVALID_FORMAT', `Unknown treasuryRuleset '${file.treasuryRuleset}' (expected ${TREASURY_RULESETS.join(' or ')})`));
+    }
+    return issues;
+}
+
+/**
+ * Run every integrity check on a map file
+ */
+export function validateMap(file: MapFile): MapValidationIssue[] {
+    const shapeIssues = validateMapShape(file);
+    if (shapeIssues.length > 0) return shapeIssues;
+
+    const locationIds = new Set(file.locations.map(l => l.id));
+
+    return [
+        ...checkDuplicateIds(file),
+        ...checkRoadEndpoints(file, locationIds),
+        ...checkLinkedLocations(file, locationIds),
+        ...checkLocationReferences(file, locationIds),
+        ...checkPorts(file, locationIds),
+        ...checkReachability(file, locationIds),
+        ...checkStartingTerritory(file)
+    ];
+}
+
+/**
+ * True when none of the issues prevents the map from being played
+ */
+export const isMapPlayable = (issues: MapValidationIssue[]): boolean =>
+    !issues.some(i => i.severity === 'ERROR');
+
+function checkDuplicateIds(file: MapFile): MapValidationIssue[] {
+    const issues: MapValidationIssue[] = [];
+    const seen = new Set<string>();
+
+    for (const [kind, ids] of [['location', file.locations.map(l => l.id)], ['road', file.roads.map(r => r.id)]] as const) {
+        seen.clear();
+        for (const id of ids) {
+            if (seen.has(id)) issues.push(issue('ERROR', 'DUPLICATE_ID', `Duplicate ${kind} id '${id}'`, id));
+            seen.add(id);
+        }
+    }
+    return issues;
+}
+
+function checkRoadEndpoints(file: MapFile, locationIds: Set<string>): MapValidationIssue[] {
+    const issues: MapValidationIssue[] = [];
+    for (const road of file.roads) {
+        for (const endpoint of [road.from, road.to]) {
+            if (!locationIds.has(endpoint)) {
+                issues.push(issue('ERROR', 'DANGLING_ROAD_ENDPOINT', `Road '${road.id}' leads to unknown location '${endpoint}'`, road.id));
+            }
+        }
+    }
+    return issues;
+}
+
+// A city and its rural area point at each other
+function checkLinkedLocations(file: MapFile, locationIds: Set<string>): MapValidationIssue[] {
+    const issues: MapValidationIssue[] = [];
+    const byId = new Map(file.locations.map(l => [l.id, l]));
+
+    for (const location of file.locations) {
+        const linkedId = location.linkedLocationId;
+        if (!linkedId) continue;
+
+        if (!locationIds.has(linkedId)) {
+            issues.push(issue('ERROR', 'ASYMMETRIC_LINK', `'${location.id}' is linked to unknown location '${linkedId}'`, location.id));
+        } else if (byId.get(linkedId)!.linkedLocationId !== location.id) {
+            issues.push(issue('ERROR', 'ASYMMETRIC_LINK',
+                `'${location.id}' is linked to '${linkedId}' but '${linkedId}' is linked to '${byId.get(linkedId)!.linkedLocationId}'`, location.id));
+        }
+    }
+    return issues;
+}
+
+// Garrisons and starting leaders must stand on real locations
+function checkLocationReferences(file: MapFile, locationIds: Set<string>): MapValidationIssue[] {
+    const issues: MapValidationIssue[] = [];
+
+    for (const locationId of Object.keys(file.garrisons)) {
+        if (!locationIds.has(locationId)) {
+            issues.push(issue('ERROR', 'UNKNOWN_LOCATION_REFERENCE', `Garrison at unknown location '${locationId}'`, locationId));
+        }
+    }
+    for (const character of file.characters ?? []) {
+        // Dead leaders wait off the board (e.g. in 'graveyard') until they become available
+        if (character.status === CharacterStatus.DEAD) continue;
+        if (character.locationId && !locationIds.has(character.locationId)) {
+            issues.push(issue('ERROR', 'UNKNOWN_LOCATION_REFERENCE',
+                `Leader '${character.id}' starts at unknown location '${character.locationId}'`, character.id));
+        }
+    }
+    return issues;
+}
+
+// Every port must be a location and every pair of ports needs a sailing time
+function checkPorts(file: MapFile, locationIds: Set<string>): MapValidationIssue[] {
+    const issues: MapValidationIssue[] = [];
+    const ports = file.ports ?? [];
+    const times = file.navalTimes ?? {};
+
+    for (const port of ports) {
+        if (!locationIds.has(port)) {
+            issues.push(issue('ERROR', 'UNKNOWN_PORT', `Port '${port}' is not a location`, port));
+        }
+    }
+    for (const [from, destinations] of Object.entries(times)) {
+        for (const to of [from, ...Object.keys(destinations)]) {
+            if (!ports.includes(to)) {
+                issues.push(issue('ERROR', 'UNKNOWN_PORT', `Naval time listed for '${to}', which is not a port`, to));
+            }
+        }
+    }
+
+    for (let i = 0; i < ports.length; i++) {
+        for (let j = i + 1; j < ports.length; j++) {
+            const [a, b] = [ports[i], ports[j]];
+            if (times[a]?.[b] === undefined && times[b]?.[a] === undefined) {
+                issues.push(issue('WARNING', 'MISSING_NAVAL_TIME', `No naval time between '${a}' and '${b}'`, `${a}:${b}`));
+            }
+        }
+    }
+    return issues;
+}
+
+// Locations outside the largest group connected by roads, links and sea lanes
+function checkReachability(file: MapFile, locationIds: Set<string>): MapValidationIssue[] {
+    const neighbours = new Map<string, Set<string>>([...locationIds].map(id => [id, new Set<string>()]));
+    const connect = (a: string, b: string) => {
+        if (!neighbours.has(a) || !neighbours.has(b)) return;
+        neighbours.get(a)!.add(b);
+        neighbours.get(b)!.add(a);
+    };
+
+    for (const road of file.roads) connect(road.from, road.to);
+    for (const location of file.locations) {
+        if (location.linkedLocationId) connect(location.id, location.linkedLocationId);
+    }
+    const ports = file.ports ?? [];
+    for (const a of ports) {
+        for (const b of ports) {
+            if (a !== b) connect(a, b);
+        }
+    }
+
+    const groups: string[][] = [];
+    const visited = new Set<string>();
+    for (const start of locationIds) {
+        if (visited.has(start)) continue;
+        const group: string[] = [];
+        const queue = [start];
+        visited.add(start);
+        while (queue.length > 0) {
+            const id = queue.shift()!;
+            group.push(id);
+            for (const next of neighbours.get(id)!) {
+                if (!visited.has(next)) {
+                    visited.add(next);
+                    queue.push(next);
+                }
+            }
+        }
+        groups.push(group);
+    }
+    if (groups.length <= 1) return [];
+
+    groups.sort((a, b) => b.length - a.length);
+    return groups.slice(1).flat().map(id =>
+        issue('WARNING', 'UNREACHABLE_LOCATION', `'${id}' cannot be reached from the rest of the map`, id));
+}
+
+function checkStartingTerritory(file: MapFile): MapValidationIssue[] {
+    return file.factions
+        .filter(faction => !file.locations.some(l => l.faction === faction))
+        .map(faction => issue('WARNING', 'FACTION_WITHOUT_TERRITORY', `Faction ${faction} starts without any location`, faction));
+}
@@ -1,4 +1,4 @@
-import { MapRules } from '../types';
+import { MapRules, RevenueModifiers } from '../types';
 import { GameState, Location, Army, Character, Road, LocationType } from '../../types';
 import {
     calculateRevenueStats,
@@ -18,6 +18,10 @@ export class BaseMapRules implements MapRules {
         return [];
     }
 
+    getRevenueModifiers(_city: Location, _locations: Location[], _baseTotal: number): RevenueModifiers {
+        return { cutOffPenalty: 0, seaTrade: 0 };
+    }
+
     calculateEconomy(state: GameState, locations: Location[], armies: Army[], characters: Character[], roads: Road[]): Location[] {
         const mapId = (state as any).mapId || 'larion_alternate';
 
@@ -36,7 +40,7 @@ export class BaseMapRules implements MapRules {
         return tempLocs.map(loc => {
             if (loc.type === LocationType.CITY) {
                 // Gold income (gross, before governor policy costs — those are handled by governorProcessor)
-                const revenueStats = calculateRevenueStats(loc, tempLocs, roads, characters);
+                const revenueStats = calculateRevenueStats(loc, tempLocs, roads, characters, mapId);
                 const goldIncome = revenueStats?.grossTotal || 0;
 
                 // Food flow
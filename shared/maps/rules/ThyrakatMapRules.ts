@@ -1,4 +1,5 @@
 import { BaseMapRules } from './BaseMapRules';
+import { THYRAKAT_CHARACTERS } from '../../data/maps/thyrakat';
 
 /**
  * ThyrakatMapRules - Rules for the Thyrakat map
@@ -7,8 +8,13 @@ import { BaseMapRules } from './BaseMapRules';
  * - Food production uses baseDivisor of 20,000 (configured in foodProductionConfig.ts)
  *   instead of the default 10,000 for other maps.
  * - Economy calculation is inherited from BaseMapRules (delegates to territorialStats.ts).
+ * - Starting leaders come from shared/data/maps/thyrakat/characters.ts.
  */
 export class ThyrakatMapRules extends BaseMapRules {
+    getInitialCharacters(): any[] {
+        return THYRAKAT_CHARACTERS;
+    }
+
     // Food production divisor is configured in shared/data/maps/foodProductionConfig.ts
     // No override needed — BaseMapRules.calculateEconomy passes mapId to territorialStats.ts
 }
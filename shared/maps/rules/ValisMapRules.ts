@@ -1,10 +1,51 @@
 import { BaseMapRules } from './BaseMapRules';
+import { RevenueModifiers } from '../types';
+import { Location, LocationType } from '../../types';
+import { VALIS_CHARACTERS, VALIS_PORTS } from '../../data/maps/valis';
 
+// Sea trade: gold per other port held by the same faction, capped
+export const VALIS_SEA_TRADE_PER_PORT = 8;
+export const VALIS_SEA_TRADE_CAP = 24;
+
+// Share of a city's gold lost while its linked rural area is held by another faction
+export const VALIS_CUT_OFF_PENALTY = 1 / 3;
+
+/**
+ * ValisMapRules - Rules for the Valis map
+ *
+ * Map-specific overrides:
+ * - Starting leaders come from shared/data/maps/valis/characters.ts.
+ * - Economy is the base calculation plus two revenue lines (calculateRevenueStats
+ *   asks for them, so the city breakdown and goldIncome agree): ports held by the
+ *   same faction trade with each other (sea trade bonus), and a city cut off from
+ *   its rural area loses a third of its gold.
+ */
 export class ValisMapRules extends BaseMapRules {
     getInitialCharacters(): any[] {
-        // No characters for Valis yet
-        return [];
+        return VALIS_CHARACTERS;
+    }
+
+    getRevenueModifiers(city: Location, locations: Location[], baseTotal: number): RevenueModifiers {
+        return {
+            cutOffPenalty: this.calculateCutOffPenalty(city, locations, baseTotal),
+            seaTrade: this.calculateSeaTrade(city, locations)
+        };
     }
 
-    // Uses BaseMapRules.calculateEconomy for now (standard logic)
+    private calculateSeaTrade(city: Location, locations: Location[]): number {
+        if (city.type !== LocationType.CITY || !VALIS_PORTS.includes(city.id)) return 0;
+
+        const partners = locations.filter(l =>
+            l.id !== city.id &&
+            l.faction === city.faction &&
+            VALIS_PORTS.includes(l.id)
+        ).length;
+        return Math.min(VALIS_SEA_TRADE_CAP, partners * VALIS_SEA_TRADE_PER_PORT);
+    }
+
+    private calculateCutOffPenalty(city: Location, locations: Location[], grossGold: number): number {
+        const linkedRural = locations.find(l => l.id === city.linkedLocationId);
+        if (!linkedRural || linkedRural.faction === city.faction || grossGold <= 0) return 0;
+        return Math.floor(grossGold * VALIS_CUT_OFF_PENALTY);
+    }
 }
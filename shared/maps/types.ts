@@ -1,4 +1,4 @@
-import { FactionId, GameState, Location, Army, Character, Road } from '../types';
+import { FactionId, GameState, Location, Army, Character, Road, VictoryCondition, CombatRuleset, TreasuryRuleset } from '../types';
 
 export type MapId = 'larion' | 'larion_alternate' | 'valis' | 'thyrakat_tutorial' | 'thyrakat';
 
@@ -11,6 +11,7 @@ export interface FactionMetadata {
         secondary: string; // Background/Fill
         text: string;
     };
+    victoryMessageKey?: string; // i18n key shown when this faction wins
     style?: {
         bgGradient: string;
         borderColor: string;
@@ -20,9 +21,19 @@ export interface FactionMetadata {
     };
 }
 
+/**
+ * Map-specific lines of a city's revenue breakdown (see calculateRevenueStats)
+ */
+export interface RevenueModifiers {
+    cutOffPenalty: number; // Gold lost while the city's linked rural area is held by another faction
+    seaTrade: number;      // Gold from trade with the other ports of the same faction
+}
+
 export interface MapRules {
     calculateEconomy: (state: GameState, locations: Location[], armies: Army[], characters: Character[], roads: Road[]) => Location[];
     getInitialCharacters: () => any[]; // Returns CharacterNew[] or Character[]
+    // baseTotal: the city's gold before map-specific lines and governor policy costs
+    getRevenueModifiers: (city: Location, locations: Location[], baseTotal: number) => RevenueModifiers;
 }
 
 export interface MapDefinition {
@@ -31,10 +42,14 @@ export interface MapDefinition {
     descriptionKey?: string; // Short description for selector if needed
     loreKey: string; // Key prefix for lore text (e.g. 'factionSelect.lore')
     factions: FactionId[];
+    turnOrder?: FactionId[]; // Multiplayer turn order if it differs from the display order of factions
     factionMetadata: Partial<Record<FactionId, FactionMetadata>>;
     uiConfig?: {
         mapImageStr?: string; // Base64 or path
         // Other UI specifics
     };
     rules?: MapRules; // If undefined, use default/legacy rules
+    victoryConditions?: VictoryCondition[]; // If undefined, total conquest only
+    combatRuleset?: CombatRuleset; // If undefined, DEFAULT_COMBAT_RULESET (lobbies can override it)
+    treasuryRuleset?: TreasuryRuleset; // If undefined, DEFAULT_TREASURY_RULESET (lobbies can override it)
 }
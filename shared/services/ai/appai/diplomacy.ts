@@ -6,6 +6,7 @@ import { getDistance } from './utils';
 import { getLeaderProfile, hasCommanderRole } from './leaders_config';
 import { createInsurrectionPreparationLog } from '../../logs/logFactory';
 import { getValidFoodSourcesForNegotiation } from '../../domain/politics/negotiationUtils';
+import { manageAgreements } from './diplomacy/agreementEvaluator';
 
 
 // Helper to determine how valuable a leader is to keep on the field
@@ -43,7 +44,8 @@ export const manageDiplomacy = (
     goals: AIGoal[], // Deprecated in favor of missions
     profile: FactionPersonality,
     budget: AIBudget,
-    disableInsurrections: boolean = false
+    disableInsurrections: boolean,
+    humanFactions: FactionId[] // Factions played by people (several in multiplayer)
 ): Partial<GameState> & { remainingDiplomacyBudget?: number } => {
     let updates: Partial<GameState> = {
         resources: { ...state.resources, [faction]: { ...state.resources[faction] } },
@@ -85,6 +87,11 @@ export const manageDiplomacy = (
         updates.resources![faction].gold = Math.max(0, updates.resources![faction].gold - diplomacySpent);
     }
 
+    // Agreements proposed by other factions (answered, or countered) and our own proposals
+    const agreementResult = manageAgreements({ ...state, ...updates } as GameState, faction, profile, remainingDiplomacyBudget, humanFactions);
+    updates = { ...updates, ...agreementResult.updates };
+    remainingDiplomacyBudget = Math.max(0, remainingDiplomacyBudget - agreementResult.goldSpent);
+
     // Return remaining budget for clandestine operations (Option B: NEGOTIATE first, then clandestine)
     return { ...updates, remainingDiplomacyBudget };
 };
@@ -0,0 +1,263 @@
+/**
+ * Agreement Evaluator - AI answers to agreements proposed by other factions
+ *
+ * Every term gets a gold value from the AI's point of view. A non-aggression pact
+ * is worth more the more troops the other faction has on our borders (AITheater)
+ * and the more defensive the personality; aggressive personalities count the
+ * conquests they give up. Promises of a faction that already broke an agreement
+ * with us are discounted.
+ *
+ * Good deals are accepted, close ones answered with a counter-offer asking for
+ * compensation, the rest rejected. The AI also offers peace, now and then, to a
+ * human faction that outmatches its main enemy.
+ */
+
+import { AgreementProposal, AgreementTerm, AITheater, DiplomaticAgreement, FactionId, GameState } from '../../../../types';
+import { FactionPersonality } from '../types';
+import { answerAgreement, proposeAgreement, findTrespass } from '../../../domain/politics/agreements';
+import { random } from '../../../rng/gameRng';
+
+// Gold value of the terms
+const FOOD_GOLD_VALUE = 2;               // Per unit of food
+const FOOD_RESERVE = 100;                // Food a city keeps before giving any away at a premium
+const TRIBUTE_TRUST = 0.8;               // Future payments may never come
+const BROKEN_TRUST = 0.5;                // Promises of a faction that broke an agreement with us
+const GRAIN_ACCESS_VALUE_PER_TURN = 15;
+const PEACE_VALUE_PER_TURN = 60;         // Other faction's border troops equal to ours, fully defensive personality
+const WAR_VALUE_PER_TURN = 40;           // Conquests given up, fully aggressive personality
+
+// Counter-offers
+const MAX_COUNTER_GAP = 400;             // Deals worse than this are not worth haggling over
+const COUNTER_MARGIN = 1.1;
+
+// Own proposals
+const PROPOSAL_CHANCE = 0.25;            // Per turn, once the conditions are met
+const PROPOSAL_COOLDOWN = 6;             // Turns between two proposals to the same faction
+const PROPOSAL_DURATION = 6;
+const WINNING_MARGIN = 1.2;              // Troop ratio over the common enemy
+
+const totalStrength = (state: GameState, faction: FactionId): number =>
+    state.armies.filter(a => a.faction === faction).reduce((sum, a) => sum + a.strength, 0);
+
+const involves = (ag: DiplomaticAgreement, a: FactionId, b: FactionId): boolean =>
+    (ag.proposer === a && ag.recipient === b) || (ag.proposer === b && ag.recipient === a);
+
+/**
+ * Troops of each other faction on our borders or in our territory
+ */
+export const getBorderPressure = (
+    state: GameState,
+    faction: FactionId,
+    theaters: AITheater[]
+): Partial<Record<FactionId, number>> => {
+    const watchedLocations = new Set(theaters.flatMap(t => [...t.locationIds, ...t.borderLocationIds]));
+    const pressure: Partial<Record<FactionId, number>> = {};
+
+    state.armies.forEach(army => {
+        if (army.faction === faction || army.faction === FactionId.NEUTRAL) return;
+        if (army.locationType === 'LOCATION' && watchedLocations.has(army.locationId!)) {
+            pressure[army.faction] = (pressure[army.faction] ?? 0) + army.strength;
+        }
+    });
+    return pressure;
+};
+
+/**
+ * Value of an agreement for `faction`, in gold (negative = bad deal)
+ */
+export const evaluateAgreement = (
+    state: GameState,
+    faction: FactionId,
+    agreement: Pick<DiplomaticAgreement, 'proposer' | 'recipient' | 'terms' | 'duration'>,
+    profile: FactionPersonality,
+    theaters: AITheater[]
+): number => {
+    const other = agreement.proposer === faction ? agreement.recipient : agreement.proposer;
+    const trust = (state.agreements ?? []).some(ag => involves(ag, faction, other) && ag.brokenBy === other) ? BROKEN_TRUST : 1;
+    const windward = state.locations.find(l => l.id === 'windward');
+    const embargoActive = windward?.isGrainTradeActive === false;
+
+    let promised = 0; // What the other faction gives us
+    let given = 0;    // What we give
+
+    const termValue = (term: AgreementTerm): number => {
+        switch (term.type) {
+            case 'GOLD_TRANSFER':
+                return term.amount;
+            case 'TRIBUTE':
+                return term.goldPerTurn * agreement.duration * (term.from === faction ? 1 : TRIBUTE_TRUST);
+            case 'FOOD_TRANSFER': {
+                const source = state.locations.find(l => l.id === term.sourceCityId);
+                const scarce = term.from === faction && !!source && source.foodStock - term.amount < FOOD_RESERVE;
+                return term.amount * FOOD_GOLD_VALUE * (scarce ? 3 : 1);
+            }
+            case 'GRAIN_TRADE_ACCESS':
+                return term.grantedBy === faction
+                    ? agreement.duration * GRAIN_ACCESS_VALUE_PER_TURN * (profile.canUseGrainEmbargo ? 2 : 1)
+                    : agreement.duration * GRAIN_ACCESS_VALUE_PER_TURN * (embargoActive ? 2 : 0.5);
+            default:
+                return 0;
+        }
+    };
+
+    agreement.terms.forEach(term => {
+        const from = term.type === 'GRAIN_TRADE_ACCESS' ? term.grantedBy : 'from' in term ? term.from : null;
+        if (!from) return;
+        if (from === faction) given += termValue(term);
+        else promised += termValue(term);
+    });
+
+    let peace = 0;
+    if (agreement.terms.some(t => t.type === 'NON_AGGRESSION')) {
+        const pressure = getBorderPressure(state, faction, theaters);
+        const ownStrength = Math.max(1, totalStrength(state, faction));
+        const theirPressure = pressure[other] ?? 0;
+        const otherPressure = Object.entries(pressure)
+            .filter(([f]) => f !== other)
+            .reduce((sum, [, strength]) => sum + (strength ?? 0), 0);
+        const underThreat = theaters.some(t => t.threatLevel > t.armyStrength);
+
+        // Quiet border with them, and troops freed for the other fronts
+        const relief = Math.min(2, theirPressure / ownStrength) + 0.5 * Math.min(2, otherPressure / ownStrength);
+        const peaceValue = PEACE_VALUE_PER_TURN * relief * profile.defensiveness * (underThreat ? 1.5 : 1) * trust;
+
+        // Conquests given up: more when they hold our preferred targets, less when they are the stronger side
+        const holdsTargets = state.locations.some(l => l.faction === other && profile.preferredTargets.includes(l.id));
+        const weaker = totalStrength(state, other) < ownStrength;
+        const warValue = WAR_VALUE_PER_TURN * profile.aggressiveness * (holdsTargets ? 1.5 : 1) * (weaker ? 1 : 0.5);
+
+        peace = agreement.duration * (peaceValue - warValue);
+    }
+
+    return promised * trust - given + peace;
+};
+
+/**
+ * The proposal without what we were asked to give, plus what the other faction
+ * must add to make the deal worth it for us
+ */
+const buildCounterOffer = (
+    state: GameState,
+    faction: FactionId,
+    proposal: DiplomaticAgreement,
+    profile: FactionPersonality,
+    theaters: AITheater[]
+): AgreementProposal | null => {
+    const other = proposal.proposer;
+    const terms = proposal.terms.filter(t =>
+        t.type === 'NON_AGGRESSION' || (t.type === 'GRAIN_TRADE_ACCESS' ? t.grantedBy !== faction : t.from !== faction)
+    );
+    if (terms.length === 0) return null;
+
+    const gap = -evaluateAgreement(state, faction, { ...proposal, proposer: faction, recipient: other, terms }, profile, theaters);
+    if (gap <= 0) return { recipient: other, terms, duration: proposal.duration };
+    if (gap > MAX_COUNTER_GAP) return null;
+
+    const compensation = Math.ceil(gap * COUNTER_MARGIN / 10) * 10;
+    const extra: AgreementTerm = (state.resources[other]?.gold ?? 0) >= compensation
+        ? { type: 'GOLD_TRANSFER', from: other, amount: compensation }
+        : { type: 'TRIBUTE', from: other, goldPerTurn: Math.ceil(compensation / (proposal.duration * TRIBUTE_TRUST)) };
+
+    return { recipient: other, terms: [...terms, extra], duration: proposal.duration };
+};
+
+/**
+ * Offer a non-aggression pact to a human faction beating our main enemy
+ */
+const proposeToWinningHuman = (
+    state: GameState,
+    faction: FactionId,
+    profile: FactionPersonality,
+    theaters: AITheater[],
+    humanFactions: FactionId[]
+): GameState => {
+    const pressure = getBorderPressure(state, faction, theaters);
+    const [enemy] = (Object.entries(pressure) as [FactionId, number][])
+        .filter(([f]) => !humanFactions.includes(f))
+        .sort((a, b) => b[1] - a[1])[0] ?? [];
+    if (!enemy) return state;
+
+    const enemyStrength = totalStrength(state, enemy);
+    const agreements = state.agreements ?? [];
+
+    for (const human of humanFactions) {
+        if (human === faction || !state.resources[human]) continue;
+        if (agreements.some(ag => involves(ag, faction, human) &&
+            (ag.status === 'ACTIVE' || ag.status === 'PROPOSED' || (ag.proposer === faction && state.turn - ag.proposedTurn < PROPOSAL_COOLDOWN)))) {
+            continue;
+        }
+
+        const winning = totalStrength(state, human) >= enemyStrength * WINNING_MARGIN;
+        if (!winning || findTrespass(faction, human, state.armies, state.locations, state.roads)) continue;
+
+        const terms: AgreementTerm[] = [{ type: 'NON_AGGRESSION' }];
+        const windward = state.locations.find(l => l.id === 'windward');
+        if (windward?.faction === faction && windward.isGrainTradeActive === false) {
+            terms.push({ type: 'GRAIN_TRADE_ACCESS', grantedBy: faction });
+        }
+
+        const offer = { proposer: faction, recipient: human, terms, duration: PROPOSAL_DURATION };
+        if (evaluateAgreement(state, faction, offer, profile, theaters) < 0 || random() >= PROPOSAL_CHANCE) continue;
+
+        const result = proposeAgreement(state, faction, { recipient: human, terms, duration: PROPOSAL_DURATION });
+        if (result.success) {
+            console.log(`[AI DIPLOMACY ${faction}] Proposed a non-aggression pact to ${human} (common enemy: ${enemy})`);
+            return result.newState;
+        }
+    }
+    return state;
+};
+
+/**
+ * Answer every proposal addressed to `faction`, then maybe propose one to a faction of `humanFactions`.
+ * Gold handed over on acceptance comes out of the diplomacy budget.
+ */
+export const manageAgreements = (
+    state: GameState,
+    faction: FactionId,
+    profile: FactionPersonality,
+    diplomacyBudget: number,
+    humanFactions: FactionId[]
+): { updates: Partial<GameState>; goldSpent: number } => {
+    const theaters = state.aiState?.[faction]?.theaters ?? [];
+    let working = state;
+
+    const incoming = (state.agreements ?? []).filter(ag => ag.status === 'PROPOSED' && ag.recipient === faction);
+    for (const proposal of incoming) {
+        const goldOut = proposal.terms.reduce((sum, t) => sum + (t.type === 'GOLD_TRANSFER' && t.from === faction ? t.amount : 0), 0);
+        const spent = state.resources[faction].gold - working.resources[faction].gold;
+        const value = goldOut > diplomacyBudget - spent ? -Infinity : evaluateAgreement(working, faction, proposal, profile, theaters);
+
+        if (value >= 0) {
+            const accepted = answerAgreement(working, faction, proposal.id, true);
+            if (accepted.success) {
+                console.log(`[AI DIPLOMACY ${faction}] Accepted agreement from ${proposal.proposer} (value ${Math.round(value)})`);
+                working = accepted.newState;
+                continue;
+            }
+        }
+
+        working = answerAgreement(working, faction, proposal.id, false).newState;
+        const counter = value < 0 ? buildCounterOffer(working, faction, proposal, profile, theaters) : null;
+        if (counter) {
+            const result = proposeAgreement(working, faction, counter);
+            if (result.success) {
+                console.log(`[AI DIPLOMACY ${faction}] Countered the offer of ${proposal.proposer} (value ${Math.round(value)})`);
+                working = result.newState;
+            }
+        }
+    }
+
+    working = proposeToWinningHuman(working, faction, profile, theaters, humanFactions);
+    if (working === state) return { updates: {}, goldSpent: 0 };
+
+    return {
+        updates: {
+            agreements: working.agreements,
+            resources: working.resources,
+            locations: working.locations,
+            logs: working.logs
+        },
+        goldSpent: Math.max(0, state.resources[faction].gold - working.resources[faction].gold)
+    };
+};
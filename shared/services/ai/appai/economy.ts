@@ -19,6 +19,7 @@ import {
     detectEmergency
 } from './economy/index';
 import { InsurrectionAlert } from './strategy/insurrectionDefense';
+import { recordGoldSpent } from '../../domain/stats';
 
 /**
  * Main economy management function for AI factions.
@@ -134,7 +135,8 @@ export const manageEconomy = (
     const goldAfterRecruitment = recruitmentResult.remainingGold;
     updates.characters = recruitmentResult.updatedCharacters;
 
-    spentGold += (goldBeforeRecruitment - goldAfterRecruitment);
+    const recruitmentSpent = goldBeforeRecruitment - goldAfterRecruitment;
+    spentGold += recruitmentSpent;
 
     // 6. FORTIFICATIONS - Track amount spent
     const goldBeforeFortifications = goldAfterRecruitment;
@@ -147,12 +149,17 @@ export const manageEconomy = (
         profile,
         goldBeforeFortifications
     );
-    spentGold += (goldBeforeFortifications - goldAfterFortifications);
+    const fortificationSpent = goldBeforeFortifications - goldAfterFortifications;
+    spentGold += fortificationSpent;
 
     // Subtract AI spending from treasury
     // Note: Income is added by turnProcessor separately, we just track spending here
     if (spentGold > 0) {
         updates.resources![faction].gold = Math.max(0, updates.resources![faction].gold - spentGold);
+        updates.stats = recordGoldSpent(
+            recordGoldSpent(state.stats, faction, 'RECRUITMENT', recruitmentSpent),
+            faction, 'FORTIFICATION', fortificationSpent
+        );
     }
 
     return updates;
@@ -2,6 +2,7 @@
 
 import { GameState, FactionId, Army } from '../../../../types';
 import { AIBudget } from '../types';
+import { SIEGE_COSTS } from '../../../../constants';
 
 /**
  * Apply Republican early game override (Turn 1-4).
@@ -112,7 +113,6 @@ export function allocateSiegeBudget(
 
     // Calculate total siege cost needed
     let totalSiegeCost = 0;
-    const SIEGE_COSTS: Record<number, number> = { 1: 15, 2: 30, 3: 50, 4: 100 };
 
     for (const m of missions) {
         if (m.type !== 'CAMPAIGN' || (m.status !== 'ACTIVE' && m.status !== 'PLANNING')) continue;
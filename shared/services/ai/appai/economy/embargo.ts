@@ -3,6 +3,7 @@
 import { GameState, FactionId, Location, CharacterStatus, FACTION_NAMES, LocationType, LogEntry } from '../../../../types';
 import { FactionPersonality } from '../types';
 import { createEmbargoLog } from '../../../logs/logFactory';
+import { random } from '../../../rng/gameRng';
 
 export interface EmbargoResult {
     locations: Location[];
@@ -102,7 +103,7 @@ function handleConspiratorEmbargo(
 
         const embargoChance = Math.min(0.1 + (state.turn * 0.1), 0.8);
 
-        if (windward.stability > 60 && Math.random() < embargoChance) {
+        if (windward.stability > 60 && random() < embargoChance) {
             applyEmbargo(windward, greatPlains, FactionId.CONSPIRATORS, logs, setNotification);
         }
     } else {
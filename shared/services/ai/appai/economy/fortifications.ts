@@ -3,6 +3,7 @@
 import { GameState, FactionId, Location, Army, Road } from '../../../../types';
 import { AIBudget, FactionPersonality } from '../types';
 import { FORTIFICATION_LEVELS } from '../../../../constants';
+import { random } from '../../../rng/gameRng';
 
 /**
  * Handle fortification building for AI faction.
@@ -73,7 +74,7 @@ function fortifyLocations(
                 chance = 0.6;
             }
 
-            if (totalMen >= data.manpower && Math.random() < chance) {
+            if (totalMen >= data.manpower && random() < chance) {
                 currentGold -= data.cost;
                 budget.allocations.fortification -= data.cost;
 
@@ -1,9 +1,15 @@
-// Logistics Module - Food convoy management
+// Logistics Module - Food convoy management and tax gold shipments
 
 import { GameState, FactionId, Location, LocationType, Convoy, NavalConvoy } from '../../../../types';
 import { isPort } from '../../../../data/ports';
 import { getNavalTravelTime } from '../../../../constants';
 import { findSafePath } from '../utils';
+import { randomId } from '../../../rng/gameRng';
+import { isPhysicalTreasury, getFactionCapital } from '../../../domain/economy/treasury';
+import { planConvoyRoute } from '../../../domain/convoyRouting';
+
+// PHYSICAL treasury: smallest gold stock worth a trip to the capital
+const MIN_GOLD_SHIPMENT = 50;
 
 export interface LogisticsResult {
     locations: Location[];
@@ -14,6 +20,7 @@ export interface LogisticsResult {
 /**
  * Manage food logistics for a faction.
  * Anticipates food shortages and sends convoys (naval or land).
+ * With the PHYSICAL treasury, also ships the tax gold of every city to the capital.
  * 
  * @param state - Current game state
  * @param faction - Faction to process
@@ -57,9 +64,48 @@ export function manageLogistics(
         }
     }
 
+    if (isPhysicalTreasury(state)) {
+        shipTaxGold(state, faction, locations, convoys, navalConvoys);
+    }
+
     return { locations, convoys, navalConvoys };
 }
 
+/**
+ * Send the gold stored in each city to the capital, by sea when both are ports and it is faster.
+ */
+function shipTaxGold(
+    state: GameState,
+    faction: FactionId,
+    locations: Location[],
+    convoys: Convoy[],
+    navalConvoys: NavalConvoy[]
+): void {
+    const capital = getFactionCapital(locations, faction, state.capitals);
+    if (!capital?.linkedLocationId) return;
+
+    const sources = locations.filter(l =>
+        l.faction === faction &&
+        l.type === LocationType.CITY &&
+        l.id !== capital.id &&
+        (l.goldStock ?? 0) >= MIN_GOLD_SHIPMENT
+    );
+
+    for (const source of sources) {
+        const gold = source.goldStock!;
+        const landRoute = source.linkedLocationId
+            ? planConvoyRoute(source.linkedLocationId, capital.linkedLocationId, faction, locations, state.roads)
+            : null;
+        const navalTurns = isPort(source.id) && isPort(capital.id) ? getNavalTravelTime(source.id, capital.id) : Infinity;
+
+        if (navalTurns < (landRoute?.turns ?? Infinity)) {
+            sendNavalConvoy(source, capital, 0, faction, navalConvoys, gold);
+        } else if (landRoute && landRoute.path.length > 0) {
+            sendLandConvoy(source, capital, 0, landRoute.path, faction, state, convoys, gold);
+        }
+    }
+}
+
 interface FoodNeedResult {
     needsFood: boolean;
     neededAmount: number;
@@ -191,21 +237,24 @@ function sendNavalConvoy(
     destination: Location,
     amount: number,
     faction: FactionId,
-    navalConvoys: NavalConvoy[]
+    navalConvoys: NavalConvoy[],
+    goldAmount: number = 0
 ): void {
     source.foodStock -= amount;
+    if (goldAmount > 0) source.goldStock = (source.goldStock ?? 0) - goldAmount;
     const days = getNavalTravelTime(source.id, destination.id);
 
     navalConvoys.push({
-        id: `ai_naval_${Math.random()}`,
+        id: `ai_naval_${randomId()}`,
         faction,
         foodAmount: amount,
+        ...(goldAmount > 0 ? { goldAmount } : {}),
         sourceCityId: source.id,
         destinationCityId: destination.id,
         daysRemaining: days
     });
 
-    console.log(`[AI CONVOY] Naval: ${source.id} → ${destination.id}, amount=${amount}, turns=${days}`);
+    console.log(`[AI CONVOY] Naval: ${source.id} → ${destination.id}, amount=${amount}, gold=${goldAmount}, turns=${days}`);
 }
 
 /**
@@ -218,19 +267,22 @@ function sendLandConvoy(
     path: string[],
     faction: FactionId,
     state: GameState,
-    convoys: Convoy[]
+    convoys: Convoy[],
+    goldAmount: number = 0
 ): void {
     const sourceRuralId = source.linkedLocationId;
     if (!sourceRuralId || path.length === 0) return;
 
     source.foodStock -= amount;
+    if (goldAmount > 0) source.goldStock = (source.goldStock ?? 0) - goldAmount;
     const roadId = path[0];
     const road = state.roads.find(r => r.id === roadId)!;
 
     convoys.push({
-        id: `ai_convoy_${Math.random()}`,
+        id: `ai_convoy_${randomId()}`,
         faction,
         foodAmount: amount,
+        ...(goldAmount > 0 ? { goldAmount } : {}),
         sourceCityId: source.id,
         destinationCityId: destination.id,
         locationType: 'ROAD',
@@ -244,7 +296,7 @@ function sendLandConvoy(
         pathIndex: 0
     });
 
-    console.log(`[AI CONVOY] Land: ${source.id} → ${destination.id}, amount=${amount}, path=${path.join(' -> ')}`);
+    console.log(`[AI CONVOY] Land: ${source.id} → ${destination.id}, amount=${amount}, gold=${goldAmount}, path=${path.join(' -> ')}`);
 }
 
 function checkFoodNeed(
@@ -15,6 +15,7 @@ import { AIBudget } from './types';
 import { applyBalancedRecruitmentOverride, allocateSiegeBudget } from './economy/budget';
 import { findBestSiegeOpportunity, reserveSiegeBudget } from '../military/siegePriority';
 import { executeSiegeFromOpportunity, executeCaptureFromOpportunity } from '../military/siegeExecution';
+import { getAIDifficultySettings } from '../difficulty';
 // AI Leader Recruitment (CONSPIRATORS)
 import { calculateRecruitmentBudgetReservation, processAIRecruitment } from '../leaders/recruitment/AIConspiratorsRecruitment';
 import { ENABLE_RECRUITMENT_LOGS } from '../leaders/recruitment/RecruitmentFundManager';
@@ -84,6 +85,7 @@ export const processAITurn = (gameState: GameState): GameState => {
         // Reduced reserve ratio from 0.3 to 0.15 for more aggressive spending
         let reserveRatio = isUnderThreat ? 0.1 : (profile.subversiveness > 0.6 ? 0.1 : 0.15);
         if (faction === FactionId.NOBLES && state.turn < 5) reserveRatio = 0.1; // Nobles spend heavily early
+        reserveRatio *= getAIDifficultySettings(state, faction).reserveRatioMultiplier;
 
         const reserved = Math.floor(goldAfterSiegeReserve * reserveRatio);
         const available = goldAfterSiegeReserve - reserved;
@@ -168,7 +170,7 @@ export const processAITurn = (gameState: GameState): GameState => {
         }
 
         // 4. DIPLOMACY (Insurrections & Negotiations)
-        const dipResult = manageDiplomacy(state, faction, goals, profile, budget, true);
+        const dipResult = manageDiplomacy(state, faction, goals, profile, budget, true, [state.playerFaction]);
         const { remainingDiplomacyBudget, ...dipUpdates } = dipResult;
         state = { ...state, ...dipUpdates };
 
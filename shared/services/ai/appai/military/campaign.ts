@@ -5,16 +5,20 @@ import { GameState, FactionId, Army, AIMission } from '../../../../types';
 import { FactionPersonality } from '../types';
 import { getDistance } from '../utils';
 import { FORTIFICATION_LEVELS } from '../../../../constants';
-import { SIEGE_COST_TABLE } from './types';
+import { SIEGE_COSTS } from '../../../../constants';
 import { getMinGarrison } from './garrison';
-import { moveArmiesTo, pullReinforcements } from './movement';
+import { moveArmiesTo, pullReinforcements, findSeaRoute, shipArmiesTo } from './movement';
 import { DEBUG_AI } from '../../../../data/gameConstants';
+import { randomInt } from '../../../rng/gameRng';
 
 /**
  * Handle a CAMPAIGN mission - the core offensive operation.
  * 
  * Campaign stages: GATHERING -> MOVING -> SIEGING -> ASSAULTING -> COMPLETED
  * 
+ * Reinforcements whose land route to the staging point is blocked or much longer
+ * sail there when they stand at a port (see shipReinforcements).
+ * 
  * Supports CONVERGENT campaigns (multi-staging) where armies from multiple
  * staging points converge on the same target simultaneously.
  * 
@@ -93,7 +97,8 @@ export function handleCampaign(
             const deficit = Math.floor(reqStrength * 1.2) - strengthIncludingEnRoute;
             if (deficit > 200) {
                 if (DEBUG_AI) console.log(`[AI MILITARY ${faction}] Campaign ${mission.id} (${mission.stage}): Sustaining Reinforcements (Deficit ${deficit})`);
-                pullReinforcements(stagingId, armies, state, faction, assigned, deficit);
+                const shipped = shipReinforcements(mission, stagingId, armies, state, faction, assigned, deficit);
+                if (deficit - shipped > 200) pullReinforcements(stagingId, armies, state, faction, assigned, deficit - shipped);
             }
         }
     }
@@ -286,7 +291,7 @@ function prepareDeployment(
 
                 const garrisonArmy: Army = {
                     ...army,
-                    id: `split_garrison_${army.id}_${Math.floor(Math.random() * 1000)}`,
+                    id: `split_garrison_${army.id}_${randomInt(1000)}`,
                     strength: stayStrength,
                     isGarrisoned: true,
                     turnsUntilArrival: 0
@@ -338,6 +343,7 @@ function handleGatheringStage(
         mission.stage = 'MOVING';
     } else {
         if (DEBUG_AI) console.log(`[AI MILITARY ${faction}] Campaign ${mission.id}: GATHERING Reinforcements (Have ${totalStrengthAtStaging}/${minAttackForce} at staging)`);
+        shipReinforcements(mission, stagingId, armies, state, faction, assigned, minAttackForce - totalStrengthAtStaging);
         pullReinforcements(stagingId, armies, state, faction, assigned);
 
         const allAtStaging = armies.filter(a => a.locationId === stagingId && a.faction === faction && !assigned.has(a.id));
@@ -345,6 +351,61 @@ function handleGatheringStage(
     }
 }
 
+/**
+ * Ship reinforcements to the staging point when their land route is blocked or
+ * much longer than a sea route. They land at the best port and are pulled on by
+ * land from there. Armies already at sea for this campaign count toward the need.
+ *
+ * @returns Strength at sea toward the staging point
+ */
+function shipReinforcements(
+    mission: AIMission,
+    stagingId: string,
+    armies: Army[],
+    state: GameState,
+    faction: FactionId,
+    assigned: Set<string>,
+    maxAmountNeeded: number
+): number {
+    const transports = (state.navalTransports ?? []).filter(t => t.faction === faction);
+    const seaborneIds = ((mission.data.seaborneArmyIds as string[]) || []).filter(id => transports.some(t => t.army.id === id));
+    let shipped = transports.filter(t => seaborneIds.includes(t.army.id)).reduce((s, t) => s + t.army.strength, 0);
+
+    const candidates = armies
+        .filter(a =>
+            a.faction === faction &&
+            a.locationType === 'LOCATION' &&
+            a.locationId && a.locationId !== stagingId &&
+            !assigned.has(a.id) &&
+            !a.isSpent && !a.isSieging && !a.isInsurgent &&
+            a.strength >= 500
+        )
+        .sort((a, b) => b.strength - a.strength);
+
+    for (const army of candidates) {
+        if (shipped >= maxAmountNeeded) break;
+
+        // Leave the garrison behind
+        const loc = state.locations.find(l => l.id === army.locationId);
+        const staying = armies
+            .filter(x => x.locationId === army.locationId && x.faction === faction && x.id !== army.id)
+            .reduce((s, x) => s + x.strength, 0);
+        if (staying < getMinGarrison(loc, state.characters, faction)) continue;
+
+        const route = findSeaRoute(army.locationId!, stagingId, state, faction);
+        if (!route) continue;
+
+        if (DEBUG_AI) console.log(`[AI MILITARY ${faction}] Campaign ${mission.id}: Shipping ${army.strength} from ${route.sourcePortId} to ${route.landingPortId} (${route.turns} turns, by land ${route.landTurns ?? 'blocked'})`);
+        if (shipArmiesTo([army], route.landingPortId, state, armies, assigned).length > 0) {
+            seaborneIds.push(army.id);
+            shipped += army.strength;
+        }
+    }
+
+    mission.data.seaborneArmyIds = seaborneIds;
+    return shipped;
+}
+
 function handleMovingStage(
     mission: AIMission,
     faction: FactionId,
@@ -555,7 +616,7 @@ function handleSiegeDecision(
 
         if (!canNegotiate) {
             requiredManpower = targetLoc.fortificationLevel >= 3 ? 1000 : 500;
-            siegeCost = SIEGE_COST_TABLE[targetLoc.fortificationLevel] || 100;
+            siegeCost = SIEGE_COSTS[targetLoc.fortificationLevel] || 100;
 
             // Use siegeManpower (at linkedLocation/staging) instead of strengthAtTarget
             if (state.resources[faction].gold >= siegeCost && siegeManpower >= requiredManpower) {
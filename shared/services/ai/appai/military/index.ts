@@ -6,7 +6,8 @@ export * from './types';
 export { getMinGarrison } from './garrison';
 
 // Movement and reinforcement
-export { moveArmiesTo, pullReinforcements } from './movement';
+export { moveArmiesTo, pullReinforcements, findSeaRoute, shipArmiesTo } from './movement';
+export type { SeaRoute } from './movement';
 
 // Mission handlers
 export { handleCampaign } from './campaign';
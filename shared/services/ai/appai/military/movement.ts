@@ -4,6 +4,19 @@ import { GameState, FactionId, Army, RoadQuality } from '../../../../types';
 import { getDistance, findSafePath } from '../utils';
 import { getMinGarrison } from './garrison';
 import { DEBUG_AI } from '../../../../data/gameConstants';
+import { getNavalTravelTimeForMap, MapId } from '../../../../data/ports';
+import { getEmbarkationPort, getLandingPorts, executeEmbarkArmy } from '../../../domain/military/navalTransport';
+import { randomInt } from '../../../rng/gameRng';
+
+// A sea route is taken when the land route is blocked or this many times longer
+const SEA_ROUTE_RATIO = 1.5;
+
+export interface SeaRoute {
+    sourcePortId: string;
+    landingPortId: string;
+    turns: number;              // Crossing + march from the landing port
+    landTurns: number | null;   // null = no safe land route
+}
 
 /**
  * Move a selection of armies toward a target location.
@@ -78,6 +91,78 @@ export function moveArmiesTo(
     }
 }
 
+/**
+ * Turns to march along findSafePath (LOCAL roads are instant), null if there is no such path
+ */
+function getSafeMarchTurns(startId: string, endId: string, state: GameState, faction: FactionId): number | null {
+    const path = findSafePath(startId, endId, state, faction);
+    if (!path) return null;
+    return path.reduce((turns, roadId) => turns + (state.roads.find(r => r.id === roadId)?.stages.length ?? 0), 0);
+}
+
+/**
+ * Best way by sea from `fromId` to `targetId`: sail from the port there to a
+ * friendly or contested port, then march. Only returned when the land route is
+ * blocked or much longer (SEA_ROUTE_RATIO).
+ */
+export function findSeaRoute(
+    fromId: string,
+    targetId: string,
+    state: GameState,
+    faction: FactionId
+): SeaRoute | null {
+    const sourcePortId = getEmbarkationPort(state, fromId);
+    if (!sourcePortId || state.locations.find(l => l.id === sourcePortId)?.faction !== faction) return null;
+
+    const landTurns = getSafeMarchTurns(fromId, targetId, state, faction);
+    let best: SeaRoute | null = null;
+
+    for (const landingPortId of getLandingPorts(state, faction, sourcePortId)) {
+        const march = getSafeMarchTurns(landingPortId, targetId, state, faction);
+        if (march === null) continue;
+        const turns = getNavalTravelTimeForMap(state.mapId as MapId, sourcePortId, landingPortId) + march;
+        if (!best || turns < best.turns) best = { sourcePortId, landingPortId, turns, landTurns };
+    }
+
+    if (!best || (landTurns !== null && landTurns <= best.turns * SEA_ROUTE_RATIO)) return null;
+    return best;
+}
+
+/**
+ * Put a selection of armies to sea toward a landing port.
+ * The sailing armies leave the armies array (modified in place); their transports,
+ * leaders and logs are written to the state.
+ *
+ * @returns IDs of the armies that sailed
+ */
+export function shipArmiesTo(
+    selection: Army[],
+    landingPortId: string,
+    state: GameState,
+    allArmies: Army[],
+    assigned: Set<string>
+): string[] {
+    const sailed: string[] = [];
+
+    for (const army of selection) {
+        const result = executeEmbarkArmy({ ...state, armies: allArmies }, army.id, landingPortId, army.faction);
+        if (!result.success) {
+            if (DEBUG_AI) console.log(`[AI MILITARY] Army ${army.id}: cannot sail to ${landingPortId} (${result.error})`);
+            continue;
+        }
+
+        if (DEBUG_AI) console.log(`[AI MILITARY] Army ${army.id}: SAILING from ${army.locationId} to ${landingPortId}`);
+        allArmies.splice(0, allArmies.length, ...result.newState.armies);
+        state.characters = result.newState.characters;
+        state.locations = result.newState.locations;
+        state.navalTransports = result.newState.navalTransports;
+        state.logs = result.newState.logs;
+        assigned.add(army.id);
+        sailed.push(army.id);
+    }
+    return sailed;
+}
+
 /**
  * Pull reinforcements from other locations to a target.
  * Prioritizes biggest armies first, then closest.
@@ -179,7 +264,7 @@ export function pullReinforcements(
                 if (armyIdx !== -1) {
                     armies[armyIdx] = { ...army, strength: stayAmount };
 
-                    const newId = `ai_reinf_${army.locationId}_${targetId}_${state.turn}_${Math.floor(Math.random() * 1000)}`;
+                    const newId = `ai_reinf_${army.locationId}_${targetId}_${state.turn}_${randomInt(1000)}`;
                     const movingArmy: Army = {
                         ...army,
                         id: newId,
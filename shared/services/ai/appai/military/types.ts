@@ -30,13 +30,3 @@ export const IDLE_DEPLOYMENT_TARGETS: Record<string, string[]> = {
     'CONSPIRATORS': ['stormbay', 'windward'],
     'NOBLES': ['port_de_sable']
 };
-
-/**
- * Siege cost table based on fortification level
- */
-export const SIEGE_COST_TABLE: Record<number, number> = {
-    1: 15,
-    2: 30,
-    3: 50,
-    4: 100
-};
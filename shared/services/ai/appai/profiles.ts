@@ -48,24 +48,39 @@ export const AI_PROFILES: Record<FactionId, FactionPersonality> = {
         useFortifications: false,
     },
 
-    // Valis (placeholder)
+    // Valis
     [FactionId.LOYALISTS]: {
-        name: 'Loyalists',
-        aggressiveness: 0.5, defensiveness: 0.6, subversiveness: 0.3,
-        expansionism: 0.5, riskTolerance: 0.5, preferredTargets: [],
-        canUseGrainEmbargo: false, useFortifications: true,
+        name: FACTION_NAMES[FactionId.LOYALISTS],
+        aggressiveness: 0.5, // Central position: strikes whichever rival overextends
+        defensiveness: 0.8, // Must hold Aurelle, attacked from both sides
+        subversiveness: 0.4,
+        expansionism: 0.6,
+        riskTolerance: 0.4,
+        preferredTargets: ['vaudrec_forest', 'merivant_delta', 'brenmoor_heath', 'corvignac'],
+        canUseGrainEmbargo: false,
+        useFortifications: true,
     },
     [FactionId.PRINCELY_ARMY]: {
-        name: 'Princely Army',
-        aggressiveness: 0.7, defensiveness: 0.4, subversiveness: 0.2,
-        expansionism: 0.6, riskTolerance: 0.6, preferredTargets: [],
-        canUseGrainEmbargo: false, useFortifications: true,
+        name: FACTION_NAMES[FactionId.PRINCELY_ARMY],
+        aggressiveness: 0.9, // Strongest army, poorest treasury: must win fast
+        defensiveness: 0.4,
+        subversiveness: 0.3,
+        expansionism: 0.7,
+        riskTolerance: 0.7,
+        preferredTargets: ['aurelle', 'crown_demesne', 'vaudrec_forest', 'ostmark_steppe'],
+        canUseGrainEmbargo: false,
+        useFortifications: true,
     },
     [FactionId.CONFEDERATE_CITIES]: {
-        name: 'Confederate Cities',
-        aggressiveness: 0.4, defensiveness: 0.7, subversiveness: 0.5,
-        expansionism: 0.5, riskTolerance: 0.4, preferredTargets: [],
-        canUseGrainEmbargo: false, useFortifications: true,
+        name: FACTION_NAMES[FactionId.CONFEDERATE_CITIES],
+        aggressiveness: 0.3, // Merchants: rich, but militias break easily
+        defensiveness: 0.7,
+        subversiveness: 0.8, // Buys loyalty rather than fighting for it
+        expansionism: 0.6,
+        riskTolerance: 0.4,
+        preferredTargets: ['corvignac', 'corvignac_marches', 'maure_vales', 'ostmark'],
+        canUseGrainEmbargo: false,
+        useFortifications: true,
     },
 
     // Thyrakat Tutorial
@@ -4,6 +4,7 @@
 import { GameState, FactionId, Army, Location, Road } from '../../../../types';
 import { AIBudget } from '../types';
 import { RECRUIT_COST, RECRUIT_AMOUNT, FORTIFICATION_LEVELS } from '../../../../constants';
+import { randomId } from '../../../rng/gameRng';
 
 // Target road stages for defensive garrisons
 const DEFENSIVE_POSITIONS = {
@@ -204,7 +205,7 @@ function forceMaxRecruitment(
                 existingArmy.strength += RECRUIT_AMOUNT;
             } else {
                 armies.push({
-                    id: `rep_early_${locId}_${Math.random().toString(36).substr(2, 9)}`,
+                    id: `rep_early_${locId}_${randomId()}`,
                     faction,
                     locationType: 'LOCATION',
                     locationId: locId,
@@ -273,7 +274,7 @@ function deployTurn1Garrisons(
 
         // Create deployed garrison army
         const garrisonArmy: Army = {
-            id: `rep_garrison_${pos.roadId}_${Math.random().toString(36).substr(2, 9)}`,
+            id: `rep_garrison_${pos.roadId}_${randomId()}`,
             faction,
             locationType: 'ROAD',
             locationId: null,
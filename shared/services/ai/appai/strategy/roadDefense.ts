@@ -5,6 +5,7 @@
 // 2. Empty stages: Can be fortified with Pikes and Trenches / Stone Tower
 
 import { GameState, FactionId, AIMission, Road } from '../../../../types';
+import { randomInt } from '../../../rng/gameRng';
 
 /**
  * Strategic road stage targets by faction.
@@ -133,7 +134,7 @@ export function generateRoadDefenseMissions(
         }
 
         // Add randomness to avoid predictable starts (±15 points)
-        score += Math.floor(Math.random() * 31) - 15;
+        score += randomInt(31) - 15;
 
         // Skip if not early game and no threat
         if (!isEarlyGame && !enemyOnRoad && !destLoc) {
@@ -6,7 +6,7 @@ import { AITheater, FactionPersonality } from '../types';
 /**
  * Vital cities that require prioritized defense
  */
-export const VITAL_CITIES = ['sunbreach', 'windward', 'port_de_sable', 'stormbay', 'karamos', 'hornvale'];
+export const VITAL_CITIES = ['sunbreach', 'windward', 'port_de_sable', 'stormbay', 'karamos', 'hornvale', 'aurelle', 'hautfer', 'lisselport'];
 
 /**
  * Strategic locations per faction - critical defensive points
@@ -16,9 +16,9 @@ export const STRATEGIC_LOCATIONS: Record<FactionId, string[]> = {
     [FactionId.CONSPIRATORS]: ['stormbay', 'order_lands', 'great_plains', 'windward'],
     [FactionId.NOBLES]: ['port_de_sable', 'northern_barony'],
     [FactionId.NEUTRAL]: [],
-    [FactionId.LOYALISTS]: [],
-    [FactionId.PRINCELY_ARMY]: [],
-    [FactionId.CONFEDERATE_CITIES]: [],
+    [FactionId.LOYALISTS]: ['aurelle', 'crown_demesne', 'sainte_maure'],
+    [FactionId.PRINCELY_ARMY]: ['hautfer', 'castel_orgueil', 'brenmoor_heath'],
+    [FactionId.CONFEDERATE_CITIES]: ['lisselport', 'merivant', 'merivant_delta'],
     [FactionId.LARION_KNIGHTS]: [],
     [FactionId.THYRAKAT_SULTANATE]: [],
     [FactionId.LINEAGES_COUNCIL]: [],
@@ -34,9 +34,9 @@ export const INSURRECTION_PRIORITIES: Record<FactionId, string[]> = {
     [FactionId.CONSPIRATORS]: ['sunbreach_lands', 'northern_barony', 'thane_duchy'],
     [FactionId.REPUBLICANS]: ['northern_barony', 'esmarch_duchy', 'larion_islands'],
     [FactionId.NEUTRAL]: [],
-    [FactionId.LOYALISTS]: [],
-    [FactionId.PRINCELY_ARMY]: [],
-    [FactionId.CONFEDERATE_CITIES]: [],
+    [FactionId.LOYALISTS]: ['merivant_delta', 'iron_hills'],
+    [FactionId.PRINCELY_ARMY]: ['crown_demesne', 'corvignac_marches'],
+    [FactionId.CONFEDERATE_CITIES]: ['corvignac_marches', 'maure_vales', 'crown_demesne'],
     [FactionId.LARION_KNIGHTS]: [],
     [FactionId.THYRAKAT_SULTANATE]: [],
     [FactionId.LINEAGES_COUNCIL]: [],
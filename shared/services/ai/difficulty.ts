@@ -0,0 +1,102 @@
+/**
+ * AI Difficulty Module (Shared)
+ *
+ * Tiers chosen per AI seat (solo and multiplayer) and what each one changes:
+ * - Starting gold (scales INITIAL_AI_RESOURCES)
+ * - Share of the treasury kept as savings each turn and leader recruitment fund savings
+ * - Siege aggressiveness (sortie risk accepted, gold needed before a level 4 siege)
+ * - Hidden information: whether undetected enemy undercover leaders are known
+ *
+ * NORMAL keeps the behaviour the AI had before tiers existed.
+ *
+ * @module shared/services/ai/difficulty
+ */
+
+import { GameState, FactionId, Character, AIDifficulty, DEFAULT_AI_DIFFICULTY } from '../../types';
+import { isEnemyLeaderVisible } from '../../utils/fogOfWar';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AIDifficultySettings {
+    startingGoldMultiplier: number;     // Applied to INITIAL_AI_RESOURCES
+    reserveRatioMultiplier: number;     // Applied to the share of gold kept in reserve each turn
+    recruitmentSavingsMultiplier: number; // Applied to the leader recruitment fund savings matrix
+    siegeSortieRatio: number;           // Skip a siege when garrison >= available troops * ratio
+    siegeWealthThreshold: number;       // Gold needed before besieging a level 4 fortress
+    knowsUndetectedAgents: boolean;     // Sees enemy undercover leaders its own territory has not detected
+}
+
+// ============================================================================
+// TIERS
+// ============================================================================
+
+export const AI_DIFFICULTY_SETTINGS: Record<AIDifficulty, AIDifficultySettings> = {
+    EASY: {
+        startingGoldMultiplier: 0.6,
+        reserveRatioMultiplier: 1.5,
+        recruitmentSavingsMultiplier: 0.5,
+        siegeSortieRatio: 1.5,
+        siegeWealthThreshold: 800,
+        knowsUndetectedAgents: false
+    },
+    NORMAL: {
+        startingGoldMultiplier: 1,
+        reserveRatioMultiplier: 1,
+        recruitmentSavingsMultiplier: 1,
+        siegeSortieRatio: 2,
+        siegeWealthThreshold: 400,
+        knowsUndetectedAgents: true
+    },
+    HARD: {
+        startingGoldMultiplier: 1.25,
+        reserveRatioMultiplier: 0.75,
+        recruitmentSavingsMultiplier: 1.25,
+        siegeSortieRatio: 2.5,
+        siegeWealthThreshold: 300,
+        knowsUndetectedAgents: true
+    },
+    BRUTAL: {
+        startingGoldMultiplier: 1.5,
+        reserveRatioMultiplier: 0.5,
+        recruitmentSavingsMultiplier: 1.5,
+        siegeSortieRatio: 3,
+        siegeWealthThreshold: 200,
+        knowsUndetectedAgents: true
+    }
+};
+
+// ============================================================================
+// ACCESSORS
+// ============================================================================
+
+/**
+ * Tier of an AI faction (states without tiers play at DEFAULT_AI_DIFFICULTY)
+ */
+export function getAIDifficulty(state: Pick<GameState, 'aiDifficulties'>, faction: FactionId): AIDifficulty {
+    const difficulty = state.aiDifficulties?.[faction];
+    return difficulty && AI_DIFFICULTY_SETTINGS[difficulty] ? difficulty : DEFAULT_AI_DIFFICULTY;
+}
+
+export function getAIDifficultySettings(state: Pick<GameState, 'aiDifficulties'>, faction: FactionId): AIDifficultySettings {
+    return AI_DIFFICULTY_SETTINGS[getAIDifficulty(state, faction)];
+}
+
+/**
+ * Starting gold of an AI faction at a tier
+ */
+export function scaleAIStartingGold(gold: number, difficulty: AIDifficulty = DEFAULT_AI_DIFFICULTY): number {
+    return Math.round(gold * AI_DIFFICULTY_SETTINGS[difficulty].startingGoldMultiplier);
+}
+
+/**
+ * Whether an AI faction may act on what it knows of a leader.
+ * Its own leaders are always known, enemy undercover agents only once detected
+ * (same rule as a player's fog of war) unless the tier lets the AI use hidden information.
+ */
+export function isLeaderKnownToAI(state: GameState, leader: Character, faction: FactionId): boolean {
+    if (leader.faction === faction) return true;
+    if (getAIDifficultySettings(state, faction).knowsUndetectedAgents) return true;
+    return isEnemyLeaderVisible(leader, state);
+}
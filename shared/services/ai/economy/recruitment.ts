@@ -20,6 +20,7 @@ import {
     RecruitmentBudgetInfo, 
     RecruitmentPersonalityInfo 
 } from './types';
+import { randomId } from '../../rng/gameRng';
 
 // ============================================================================
 // TYPES (internal)
@@ -318,7 +319,7 @@ export function handleRecruitment(
             existingArmy.strength += RECRUIT_AMOUNT;
         } else {
             armies.push({
-                id: `ai_reg_${Math.random()}`,
+                id: `ai_reg_${randomId()}`,
                 faction,
                 locationType: 'LOCATION',
                 locationId: loc.id,
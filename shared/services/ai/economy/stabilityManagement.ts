@@ -38,7 +38,7 @@ export const STABILITY_THRESHOLDS: Record<FactionId, { normal: number; emergency
         normal: 50,
         emergency: 40
     },
-    // Valis factions (not typically used in AI, but required for type safety)
+    // Valis factions
     [FactionId.LOYALISTS]: {
         normal: 50,
         emergency: 40
@@ -20,6 +20,7 @@ import {
     calculateMinorIPG,
     applyDistancePenalty
 } from '../utils/IPGCalculator';
+import { random, randomChoice } from '../../../rng/gameRng';
 
 // ============================================================================
 // TYPES
@@ -492,7 +493,7 @@ export function processClandestineAgent(
             // For GRAND_INSURRECTION: 50% chance to reserve 100g for support actions
             let giGoldAmount = bestInsurgentAction.oneTimeCost;
             if (bestInsurgentAction.actionId === ClandestineActionId.PREPARE_GRAND_INSURRECTION) {
-                const reserveForSupport = Math.random() < 0.5;
+                const reserveForSupport = random() < 0.5;
                 if (reserveForSupport && remainingBudget >= bestInsurgentAction.oneTimeCost + 100) {
                     // Reserve 100g for support, use rest for GI (minimum 200g for GI)
                     giGoldAmount = Math.max(200, remainingBudget - 100);
@@ -743,7 +744,7 @@ export function processClandestineAgent(
             if (validTargets.length > 0) {
                 // Pick the closest one (or random among top 3 for variety)
                 const topTargets = validTargets.slice(0, 3);
-                const chosen = topTargets[Math.floor(Math.random() * topTargets.length)];
+                const chosen = randomChoice(topTargets);
 
                 bestTargetId = chosen.id;
                 isNewMission = true;
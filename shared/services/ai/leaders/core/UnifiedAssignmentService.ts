@@ -34,6 +34,7 @@ import {
     ManagerOpportunityCostOptions
 } from '../utils/IPGCalculator';
 import { calculateLeaderTravelTime } from '../../../domain/leaders/leaderPathfinding';
+import { isLeaderKnownToAI } from '../../difficulty';
 import { LocationType } from '../../../../types';
 
 // ============================================================================
@@ -794,6 +795,7 @@ function getUrgentGovernorPolicy(
         if (c.faction === faction || c.faction === FactionId.NEUTRAL) return false;
         if (c.status !== CharacterStatus.UNDERCOVER) return false;
         if (c.locationId !== location.id) return false;
+        if (!isLeaderKnownToAI(state, c, faction)) return false;
 
         // Check if agent is threatening
         const budget = c.clandestineBudget || c.budget || 0;
@@ -19,6 +19,7 @@ import { GovernorPolicy } from '../../../../types/governorTypes';
 import { ClandestineActionId } from '../../../../types/clandestineTypes';
 import { executeSendUndercoverMission } from '../../../domain/politics/undercoverMission';
 import { calculateLeaderTravelTime } from '../../../domain/leaders/leaderPathfinding';
+import { isLeaderKnownToAI } from '../../difficulty';
 import {
     processRepublicanInternalFaction,
     applyInternalFactionResult,
@@ -107,10 +108,12 @@ export function manageLeadersUnified(
     // PHASE 1: Analyze Territories
     // =========================================================================
     const ownedLocations = workingState.locations.filter(l => l.faction === faction);
+    // Enemy agents the faction may know of (depends on the AI difficulty tier)
+    const knownCharacters = workingState.characters.filter(c => isLeaderKnownToAI(workingState, c, faction));
     const territories: TerritoryStatus[] = ownedLocations.map(location =>
         analyzeTerritoryForGovernor(
             location,
-            workingState.characters,
+            knownCharacters,
             faction,
             getGarrisonStrength(workingState, location.id, faction),
             workingState.logs || []
@@ -33,6 +33,7 @@ import {
     NoblesLeaderEvaluationContext
 } from '../evaluation/LeaderNoblesRecruitmentEvaluator';
 import { ENABLE_RECRUITMENT_LOGS } from './RecruitmentFundManager';
+import { randomId } from '../../../rng/gameRng';
 
 // ============================================================================
 // CONSTANTS
@@ -343,7 +344,7 @@ export function applyNoblesRecruitmentResults(
     // Create new army (duke_esmarch)
     if (result.newArmy) {
         const newArmy = {
-            id: `nobles_esmarch_${Date.now()}`,
+            id: `nobles_esmarch_${randomId()}`,
             faction: FactionId.NOBLES,
             strength: result.newArmy.strength,
             locationId: result.newArmy.locationId,
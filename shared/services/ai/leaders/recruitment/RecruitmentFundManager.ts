@@ -12,6 +12,7 @@
 
 import { GameState, FactionId, Location, CharacterStatus } from '../../../../types';
 import { CONSPIRATORS_RECRUITMENT_COST } from '../../../domain/leaders/conspiratorsRecruitment';
+import { getAIDifficultySettings } from '../../difficulty';
 
 // ============================================================================
 // CONSTANTS
@@ -208,11 +209,12 @@ export function calculateSavingsForTurn(
         };
     }
 
-    // Calculate matrix-based savings
+    // Calculate matrix-based savings, scaled by the AI difficulty tier
     const { maxSavings, reasoning } = calculateSavingsAmount(revenues, territoriesCount, livingLeadersCount);
+    const scaledSavings = Math.floor(maxSavings * getAIDifficultySettings(state, faction).recruitmentSavingsMultiplier);
 
     // Cap savings at what's still needed
-    const amountToSave = Math.min(maxSavings, goldNeeded);
+    const amountToSave = Math.min(scaledSavings, goldNeeded);
 
     // Check for SEIZE_GOLD emergency (0 leaders)
     let shouldSeizeGold = false;
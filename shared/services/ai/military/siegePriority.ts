@@ -10,12 +10,15 @@
  * - Level 2-3: Standard siege (500/1000 troops)
  * - Level 4 (Stormbay): Deprioritized unless wealthy
  * - Skip if garrison >= available troops * 2 (sortie risk)
+ * Sortie risk and the Stormbay wealth bar depend on the AI difficulty tier.
  * 
  * @module shared/services/ai/military/siegePriority
  */
 
 import { GameState, FactionId, Army, LocationType } from '../../../types';
 import { FORTIFICATION_LEVELS } from '../../../data/gameConstants';
+import { SIEGE_COSTS } from '../../../constants';
+import { getAIDifficultySettings } from '../difficulty';
 
 // Debug flag - can be enabled for detailed siege logs
 const DEBUG_SIEGE = false;
@@ -37,14 +40,6 @@ export interface SiegeOpportunity {
     action: 'CAPTURE' | 'SIEGE' | 'RECRUIT_THEN_SIEGE' | 'SKIP';
 }
 
-// Siege costs per fortification level
-const SIEGE_COST_TABLE: Record<number, number> = {
-    1: 15,
-    2: 30,
-    3: 50,
-    4: 100
-};
-
 // Troops required for siege per fortification level
 const SIEGE_TROOPS_TABLE: Record<number, number> = {
     1: 500,
@@ -96,7 +91,7 @@ export function findSiegeOpportunities(
 
         const fortLevel = linkedCity.fortificationLevel;
         const requiredTroops = SIEGE_TROOPS_TABLE[fortLevel] || 500;
-        const siegeCost = SIEGE_COST_TABLE[fortLevel] || 50;
+        const siegeCost = SIEGE_COSTS[fortLevel] || 50;
 
         // Evaluate action
         const action = evaluateSiegeAction(
@@ -251,9 +246,10 @@ function evaluateSiegeAction(
     state: GameState,
     faction: FactionId
 ): 'CAPTURE' | 'SIEGE' | 'RECRUIT_THEN_SIEGE' | 'SKIP' {
-    // Rule: Sortie risk - if garrison >= troops * 2, skip
-    if (enemyGarrison >= availableTroops * 2) {
-        if (DEBUG_SIEGE) console.log(`[AI SIEGE PRIORITY ${faction}] SKIP: Sortie risk (garrison ${enemyGarrison} >= troops ${availableTroops} * 2)`);
+    // Rule: Sortie risk - if garrison >= troops * ratio (2 at NORMAL), skip
+    const { siegeSortieRatio } = getAIDifficultySettings(state, faction);
+    if (enemyGarrison >= availableTroops * siegeSortieRatio) {
+        if (DEBUG_SIEGE) console.log(`[AI SIEGE PRIORITY ${faction}] SKIP: Sortie risk (garrison ${enemyGarrison} >= troops ${availableTroops} * ${siegeSortieRatio})`);
         return 'SKIP';
     }
 
@@ -299,12 +295,12 @@ function evaluateSiegeAction(
 /**
  * Check if faction has excess resources for low-priority sieges (Stormbay).
  * Conditions:
- * - Gold > 400
+ * - Gold > difficulty wealth threshold (400 at NORMAL)
  * - No active high-priority campaigns
  */
 function hasExcessResources(state: GameState, faction: FactionId): boolean {
     const gold = state.resources[faction]?.gold || 0;
-    if (gold < 400) return false;
+    if (gold < getAIDifficultySettings(state, faction).siegeWealthThreshold) return false;
 
     // Check for active campaigns in other theaters
     const missions = state.aiState?.[faction]?.missions || [];
@@ -4,6 +4,8 @@
 import { GameState, FactionId } from '../types';
 import { detectBattles } from './combatDetection';
 import { createCombatLog } from './logs/logFactory';
+import { withGameRng } from './rng/gameRng';
+import { recordGoldSpent } from './domain/stats';
 
 // Import from new modular structure
 import {
@@ -14,7 +16,8 @@ import {
     handleDefenderRetreatToCity,
     handleSiege,
     resolveAIBattleCascade,
-    getPlayerBattles
+    getPlayerBattles,
+    getActiveCombatRuleset
 } from './combat/index';
 
 // Re-export for backwards compatibility
@@ -27,17 +30,26 @@ export { applySequentialLosses, calculateCombatStrength };
  * @param prevState - Current game state
  * @param choice - Player's combat choice (FIGHT, RETREAT, RETREAT_CITY, SIEGE)
  * @param siegeCost - Gold cost for siege (only for SIEGE choice)
- * @returns Partial game state updates
+ * @returns Partial game state updates (including the advanced RNG state)
  */
 export const resolveCombatResult = (
     prevState: GameState,
     choice: 'FIGHT' | 'RETREAT' | 'RETREAT_CITY' | 'SIEGE',
     siegeCost: number = 0
 ): Partial<GameState> & { siegeNotification?: any } => {
+    return withGameRng(prevState, () => resolveCombatChoice(prevState, choice, siegeCost));
+};
+
+const resolveCombatChoice = (
+    prevState: GameState,
+    choice: 'FIGHT' | 'RETREAT' | 'RETREAT_CITY' | 'SIEGE',
+    siegeCost: number
+): Partial<GameState> & { siegeNotification?: any } => {
 
     if (!prevState.combatState) return {};
 
     const combat = prevState.combatState;
+    const ruleset = getActiveCombatRuleset(prevState);
 
     // Initialize state copies
     let newArmies = [...prevState.armies];
@@ -60,7 +72,8 @@ export const resolveCombatResult = (
                 newLocations,
                 newRoads,
                 newStats,
-                prevState.turn
+                prevState.turn,
+                ruleset
             );
             newArmies = result.armies;
             newLocations = result.locations;
@@ -117,6 +130,8 @@ export const resolveCombatResult = (
             newArmies = result.armies;
             newLocations = result.locations;
             newRoads = result.roads;
+            // handleSiege charges the whole siege cost to the player's treasury
+            newStats = recordGoldSpent(newStats, prevState.playerFaction, 'SIEGE', siegeCost);
             newResources = result.resources;
             logMsg = result.logMessage;
             if (result.logEntries) combinedLogEntries.push(...result.logEntries);
@@ -139,7 +154,9 @@ export const resolveCombatResult = (
         newLocations,
         newRoads,
         newStats,
-        humanFactions
+        humanFactions,
+        ruleset,
+        prevState.agreements
     );
     newArmies = cascadeResult.armies;
     newLocations = cascadeResult.locations;
@@ -150,7 +167,7 @@ export const resolveCombatResult = (
     if (cascadeResult.logEntries) combinedLogEntries.push(...cascadeResult.logEntries);
 
     // Detect remaining player battles
-    const currentBattles = detectBattles(newLocations, newArmies, newRoads);
+    const currentBattles = detectBattles(newLocations, newArmies, newRoads, prevState.agreements);
 
     console.log(`[COMBAT_RESOLVE] detectBattles found ${currentBattles.length} total battles after resolution`);
     currentBattles.forEach(b => console.log(`[COMBAT_RESOLVE]   - ${b.locationId || b.roadId}: ${b.attackerFaction} vs ${b.defenderFaction}`));
@@ -1,13 +1,16 @@
 // AI Battle Cascade - Auto-resolution of AI vs AI battles
 
-import { Army, Character, Location, Road, CombatState, FactionId, GameStats, CharacterStatus, FACTION_NAMES } from '../../types';
+import { Army, Character, Location, Road, CombatState, FactionId, GameStats, CharacterStatus, FACTION_NAMES, CombatRuleset, DEFAULT_COMBAT_RULESET, DiplomaticAgreement } from '../../types';
 import { FORTIFICATION_LEVELS } from '../../constants';
 import { detectBattles } from '../combatDetection';
 import { applySequentialLosses, calculateCombatStrength } from './powerCalculation';
+import { resolveBattleOutcome } from './combatRuleset';
 import { validateGovernorStatus } from '../domain/governor/governorService';
 import { handleLeaderStatusOnCapture } from '../turnLogic/leaderStatusUpdates';
+import { recordBattle } from '../domain/stats';
 
 import { StructuredLogData } from './types';
+import { random } from '../rng/gameRng';
 
 export interface CascadeResult {
     armies: Army[];
@@ -30,6 +33,8 @@ export interface CascadeResult {
  * @param roads - Current roads
  * @param stats - Current game stats
  * @param humanFactions - Array of human-controlled factions (for multiplayer)
+ * @param ruleset - How battles are decided (GameState.combatRuleset)
+ * @param agreements - Agreements between factions (pacted factions do not fight)
  */
 export const resolveAIBattleCascade = (
     playerFaction: FactionId,
@@ -38,7 +43,9 @@ export const resolveAIBattleCascade = (
     locations: Location[],
     roads: Road[],
     stats: GameStats,
-    humanFactions?: FactionId[]
+    humanFactions?: FactionId[],
+    ruleset: CombatRuleset = DEFAULT_COMBAT_RULESET,
+    agreements: DiplomaticAgreement[] = []
 ): CascadeResult => {
     let newArmies = [...armies];
     let newCharacters = [...characters];
@@ -48,7 +55,7 @@ export const resolveAIBattleCascade = (
     const logMessages: string[] = [];
     const logEntries: StructuredLogData[] = [];
 
-    let currentBattles = detectBattles(newLocations, newArmies, newRoads);
+    let currentBattles = detectBattles(newLocations, newArmies, newRoads, agreements);
     let loops = 0;
 
     while (loops < 10) {
@@ -74,15 +81,15 @@ export const resolveAIBattleCascade = (
         const battle = aiBattles[0];
         const attStr = calculateCombatStrength(battle.attackers, newCharacters, 0);
         const defStr = calculateCombatStrength(battle.defenders, newCharacters, battle.defenseBonus);
-        const attWin = attStr > defStr;
+        const { attackerWins: attWin, winnerLosses: losses } = resolveBattleOutcome(attStr, defStr, battle.defenseBonus, ruleset);
 
         const loserArmies = attWin ? battle.defenders : battle.attackers;
         const winnerArmies = attWin ? battle.attackers : battle.defenders;
-        const losses = attWin ? defStr : Math.max(0, attStr - battle.defenseBonus);
 
         const deadDef = battle.defenders.reduce((s, a) => s + a.strength, 0);
         const deadAtt = battle.attackers.reduce((s, a) => s + a.strength, 0);
         newStats.deathToll += attWin ? (deadDef + Math.min(deadAtt, losses)) : (Math.min(deadDef, losses) + deadAtt);
+        newStats = recordBattle(newStats, battle.attackerFaction, battle.defenderFaction, attWin);
 
         if (attWin) {
             const locName = battle.locationId ? newLocations.find(l => l.id === battle.locationId)?.name : 'road';
@@ -171,7 +178,7 @@ export const resolveAIBattleCascade = (
 
         leaders.forEach(l => {
             if (!newArmies.find(a => a.id === l.armyId)) {
-                let died = Math.random() > 0.5;
+                let died = random() > 0.5;
                 if (battle.isInsurgentBattle) died = true;
                 if (died) {
                     newCharacters = newCharacters.map(c => c.id === l.id ? { ...c, status: CharacterStatus.DEAD } : c);
@@ -182,7 +189,7 @@ export const resolveAIBattleCascade = (
             }
         });
 
-        currentBattles = detectBattles(newLocations, newArmies, newRoads);
+        currentBattles = detectBattles(newLocations, newArmies, newRoads, agreements);
     }
 
     return {
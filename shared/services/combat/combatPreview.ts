@@ -0,0 +1,75 @@
+// Combat Preview - The numbers the engine uses, computed before a combat choice is made
+
+import { Army, CombatState, GameState } from '../../types';
+import { getActiveCombatRuleset, getAttackerWinProbability, getExpectedLosses, getFightStrengths } from './combatRuleset';
+import { calculateSurvivalChance } from './leaderSurvival';
+import { getCombatFortificationLevel, getSiegeRequiredMen } from './siegeHandler';
+import { SIEGE_COSTS } from '../../constants';
+import { getArmiesAtCombatLocation } from './helpers';
+import { CombatPreview, LeaderRiskPreview } from './types';
+
+/**
+ * Preview a battle: strengths, odds, expected losses, leader risk and siege cost
+ */
+export const buildCombatPreview = (state: GameState, combat: CombatState): CombatPreview => {
+    const ruleset = getActiveCombatRuleset(state);
+    const attackers = getArmiesAtCombatLocation(combat.attackerFaction, state.armies, combat);
+    const defenders = getArmiesAtCombatLocation(combat.defenderFaction, state.armies, combat);
+    const attackerTroops = attackers.reduce((s, a) => s + a.strength, 0);
+    const defenderTroops = defenders.reduce((s, a) => s + a.strength, 0);
+
+    const strengths = getFightStrengths(combat, state.armies, state.characters);
+    const attackerWinProbability = getAttackerWinProbability(strengths.attackerStrength, strengths.defenderStrength, ruleset);
+    const losses = getExpectedLosses(strengths, attackerTroops, defenderTroops, ruleset);
+
+    const leaderRisks = (armies: Army[], isAttacker: boolean): LeaderRiskPreview[] => {
+        const defeatChance = isAttacker ? 1 - attackerWinProbability : attackerWinProbability;
+        const armyIds = armies.map(a => a.id);
+
+        return state.characters
+            .filter(c => c.armyId && armyIds.includes(c.armyId))
+            .map(leader => {
+                const canEscape = state.locations.some(l => l.faction === leader.faction);
+                const survivalChance = canEscape
+                    ? calculateSurvivalChance(leader, isAttacker, !isAttacker, combat, state.locations)
+                    : 0;
+                return {
+                    leaderId: leader.id,
+                    name: leader.name,
+                    survivalChanceIfDefeated: survivalChance,
+                    deathRisk: defeatChance * (1 - survivalChance)
+                };
+            });
+    };
+
+    const fortificationLevel = getCombatFortificationLevel(combat, state.locations, state.roads);
+    const siegeCost = SIEGE_COSTS[fortificationLevel] ?? 0;
+
+    return {
+        ruleset,
+        attacker: {
+            faction: combat.attackerFaction,
+            troops: attackerTroops,
+            strength: strengths.attackerStrength,
+            expectedLosses: losses.attacker,
+            leaders: leaderRisks(attackers, true)
+        },
+        defender: {
+            faction: combat.defenderFaction,
+            troops: defenderTroops,
+            strength: strengths.defenderStrength,
+            expectedLosses: losses.defender,
+            leaders: leaderRisks(defenders, false)
+        },
+        defenseBonus: combat.defenseBonus,
+        effectiveDefense: strengths.effectiveDefense,
+        attackerWinProbability,
+        siege: {
+            available: fortificationLevel > 0,
+            fortificationLevel,
+            cost: siegeCost,
+            requiredMen: getSiegeRequiredMen(fortificationLevel),
+            affordable: (state.resources[combat.attackerFaction]?.gold ?? 0) >= siegeCost
+        }
+    };
+};
@@ -0,0 +1,124 @@
+// Combat Ruleset - Decides who wins a battle and what the winner loses
+
+import { Army, Character, CombatRuleset, CombatState, COMBAT_RULESETS, DEFAULT_COMBAT_RULESET, GameState } from '../../types';
+import { MapRegistry } from '../../maps/MapRegistry';
+import { MapId } from '../../maps/types';
+import { random } from '../rng/gameRng';
+import { calculateCombatStrength } from './powerCalculation';
+import { getArmiesAtCombatLocation } from './helpers';
+
+// PROBABILISTIC: win chance is att^k / (att^k + def^k), so 2:1 odds win ~89% of the time
+const WIN_CHANCE_SHARPNESS = 3;
+
+// PROBABILISTIC: winner losses are the deterministic losses times a factor drawn in this range (mean 1)
+const MIN_LOSS_FACTOR = 0.5;
+const MAX_LOSS_FACTOR = 1.5;
+
+// Defenders under this many troops do not benefit from fortifications
+const MIN_TROOPS_FOR_DEFENSE_BONUS = 500;
+
+export interface BattleOutcome {
+    attackerWins: boolean;
+    winnerLosses: number;
+}
+
+export interface FightStrengths {
+    attackerStrength: number;
+    defenderStrength: number;
+    effectiveDefense: number; // Fortification bonus actually applied to the defenders
+}
+
+/**
+ * Ruleset declared by a map (DEFAULT_COMBAT_RULESET if none)
+ */
+export function getMapCombatRuleset(mapId?: string): CombatRuleset {
+    return MapRegistry.get((mapId || 'larion_alternate') as MapId).combatRuleset ?? DEFAULT_COMBAT_RULESET;
+}
+
+/**
+ * Ruleset of a new game: the lobby's pick, else the map's
+ */
+export function resolveCombatRuleset(mapId: string | undefined, selected?: CombatRuleset): CombatRuleset {
+    return selected && COMBAT_RULESETS.includes(selected) ? selected : getMapCombatRuleset(mapId);
+}
+
+/**
+ * Ruleset of a game: the one stored on the state, else the map's
+ */
+export function getActiveCombatRuleset(state: Pick<GameState, 'combatRuleset' | 'mapId'>): CombatRuleset {
+    return resolveCombatRuleset(state.mapId, state.combatRuleset);
+}
+
+/**
+ * Chance that the attackers win, given both combat strengths
+ */
+export const getAttackerWinProbability = (attStr: number, defStr: number, ruleset: CombatRuleset): number => {
+    if (ruleset !== 'PROBABILISTIC') return attStr > defStr ? 1 : 0;
+    if (attStr <= 0) return 0;
+    if (defStr <= 0) return 1;
+
+    const att = Math.pow(attStr, WIN_CHANCE_SHARPNESS);
+    const def = Math.pow(defStr, WIN_CHANCE_SHARPNESS);
+    return att / (att + def);
+};
+
+/**
+ * Decide a battle. The loser is always wiped out; the winner loses the loser's strength
+ * (minus the fortification bonus when the defenders win), randomly scaled with PROBABILISTIC.
+ * DETERMINISTIC draws nothing from the game RNG.
+ */
+export const resolveBattleOutcome = (
+    attStr: number,
+    defStr: number,
+    defenseBonus: number,
+    ruleset: CombatRuleset = DEFAULT_COMBAT_RULESET
+): BattleOutcome => {
+    if (ruleset !== 'PROBABILISTIC') {
+        const attackerWins = attStr > defStr;
+        return { attackerWins, winnerLosses: attackerWins ? defStr : Math.max(0, attStr - defenseBonus) };
+    }
+
+    const attackerWins = random() < getAttackerWinProbability(attStr, defStr, ruleset);
+    const baseLosses = attackerWins ? defStr : Math.max(0, attStr - defenseBonus);
+    const lossFactor = MIN_LOSS_FACTOR + random() * (MAX_LOSS_FACTOR - MIN_LOSS_FACTOR);
+    return { attackerWins, winnerLosses: Math.round(baseLosses * lossFactor) };
+};
+
+/**
+ * Troops each side loses on average when the battle is fought (the loser is wiped out)
+ */
+export const getExpectedLosses = (
+    strengths: FightStrengths,
+    attackerTroops: number,
+    defenderTroops: number,
+    ruleset: CombatRuleset
+): { attacker: number; defender: number } => {
+    const { attackerStrength: attStr, defenderStrength: defStr, effectiveDefense } = strengths;
+    const p = getAttackerWinProbability(attStr, defStr, ruleset);
+    // The PROBABILISTIC loss factor averages to 1 as well
+    const attackerIfWin = Math.min(attackerTroops, defStr);
+    const defenderIfWin = Math.min(defenderTroops, Math.max(0, attStr - effectiveDefense));
+
+    return {
+        attacker: Math.round(p * attackerIfWin + (1 - p) * attackerTroops),
+        defender: Math.round(p * defenderTroops + (1 - p) * defenderIfWin)
+    };
+};
+
+/**
+ * Strengths of a FIGHT choice (insurgents ignore fortifications, and so do tiny garrisons)
+ */
+export const getFightStrengths = (combat: CombatState, armies: Army[], characters: Character[]): FightStrengths => {
+    const attackers = getArmiesAtCombatLocation(combat.attackerFaction, armies, combat);
+    const defenders = getArmiesAtCombatLocation(combat.defenderFaction, armies, combat);
+
+    const defenseVal = combat.isInsurgentBattle ? 0 : combat.defenseBonus;
+    const rawDefTroops = defenders.reduce((s, a) => s + a.strength, 0);
+    const effectiveDefense = rawDefTroops >= MIN_TROOPS_FOR_DEFENSE_BONUS ? defenseVal : 0;
+
+    return {
+        attackerStrength: calculateCombatStrength(attackers, characters, 0),
+        defenderStrength: calculateCombatStrength(defenders, characters, effectiveDefense),
+        effectiveDefense
+    };
+};
@@ -1,14 +1,16 @@
 // Fight Resolver - Handles direct combat (FIGHT choice)
 
-import { GameState, Army, Character, Location, Road, CombatState, FactionId, GameStats, CharacterStatus, GovernorPolicy } from '../../types';
+import { GameState, Army, Character, Location, Road, CombatState, FactionId, GameStats, CharacterStatus, GovernorPolicy, CombatRuleset, DEFAULT_COMBAT_RULESET } from '../../types';
 import { FORTIFICATION_LEVELS } from '../../constants';
-import { applySequentialLosses, calculateCombatStrength } from './powerCalculation';
+import { applySequentialLosses } from './powerCalculation';
+import { getFightStrengths, resolveBattleOutcome } from './combatRuleset';
 import { processLeaderSurvival } from './leaderSurvival';
 import { processOrphanedLeaders } from './orphanedLeaders';
 import { getArmiesAtCombatLocation, getLocationName } from './helpers';
 import { isMakeExamplesActive, processMakeExamples } from '../domain/governor/makeExamples';
 import { validateGovernorStatus } from '../domain/governor/governorService';
 import { handleLeaderStatusOnCapture } from '../turnLogic/leaderStatusUpdates';
+import { recordBattle } from '../domain/stats';
 
 import { StructuredLogData } from './types';
 
@@ -32,7 +34,8 @@ export const resolveFight = (
     locations: Location[],
     roads: Road[],
     stats: GameStats,
-    turn: number = 0
+    turn: number = 0,
+    ruleset: CombatRuleset = DEFAULT_COMBAT_RULESET
 ): FightResult => {
     let newArmies = [...armies];
     let newCharacters = [...characters];
@@ -45,14 +48,9 @@ export const resolveFight = (
     const actualAttackers = getArmiesAtCombatLocation(combat.attackerFaction, newArmies, combat);
     const actualDefenders = getArmiesAtCombatLocation(combat.defenderFaction, newArmies, combat);
 
-    const attStr = calculateCombatStrength(actualAttackers, newCharacters, 0);
-
-    const defenseVal = combat.isInsurgentBattle ? 0 : combat.defenseBonus;
-    const rawDefTroops = actualDefenders.reduce((s, a) => s + a.strength, 0);
-    const effectiveDefense = rawDefTroops >= 500 ? defenseVal : 0;
-    const defStr = calculateCombatStrength(actualDefenders, newCharacters, effectiveDefense);
-
-    const attWin = attStr > defStr;
+    const { attackerStrength: attStr, defenderStrength: defStr, effectiveDefense } = getFightStrengths(combat, newArmies, newCharacters);
+    const { attackerWins: attWin, winnerLosses } = resolveBattleOutcome(attStr, defStr, effectiveDefense, ruleset);
+    newStats = recordBattle(newStats, combat.attackerFaction, combat.defenderFaction, attWin);
     const locationName = getLocationName(combat, locations, roads);
     const logLocationParam = combat.locationId || locationName;
 
@@ -74,7 +72,7 @@ export const resolveFight = (
         // Death Toll: All defenders lost
         newStats.deathToll += actualDefenders.reduce((sum, a) => sum + a.strength, 0);
 
-        const losses = defStr;
+        const losses = winnerLosses;
         // Death Toll: Attackers lose `losses` (or max strength if fewer)
         const totalAttackerStrength = actualAttackers.reduce((sum, a) => sum + a.strength, 0);
         newStats.deathToll += Math.min(totalAttackerStrength, losses);
@@ -197,7 +195,7 @@ export const resolveFight = (
         // Death Toll: All attackers lost
         newStats.deathToll += actualAttackers.reduce((sum, a) => sum + a.strength, 0);
 
-        const losses = Math.max(0, attStr - effectiveDefense);
+        const losses = winnerLosses;
         const totalDefenderStrength = actualDefenders.reduce((sum, a) => sum + a.strength, 0);
         newStats.deathToll += Math.min(totalDefenderStrength, losses);
 
@@ -13,7 +13,23 @@ export { applySequentialLosses, calculateCombatStrength } from './powerCalculati
 export { getRetreatPosition } from './retreatLogic';
 
 // Leader Survival
-export { processLeaderSurvival } from './leaderSurvival';
+export { processLeaderSurvival, calculateSurvivalChance } from './leaderSurvival';
+
+// Combat Ruleset
+export {
+    getMapCombatRuleset,
+    resolveCombatRuleset,
+    getActiveCombatRuleset,
+    getAttackerWinProbability,
+    resolveBattleOutcome,
+    getExpectedLosses,
+    getFightStrengths,
+    type BattleOutcome,
+    type FightStrengths
+} from './combatRuleset';
+
+// Combat Preview
+export { buildCombatPreview } from './combatPreview';
 
 // Fight Resolution
 export { resolveFight, type FightResult } from './fightResolver';
@@ -22,7 +38,12 @@ export { resolveFight, type FightResult } from './fightResolver';
 export { handleAttackerRetreat, handleDefenderRetreatToCity, type RetreatResult } from './retreatHandler';
 
 // Siege Handling
-export { handleSiege, type SiegeResult } from './siegeHandler';
+export {
+    handleSiege,
+    getSiegeRequiredMen,
+    getCombatFortificationLevel,
+    type SiegeResult
+} from './siegeHandler';
 
 // AI Battle Cascade
 export { resolveAIBattleCascade, getPlayerBattles, type CascadeResult } from './aiBattleCascade';
@@ -2,6 +2,7 @@
 
 import { Character, CharacterStatus, CombatState, LocationType, Location } from '../../types';
 import { LeaderSurvivalResult } from './types';
+import { random, randomChoice } from '../rng/gameRng';
 
 /**
  * Survival chances based on combat context:
@@ -50,12 +51,12 @@ export const processLeaderSurvival = (
                 locations
             );
 
-            if (Math.random() < survivalChance) {
+            if (random() < survivalChance) {
                 // Leader survives - escape to friendly territory
                 const escapeLocs = locations.filter(l => l.faction === leader.faction);
 
                 if (escapeLocs.length > 0) {
-                    const target = escapeLocs[Math.floor(Math.random() * escapeLocs.length)];
+                    const target = randomChoice(escapeLocs);
                     updatedCharacters = updatedCharacters.map(c =>
                         c.id === leader.id
                             ? { ...c, status: CharacterStatus.AVAILABLE, armyId: null, locationId: target.id }
@@ -100,8 +101,9 @@ export const processLeaderSurvival = (
 
 /**
  * Calculate survival chance based on combat context.
+ * Leaders of the losing side only (escape still needs a friendly location).
  */
-function calculateSurvivalChance(
+export function calculateSurvivalChance(
     leader: Character,
     isAttacker: boolean,
     attackerWon: boolean,
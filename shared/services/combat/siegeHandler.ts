@@ -10,6 +10,24 @@ import {
 } from './helpers';
 
 import { StructuredLogData } from './types';
+import { randomId } from '../rng/gameRng';
+
+/** Men the siege force needs against a fortification level */
+export const getSiegeRequiredMen = (fortificationLevel: number): number =>
+    fortificationLevel >= 3 ? 1000 : 500;
+
+/**
+ * Fortification level at the combat position (location or road stage)
+ */
+export const getCombatFortificationLevel = (combat: CombatState, locations: Location[], roads: Road[]): number => {
+    if (combat.locationId) {
+        return locations.find(l => l.id === combat.locationId)?.fortificationLevel ?? 0;
+    }
+    if (combat.roadId && combat.stageIndex !== undefined) {
+        return roads.find(r => r.id === combat.roadId)?.stages.find(s => s.index === combat.stageIndex)?.fortificationLevel ?? 0;
+    }
+    return 0;
+};
 
 export interface SiegeResult {
     armies: Army[];
@@ -54,8 +72,7 @@ export const handleSiege = (
 
     if (combat.locationId) {
         const loc = locations.find(l => l.id === combat.locationId);
-        const curLevel = loc ? loc.fortificationLevel : 0;
-        const reqMen = curLevel >= 3 ? 1000 : 500;
+        const reqMen = getSiegeRequiredMen(getCombatFortificationLevel(combat, locations, roads));
 
         const sortedAttackers = newArmies.filter(a => attIds.includes(a.id)).sort((a, b) => b.strength - a.strength);
 
@@ -75,7 +92,7 @@ export const handleSiege = (
             if (sieger.strength > reqMen) {
                 // Split army: siege force + remainder
                 const remainder = sieger.strength - reqMen;
-                const siegeArmyId = `siege_force_${Date.now()}`;
+                const siegeArmyId = `siege_force_${randomId()}`;
                 const siegeTargetId = combat.locationId || combat.roadId;
 
                 // Siege army retreats to build siege weapons
@@ -183,9 +200,7 @@ export const handleSiege = (
     } else if (combat.roadId && combat.stageIndex !== undefined) {
         // Road siege - same split logic as location sieges
         const road = roads.find(r => r.id === combat.roadId);
-        const stage = road?.stages.find(s => s.index === combat.stageIndex);
-        const curLevel = stage ? stage.fortificationLevel : 0;
-        const reqMen = curLevel >= 3 ? 1000 : 500;
+        const reqMen = getSiegeRequiredMen(getCombatFortificationLevel(combat, locations, roads));
         const attIds = combat.attackers.map(a => a.id);
         const sortedAttackers = newArmies.filter(a => attIds.includes(a.id)).sort((a, b) => b.strength - a.strength);
 
@@ -233,7 +248,7 @@ export const handleSiege = (
             if (sieger.strength > reqMen) {
                 // Split army: siege force + remainder
                 const remainder = sieger.strength - reqMen;
-                const siegeArmyId = `siege_force_${Date.now()}`;
+                const siegeArmyId = `siege_force_${randomId()}`;
 
                 // Siege army retreats to build siege weapons
                 const siegeArmy: Army = {
@@ -1,6 +1,6 @@
 // Combat Types - Interfaces for combat resolution
 
-import { GameState, Army, Character, CombatState, FactionId, Road, Location } from '../../types';
+import { GameState, Army, Character, CombatState, CombatRuleset, FactionId, Road, Location } from '../../types';
 
 /**
  * Context object passed to combat helper functions
@@ -52,3 +52,48 @@ export interface SiegeResult {
     resources: GameState['resources'];
     logMessage: string;
 }
+
+/**
+ * Risk a leader attached to an engaged army runs if the battle is fought
+ */
+export interface LeaderRiskPreview {
+    leaderId: string;
+    name: string;
+    survivalChanceIfDefeated: number; // 0..1, escape included
+    deathRisk: number;                // 0..1, counting the chance of losing
+}
+
+/**
+ * One side of a battle as the engine sees it
+ */
+export interface CombatSidePreview {
+    faction: FactionId;
+    troops: number;          // Men engaged
+    strength: number;        // calculateCombatStrength (leaders' commandBonus, defenders' fortification)
+    expectedLosses: number;  // Men lost on average if the battle is fought
+    leaders: LeaderRiskPreview[];
+}
+
+/**
+ * What building siege engines would cost the attacker (SIEGE choice)
+ */
+export interface SiegePreview {
+    available: boolean;      // The position is fortified
+    fortificationLevel: number;
+    cost: number;            // Gold
+    requiredMen: number;     // Size of the siege force split off the largest attacking army
+    affordable: boolean;     // Attacker's treasury covers the cost
+}
+
+/**
+ * Numbers behind a combat choice, sent with combat_choice_requested
+ */
+export interface CombatPreview {
+    ruleset: CombatRuleset;
+    attacker: CombatSidePreview;
+    defender: CombatSidePreview;
+    defenseBonus: number;                 // Fortification bonus of the position
+    effectiveDefense: number;             // Bonus actually applied (0 for insurgents or under 500 defenders)
+    attackerWinProbability: number;       // 0..1 (exactly 0 or 1 with the DETERMINISTIC ruleset)
+    siege: SiegePreview;
+}
@@ -1,10 +1,12 @@
 
 
 
-import { CombatState, Army, Location, Road, FactionId } from '../types';
+import { CombatState, Army, Location, Road, FactionId, DiplomaticAgreement } from '../types';
 import { FORTIFICATION_LEVELS } from '../constants';
+import { arePacted } from './domain/politics/agreements';
 
-export const detectBattles = (locations: Location[], armies: Army[], roads: Road[]): CombatState[] => {
+// Factions bound by a non-aggression pact never fight each other (GameState.agreements)
+export const detectBattles = (locations: Location[], armies: Army[], roads: Road[], agreements: DiplomaticAgreement[] = []): CombatState[] => {
     const battles: CombatState[] = [];
 
     // 1. Check Locations (Cities & Rural)
@@ -63,6 +65,10 @@ export const detectBattles = (locations: Location[], armies: Army[], roads: Road
             }
 
             invaderFactions.forEach(attackerFaction => {
+                // Insurgents answer to no treaty
+                const isInsurgentAttack = insurgentArmies.some(a => a.faction === attackerFaction);
+                if (!isInsurgentAttack && arePacted(agreements, attackerFaction, defenderFaction)) return;
+
                 // STRICT FILTERING: Only include armies belonging to the designated attacker or defender.
                 // Third parties wait for the next resolution cycle.
                 // Fix Anomaly (Siege Loop): Ignore GARRISONED invaders, UNLESS they are Insurgents (who must fight).
@@ -139,6 +145,8 @@ export const detectBattles = (locations: Location[], armies: Army[], roads: Road
                 const invaderFactions = factions.filter(f => f !== finalDefenderFac);
 
                 invaderFactions.forEach(attackerFac => {
+                    if (arePacted(agreements, attackerFac, finalDefenderFac)) return;
+
                     // Fix Anomaly (COMBAT SUR LES ROUTES 1): Defense Bonus Application
                     // User Rule: Defender ALWAYS benefits from fortifications and natural defense.
                     // Ownership of the stage is not required to use the walls if you are holding the ground.
@@ -2,14 +2,40 @@
  * Attack Tax Convoys - Clandestine Action
  * 
  * Logic for attacking tax convoys to steal gold.
+ * With the CENTRAL treasury the tax convoys are abstract (the loot is capped by the city's income);
+ * with the PHYSICAL treasury the agents rob the gold convoys on the roads around the region.
  */
 
-import { Character, Location, LogEntry, LogType, LogSeverity, FactionId, LocationType } from '../../../types';
+import { Character, Convoy, Location, LogEntry, LogType, LogSeverity, FactionId, LocationType, Road } from '../../../types';
+import { random, randomInt } from '../../rng/gameRng';
 
 export interface AttackTaxConvoysResult {
     stolenAmount: number;
     log?: LogEntry;  // Primary success log for leader
     warningLog?: LogEntry; // Warning log for victim
+    robbedConvoys?: { convoyId: string; amount: number }[]; // PHYSICAL treasury: gold taken from each convoy
+}
+
+/**
+ * Enemy convoys carrying gold on a road that touches the region (or its linked area)
+ */
+export function getAttackableTaxConvoys(
+    leader: Character,
+    location: Location,
+    convoys: Convoy[],
+    roads: Road[]
+): Convoy[] {
+    const regionIds = [location.id, location.linkedLocationId].filter((id): id is string => !!id);
+    const nearbyRoadIds = new Set(
+        roads.filter(r => regionIds.includes(r.from) || regionIds.includes(r.to)).map(r => r.id)
+    );
+
+    return convoys.filter(c =>
+        c.faction !== leader.faction &&
+        (c.goldAmount ?? 0) > 0 &&
+        c.roadId !== null &&
+        nearbyRoadIds.has(c.roadId)
+    );
 }
 
 /**
@@ -21,18 +47,20 @@ export function shouldDisableAttackTaxConvoys(leaderBudget: number): boolean {
 
 /**
  * Process the Attack Tax Convoys action
+ * @param taxConvoys - PHYSICAL treasury: the convoys that can be robbed (see getAttackableTaxConvoys)
  */
 export function processAttackTaxConvoys(
     leader: Character,
     location: Location,
     locations: Location[],
-    turn: number
+    turn: number,
+    taxConvoys?: Convoy[]
 ): AttackTaxConvoysResult {
     const clandestineLevel = leader.stats.clandestineOps || 1;
 
     // 1. Success Chance: 10% * Clandestine Level
     const chance = 0.10 * clandestineLevel;
-    const roll = Math.random();
+    const roll = random();
 
     if (roll >= chance) {
         return { stolenAmount: 0 };
@@ -51,18 +79,33 @@ export function processAttackTaxConvoys(
 
     // 3. Calculate Stolen Amount
     // Random amount [1, 5] * Clandestine Level
-    const randomBase = Math.floor(Math.random() * 5) + 1; // 1 to 5
+    const randomBase = randomInt(5) + 1; // 1 to 5
     const potentialAmount = randomBase * clandestineLevel;
 
-    // Cap at target location income
-    const maxAmount = Math.max(0, targetLocation.goldIncome);
+    // Cap at target location income, or at the gold the convoys actually carry
+    const maxAmount = taxConvoys
+        ? taxConvoys.reduce((sum, c) => sum + (c.goldAmount ?? 0), 0)
+        : Math.max(0, targetLocation.goldIncome);
     const stolenAmount = Math.min(potentialAmount, maxAmount);
 
     if (stolenAmount <= 0) {
         return { stolenAmount: 0 };
     }
 
-    const controllerFaction = location.faction;
+    // Take the loot from the convoys one after the other
+    let robbedConvoys: AttackTaxConvoysResult['robbedConvoys'];
+    if (taxConvoys) {
+        let remaining = stolenAmount;
+        robbedConvoys = [];
+        for (const convoy of taxConvoys) {
+            if (remaining <= 0) break;
+            const amount = Math.min(remaining, convoy.goldAmount ?? 0);
+            robbedConvoys.push({ convoyId: convoy.id, amount });
+            remaining -= amount;
+        }
+    }
+
+    const controllerFaction = taxConvoys?.[0]?.faction ?? location.faction;
 
     // 4. Generate Logs
 
@@ -80,7 +123,7 @@ export function processAttackTaxConvoys(
 
     // Warning Log for Victim (50% Chance)
     let warningLog: LogEntry | undefined;
-    if (Math.random() < 0.5) {
+    if (random() < 0.5) {
         warningLog = {
             id: `attack-tax-warning-${turn}-${leader.id}`,
             // LogType.WARNING does not exist, using ECONOMY as it relates to tax convoys
@@ -101,6 +144,7 @@ export function processAttackTaxConvoys(
     return {
         stolenAmount,
         log: successLog,
-        warningLog
+        warningLog,
+        robbedConvoys
     };
 }
@@ -5,6 +5,7 @@
  */
 
 import { Character, Location, LogEntry, LogType, LogSeverity, FactionId, CharacterStatus, ClandestineActionId } from '../../../types';
+import { random, randomInt } from '../../rng/gameRng';
 
 export interface BurnOperationResult {
     burnedAmount: number;
@@ -65,12 +66,12 @@ export function processBurnOperation(
     chancePercent = Math.max(0, chancePercent);
 
     // Roll (0-100)
-    const roll = Math.random() * 100;
+    const roll = random() * 100;
 
     if (roll > chancePercent) {
         // FAILURE
         // 50% chance of identification -> Resentment +30
-        const identified = Math.random() < 0.5;
+        const identified = random() < 0.5;
         if (identified) {
             return {
                 burnedAmount: 0,
@@ -108,7 +109,7 @@ export function processBurnOperation(
 
     // Calculate Burned Amount
     // Rand(1, 5) * Clandestine Level
-    const randomBase = Math.floor(Math.random() * 5) + 1;
+    const randomBase = randomInt(5) + 1;
     let amount = randomBase * clandestineLevel;
 
     // Cap at 15
@@ -23,6 +23,7 @@ import {
     calculateDetectionThreshold,
     calculateCaptureRisk
 } from './detectionLevelService';
+import { nextTick } from '../../rng/gameRng';
 
 // ============================================================================
 // TYPES
@@ -67,7 +68,7 @@ export function addLeaderAlertEvent(
 ): Character {
     const newEvent: LeaderAlertEvent = {
         ...event,
-        timestamp: Date.now()
+        timestamp: nextTick()
     };
 
     const existingEvents = character.pendingAlertEvents || [];
@@ -200,7 +201,7 @@ export function buildClandestineAlerts(
                     leaderId: leader.id
                 },
                 targetFaction: playerFaction,
-                timestamp: Date.now()
+                timestamp: nextTick()
             });
         }
 
@@ -283,7 +284,7 @@ export function createInfiltrationEvent(
             leaderId: leader.id
         },
         targetFaction: leader.faction,
-        timestamp: Date.now()
+        timestamp: nextTick()
     };
 }
 
@@ -307,7 +308,7 @@ export function createHuntNetworksEvent(
             locationId: location.id
         },
         targetFaction: leader.faction,
-        timestamp: Date.now()
+        timestamp: nextTick()
     };
 }
 
@@ -344,7 +345,7 @@ export function createThresholdExceededEvent(
             leaderId: leader.id
         },
         targetFaction: leader.faction,
-        timestamp: Date.now()
+        timestamp: nextTick()
     };
 }
 
@@ -372,7 +373,7 @@ export function createParanoidGovernorEvent(
             governorId: governorId
         },
         targetFaction: leader.faction,
-        timestamp: Date.now()
+        timestamp: nextTick()
     };
 }
 
@@ -400,7 +401,7 @@ export function createCombinedParanoidHuntEvent(
             governorId: governorId
         },
         targetFaction: leader.faction,
-        timestamp: Date.now()
+        timestamp: nextTick()
     };
 }
 
@@ -431,7 +432,7 @@ export function createExecutionEvent(
             locationId: location.id
         },
         targetFaction: leader.faction,
-        timestamp: Date.now(),
+        timestamp: nextTick(),
         locationId: location.id
     };
 }
@@ -461,7 +462,7 @@ export function createEscapeEvent(
         subMessageKey: 'clandestineAlerts.escapeSub',
         subMessageParams: {},
         targetFaction: leader.faction,
-        timestamp: Date.now(),
+        timestamp: nextTick(),
         locationId: oldLocation.id // Incident happened at oldLocation
     };
 }
@@ -12,7 +12,7 @@
  * @see ./insurrectionFormulas.ts - Centralized formulas for insurgent estimation
  */
 
-import { Character, Location, LogEntry, CharacterStatus, LogSeverity, LogType, FactionId, Army } from '../../../types';
+import { Character, Location, LogEntry, CharacterStatus, LogSeverity, LogType, FactionId, Army, Convoy, Road } from '../../../types';
 import { CLANDESTINE_ACTION_COSTS, ActiveClandestineAction, ClandestineActionId, CLANDESTINE_ACTIONS } from '../../../types/clandestineTypes';
 import { processUndermineAuthorities, shouldDisableUndermineAuthorities } from './undermineAuthorities';
 import { processDistributePamphlets, shouldDisableDistributePamphlets } from './distributePamphlets';
@@ -34,7 +34,7 @@ import {
     createExecutionEvent,
     createEscapeEvent
 } from './clandestineAlertService';
-import { processAttackTaxConvoys, shouldDisableAttackTaxConvoys } from './attackTaxConvoys';
+import { processAttackTaxConvoys, shouldDisableAttackTaxConvoys, getAttackableTaxConvoys } from './attackTaxConvoys';
 import { processStealFromGranaries, shouldDisableStealFromGranaries } from './stealFromGranaries';
 import { processBurnOperation, shouldDisableBurnOperation } from './burnOperations';
 import { processInciteNeutralInsurrections, shouldDisableInciteNeutralInsurrections } from './inciteNeutralInsurrections';
@@ -42,6 +42,7 @@ import { processPrepareGrandInsurrection } from './prepareGrandInsurrection';
 import { isTargetAccessible, calculateAssassinationChance } from './assassinateLeader';
 import { consolidateClandestineLogs, BufferedLog } from './clandestineLogConsolidator';
 import { hasScorchedEarth, getScorchedEarthActions, isActionForcedByScorchedEarth } from './scorchedEarth';
+import { random, randomChoice } from '../../rng/gameRng';
 
 /**
  * Result of processing clandestine actions
@@ -52,7 +53,17 @@ export interface ClandestineProcessingResult {
     logs: LogEntry[];
     resourceUpdates: Record<FactionId, number>; // Gold to add to factions (e.g., seized budget)
     newArmies?: Army[]; // Armies generated (e.g. insurgents)
+    insurrections?: { triggeredBy: FactionId; targetFaction: FactionId }[]; // Uprisings started this turn
     armies?: Army[]; // Full list of armies if modified (e.g. by combat)
+    convoys?: Convoy[]; // Full list of convoys when a physical treasury was given
+}
+
+/**
+ * PHYSICAL treasury: the convoys and roads ATTACK_TAX_CONVOYS robs real gold convoys on
+ */
+export interface PhysicalTreasuryContext {
+    convoys: Convoy[];
+    roads: Road[];
 }
 
 /**
@@ -194,14 +205,17 @@ function validateAndCleanupClandestineStates(
 
 /**
  * Process all active clandestine actions.
+ * @param physicalTreasury - Convoys and roads of a PHYSICAL treasury game (omit with the CENTRAL treasury)
  */
 export function processClandestineActions(
     characters: Character[],
     locations: Location[],
     armies: Army[],
-    turn: number
+    turn: number,
+    physicalTreasury?: PhysicalTreasuryContext
 ): ClandestineProcessingResult {
     const logs: LogEntry[] = [];
+    let updatedConvoys = physicalTreasury?.convoys;
     const resourceUpdates: Record<FactionId, number> = {
         [FactionId.NOBLES]: 0,
         [FactionId.CONSPIRATORS]: 0,
@@ -217,6 +231,7 @@ export function processClandestineActions(
         [FactionId.LARION_EXPEDITION]: 0
     };
     const newArmies: Army[] = [];
+    const insurrections: { triggeredBy: FactionId; targetFaction: FactionId }[] = [];
 
     // Log Buffer for consolidation
     const logBuffer = new Map<string, Map<string, BufferedLog[]>>();
@@ -434,14 +449,14 @@ export function processClandestineActions(
         const riskProbability = captureRisk / 100;
 
         // Roll dice (0.0 to 1.0)
-        const roll = Math.random();
+        const roll = random();
 
         if (roll < riskProbability) {
             // CAUGHT! (Code omitted for brevity - logic remains same as original but emitted to `logs` directly as these are events)
             const leaderBudget = leader.clandestineBudget || leader.budget || 0;
             const controllerFaction = location.faction;
             const isDaredevil = leader.stats.ability.includes('DAREDEVIL');
-            const escapes = isDaredevil && Math.random() < 0.5;
+            const escapes = isDaredevil && random() < 0.5;
 
             if (leaderBudget > 0) {
                 resourceUpdates[controllerFaction] = (resourceUpdates[controllerFaction] || 0) + leaderBudget;
@@ -451,7 +466,7 @@ export function processClandestineActions(
             if (escapes) {
                 const friendlyLocations = updatedLocations.filter(l => l.faction === leader.faction);
                 const escapeLoc = friendlyLocations.length > 0
-                    ? friendlyLocations[Math.floor(Math.random() * friendlyLocations.length)]
+                    ? randomChoice(friendlyLocations)
                     : null;
 
                 if (escapeLoc) {
@@ -645,7 +660,7 @@ export function processClandestineActions(
                     // So this runs for turns 0, 1, 2.
                     if (!action.isRevealed && turnsElapsed < 3) {
                         // Roll for reveal
-                        if (Math.random() < 0.33) {
+                        if (random() < 0.33) {
                             action.isRevealed = true;
                             // Generate Warning Log for Victim Faction
                             const targetId = action.targetLeaderId;
@@ -720,7 +735,7 @@ export function processClandestineActions(
                         enemySoldiers
                     );
 
-                    const roll = Math.random() * 100;
+                    const roll = random() * 100;
                     if (roll <= chance) {
                         const targetIndex = updatedCharacters.findIndex(c => c.id === targetId);
                         if (targetIndex !== -1) {
@@ -782,10 +797,21 @@ export function processClandestineActions(
                         actionsToRemove.push(action.actionId);
                         break;
                     }
-                    const result = processAttackTaxConvoys(leader, location, locations, turn);
+                    const taxConvoys = updatedConvoys && physicalTreasury
+                        ? getAttackableTaxConvoys(leader, location, updatedConvoys, physicalTreasury.roads)
+                        : undefined;
+                    const result = processAttackTaxConvoys(leader, location, locations, turn, taxConvoys);
                     if (result.stolenAmount > 0) {
-                        const victimFaction = location.faction;
-                        resourceUpdates[victimFaction] = (resourceUpdates[victimFaction] || 0) - result.stolenAmount;
+                        if (result.robbedConvoys && updatedConvoys) {
+                            // The gold leaves the convoys instead of the victim's treasury
+                            const robbed = new Map(result.robbedConvoys.map(r => [r.convoyId, r.amount]));
+                            updatedConvoys = updatedConvoys.map(c =>
+                                robbed.has(c.id) ? { ...c, goldAmount: (c.goldAmount ?? 0) - robbed.get(c.id)! } : c
+                            );
+                        } else {
+                            const victimFaction = location.faction;
+                            resourceUpdates[victimFaction] = (resourceUpdates[victimFaction] || 0) - result.stolenAmount;
+                        }
                         leaderBudget += result.stolenAmount;
                         if (result.log) logs.push(result.log); // Attacker log
                         if (result.warningLog) {
@@ -917,7 +943,10 @@ export function processClandestineActions(
 
                         const result = processInciteNeutralInsurrections(leader, location, action, turn);
 
-                        if (result.newArmy) newArmies.push(result.newArmy);
+                        if (result.newArmy) {
+                            newArmies.push(result.newArmy);
+                            insurrections.push({ triggeredBy: leader.faction, targetFaction: location.faction });
+                        }
                         if (result.popDeduction) location = { ...location, population: Math.max(0, location.population - result.popDeduction) };
                         if (result.refund) {
                             resourceUpdates[leader.faction] = (resourceUpdates[leader.faction] || 0) + result.refund;
@@ -967,6 +996,7 @@ export function processClandestineActions(
                     }
                     if (result.newArmy) {
                         newArmies.push(result.newArmy);
+                        insurrections.push({ triggeredBy: leader.faction, targetFaction: location.faction });
                     }
                     if (result.log) {
                         // Grand Insurrection Log is CRITICAL for controller
@@ -1061,6 +1091,8 @@ export function processClandestineActions(
         logs,
         resourceUpdates,
         newArmies,
-        armies: currentArmies
+        insurrections,
+        armies: currentArmies,
+        convoys: updatedConvoys
     };
 }
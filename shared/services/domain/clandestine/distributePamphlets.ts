@@ -1,6 +1,7 @@
 import { Character, Location, LogEntry, LogSeverity, LogType, FactionId } from '../../../types';
 import { createClandestineSabotageWarningLog } from '../../logs/logFactory';
 import { LeaderStatLevel } from '../../../types/leaderTypes';
+import { random } from '../../rng/gameRng';
 
 export interface DistributePamphletsResult {
     location: Location;
@@ -58,7 +59,7 @@ export function processDistributePamphlets(
 
     // 2. Check for Warning Log (25% chance)
     let log: LogEntry | null = null;
-    if (Math.random() < 0.25) {
+    if (random() < 0.25) {
         log = createClandestineSabotageWarningLog(
             location.id,
             controllerFaction,
@@ -11,6 +11,7 @@ import { Character, Location, LogEntry, LogType, LogSeverity, FactionId, Army }
 import { ActiveClandestineAction } from '../../../types/clandestineTypes';
 import { isNeutralInsurrectionBlocked, createBlockedInsurrectionLog } from '../governor/makeExamples';
 import { createNeutralInsurrectionWarningLog } from '../../logs/logFactory';
+import { randomId } from '../../rng/gameRng';
 
 /**
  * Result of the incite neutral insurrections process
@@ -87,7 +88,7 @@ export function processInciteNeutralInsurrections(
 
     const duration = turn - turnStarted;
 
-    const uniqueId = Math.random().toString(36).substring(2, 9);
+    const uniqueId = randomId();
 
     // T1 (duration 1): Send Warning Log
     if (duration === 1) {
@@ -5,7 +5,7 @@
  */
 
 export { processClandestineActions } from './clandestineProcessor';
-export type { ClandestineProcessingResult } from './clandestineProcessor';
+export type { ClandestineProcessingResult, PhysicalTreasuryContext } from './clandestineProcessor';
 export { processUndermineAuthorities, shouldDisableUndermineAuthorities } from './undermineAuthorities';
 
 // Alert Service
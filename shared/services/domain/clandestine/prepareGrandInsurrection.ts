@@ -1,8 +1,9 @@
 import { Character, Location, Army, LogEntry, FactionId, LogType, LogSeverity, CharacterStatus } from '../../../types';
 import { ActiveClandestineAction, ClandestineActionId, CLANDESTINE_ACTIONS } from '../../../types/clandestineTypes';
 import { calculateCombatStrength, applySequentialLosses } from '../../combat/powerCalculation';
+import { randomId } from '../../rng/gameRng';
 
-const generateId = () => 'insurgency_' + Math.random().toString(36).substr(2, 9);
+const generateId = () => 'insurgency_' + randomId();
 
 /**
  * Result of the Prepare Grand Insurrection process
@@ -5,6 +5,7 @@
  */
 
 import { Character, Location, LogEntry, LogType, LogSeverity, LocationType } from '../../../types';
+import { random, randomInt } from '../../rng/gameRng';
 
 export interface StealFromGranariesResult {
     destroyedAmount: number;
@@ -33,7 +34,7 @@ export function processStealFromGranaries(
 
     // 1. Success Chance: 10% * Clandestine Level
     const chance = 0.10 * clandestineLevel;
-    const roll = Math.random();
+    const roll = random();
 
     if (roll >= chance) {
         return { destroyedAmount: 0 };
@@ -52,7 +53,7 @@ export function processStealFromGranaries(
 
     // 3. Calculate Destroyed Amount (Stealing implies consumption/removal)
     // Random amount [1, 5] * Clandestine Level
-    const randomBase = Math.floor(Math.random() * 5) + 1; // 1 to 5
+    const randomBase = randomInt(5) + 1; // 1 to 5
     const potentialAmount = randomBase * clandestineLevel;
 
     // Cap at target location food stock
@@ -82,7 +83,7 @@ export function processStealFromGranaries(
 
     // Warning Log for Victim (50% Chance)
     let warningLog: LogEntry | undefined;
-    if (Math.random() < 0.5) {
+    if (random() < 0.5) {
         warningLog = {
             id: `steal-grain-warning-${turn}-${leader.id}`,
             type: LogType.FAMINE, // Fits "Granaries"
@@ -10,6 +10,7 @@
 
 import { Character, Location, LogEntry } from '../../../types';
 import { createClandestineSabotageWarningLog } from '../../logs/logFactory';
+import { random } from '../../rng/gameRng';
 
 /**
  * Process Undermine Authorities effect for a single leader.
@@ -41,7 +42,7 @@ export function processUndermineAuthorities(
     // 25% chance to generate warning log for defender
     let warningLog: LogEntry | undefined;
 
-    if (Math.random() < 0.25) {
+    if (random() < 0.25) {
         warningLog = createClandestineSabotageWarningLog(
             location.id,
             location.faction,
@@ -0,0 +1,189 @@
+/**
+ * Convoy Routing - Multi-road routes for land convoys
+ *
+ * Routes run from rural to rural (a city's food leaves and arrives through its
+ * linked rural area). A convoy spends one turn per road stage, and one turn to
+ * cross a stageless road. Convoys check their remaining route every turn and
+ * re-route, or halt in place, when a location or stage on it is taken.
+ */
+
+import { Convoy, ConvoyRoutePreference, FactionId, Location, Road } from '../../types';
+
+export interface ConvoyRoute {
+    path: string[];                         // Road ids, in travel order
+    turns: number;                          // Turns until delivery
+    preference: ConvoyRoutePreference;      // Rule the route was found with
+}
+
+/**
+ * Turns a convoy spends on a whole road
+ */
+export const getRoadTransitTurns = (road: Road): number => Math.max(1, road.stages.length);
+
+// SAFEST only crosses the faction's own ground, SHORTEST also crosses neutral ground
+const canPass = (holder: FactionId | null | undefined, faction: FactionId, preference: ConvoyRoutePreference): boolean =>
+    !holder || holder === faction || (preference === 'SHORTEST' && holder === FactionId.NEUTRAL);
+
+// SAFEST also keeps away from fortifications the faction does not hold (even unclaimed ones)
+const canPassPosition = (
+    position: { faction?: FactionId | null; fortificationLevel?: number },
+    faction: FactionId,
+    preference: ConvoyRoutePreference
+): boolean =>
+    canPass(position.faction, faction, preference) &&
+    !(preference === 'SAFEST' && (position.fortificationLevel ?? 0) > 0 && position.faction !== faction);
+
+// Stages from `fromIndex` to the end the convoy is heading to (inclusive)
+const stagesAhead = (road: Road, fromIndex: number, direction: Convoy['direction']) =>
+    direction === 'FORWARD'
+        ? road.stages.filter(s => s.index >= fromIndex)
+        : road.stages.filter(s => s.index <= fromIndex);
+
+/**
+ * Cheapest route between two locations (Dijkstra on transit turns).
+ * Intermediate locations and every stage must be passable (for SAFEST: held by the
+ * faction or nobody, and not fortified by anyone else); the endpoints are always allowed.
+ */
+export function findConvoyRoute(
+    startId: string,
+    endId: string,
+    faction: FactionId,
+    locations: Location[],
+    roads: Road[],
+    preference: ConvoyRoutePreference = 'SAFEST',
+    excludedRoadIds: string[] = []
+): ConvoyRoute | null {
+    if (startId === endId) return { path: [], turns: 0, preference };
+
+    const locationsById = new Map(locations.map(l => [l.id, l]));
+    const usableRoads = roads.filter(r =>
+        !excludedRoadIds.includes(r.id) &&
+        r.stages.every(s => canPassPosition(s, faction, preference))
+    );
+
+    const best = new Map<string, { turns: number; path: string[] }>([[startId, { turns: 0, path: [] }]]);
+    const done = new Set<string>();
+
+    while (true) {
+        let currentId: string | null = null;
+        for (const [id, entry] of best) {
+            if (!done.has(id) && (currentId === null || entry.turns < best.get(currentId)!.turns)) currentId = id;
+        }
+        if (currentId === null) return null;
+
+        const current = best.get(currentId)!;
+        if (currentId === endId) return { path: current.path, turns: current.turns, preference };
+        done.add(currentId);
+
+        for (const road of usableRoads) {
+            if (road.from !== currentId && road.to !== currentId) continue;
+            const nextId = road.from === currentId ? road.to : road.from;
+            const next = locationsById.get(nextId);
+            if (done.has(nextId) || !next) continue;
+            if (nextId !== endId && !canPassPosition(next, faction, preference)) continue;
+
+            const turns = current.turns + getRoadTransitTurns(road);
+            if (!best.has(nextId) || turns < best.get(nextId)!.turns) {
+                best.set(nextId, { turns, path: [...current.path, road.id] });
+            }
+        }
+    }
+}
+
+/**
+ * Route for a convoy: SHORTEST when asked for, else the safest route,
+ * falling back to the shortest when no safe one exists
+ */
+export function planConvoyRoute(
+    startId: string,
+    endId: string,
+    faction: FactionId,
+    locations: Location[],
+    roads: Road[],
+    preference?: ConvoyRoutePreference,
+    excludedRoadIds: string[] = []
+): ConvoyRoute | null {
+    const rules: ConvoyRoutePreference[] = preference === 'SHORTEST' ? ['SHORTEST'] : ['SAFEST', 'SHORTEST'];
+    for (const rule of rules) {
+        const route = findConvoyRoute(startId, endId, faction, locations, roads, rule, excludedRoadIds);
+        if (route) return route;
+    }
+    return null;
+}
+
+/**
+ * Turns until a convoy delivers, following its path from its current stage
+ */
+export function getConvoyRemainingTurns(convoy: Convoy, roads: Road[]): number {
+    const road = roads.find(r => r.id === convoy.roadId);
+    if (!road) return 0;
+
+    const onRoad = convoy.direction === 'FORWARD' ? road.stages.length - convoy.stageIndex : convoy.stageIndex + 1;
+    const laterRoads = (convoy.path ?? []).slice((convoy.pathIndex ?? 0) + 1);
+
+    return Math.max(1, onRoad) + laterRoads.reduce((sum, roadId) => {
+        const next = roads.find(r => r.id === roadId);
+        return sum + (next ? getRoadTransitTurns(next) : 0);
+    }, 0);
+}
+
+/**
+ * True when an enemy now holds a stage ahead of the convoy or a location it still has to cross
+ */
+export function isConvoyRouteBlocked(convoy: Convoy, roads: Road[], locations: Location[]): boolean {
+    const road = roads.find(r => r.id === convoy.roadId);
+    if (!road) return false;
+
+    const holders = new Map(locations.map(l => [l.id, l.faction]));
+    const enemyHeld = (holder: FactionId | null | undefined) => !canPass(holder, convoy.faction, 'SHORTEST');
+
+    if (stagesAhead(road, convoy.stageIndex + (convoy.direction === 'FORWARD' ? 1 : -1), convoy.direction)
+        .some(s => enemyHeld(s.faction))) {
+        return true;
+    }
+
+    // Each later road: the location it starts from, then its stages
+    let nodeId = convoy.direction === 'FORWARD' ? road.to : road.from;
+    for (const roadId of (convoy.path ?? []).slice((convoy.pathIndex ?? 0) + 1)) {
+        const next = roads.find(r => r.id === roadId);
+        if (!next) continue;
+        if (enemyHeld(holders.get(nodeId)) || next.stages.some(s => enemyHeld(s.faction))) return true;
+        nodeId = next.from === nodeId ? next.to : next.from;
+    }
+    return false;
+}
+
+/**
+ * Find a new route for a convoy whose route is blocked: either finish the current
+ * road and go on from its end, or turn back and leave by another road, whichever
+ * arrives first (a side whose stages are enemy-held is not an option).
+ * @returns The re-routed convoy, or null when no route is left (the convoy should halt)
+ */
+export function rerouteConvoy(convoy: Convoy, roads: Road[], locations: Location[], currentTurn: number): Convoy | null {
+    const road = roads.find(r => r.id === convoy.roadId);
+    const destRural = locations.find(l => l.id === convoy.destinationCityId)?.linkedLocationId;
+    if (!road || !destRural) return null;
+
+    const reversed: Convoy['direction'] = convoy.direction === 'FORWARD' ? 'BACKWARD' : 'FORWARD';
+    let best: Convoy | null = null;
+    let bestTurns = Infinity;
+
+    for (const direction of [convoy.direction, reversed]) {
+        const step = direction === 'FORWARD' ? 1 : -1;
+        if (stagesAhead(road, convoy.stageIndex + step, direction).some(s => !canPass(s.faction, convoy.faction, 'SHORTEST'))) continue;
+
+        const exitId = direction === 'FORWARD' ? road.to : road.from;
+        const excluded = direction === convoy.direction ? [] : [road.id];
+        const route = planConvoyRoute(exitId, destRural, convoy.faction, locations, roads, convoy.routePreference, excluded);
+        if (!route) continue;
+
+        const candidate: Convoy = { ...convoy, direction, path: [road.id, ...route.path], pathIndex: 0, isHalted: false };
+        const turns = getConvoyRemainingTurns(candidate, roads);
+        if (turns < bestTurns) {
+            best = candidate;
+            bestTurns = turns;
+        }
+    }
+
+    return best ? { ...best, arrivalTurn: currentTurn + bestTurns } : null;
+}
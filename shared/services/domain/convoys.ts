@@ -1,13 +1,29 @@
-import { GameState, FactionId, Convoy, NavalConvoy } from '../../types';
+import { GameState, FactionId, Convoy, NavalConvoy, ConvoyRoutePreference } from '../../types';
 import { getNavalTravelTime } from '../../constants';
 import { createConvoyDispatchedLog, createNavalConvoyDispatchedLog } from '../logs/logFactory';
+import { randomId } from '../rng/gameRng';
+import { planConvoyRoute, getConvoyRemainingTurns } from './convoyRouting';
+import { isPhysicalTreasury } from './economy/treasury';
+
+/**
+ * Check the gold a convoy is asked to carry (PHYSICAL treasury only)
+ */
+const checkConvoyGold = (state: GameState, goldStock: number | undefined, amount: number, goldAmount: number): string | null => {
+    if (goldAmount < 0) return 'Invalid gold amount';
+    if (goldAmount > 0 && !isPhysicalTreasury(state)) return 'Gold only travels by convoy with the physical treasury';
+    if ((goldStock ?? 0) < goldAmount) return 'Not enough gold';
+    if (amount + goldAmount <= 0) return 'Convoy has nothing to carry';
+    return null;
+};
 
 export const executeSendConvoy = (
     state: GameState,
     locationId: string,
     amount: number,
     destinationId: string,
-    faction: FactionId
+    faction: FactionId,
+    routePreference?: ConvoyRoutePreference,
+    goldAmount: number = 0
 ): { success: boolean; newState: GameState; error?: string } => {
     const loc = state.locations.find(l => l.id === locationId);
     if (!loc) return { success: false, newState: state, error: 'Location not found' };
@@ -18,23 +34,28 @@ export const executeSendConvoy = (
     // Validation (simplified)
     if (loc.faction !== faction) return { success: false, newState: state, error: 'Not your location' };
     if (loc.foodStock < amount) return { success: false, newState: state, error: 'Not enough food' };
+    const goldError = checkConvoyGold(state, loc.goldStock, amount, goldAmount);
+    if (goldError) return { success: false, newState: state, error: goldError };
 
     const startRural = loc.linkedLocationId;
     const destCity = state.locations.find(l => l.id === destinationId);
     if (!destCity) return { success: false, newState: state, error: 'Destination not found' };
+    if (destCity.faction !== faction) return { success: false, newState: state, error: 'Destination is not your city' };
     const destRural = destCity.linkedLocationId;
 
-    // Find road
-    const road = state.roads.find(r => (r.from === startRural && r.to === destRural) || (r.to === startRural && r.from === destRural));
-
-    if (!road) return { success: false, newState: state, error: 'No road connection' };
-
     if (!startRural) return { success: false, newState: state, error: 'Invalid start location' };
+    if (!destRural) return { success: false, newState: state, error: 'Invalid destination' };
+
+    // Route over any number of roads, avoiding enemy-held locations and stages
+    const route = planConvoyRoute(startRural, destRural, faction, state.locations, state.roads, routePreference);
+    if (!route || route.path.length === 0) return { success: false, newState: state, error: 'No road connection' };
+    const road = state.roads.find(r => r.id === route.path[0])!;
 
-    const newConvoy: Convoy = {
-        id: `convoy_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    const convoy: Convoy = {
+        id: `convoy_${randomId()}`,
         faction,
         foodAmount: amount,
+        ...(goldAmount > 0 ? { goldAmount } : {}),
         sourceCityId: locationId,
         destinationCityId: destinationId,
         locationType: 'ROAD',
@@ -43,11 +64,17 @@ export const executeSendConvoy = (
         stageIndex: road.from === startRural ? 0 : road.stages.length - 1,
         direction: road.from === startRural ? 'FORWARD' : 'BACKWARD',
         isCaptured: false,
-        lastSafePosition: { type: 'LOCATION', id: startRural }
+        lastSafePosition: { type: 'LOCATION', id: startRural },
+        path: route.path,
+        pathIndex: 0,
+        routePreference: route.preference
     };
+    const newConvoy: Convoy = { ...convoy, arrivalTurn: state.turn + getConvoyRemainingTurns(convoy, state.roads) };
 
     const newLocations = state.locations.map(l =>
-        l.id === locationId ? { ...l, foodStock: l.foodStock - amount } : l
+        l.id === locationId
+            ? { ...l, foodStock: l.foodStock - amount, ...(goldAmount > 0 ? { goldStock: (l.goldStock ?? 0) - goldAmount } : {}) }
+            : l
     );
 
     return {
@@ -56,7 +83,7 @@ export const executeSendConvoy = (
             ...state,
             locations: newLocations,
             convoys: [...state.convoys, newConvoy],
-            logs: [...state.logs, createConvoyDispatchedLog(state.turn)]
+            logs: [...state.logs, createConvoyDispatchedLog(state.turn, newConvoy.arrivalTurn)]
         }
     };
 };
@@ -66,7 +93,8 @@ export const executeSendNavalConvoy = (
     locationId: string,
     amount: number,
     destinationId: string,
-    faction: FactionId
+    faction: FactionId,
+    goldAmount: number = 0
 ): { success: boolean; newState: GameState; error?: string } => {
     const loc = state.locations.find(l => l.id === locationId);
     if (!loc) {
@@ -79,6 +107,8 @@ export const executeSendNavalConvoy = (
         console.log(`[NAVAL] Failed: Insufficient food at ${locationId}. Has ${loc.foodStock}, needs ${amount}`);
         return { success: false, newState: state, error: 'Not enough food' };
     }
+    const goldError = checkConvoyGold(state, loc.goldStock, amount, goldAmount);
+    if (goldError) return { success: false, newState: state, error: goldError };
     // Check if location is coastal (or its linked rural area is)
     let isSourceCoastal = loc.isCoastal;
     if (!isSourceCoastal && loc.linkedLocationId) {
@@ -105,16 +135,19 @@ export const executeSendNavalConvoy = (
     const days = getNavalTravelTime(locationId, destinationId);
 
     const newNavalConvoy: NavalConvoy = {
-        id: `naval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        id: `naval_${randomId()}`,
         faction,
         foodAmount: amount,
+        ...(goldAmount > 0 ? { goldAmount } : {}),
         sourceCityId: locationId,
         destinationCityId: destinationId,
         daysRemaining: days
     };
 
     const newLocations = state.locations.map(l =>
-        l.id === locationId ? { ...l, foodStock: l.foodStock - amount } : l
+        l.id === locationId
+            ? { ...l, foodStock: l.foodStock - amount, ...(goldAmount > 0 ? { goldStock: (l.goldStock ?? 0) - goldAmount } : {}) }
+            : l
     );
 
     return {
@@ -139,12 +172,17 @@ export const executeReverseConvoy = (
 
     const newConvoys = state.convoys.map(c => {
         if (c.id === convoyId) {
-            return {
+            const reversed = {
                 ...c,
                 direction: c.direction === 'FORWARD' ? 'BACKWARD' : 'FORWARD',
                 sourceCityId: c.destinationCityId,
-                destinationCityId: c.sourceCityId
+                destinationCityId: c.sourceCityId,
+                // Multi-road convoys go back the way they came
+                path: c.path ? c.path.slice(0, (c.pathIndex ?? 0) + 1).reverse() : undefined,
+                pathIndex: c.path ? 0 : undefined,
+                isHalted: false
             } as Convoy; // Explicit cast to help TS
+            return { ...reversed, arrivalTurn: state.turn + getConvoyRemainingTurns(reversed, state.roads) };
         }
         return c;
     });
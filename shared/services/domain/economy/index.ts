@@ -7,3 +7,13 @@ export type { RequisitionResult } from './requisition';
 
 export { executeUpdateCityManagement } from './taxation';
 export type { TaxationResult } from './taxation';
+
+export {
+    getMapTreasuryRuleset,
+    resolveTreasuryRuleset,
+    isPhysicalTreasury,
+    getFactionCapital,
+    updateCapitals,
+    collectPhysicalTaxes
+} from './treasury';
+export type { Capitals, TaxCollectionResult } from './treasury';
@@ -0,0 +1,100 @@
+/**
+ * Treasury Service
+ * Where tax gold goes under each treasury ruleset.
+ *
+ * CENTRAL: city income goes straight into resources[faction].gold.
+ * PHYSICAL: city income piles up in the city (Location.goldStock). Only gold stored
+ * in the faction's capital reaches resources[faction].gold; the rest has to be
+ * carried there by land or naval convoys, which can be robbed or seized on the way.
+ */
+
+import { FactionId, GameState, Location, LocationType, LogEntry, TreasuryRuleset, TREASURY_RULESETS, DEFAULT_TREASURY_RULESET } from '../../../types';
+import { MapRegistry } from '../../../maps/MapRegistry';
+import { MapId } from '../../../maps/types';
+import { createCapitalMovedLog } from '../../logs/logFactory';
+
+export type Capitals = Partial<Record<FactionId, string>>;
+
+export interface TaxCollectionResult {
+    locations: Location[];
+    income: Partial<Record<FactionId, number>>; // Gold that reached each faction's treasury this turn
+}
+
+/**
+ * Ruleset declared by a map (DEFAULT_TREASURY_RULESET if none)
+ */
+export function getMapTreasuryRuleset(mapId?: string): TreasuryRuleset {
+    return MapRegistry.get((mapId || 'larion_alternate') as MapId).treasuryRuleset ?? DEFAULT_TREASURY_RULESET;
+}
+
+/**
+ * Ruleset of a new game: the lobby's pick, else the map's
+ */
+export function resolveTreasuryRuleset(mapId: string | undefined, selected?: TreasuryRuleset): TreasuryRuleset {
+    return selected && TREASURY_RULESETS.includes(selected) ? selected : getMapTreasuryRuleset(mapId);
+}
+
+/**
+ * True when tax gold has to travel to the capital before it can be spent
+ */
+export function isPhysicalTreasury(state: Pick<GameState, 'treasuryRuleset' | 'mapId'>): boolean {
+    return resolveTreasuryRuleset(state.mapId, state.treasuryRuleset) === 'PHYSICAL';
+}
+
+/**
+ * Capital of a faction: the recorded one while the faction still holds it,
+ * else its richest city (undefined when it holds no city)
+ */
+export function getFactionCapital(locations: Location[], faction: FactionId, capitals?: Capitals): Location | undefined {
+    const recorded = capitals?.[faction] && locations.find(l => l.id === capitals[faction]);
+    if (recorded && recorded.faction === faction) return recorded;
+
+    return locations
+        .filter(l => l.faction === faction && l.type === LocationType.CITY)
+        .sort((a, b) => b.goldIncome - a.goldIncome || b.population - a.population)[0];
+}
+
+/**
+ * Record the capital of every faction, moving it to the richest remaining city
+ * when the old one was lost
+ */
+export function updateCapitals(
+    locations: Location[],
+    factions: FactionId[],
+    capitals: Capitals | undefined,
+    turn: number
+): { capitals: Capitals; logs: LogEntry[] } {
+    const updated: Capitals = { ...capitals };
+    const logs: LogEntry[] = [];
+
+    factions.forEach(faction => {
+        const capital = getFactionCapital(locations, faction, capitals);
+        if (!capital) return;
+        if (capitals?.[faction] && capitals[faction] !== capital.id) {
+            logs.push(createCapitalMovedLog(faction, capital.id, turn));
+        }
+        updated[faction] = capital.id;
+    });
+
+    return { capitals: updated, logs };
+}
+
+/**
+ * PHYSICAL treasury: add each city's income to its gold stock, then move
+ * the stock of every capital into its faction's treasury
+ */
+export function collectPhysicalTaxes(locations: Location[], capitals: Capitals): TaxCollectionResult {
+    const income: Partial<Record<FactionId, number>> = {};
+
+    const updatedLocations = locations.map(loc => {
+        if (loc.type !== LocationType.CITY) return loc;
+
+        const goldStock = (loc.goldStock ?? 0) + Math.max(0, loc.goldIncome);
+        if (capitals[loc.faction] !== loc.id) return { ...loc, goldStock };
+
+        income[loc.faction] = (income[loc.faction] ?? 0) + goldStock;
+        return { ...loc, goldStock: 0 };
+    });
+
+    return { locations: updatedLocations, income };
+}
@@ -11,6 +11,7 @@
 import { Character, CharacterStatus, FactionId, Location, Road, LogEntry, GovernorPolicy, LogType, LogSeverity } from '../../../types';
 import { calculateLeaderTravelTime } from '../leaders';
 import { hasIronFistTrait, applyIronFistPolicy } from './makeExamples';
+import { randomChoice } from '../../rng/gameRng';
 
 // ============================================================================
 // TYPES
@@ -457,10 +458,10 @@ export function validateGovernorStatus(
 
     if (adjacentFriendly.length > 0) {
         // Pick random adjacent (or first)
-        targetLocation = adjacentFriendly[Math.floor(Math.random() * adjacentFriendly.length)];
+        targetLocation = randomChoice(adjacentFriendly);
     } else {
         // Priority 2: Global random friendly
-        targetLocation = friendlyLocations[Math.floor(Math.random() * friendlyLocations.length)];
+        targetLocation = randomChoice(friendlyLocations);
     }
 
     if (targetLocation) {
@@ -8,6 +8,7 @@
  */
 
 import { Location, Character, GovernorPolicy, FactionId, LocationType } from '../../../types';
+import { randomInt } from '../../rng/gameRng';
 
 /**
  * Check if Rebuild Region policy is currently active on a location
@@ -68,7 +69,7 @@ export function processRebuildRegion(governor: Character, location: Location): L
     const statesmanship = governor.stats.statesmanship || 1;
 
     // Random amount between 1 and 5
-    const randomRoll = Math.floor(Math.random() * 5) + 1;
+    const randomRoll = randomInt(5) + 1;
 
     // Calculate repair amount: random * statesmanship, capped at 15
     const repairAmount = Math.min(randomRoll * statesmanship, 15);
@@ -16,6 +16,13 @@ export * from './retreat';
 
 // Logistics services
 export * from './convoys';
+export * from './convoyRouting';
 
 // Territorial services
 export * from './territorial';
+
+// Victory services
+export * from './victory';
+
+// Statistics services
+export * from './stats';
@@ -9,6 +9,7 @@
 
 import { Character, CharacterStatus, FactionId, Location, LeaderAbility } from '../../../types';
 import { enforceFreeTraderLimits } from '../economy/freeTrader';
+import { randomInt } from '../../rng/gameRng';
 
 // Leader IDs affected by Knightly Coup
 const KNIGHTLY_COUP_STABILITY_AFFECTED_LEADERS = ['argo', 'alia', 'lain', 'caelan', 'tordis'];
@@ -42,7 +43,7 @@ function findBestSpawnLocation(locations: Location[], playerFaction: FactionId):
     const playerTerritories = locations.filter(loc => loc.faction === playerFaction);
     if (playerTerritories.length > 0) {
         // Pick a random one for variety
-        const randomIndex = Math.floor(Math.random() * playerTerritories.length);
+        const randomIndex = randomInt(playerTerritories.length);
         return playerTerritories[randomIndex].id;
     }
 
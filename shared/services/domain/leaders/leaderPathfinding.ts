@@ -22,6 +22,7 @@ import {
 } from '../../logs/logFactory';
 import { FACTION_NAMES } from '../../../types';
 import { createInfiltrationEvent, addLeaderAlertEvent } from '../clandestine/clandestineAlertService';
+import { random, nextTick } from '../../rng/gameRng';
 
 // ============================================================================
 // TYPES
@@ -412,7 +413,7 @@ export function processUndercoverMissionTravel<T extends Character>(
             );
 
             // Roll risk (0.0 - 1.0)
-            const roll = Math.random();
+            const roll = random();
 
             if (roll < risk) {
                 // DETECTED (but NOT eliminated - new system)
@@ -469,8 +470,8 @@ export function processUndercoverMissionTravel<T extends Character>(
                 undercoverMission: undefined,
                 isDetectedOnArrival: true, // NEW: Track detection for alerts
                 pendingAlertEvents: c.pendingAlertEvents
-                    ? [...c.pendingAlertEvents, { ...infiltrationEvent, timestamp: Date.now() }]
-                    : [{ ...infiltrationEvent, timestamp: Date.now() }],
+                    ? [...c.pendingAlertEvents, { ...infiltrationEvent, timestamp: nextTick() }]
+                    : [{ ...infiltrationEvent, timestamp: nextTick() }],
                 // FORCE RESET detection on arrival (Safety net)
                 detectionLevel: 0,
                 pendingDetectionEffects: undefined
@@ -504,8 +505,8 @@ export function processUndercoverMissionTravel<T extends Character>(
                 undercoverMission: undefined,
                 isDetectedOnArrival: false, // NEW: Track detection for alerts
                 pendingAlertEvents: c.pendingAlertEvents
-                    ? [...c.pendingAlertEvents, { ...infiltrationEvent, timestamp: Date.now() }]
-                    : [{ ...infiltrationEvent, timestamp: Date.now() }],
+                    ? [...c.pendingAlertEvents, { ...infiltrationEvent, timestamp: nextTick() }]
+                    : [{ ...infiltrationEvent, timestamp: nextTick() }],
                 // FORCE RESET detection on arrival (Safety net)
                 detectionLevel: 0,
                 pendingDetectionEffects: undefined
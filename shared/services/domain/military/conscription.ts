@@ -16,6 +16,7 @@
 import { GameState, FactionId, Character, CharacterStatus, Army, Location } from '../../../types';
 import { RECRUIT_AMOUNT } from '../../../data';
 import { calculateEconomyAndFood } from '../../../utils/economy';
+import { randomId } from '../../rng/gameRng';
 
 // ============================================================================
 // CONSTANTS
@@ -185,7 +186,7 @@ export function executeConscription(
     } else {
         // Create new army
         const newArmy: Army = {
-            id: `army_${Date.now()}_${Math.random()}`,
+            id: `army_${randomId()}`,
             faction: faction,
             locationType: 'LOCATION',
             locationId: locationId,
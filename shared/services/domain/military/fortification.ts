@@ -6,6 +6,7 @@
 
 import { GameState, Army, FactionId } from '../../../types';
 import { FORTIFICATION_LEVELS } from '../../../data';
+import { randomId } from '../../rng/gameRng';
 
 export interface FortifyResult {
     success: boolean;
@@ -81,8 +82,8 @@ export const executeFortify = (
     const otherArmies = state.armies.filter(a => !consumedArmyIds.includes(a.id));
 
     // Generate IDs
-    const builderId = `fort_builder_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
-    const remainderId = `fort_main_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+    const builderId = `fort_builder_${randomId(5)}`;
+    const remainderId = `fort_main_${randomId(5)}`;
 
     // Create Builder Army
     const builderArmy: Army = {
@@ -16,5 +16,8 @@ export type { MergeResult } from './mergeRegiments';
 
 export { executeGarrison } from './garrison';
 
+export { getEmbarkationPort, getLandingPorts, executeEmbarkArmy, processNavalTransports } from './navalTransport';
+export type { NavalTransportProcessingResult } from './navalTransport';
+
 export { executeConscription, canConscript, CONSCRIPTION_GOLD_COST, CONSCRIPTION_STABILITY_COST } from './conscription';
 export type { ConscriptionResult, CanConscriptResult } from './conscription';
@@ -5,6 +5,7 @@
  */
 
 import { GameState, Army, FactionId } from '../../../types';
+import { randomId } from '../../rng/gameRng';
 
 export interface MergeResult {
     success: boolean;
@@ -36,7 +37,7 @@ export const executeMergeRegiments = (
 
     const totalStrength = eligibleArmies.reduce((sum, a) => sum + a.strength, 0);
     const template = eligibleArmies[0];
-    const newArmyId = `army_merged_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+    const newArmyId = `army_merged_${randomId(5)}`;
 
     // Create new merged army
     const newArmy: Army = {
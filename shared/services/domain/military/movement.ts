@@ -8,6 +8,8 @@ import { GameState, Army, Character, FactionId, CharacterStatus, RoadQuality, FA
 import { FORTIFICATION_LEVELS } from '../../../data';
 import { calculateEconomyAndFood } from '../../../utils/economy';
 import { createForcesApproachingLog, createGrainTradeConquestLog, createLocationSecuredLog } from '../../../services/logs/logFactory';
+import { trimLogWindow } from '../../../services/logs/logArchive';
+import { randomId } from '../../rng/gameRng';
 
 export interface MoveArmyResult {
     success: boolean;
@@ -240,7 +242,7 @@ export const executeArmyMove = (
             armies: updatedArmies,
             characters: updatedChars,
             locations: updatedLocs,
-            logs: newLogs.slice(-50),
+            logs: trimLogWindow(newLogs, state.turn),
             grainTradeNotification: newTradeNotification,
             hasScannedBattles: false // Force scan to detect instant combat
         },
@@ -262,7 +264,7 @@ export const executeSplitArmy = (
         return {};
     }
 
-    const newArmyId = `army_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const newArmyId = `army_${randomId()}`;
 
     const newArmy: Army = {
         ...army,
@@ -0,0 +1,187 @@
+/**
+ * Naval Transport Service
+ * Armies embark at a port their faction holds and sail to another port, taking
+ * their attached leaders along. Travel times come from the map's naval tables.
+ *
+ * At sea an army leaves state.armies for state.navalTransports: it is on no road,
+ * cannot be attacked and does not block anything. When it lands at the destination
+ * port it is an army at a location again, and the turn's battle detection picks it up.
+ * Leaders travelling on their own already sail (leaderPathfinding).
+ */
+
+import { GameState, FactionId, Army, Character, CharacterStatus, LocationType, LogEntry, NavalTransport } from '../../../types';
+import { getPortsForMap, getNavalTravelTimeForMap, MapId } from '../../../data/ports';
+import { calculateEconomyAndFood } from '../../../utils/economy';
+import { createArmyEmbarkedLog, createArmyLandedLog } from '../../logs/logFactory';
+import { randomId } from '../../rng/gameRng';
+
+export interface NavalTransportProcessingResult {
+    navalTransports: NavalTransport[];
+    armies: Army[];
+    characters: Character[];
+    logs: LogEntry[];
+}
+
+/**
+ * Port an army standing at `locationId` sails from: the location itself,
+ * or the port city whose rural area it is (null if none)
+ */
+export const getEmbarkationPort = (
+    state: Pick<GameState, 'locations' | 'mapId'>,
+    locationId: string
+): string | null => {
+    const ports = getPortsForMap(state.mapId as MapId);
+    if (ports.includes(locationId)) return locationId;
+
+    const city = state.locations.find(l =>
+        l.type === LocationType.CITY && l.linkedLocationId === locationId && ports.includes(l.id)
+    );
+    return city?.id ?? null;
+};
+
+/**
+ * Ports `faction` may land at: friendly (it holds the city or its rural area)
+ * or contested (its troops already stand there)
+ */
+export const getLandingPorts = (
+    state: Pick<GameState, 'locations' | 'armies' | 'mapId'>,
+    faction: FactionId,
+    sourcePortId?: string
+): string[] =>
+    getPortsForMap(state.mapId as MapId).filter(portId => {
+        if (portId === sourcePortId) return false;
+        const port = state.locations.find(l => l.id === portId);
+        if (!port) return false;
+
+        const ground = port.linkedLocationId ? [port.id, port.linkedLocationId] : [port.id];
+        return state.locations.some(l => ground.includes(l.id) && l.faction === faction) ||
+            state.armies.some(a => a.faction === faction && a.locationType === 'LOCATION' && ground.includes(a.locationId!));
+    });
+
+/**
+ * Put an army (and its leaders) to sea
+ */
+export const executeEmbarkArmy = (
+    state: GameState,
+    armyId: string,
+    destinationPortId: string,
+    faction: FactionId
+): { success: boolean; newState: GameState; error?: string } => {
+    const army = state.armies.find(a => a.id === armyId);
+    if (!army) return { success: false, newState: state, error: 'Army not found' };
+    if (army.faction !== faction) return { success: false, newState: state, error: 'Not your army' };
+    if (army.isSpent) return { success: false, newState: state, error: 'Army is spent' };
+    if (army.isSieging) return { success: false, newState: state, error: 'Army is sieging' };
+    if (army.locationType !== 'LOCATION' || !army.locationId) {
+        return { success: false, newState: state, error: 'Army must stand at a port to embark' };
+    }
+
+    const sourcePortId = getEmbarkationPort(state, army.locationId);
+    if (!sourcePortId) return { success: false, newState: state, error: 'Army is not at a port' };
+    const sourcePort = state.locations.find(l => l.id === sourcePortId);
+    if (sourcePort?.faction !== faction) return { success: false, newState: state, error: 'Port not held by your faction' };
+    if (!getLandingPorts(state, faction, sourcePortId).includes(destinationPortId)) {
+        return { success: false, newState: state, error: 'Destination is not a friendly or contested port' };
+    }
+
+    const days = getNavalTravelTimeForMap(state.mapId as MapId, sourcePortId, destinationPortId);
+    const leaders = state.characters.filter(c => c.armyId === armyId && c.status !== CharacterStatus.DEAD);
+
+    const transport: NavalTransport = {
+        id: `transport_${randomId()}`,
+        faction,
+        army: { ...army, action: undefined, isGarrisoned: false },
+        leaderIds: leaders.map(c => c.id),
+        sourcePortId,
+        destinationPortId,
+        daysRemaining: days
+    };
+
+    // A governor sailing away stops governing
+    const leftGovernments = new Set(leaders.filter(c => c.status === CharacterStatus.GOVERNING).map(c => c.locationId));
+    const updatedArmies = state.armies.filter(a => a.id !== armyId);
+    // destinationId and turnsUntilArrival let a leader detached at sea finish the crossing alone
+    const updatedCharacters = state.characters.map(c => c.armyId === armyId && c.status !== CharacterStatus.DEAD ? {
+        ...c,
+        status: CharacterStatus.MOVING,
+        destinationId: destinationPortId,
+        turnsUntilArrival: days,
+        governorMission: undefined
+    } : c);
+    const updatedLocations = state.locations.map(l => leftGovernments.has(l.id) ? { ...l, governorPolicies: {} } : l);
+
+    return {
+        success: true,
+        newState: {
+            ...state,
+            armies: updatedArmies,
+            characters: updatedCharacters,
+            locations: calculateEconomyAndFood(state, updatedLocations, updatedArmies, updatedCharacters, state.roads),
+            navalTransports: [...(state.navalTransports ?? []), transport],
+            logs: [...state.logs, createArmyEmbarkedLog(faction, sourcePortId, destinationPortId, state.turn + days, state.turn)]
+        }
+    };
+};
+
+/**
+ * Advance every transport by a day and land those that arrive.
+ * A landed army stands at the destination port, its leaders with it.
+ */
+export function processNavalTransports(
+    navalTransports: NavalTransport[] = [],
+    armies: Army[],
+    characters: Character[],
+    locations: GameState['locations'],
+    turn: number
+): NavalTransportProcessingResult {
+    const atSea: NavalTransport[] = [];
+    const landed: Army[] = [];
+    const logs: LogEntry[] = [];
+    let updatedCharacters = characters;
+
+    navalTransports.forEach(transport => {
+        const remaining = transport.daysRemaining - 1;
+        const aboard = (c: Character) => c.armyId === transport.army.id && transport.leaderIds.includes(c.id);
+
+        if (remaining > 0) {
+            atSea.push({ ...transport, daysRemaining: remaining });
+            updatedCharacters = updatedCharacters.map(c => aboard(c) ? { ...c, turnsUntilArrival: remaining } : c);
+            return;
+        }
+
+        const portId = transport.destinationPortId;
+        const port = locations.find(l => l.id === portId);
+        landed.push({
+            ...transport.army,
+            locationType: 'LOCATION',
+            locationId: portId,
+            roadId: null,
+            stageIndex: 0,
+            direction: 'FORWARD',
+            originLocationId: portId,
+            destinationId: null,
+            tripOriginId: portId,
+            tripDestinationId: null,
+            startOfTurnPosition: { type: 'LOCATION', id: portId }, // Retreats go inland, not back to sea
+            turnsUntilArrival: 0,
+            justMoved: false,
+            foodSourceId: portId,
+            lastSafePosition: { type: 'LOCATION', id: portId }
+        });
+        updatedCharacters = updatedCharacters.map(c => aboard(c) && c.status !== CharacterStatus.DEAD ? {
+            ...c,
+            locationId: portId,
+            destinationId: null,
+            turnsUntilArrival: 0,
+            status: CharacterStatus.AVAILABLE
+        } : c);
+        logs.push(createArmyLandedLog(transport.army.id, portId, port?.faction ?? FactionId.NEUTRAL, transport.faction, turn));
+    });
+
+    return {
+        navalTransports: atSea,
+        armies: landed.length > 0 ? [...armies, ...landed] : armies,
+        characters: updatedCharacters,
+        logs
+    };
+}
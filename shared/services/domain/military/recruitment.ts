@@ -7,6 +7,7 @@
 import { GameState, Army, FactionId, Character, Location } from '../../../types';
 import { RECRUIT_COST, RECRUIT_AMOUNT } from '../../../data';
 import { calculateEconomyAndFood } from '../../../utils/economy';
+import { randomId } from '../../rng/gameRng';
 
 export interface RecruitResult {
     success: boolean;
@@ -115,7 +116,7 @@ export const executeRecruitment = (
     } else {
         // Create new army
         const newArmy: Army = {
-            id: `army_${Date.now()}_${Math.random()}`,
+            id: `army_${randomId()}`,
             faction: faction,
             locationType: 'LOCATION',
             locationId: locId,
@@ -0,0 +1,354 @@
+/**
+ * Agreements Service
+ * Agreements between two factions: one-off gold and food transfers, tribute paid every
+ * turn, access to the Windward grain trade and non-aggression pacts.
+ *
+ * A proposal waits PROPOSAL_LIFETIME turns for the recipient's answer. Transfers are
+ * paid on acceptance; the lasting terms then apply for the agreement's duration.
+ * An agreement is broken when one party stops paying its tribute, or - with a
+ * non-aggression pact - when one of its armies stands on ground held by the other.
+ */
+
+import {
+    AgreementProposal, AgreementTerm, Army, DiplomaticAgreement, FactionId, GameState,
+    Location, LocationType, LogEntry, LogHighlightTarget, Road
+} from '../../../types';
+import {
+    createAgreementAnsweredLog, createAgreementBrokenLog, createAgreementExpiredLog,
+    createAgreementProposedLog, createTributePaidLog
+} from '../../logs/logFactory';
+import { randomId } from '../../rng/gameRng';
+
+export const PROPOSAL_LIFETIME = 3;        // Turns a proposal waits for an answer
+export const MAX_AGREEMENT_DURATION = 20;  // Turns
+
+const GRAIN_TRADE_HUB = 'windward';
+
+export interface AgreementResult {
+    success: boolean;
+    newState: GameState;
+    error?: string;
+}
+
+export interface AgreementUpdate {
+    agreements: DiplomaticAgreement[];
+    locations: Location[];
+    resources: GameState['resources'];
+    logs: LogEntry[];
+}
+
+const otherParty = (agreement: DiplomaticAgreement, faction: FactionId): FactionId =>
+    faction === agreement.proposer ? agreement.recipient : agreement.proposer;
+
+const hasLastingTerms = (terms: AgreementTerm[]): boolean =>
+    terms.some(t => t.type === 'TRIBUTE' || t.type === 'GRAIN_TRADE_ACCESS' || t.type === 'NON_AGGRESSION');
+
+const isPositiveInteger = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/**
+ * True when the two factions are bound by an active non-aggression pact
+ */
+export const arePacted = (agreements: DiplomaticAgreement[] | undefined, a: FactionId, b: FactionId): boolean =>
+    !!agreements?.some(ag =>
+        ag.status === 'ACTIVE' &&
+        ((ag.proposer === a && ag.recipient === b) || (ag.proposer === b && ag.recipient === a)) &&
+        ag.terms.some(t => t.type === 'NON_AGGRESSION')
+    );
+
+/**
+ * Check the terms of an agreement between `parties`.
+ * With `atAcceptance`, also check that both sides can pay what they promised;
+ * at proposal time only the proposer's own treasury and granaries are checked.
+ */
+const validateTerms = (
+    state: GameState,
+    terms: AgreementTerm[],
+    parties: [FactionId, FactionId],
+    atAcceptance: boolean
+): string | null => {
+    const [proposer, recipient] = parties;
+    const canCheck = (faction: FactionId) => atAcceptance || faction === proposer;
+    const goldOwed: Partial<Record<FactionId, number>> = {};
+
+    for (const term of terms) {
+        if (!term || typeof term !== 'object') return 'Invalid term';
+        switch (term.type) {
+            case 'GOLD_TRANSFER':
+            case 'TRIBUTE': {
+                if (!parties.includes(term.from)) return 'Only a party to the agreement can pay';
+                const amount = term.type === 'GOLD_TRANSFER' ? term.amount : term.goldPerTurn;
+                if (!isPositiveInteger(amount)) return 'Invalid gold amount';
+                if (term.type === 'GOLD_TRANSFER') goldOwed[term.from] = (goldOwed[term.from] ?? 0) + amount;
+                break;
+            }
+            case 'FOOD_TRANSFER': {
+                if (!parties.includes(term.from)) return 'Only a party to the agreement can send food';
+                if (!isPositiveInteger(term.amount)) return 'Invalid food amount';
+                const to = term.from === proposer ? recipient : proposer;
+                const source = state.locations.find(l => l.id === term.sourceCityId);
+                const destination = state.locations.find(l => l.id === term.destinationCityId);
+                if (!source || source.type !== LocationType.CITY || source.faction !== term.from) return 'Food must leave from a city of the sender';
+                if (!destination || destination.type !== LocationType.CITY || destination.faction !== to) return 'Food must arrive in a city of the receiver';
+                if (canCheck(term.from) && source.foodStock < term.amount) return 'Insufficient food in source';
+                break;
+            }
+            case 'GRAIN_TRADE_ACCESS': {
+                if (!parties.includes(term.grantedBy)) return 'Only a party to the agreement can grant grain trade access';
+                const hub = state.locations.find(l => l.id === GRAIN_TRADE_HUB);
+                if (!hub || hub.faction !== term.grantedBy) return 'Grain trade access can only be granted by the holder of Windward';
+                break;
+            }
+            case 'NON_AGGRESSION':
+                break;
+            default:
+                return `Unknown term: ${(term as any).type}`;
+        }
+    }
+
+    for (const [faction, amount] of Object.entries(goldOwed) as [FactionId, number][]) {
+        if (canCheck(faction) && (state.resources[faction]?.gold ?? 0) < amount) return 'Insufficient gold';
+    }
+    return null;
+};
+
+/**
+ * First army of either faction found on ground held by the other one
+ */
+export const findTrespass = (
+    a: FactionId,
+    b: FactionId,
+    armies: Army[],
+    locations: Location[],
+    roads: Road[]
+): { faction: FactionId; target: LogHighlightTarget } | null => {
+    for (const army of armies) {
+        if (army.strength <= 0 || army.isInsurgent || (army.faction !== a && army.faction !== b)) continue;
+        const other = army.faction === a ? b : a;
+
+        if (army.locationType === 'LOCATION') {
+            const loc = locations.find(l => l.id === army.locationId);
+            if (loc?.faction === other) return { faction: army.faction, target: { type: 'LOCATION', id: loc.id } };
+        } else {
+            const stage = roads.find(r => r.id === army.roadId)?.stages.find(s => s.index === army.stageIndex);
+            if (stage?.faction === other) {
+                return { faction: army.faction, target: { type: 'ROAD_STAGE', id: army.roadId!, stageIndex: stage.index } };
+            }
+        }
+    }
+    return null;
+};
+
+/**
+ * Give Windward's grain trade access to every faction holding an active grant from
+ * its current holder (a grant lapses while its grantor does not hold Windward)
+ */
+export const syncGrainTradeAccess = (locations: Location[], agreements: DiplomaticAgreement[] | undefined): Location[] => {
+    const hub = locations.find(l => l.id === GRAIN_TRADE_HUB);
+    if (!hub) return locations;
+
+    const access = (agreements ?? [])
+        .filter(ag => ag.status === 'ACTIVE' && ag.terms.some(t => t.type === 'GRAIN_TRADE_ACCESS' && t.grantedBy === hub.faction))
+        .map(ag => otherParty(ag, hub.faction));
+
+    const current = hub.grainTradeAccess ?? [];
+    if (access.length === current.length && access.every(f => current.includes(f))) return locations;
+    return locations.map(l => l.id === GRAIN_TRADE_HUB ? { ...l, grainTradeAccess: access } : l);
+};
+
+/**
+ * Propose an agreement to another faction
+ */
+export const proposeAgreement = (
+    state: GameState,
+    proposer: FactionId,
+    proposal: AgreementProposal
+): AgreementResult => {
+    const { recipient, terms, duration } = proposal;
+    const agreements = state.agreements ?? [];
+
+    if (recipient === proposer || recipient === FactionId.NEUTRAL || !state.resources[recipient]) {
+        return { success: false, newState: state, error: 'Invalid recipient' };
+    }
+    if (!Array.isArray(terms) || terms.length === 0) {
+        return { success: false, newState: state, error: 'An agreement needs at least one term' };
+    }
+    if (!isPositiveInteger(duration) || duration > MAX_AGREEMENT_DURATION) {
+        return { success: false, newState: state, error: `Duration must be between 1 and ${MAX_AGREEMENT_DURATION} turns` };
+    }
+    if (agreements.some(ag => ag.status === 'PROPOSED' && ag.proposer === proposer && ag.recipient === recipient)) {
+        return { success: false, newState: state, error: 'A proposal to this faction is already waiting for an answer' };
+    }
+
+    const error = validateTerms(state, terms, [proposer, recipient], false);
+    if (error) return { success: false, newState: state, error };
+
+    const agreement: DiplomaticAgreement = {
+        id: `agreement_${randomId()}`,
+        proposer,
+        recipient,
+        terms,
+        duration,
+        status: 'PROPOSED',
+        proposedTurn: state.turn
+    };
+
+    return {
+        success: true,
+        newState: {
+            ...state,
+            agreements: [...agreements, agreement],
+            logs: [...state.logs, createAgreementProposedLog(agreement, state.turn)]
+        }
+    };
+};
+
+/**
+ * Accept or reject a proposal addressed to `faction`.
+ * Accepting pays the transfers at once and starts the lasting terms.
+ */
+export const answerAgreement = (
+    state: GameState,
+    faction: FactionId,
+    agreementId: string,
+    accept: boolean
+): AgreementResult => {
+    const agreements = state.agreements ?? [];
+    const agreement = agreements.find(ag => ag.id === agreementId);
+
+    if (!agreement || agreement.recipient !== faction) {
+        return { success: false, newState: state, error: 'Agreement not found' };
+    }
+    if (agreement.status !== 'PROPOSED') {
+        return { success: false, newState: state, error: 'This proposal is no longer open' };
+    }
+
+    if (!accept) {
+        const rejected: DiplomaticAgreement = { ...agreement, status: 'REJECTED', endedTurn: state.turn };
+        return {
+            success: true,
+            newState: {
+                ...state,
+                agreements: agreements.map(ag => ag.id === agreementId ? rejected : ag),
+                logs: [...state.logs, createAgreementAnsweredLog(rejected, false, state.turn)]
+            }
+        };
+    }
+
+    const error = validateTerms(state, agreement.terms, [agreement.proposer, agreement.recipient], true);
+    if (error) return { success: false, newState: state, error };
+
+    if (agreement.terms.some(t => t.type === 'NON_AGGRESSION') &&
+        findTrespass(agreement.proposer, agreement.recipient, state.armies, state.locations, state.roads)) {
+        return { success: false, newState: state, error: 'Both sides must withdraw their armies from each other\'s ground first' };
+    }
+
+    // One-off transfers
+    const resources = { ...state.resources };
+    let locations = state.locations;
+    agreement.terms.forEach(term => {
+        if (term.type === 'GOLD_TRANSFER') {
+            const to = otherParty(agreement, term.from);
+            resources[term.from] = { ...resources[term.from], gold: resources[term.from].gold - term.amount };
+            resources[to] = { ...resources[to], gold: resources[to].gold + term.amount };
+        } else if (term.type === 'FOOD_TRANSFER') {
+            locations = locations.map(l => {
+                if (l.id === term.sourceCityId) return { ...l, foodStock: l.foodStock - term.amount };
+                if (l.id === term.destinationCityId) return { ...l, foodStock: l.foodStock + term.amount };
+                return l;
+            });
+        }
+    });
+
+    const accepted: DiplomaticAgreement = hasLastingTerms(agreement.terms)
+        ? { ...agreement, status: 'ACTIVE', acceptedTurn: state.turn, expiresTurn: state.turn + agreement.duration }
+        : { ...agreement, status: 'COMPLETED', acceptedTurn: state.turn, endedTurn: state.turn };
+    const updatedAgreements = agreements.map(ag => ag.id === agreementId ? accepted : ag);
+
+    return {
+        success: true,
+        newState: {
+            ...state,
+            resources,
+            locations: syncGrainTradeAccess(locations, updatedAgreements),
+            agreements: updatedAgreements,
+            logs: [...state.logs, createAgreementAnsweredLog(accepted, true, state.turn)]
+        }
+    };
+};
+
+/**
+ * Break every non-aggression pact whose armies stand on the partner's ground
+ */
+export const detectAgreementBreaches = (
+    agreements: DiplomaticAgreement[] | undefined,
+    armies: Army[],
+    locations: Location[],
+    roads: Road[],
+    turn: number
+): { agreements: DiplomaticAgreement[]; locations: Location[]; logs: LogEntry[] } => {
+    const logs: LogEntry[] = [];
+    if (!agreements?.some(ag => ag.status === 'ACTIVE')) return { agreements: agreements ?? [], locations, logs };
+
+    const updated = agreements.map(ag => {
+        if (ag.status !== 'ACTIVE' || !ag.terms.some(t => t.type === 'NON_AGGRESSION')) return ag;
+
+        const trespass = findTrespass(ag.proposer, ag.recipient, armies, locations, roads);
+        if (!trespass) return ag;
+
+        logs.push(createAgreementBrokenLog(ag, trespass.faction, 'TERRITORY', turn, trespass.target));
+        return { ...ag, status: 'BROKEN' as const, brokenBy: trespass.faction, endedTurn: turn };
+    });
+
+    return { agreements: updated, locations: syncGrainTradeAccess(locations, updated), logs };
+};
+
+/**
+ * Turn step: expire unanswered proposals, collect tributes (an unpaid tribute breaks
+ * the agreement) and end agreements whose duration is over
+ */
+export const processAgreements = (
+    agreements: DiplomaticAgreement[] | undefined,
+    resources: GameState['resources'],
+    locations: Location[],
+    turn: number
+): AgreementUpdate => {
+    const logs: LogEntry[] = [];
+    const updatedResources = { ...resources };
+
+    const updated = (agreements ?? []).map(ag => {
+        if (ag.status === 'PROPOSED') {
+            if (turn - ag.proposedTurn < PROPOSAL_LIFETIME) return ag;
+            const expired = { ...ag, status: 'EXPIRED' as const, endedTurn: turn };
+            logs.push(createAgreementExpiredLog(expired, turn));
+            return expired;
+        }
+        if (ag.status !== 'ACTIVE') return ag;
+
+        for (const term of ag.terms) {
+            if (term.type !== 'TRIBUTE') continue;
+            const payee = otherParty(ag, term.from);
+            if ((updatedResources[term.from]?.gold ?? 0) < term.goldPerTurn) {
+                logs.push(createAgreementBrokenLog(ag, term.from, 'TRIBUTE', turn));
+                return { ...ag, status: 'BROKEN' as const, brokenBy: term.from, endedTurn: turn };
+            }
+            updatedResources[term.from] = { ...updatedResources[term.from], gold: updatedResources[term.from].gold - term.goldPerTurn };
+            updatedResources[payee] = { ...updatedResources[payee], gold: updatedResources[payee].gold + term.goldPerTurn };
+            logs.push(createTributePaidLog(term.from, payee, term.goldPerTurn, turn));
+        }
+
+        if (ag.expiresTurn !== undefined && turn >= ag.expiresTurn) {
+            const ended = { ...ag, status: 'EXPIRED' as const, endedTurn: turn };
+            logs.push(createAgreementExpiredLog(ended, turn));
+            return ended;
+        }
+        return ag;
+    });
+
+    return {
+        agreements: updated,
+        locations: syncGrainTradeAccess(locations, updated),
+        resources: updatedResources,
+        logs
+    };
+};
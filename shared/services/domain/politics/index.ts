@@ -7,6 +7,13 @@ export { executeIncite } from './insurrection';
 export { executeNegotiate } from './negotiation';
 export type { NegotiationResult } from './negotiation';
 
+// Agreements between factions
+export {
+    proposeAgreement, answerAgreement, processAgreements, detectAgreementBreaches,
+    arePacted, findTrespass, syncGrainTradeAccess, PROPOSAL_LIFETIME, MAX_AGREEMENT_DURATION
+} from './agreements';
+export type { AgreementResult, AgreementUpdate } from './agreements';
+
 export { executeAttachLeader, executeDetachLeader, executeMoveLeader } from './leaders';
 export type { LeaderActionResult } from './leaders';
 export type { InciteResult } from './insurrection';
@@ -0,0 +1,101 @@
+/**
+ * Game Statistics - Per-faction counters kept in GameState.stats
+ *
+ * Every helper is copy-on-write: it returns a new GameStats and leaves the
+ * one it was given untouched, so callers can keep their `{ ...stats }` copies.
+ */
+
+import { FactionId, FactionGameStats, GameStats, SpendingCategory } from '../../../types';
+
+export const createFactionGameStats = (): FactionGameStats => ({
+    battlesFought: 0,
+    battlesWon: 0,
+    insurrectionsTriggered: 0,
+    insurrectionsSuffered: 0,
+    famineCasualties: 0,
+    goldSpent: {}
+});
+
+export const getFactionGameStats = (stats: GameStats, faction: FactionId): FactionGameStats =>
+    stats.factions?.[faction] ?? createFactionGameStats();
+
+const updateFactionStats = (
+    stats: GameStats,
+    faction: FactionId,
+    update: (current: FactionGameStats) => FactionGameStats
+): GameStats => ({
+    ...stats,
+    factions: {
+        ...stats.factions,
+        [faction]: update(getFactionGameStats(stats, faction))
+    }
+});
+
+/**
+ * Count a resolved battle for both sides
+ */
+export const recordBattle = (
+    stats: GameStats,
+    attacker: FactionId,
+    defender: FactionId,
+    attackerWon: boolean
+): GameStats => {
+    const withAttacker = updateFactionStats(stats, attacker, s => ({
+        ...s,
+        battlesFought: s.battlesFought + 1,
+        battlesWon: s.battlesWon + (attackerWon ? 1 : 0)
+    }));
+    return updateFactionStats(withAttacker, defender, s => ({
+        ...s,
+        battlesFought: s.battlesFought + 1,
+        battlesWon: s.battlesWon + (attackerWon ? 0 : 1)
+    }));
+};
+
+/**
+ * Count an uprising for the faction that started it (none for spontaneous ones)
+ * and for the faction whose territory rose up
+ */
+export const recordInsurrection = (
+    stats: GameStats,
+    triggeredBy: FactionId | undefined,
+    targetFaction: FactionId | undefined
+): GameStats => {
+    let next = stats;
+    if (triggeredBy && triggeredBy !== FactionId.NEUTRAL) {
+        next = updateFactionStats(next, triggeredBy, s => ({ ...s, insurrectionsTriggered: s.insurrectionsTriggered + 1 }));
+    }
+    if (targetFaction && targetFaction !== FactionId.NEUTRAL) {
+        next = updateFactionStats(next, targetFaction, s => ({ ...s, insurrectionsSuffered: s.insurrectionsSuffered + 1 }));
+    }
+    return next;
+};
+
+export const recordFamineCasualties = (stats: GameStats, faction: FactionId, casualties: number): GameStats => {
+    if (casualties <= 0 || faction === FactionId.NEUTRAL) return stats;
+    return updateFactionStats(stats, faction, s => ({ ...s, famineCasualties: s.famineCasualties + casualties }));
+};
+
+export const recordGoldSpent = (
+    stats: GameStats,
+    faction: FactionId,
+    category: SpendingCategory,
+    amount: number
+): GameStats => {
+    if (amount <= 0 || faction === FactionId.NEUTRAL) return stats;
+    return updateFactionStats(stats, faction, s => ({
+        ...s,
+        goldSpent: { ...s.goldSpent, [category]: (s.goldSpent[category] ?? 0) + amount }
+    }));
+};
+
+/**
+ * Record the gold a faction lost between two treasuries (gains are ignored)
+ */
+export const recordTreasuryDrop = (
+    stats: GameStats,
+    faction: FactionId,
+    category: SpendingCategory,
+    goldBefore: number,
+    goldAfter: number
+): GameStats => recordGoldSpent(stats, faction, category, goldBefore - goldAfter);
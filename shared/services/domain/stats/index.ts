@@ -0,0 +1,15 @@
+/**
+ * Statistics Domain Module
+ *
+ * Exports the per-faction counters used by the end-of-game report.
+ */
+
+export {
+    createFactionGameStats,
+    getFactionGameStats,
+    recordBattle,
+    recordInsurrection,
+    recordFamineCasualties,
+    recordGoldSpent,
+    recordTreasuryDrop
+} from './gameStats';
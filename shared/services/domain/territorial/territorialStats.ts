@@ -12,6 +12,8 @@ import { Location, Army, Character, Road, LocationType, RuralCategory, FactionId
 import { FORTIFICATION_LEVELS, BONUS_HUNTING_ONLY, BONUS_FISHING_HUNTING, isPort, getAppeaseFoodCost as _getAppeaseFoodCost } from '../../../data';
 import { getEffectiveTaxLevel, getEffectiveTradeTaxLevel, getEffectiveFoodCollectionLevel, countFreeTradersAtLocation, getMaxManagementLevel } from '../economy/freeTrader';
 import { getFoodProductionConfig } from '../../../data/maps/foodProductionConfig';
+import { MapRegistry } from '../../../maps/MapRegistry';
+import { MapId } from '../../../maps/types';
 
 export const getAppeaseFoodCost = _getAppeaseFoodCost;
 
@@ -34,6 +36,8 @@ export interface RevenueStats {
     improvedEconomyBonus: number; // From governor's Improve Economy policy (2 * statesmanship)
     governorActionsCost: number;  // Gold cost of active governor policies
     grantedFiefCost: number;      // -30 gold if fief granted and granting faction controls
+    cutOffPenalty: number;        // Map rules: share lost while the linked rural area is held by another faction
+    seaTrade: number;             // Map rules: trade with the other ports of the same faction
     grossTotal: number;           // Total BEFORE governor policy costs (used for Location.goldIncome)
     total: number;                // Total AFTER governor policy costs (for UI display)
 }
@@ -192,7 +196,8 @@ export function calculateRevenueStats(
     location: Location,
     allLocations: Location[],
     roads: Road[],
-    characters: Character[]
+    characters: Character[],
+    mapId?: string
 ): RevenueStats | undefined {
     if (location.type !== LocationType.CITY) return undefined;
 
@@ -266,6 +271,11 @@ export function calculateRevenueStats(
     else if (location.id === 'Maqom') specialIncome = 10;
     else if (location.id === 'het-yod') specialIncome = 10;
     else if (location.id === 'archaris') specialIncome = 10;
+    // Valis
+    else if (location.id === 'aurelle') specialIncome = 25;
+    else if (location.id === 'lisselport') specialIncome = 25;
+    else if (location.id === 'merivant') specialIncome = 15;
+    else if (location.id === 'hautfer') specialIncome = 15;
 
     // Embargo impact on Windward
     let embargoImpact = 0;
@@ -312,7 +322,15 @@ export function calculateRevenueStats(
         grantedFiefCost = 30;
     }
 
-    const grossTotal = Math.max(0, personalTaxBase + personalTaxMod + tradeGold + managerBonus + specialIncome + embargoImpact - burnedDistricts + improvedEconomyBonus - grantedFiefCost);
+    const baseTotal = Math.max(0, personalTaxBase + personalTaxMod + tradeGold + managerBonus + specialIncome + embargoImpact - burnedDistricts + improvedEconomyBonus - grantedFiefCost);
+
+    // Map-specific lines (e.g. Valis sea trade and cut-off cities)
+    const rules = MapRegistry.get((mapId || 'larion_alternate') as MapId).rules;
+    const { cutOffPenalty, seaTrade } = rules
+        ? rules.getRevenueModifiers(location, allLocations, baseTotal)
+        : { cutOffPenalty: 0, seaTrade: 0 };
+
+    const grossTotal = baseTotal - cutOffPenalty + seaTrade;
     const total = Math.max(0, grossTotal - governorActionsCost);
 
     return {
@@ -326,6 +344,8 @@ export function calculateRevenueStats(
         improvedEconomyBonus,
         governorActionsCost,
         grantedFiefCost,
+        cutOffPenalty,
+        seaTrade,
         grossTotal,
         total
     };
@@ -488,10 +508,10 @@ export function calculateCityFoodStats(
     const tradeTaxLevel = location.tradeTaxLevel || 'NORMAL';
     const foodImports = -(TRADE_TAX_FOOD_IMPACT[tradeTaxLevel]); // Negative value in constant means imports (add food)
 
-    // Embargo Malus (applies to ALL cities when Windward embargo is active)
+    // Embargo Malus (applies to ALL cities when Windward embargo is active, except those granted access by agreement)
     let embargoMalus = 0;
     const windward = allLocations.find(l => l.id === 'windward');
-    if (windward && !windward.isGrainTradeActive) {
+    if (windward && !windward.isGrainTradeActive && !windward.grainTradeAccess?.includes(location.faction)) {
         embargoMalus = 10;
     }
 
@@ -699,7 +719,7 @@ export function calculateTerritorialStats(
         population: location.population,
         stability: location.stability,
 
-        revenue: isCity ? calculateRevenueStats(location, allLocations, roads, characters) : undefined,
+        revenue: isCity ? calculateRevenueStats(location, allLocations, roads, characters, mapId) : undefined,
         ruralFood: !isCity ? calculateRuralFoodStats(location, allLocations, armies, characters, mapId) : undefined,
         cityFood: isCity ? calculateCityFoodStats(location, allLocations, armies, characters, mapId) : undefined,
 
@@ -728,13 +748,14 @@ export function calculateFactionRevenue(
     factionId: FactionId,
     locations: Location[],
     roads: Road[],
-    characters: Character[]
+    characters: Character[],
+    mapId?: string
 ): number {
     // Calculate net revenue from all cities (includes policy costs for those cities)
     const cityRevenue = locations
         .filter(l => l.type === LocationType.CITY && l.faction === factionId)
         .reduce((total, city) => {
-            const revenue = calculateRevenueStats(city, locations, roads, characters);
+            const revenue = calculateRevenueStats(city, locations, roads, characters, mapId);
             return total + (revenue?.total || 0);
         }, 0);
 
@@ -0,0 +1,23 @@
+/**
+ * Victory Domain Module
+ *
+ * Exports victory rule selection, evaluation and standings.
+ */
+
+export {
+    // Types
+    type VictoryCheckResult,
+
+    // Rule selection
+    DEFAULT_VICTORY_CONDITIONS,
+    DEFAULT_VICTORY_MESSAGE_KEY,
+    getMapVictoryConditions,
+    getDefaultVictoryConditionIds,
+    resolveVictoryConditions,
+    getActiveVictoryConditions,
+
+    // Evaluation
+    evaluateVictory,
+    calculateStandings,
+    calculateFactionScore
+} from './victoryConditions';
@@ -0,0 +1,224 @@
+/**
+ * Victory Conditions Domain Service
+ *
+ * Evaluates the victory rules declared on a map (MapDefinition.victoryConditions)
+ * at the end of each turn and ranks every faction of the map.
+ * - Pure functions: the caller stores the returned progress and victory
+ * - Rules are checked in declaration order, the first one met ends the game
+ */
+
+import {
+    GameState,
+    FactionId,
+    LocationType,
+    CharacterStatus,
+    VictoryCondition,
+    VictoryResult,
+    VictoryProgress,
+    FactionStanding
+} from '../../../types';
+import { MapRegistry } from '../../../maps/MapRegistry';
+import { MapId } from '../../../maps/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Rule used by maps that declare none (the historical behaviour) */
+export const DEFAULT_VICTORY_CONDITIONS: VictoryCondition[] = [
+    { id: 'conquest', type: 'TOTAL_CONQUEST', nameKey: 'victory.conditions.conquest' }
+];
+
+export const DEFAULT_VICTORY_MESSAGE_KEY = 'victory.messages.default';
+
+// Score weights (SCORE_AT_TURN_LIMIT and standings)
+const SCORE_PER_CITY = 5;
+const SCORE_PER_RURAL = 2;
+const SCORE_PER_LIVING_LEADER = 3;
+const GOLD_PER_SCORE_POINT = 100;
+
+// ============================================================================
+// RULE SELECTION
+// ============================================================================
+
+/**
+ * Every victory rule a map offers
+ */
+export function getMapVictoryConditions(mapId?: string): VictoryCondition[] {
+    const definition = MapRegistry.get((mapId || 'larion_alternate') as MapId);
+    return definition.victoryConditions ?? DEFAULT_VICTORY_CONDITIONS;
+}
+
+/**
+ * Rule ids applied when nobody picked any (the map's enabledByDefault rules)
+ */
+export function getDefaultVictoryConditionIds(mapId?: string): string[] {
+    return getMapVictoryConditions(mapId)
+        .filter(c => c.enabledByDefault !== false)
+        .map(c => c.id);
+}
+
+/**
+ * Map rules matching the given ids, in map order (unknown ids are ignored)
+ */
+export function resolveVictoryConditions(mapId: string | undefined, conditionIds?: string[]): VictoryCondition[] {
+    const ids = conditionIds ?? getDefaultVictoryConditionIds(mapId);
+    return getMapVictoryConditions(mapId).filter(c => ids.includes(c.id));
+}
+
+/**
+ * Rules of a game: those stored on the state, else the map defaults
+ */
+export function getActiveVictoryConditions(state: GameState): VictoryCondition[] {
+    return state.victoryConditions ?? resolveVictoryConditions(state.mapId);
+}
+
+// ============================================================================
+// STANDINGS
+// ============================================================================
+
+const countLivingLeaders = (state: GameState, faction: FactionId): number =>
+    state.characters.filter(c => c.faction === faction && c.status !== CharacterStatus.DEAD).length;
+
+/**
+ * Score of a faction: territory, surviving leaders and treasury
+ */
+export function calculateFactionScore(state: GameState, faction: FactionId): number {
+    const owned = state.locations.filter(l => l.faction === faction);
+    const cities = owned.filter(l => l.type === LocationType.CITY).length;
+    const gold = state.resources[faction]?.gold ?? 0;
+
+    return cities * SCORE_PER_CITY
+        + (owned.length - cities) * SCORE_PER_RURAL
+        + countLivingLeaders(state, faction) * SCORE_PER_LIVING_LEADER
+        + Math.floor(Math.max(0, gold) / GOLD_PER_SCORE_POINT);
+}
+
+/**
+ * Rank every faction of the map. The winner (if any) comes first, then by score,
+ * owned locations and map order.
+ */
+export function calculateStandings(
+    state: GameState,
+    conditions: VictoryCondition[] = getActiveVictoryConditions(state),
+    winner?: FactionId
+): FactionStanding[] {
+    const factions = MapRegistry.getFactions((state.mapId || 'larion_alternate') as MapId);
+    const keyLocationIds = new Set(conditions.flatMap(c => c.type === 'HOLD_KEY_LOCATIONS' ? c.locationIds : []));
+
+    const standings = factions.map((faction, order) => {
+        const owned = state.locations.filter(l => l.faction === faction);
+        const livingLeaders = countLivingLeaders(state, faction);
+        return {
+            order,
+            standing: {
+                faction,
+                rank: 0,
+                score: calculateFactionScore(state, faction),
+                locations: owned.length,
+                cities: owned.filter(l => l.type === LocationType.CITY).length,
+                keyLocations: owned.filter(l => keyLocationIds.has(l.id)).length,
+                livingLeaders,
+                eliminated: owned.length === 0 && livingLeaders === 0
+            } as FactionStanding
+        };
+    });
+
+    standings.sort((a, b) =>
+        Number(b.standing.faction === winner) - Number(a.standing.faction === winner)
+        || b.standing.score - a.standing.score
+        || b.standing.locations - a.standing.locations
+        || a.order - b.order
+    );
+
+    return standings.map(({ standing }, index) => ({ ...standing, rank: index + 1 }));
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Factions taking part in the game: those of the multiplayer turn order (closed seats
+ * never act, so they can neither win nor keep a rule from being met), else the whole map
+ */
+function getPlayedFactions(state: GameState, mapFactions: FactionId[]): FactionId[] {
+    const turnOrder = (state as any).turnOrder as FactionId[] | undefined;
+    return turnOrder?.length ? mapFactions.filter(f => turnOrder.includes(f)) : mapFactions;
+}
+
+export interface VictoryCheckResult {
+    progress: VictoryProgress;
+    victory?: VictoryResult;
+}
+
+/**
+ * Check the game's victory rules after a turn has been processed.
+ * Returns the updated progress (key location holds) and the victory if a rule is met.
+ */
+export function evaluateVictory(state: GameState): VictoryCheckResult {
+    const conditions = getActiveVictoryConditions(state);
+    const mapId = (state.mapId || 'larion_alternate') as MapId;
+    const playedFactions = getPlayedFactions(state, MapRegistry.getFactions(mapId));
+    const previousHolds = state.victoryProgress?.keyLocationHolds ?? {};
+    const progress: VictoryProgress = { keyLocationHolds: {} };
+
+    let victory: VictoryResult | undefined;
+
+    for (const condition of conditions) {
+        const winner = findWinner(state, condition, playedFactions, previousHolds, progress);
+        if (winner && !victory) {
+            const metadata = MapRegistry.get(mapId).factionMetadata[winner];
+            victory = {
+                winner,
+                message: condition.messageKey || metadata?.victoryMessageKey || DEFAULT_VICTORY_MESSAGE_KEY,
+                conditionId: condition.id,
+                conditionType: condition.type,
+                turn: state.turn,
+                standings: calculateStandings(state, conditions, winner)
+            };
+        }
+    }
+
+    return { progress, victory };
+}
+
+// Winner of one rule, if met. HOLD_KEY_LOCATIONS rules record their hold in `progress`.
+function findWinner(
+    state: GameState,
+    condition: VictoryCondition,
+    playedFactions: FactionId[],
+    previousHolds: VictoryProgress['keyLocationHolds'],
+    progress: VictoryProgress
+): FactionId | null {
+    const candidates = condition.factions?.filter(f => playedFactions.includes(f)) ?? playedFactions;
+
+    switch (condition.type) {
+        case 'TOTAL_CONQUEST':
+            return candidates.find(faction => state.locations.every(l => l.faction === faction)) ?? null;
+
+        case 'HOLD_KEY_LOCATIONS': {
+            const keyLocations = state.locations.filter(l => condition.locationIds.includes(l.id));
+            if (keyLocations.length === 0) return null;
+
+            const holder = keyLocations[0].faction;
+            if (!candidates.includes(holder) || keyLocations.some(l => l.faction !== holder)) return null;
+
+            const previous = previousHolds[condition.id];
+            const turns = previous?.faction === holder ? previous.turns + 1 : 1;
+            progress.keyLocationHolds[condition.id] = { faction: holder, turns };
+            return turns >= condition.turns ? holder : null;
+        }
+
+        case 'SCORE_AT_TURN_LIMIT': {
+            if (state.turn <= condition.turnLimit) return null;
+            const best = calculateStandings(state, [condition]).find(s => candidates.includes(s.faction));
+            return best?.faction ?? null;
+        }
+
+        case 'ELIMINATE_LEADERS': {
+            const survivors = playedFactions.filter(faction => countLivingLeaders(state, faction) > 0);
+            return survivors.length === 1 && candidates.includes(survivors[0]) ? survivors[0] : null;
+        }
+    }
+}
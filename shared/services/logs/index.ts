@@ -3,3 +3,4 @@
  */
 
 export * from './logFactory';
+export * from './logArchive';
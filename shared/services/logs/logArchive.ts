@@ -0,0 +1,79 @@
+/**
+ * Log Archive - Recent log window of the live state and queries over the full chronicle
+ * The live GameState only keeps the newest logs, the server archives every entry per room
+ */
+
+import { FactionId, LogEntry, LogType, LogHighlightTarget } from '../../types';
+import { isLogVisibleTo } from '../../utils/fogOfWar';
+
+/** Number of logs kept in the live GameState */
+export const LOG_WINDOW_SIZE = 100;
+
+export const DEFAULT_LOG_PAGE_SIZE = 50;
+export const MAX_LOG_PAGE_SIZE = 200;
+
+/**
+ * Trim logs to the live window.
+ * Logs of the current turn are always kept, so whoever archives after each
+ * state change never misses an entry even when a turn produces a burst of logs.
+ */
+export const trimLogWindow = (logs: LogEntry[], currentTurn: number): LogEntry[] => {
+    if (logs.length <= LOG_WINDOW_SIZE) return logs;
+
+    const windowStart = logs.length - LOG_WINDOW_SIZE;
+    return logs.filter((log, index) => index >= windowStart || log.turn >= currentTurn);
+};
+
+/**
+ * Filters and paging of a chronicle query (all filters are optional and combined)
+ */
+export interface LogQuery {
+    fromTurn?: number;
+    toTurn?: number;
+    types?: LogType[];
+    faction?: FactionId;                                     // Only logs this faction can see
+    highlightTarget?: Partial<Pick<LogHighlightTarget, 'type' | 'id'>>;
+    order?: 'asc' | 'desc';                                  // Default 'desc' (newest first)
+    offset?: number;
+    limit?: number;                                          // Capped at MAX_LOG_PAGE_SIZE
+}
+
+export interface LogPage {
+    entries: LogEntry[];
+    total: number;   // Matching entries across all pages
+    offset: number;
+    limit: number;
+}
+
+export const matchesLogQuery = (log: LogEntry, query: LogQuery): boolean => {
+    if (query.fromTurn !== undefined && log.turn < query.fromTurn) return false;
+    if (query.toTurn !== undefined && log.turn > query.toTurn) return false;
+    if (query.types && query.types.length > 0 && !query.types.includes(log.type)) return false;
+    if (query.faction && !isLogVisibleTo(log, query.faction)) return false;
+
+    const target = query.highlightTarget;
+    if (target && (target.type || target.id)) {
+        if (!log.highlightTarget) return false;
+        if (target.type && log.highlightTarget.type !== target.type) return false;
+        if (target.id && log.highlightTarget.id !== target.id) return false;
+    }
+    return true;
+};
+
+/**
+ * Run a query over logs stored in chronological order
+ */
+export const queryLogs = (logs: LogEntry[], query: LogQuery = {}): LogPage => {
+    const matching = logs.filter(log => matchesLogQuery(log, query));
+    if (query.order !== 'asc') matching.reverse();
+
+    const offset = Math.max(0, Math.floor(query.offset ?? 0));
+    const limit = Math.min(MAX_LOG_PAGE_SIZE, Math.max(1, Math.floor(query.limit ?? DEFAULT_LOG_PAGE_SIZE)));
+
+    return {
+        entries: matching.slice(offset, offset + limit),
+        total: matching.length,
+        offset,
+        limit
+    };
+};
@@ -3,14 +3,12 @@
  * Centralizes log creation logic with proper metadata for personalization and highlighting
  */
 
-import { FactionId, LogEntry, LogType, LogSeverity, LogHighlightTarget } from '../../types';
-
-let logIdCounter = 0;
+import { FactionId, LogEntry, LogType, LogSeverity, LogHighlightTarget, DiplomaticAgreement } from '../../types';
+import { randomId } from '../rng/gameRng';
 
 /** Generate unique log ID */
 const generateLogId = (): string => {
-    logIdCounter++;
-    return `log_${Date.now()}_${logIdCounter}`;
+    return `log_${randomId()}`;
 };
 
 /**
@@ -158,6 +156,52 @@ export const createCaptureUncontestedLog = (
     };
 };
 
+/**
+ * Create an "Army set sail" log (own faction only)
+ */
+export const createArmyEmbarkedLog = (
+    faction: FactionId,
+    sourcePortId: string,
+    destinationPortId: string,
+    arrivalTurn: number,
+    turn: number
+): LogEntry => ({
+    id: generateLogId(),
+    type: LogType.MOVEMENT,
+    message: `Army set sail from ${sourcePortId} to ${destinationPortId} (landing turn ${arrivalTurn}).`,
+    turn,
+    visibleToFactions: [faction],
+    baseSeverity: LogSeverity.INFO,
+    highlightTarget: { type: 'LOCATION', id: destinationPortId },
+    i18nKey: 'armyEmbarked',
+    i18nParams: { source: sourcePortId, destination: destinationPortId, arrivalTurn }
+});
+
+/**
+ * Create an "Army landed" log
+ * WARNING for the owner of the port when the landing army is foreign
+ */
+export const createArmyLandedLog = (
+    armyId: string,
+    portId: string,
+    portFaction: FactionId,
+    landingFaction: FactionId,
+    turn: number
+): LogEntry => {
+    const hostile = portFaction !== landingFaction && portFaction !== FactionId.NEUTRAL;
+    return {
+        id: generateLogId(),
+        type: LogType.MOVEMENT,
+        message: `Forces of ${landingFaction} landed at ${portId}.`,
+        turn,
+        visibleToFactions: hostile ? [landingFaction, portFaction] : [landingFaction],
+        baseSeverity: hostile ? LogSeverity.WARNING : LogSeverity.INFO,
+        highlightTarget: { type: 'ARMY', id: armyId },
+        i18nKey: 'armyLanded',
+        i18nParams: { port: portId, faction: landingFaction }
+    };
+};
+
 // ============================================================================
 // CONVOY LOGS
 // ============================================================================
@@ -168,17 +212,20 @@ export const createCaptureUncontestedLog = (
 export const createConvoyArrivalLog = (
     cityId: string,
     amount: number,
-    turn: number
+    turn: number,
+    goldAmount: number = 0
 ): LogEntry => ({
     id: generateLogId(),
     type: LogType.CONVOY,
-    message: `Convoy arrived at ${cityId} with ${amount} food.`,
+    message: goldAmount > 0
+        ? `Convoy arrived at ${cityId} with ${amount} food and ${goldAmount} gold.`
+        : `Convoy arrived at ${cityId} with ${amount} food.`,
     turn,
     visibleToFactions: [],
     baseSeverity: LogSeverity.INFO,
     highlightTarget: { type: 'LOCATION', id: cityId },
-    i18nKey: 'convoyArrived',
-    i18nParams: { city: cityId, amount }
+    i18nKey: goldAmount > 0 ? 'convoyArrivedWithGold' : 'convoyArrived',
+    i18nParams: goldAmount > 0 ? { city: cityId, amount, gold: goldAmount } : { city: cityId, amount }
 });
 
 /**
@@ -187,24 +234,28 @@ export const createConvoyArrivalLog = (
 export const createNavalConvoyArrivalLog = (
     cityId: string,
     amount: number,
-    turn: number
+    turn: number,
+    goldAmount: number = 0
 ): LogEntry => ({
     id: generateLogId(),
     type: LogType.CONVOY,
-    message: `Naval convoy arrived at ${cityId} with ${amount} food.`,
+    message: goldAmount > 0
+        ? `Naval convoy arrived at ${cityId} with ${amount} food and ${goldAmount} gold.`
+        : `Naval convoy arrived at ${cityId} with ${amount} food.`,
     turn,
     visibleToFactions: [],
     baseSeverity: LogSeverity.INFO,
     highlightTarget: { type: 'LOCATION', id: cityId },
-    i18nKey: 'navalConvoyArrived',
-    i18nParams: { city: cityId, amount }
+    i18nKey: goldAmount > 0 ? 'navalConvoyArrivedWithGold' : 'navalConvoyArrived',
+    i18nParams: goldAmount > 0 ? { city: cityId, amount, gold: goldAmount } : { city: cityId, amount }
 });
 
 /**
  * Create a convoy dispatched log
  */
 export const createConvoyDispatchedLog = (
-    turn: number
+    turn: number,
+    arrivalTurn?: number
 ): LogEntry => ({
     id: generateLogId(),
     type: LogType.CONVOY,
@@ -213,7 +264,91 @@ export const createConvoyDispatchedLog = (
     visibleToFactions: [],
     baseSeverity: LogSeverity.INFO,
     i18nKey: 'convoyDispatched',
-    i18nParams: {}
+    i18nParams: arrivalTurn !== undefined ? { arrivalTurn } : {}
+});
+
+/**
+ * Create a log for a convoy that took another route after its route was cut
+ */
+export const createConvoyReroutedLog = (
+    faction: FactionId,
+    cityId: string,
+    arrivalTurn: number,
+    turn: number
+): LogEntry => ({
+    id: generateLogId(),
+    type: LogType.CONVOY,
+    message: `Convoy to ${cityId} re-routed, now expected on turn ${arrivalTurn}.`,
+    turn,
+    visibleToFactions: [faction],
+    baseSeverity: LogSeverity.INFO,
+    highlightTarget: { type: 'LOCATION', id: cityId },
+    i18nKey: 'convoyRerouted',
+    i18nParams: { city: cityId, arrivalTurn }
+});
+
+/**
+ * Create a log for a convoy that stopped because no route to its destination is left
+ */
+export const createConvoyHaltedLog = (
+    faction: FactionId,
+    cityId: string,
+    turn: number
+): LogEntry => ({
+    id: generateLogId(),
+    type: LogType.CONVOY,
+    message: `Convoy to ${cityId} halted: every route is cut.`,
+    turn,
+    visibleToFactions: [faction],
+    baseSeverity: LogSeverity.WARNING,
+    highlightTarget: { type: 'LOCATION', id: cityId },
+    i18nKey: 'convoyHalted',
+    i18nParams: { city: cityId }
+});
+
+/**
+ * Create the log of a convoy seized by an enemy army (seen by both sides)
+ * @param redirectedTo - City the captors take the cargo to (undefined: the cargo is plundered)
+ */
+export const createConvoyCapturedLog = (
+    owner: FactionId,
+    captor: FactionId,
+    roadId: string,
+    stageIndex: number,
+    foodAmount: number,
+    goldAmount: number,
+    turn: number,
+    redirectedTo?: string
+): LogEntry => ({
+    id: generateLogId(),
+    type: LogType.CONVOY,
+    message: `${owner} convoy carrying ${foodAmount} food and ${goldAmount} gold seized by ${captor} troops` +
+        (redirectedTo ? `, now bound for ${redirectedTo}.` : ' and plundered.'),
+    turn,
+    visibleToFactions: [owner, captor],
+    baseSeverity: LogSeverity.WARNING,
+    highlightTarget: { type: 'ROAD_STAGE', id: roadId, stageIndex },
+    i18nKey: redirectedTo ? 'convoyCaptured' : 'convoyPlundered',
+    i18nParams: { owner, captor, food: foodAmount, gold: goldAmount, ...(redirectedTo ? { city: redirectedTo } : {}) }
+});
+
+/**
+ * Create a log for a faction whose capital moved after the old one was lost
+ */
+export const createCapitalMovedLog = (
+    faction: FactionId,
+    cityId: string,
+    turn: number
+): LogEntry => ({
+    id: generateLogId(),
+    type: LogType.ECONOMY,
+    message: `${faction} treasury moved to ${cityId}.`,
+    turn,
+    visibleToFactions: [faction],
+    baseSeverity: LogSeverity.WARNING,
+    highlightTarget: { type: 'LOCATION', id: cityId },
+    i18nKey: 'capitalMoved',
+    i18nParams: { city: cityId }
 });
 
 /**
@@ -391,6 +526,114 @@ export const createNegotiationAttemptLog = (
     };
 };
 
+// ============================================================================
+// DIPLOMACY LOGS
+// ============================================================================
+
+const agreementParties = (agreement: DiplomaticAgreement): FactionId[] => [agreement.proposer, agreement.recipient];
+
+/**
+ * Create an agreement proposed log (WARNING for the recipient)
+ */
+export const createAgreementProposedLog = (
+    agreement: DiplomaticAgreement,
+    turn: number
+): LogEntry => ({
+    id: generateLogId(),
+    type: LogType.NEGOTIATION,
+    message: `${agreement.proposer} proposes an agreement to ${agreement.recipient} (${agreement.terms.map(t => t.type).join(', ')}).`,
+    turn,
+    visibleToFactions: agreementParties(agreement),
+    baseSeverity: LogSeverity.INFO,
+    warningForFactions: [agreement.recipient],
+    i18nKey: 'agreementProposed',
+    i18nParams: { proposer: agreement.proposer, recipient: agreement.recipient, terms: agreement.terms.map(t => t.type) }
+});
+
+/**
+ * Create an agreement accepted or rejected log (visible to both parties)
+ */
+export const createAgreementAnsweredLog = (
+    agreement: DiplomaticAgreement,
+    accepted: boolean,
+    turn: number
+): LogEntry => ({
+    id: generateLogId(),
+    type: LogType.NEGOTIATION,
+    message: `${agreement.recipient} ${accepted ? 'accepted' : 'rejected'} the agreement proposed by ${agreement.proposer}.`,
+    turn,
+    visibleToFactions: agreementParties(agreement),
+    baseSeverity: accepted ? LogSeverity.GOOD : LogSeverity.INFO,
+    i18nKey: accepted ? 'agreementAccepted' : 'agreementRejected',
+    i18nParams: { proposer: agreement.proposer, recipient: agreement.recipient, expiresTurn: agreement.expiresTurn }
+});
+
+/**
+ * Create an agreement broken log
+ * CRITICAL for the betrayed party, WARNING for the one who broke it
+ */
+export const createAgreementBrokenLog = (
+    agreement: DiplomaticAgreement,
+    breaker: FactionId,
+    reason: 'TERRITORY' | 'TRIBUTE',
+    turn: number,
+    trespassed?: LogHighlightTarget
+): LogEntry => {
+    const victim = breaker === agreement.proposer ? agreement.recipient : agreement.proposer;
+    return {
+        id: generateLogId(),
+        type: LogType.NEGOTIATION,
+        message: reason === 'TERRITORY'
+            ? `${breaker} broke its agreement with ${victim}: its troops entered ${trespassed?.id ?? 'their territory'}.`
+            : `${breaker} broke its agreement with ${victim}: the tribute went unpaid.`,
+        turn,
+        visibleToFactions: agreementParties(agreement),
+        baseSeverity: LogSeverity.WARNING,
+        criticalForFactions: [victim],
+        highlightTarget: trespassed,
+        i18nKey: reason === 'TERRITORY' ? 'agreementBrokenTerritory' : 'agreementBrokenTribute',
+        i18nParams: { breaker, victim, location: trespassed?.id }
+    };
+};
+
+/**
+ * Create an agreement ended log: unanswered proposal or duration over (visible to both parties)
+ */
+export const createAgreementExpiredLog = (
+    agreement: DiplomaticAgreement,
+    turn: number
+): LogEntry => ({
+    id: generateLogId(),
+    type: LogType.NEGOTIATION,
+    message: agreement.acceptedTurn !== undefined
+        ? `The agreement between ${agreement.proposer} and ${agreement.recipient} has ended.`
+        : `The proposal of ${agreement.proposer} to ${agreement.recipient} went unanswered.`,
+    turn,
+    visibleToFactions: agreementParties(agreement),
+    baseSeverity: LogSeverity.INFO,
+    i18nKey: agreement.acceptedTurn !== undefined ? 'agreementEnded' : 'agreementProposalExpired',
+    i18nParams: { proposer: agreement.proposer, recipient: agreement.recipient }
+});
+
+/**
+ * Create a tribute paid log (visible to both parties)
+ */
+export const createTributePaidLog = (
+    payer: FactionId,
+    payee: FactionId,
+    amount: number,
+    turn: number
+): LogEntry => ({
+    id: generateLogId(),
+    type: LogType.ECONOMY,
+    message: `${payer} paid ${amount} gold of tribute to ${payee}.`,
+    turn,
+    visibleToFactions: [payer, payee],
+    baseSeverity: LogSeverity.INFO,
+    i18nKey: 'tributePaid',
+    i18nParams: { payer, payee, amount }
+});
+
 // ============================================================================
 // FAMINE LOGS
 // ============================================================================
@@ -0,0 +1,94 @@
+/**
+ * Game RNG - Seeded random stream stored in GameState.rng
+ * Every random draw in shared/services goes through here so that replaying a
+ * saved state with the same actions produces identical results.
+ *
+ * Entry points (processTurn, resolveCombatResult, server action/AI dispatch) bind
+ * the state's stream with withRng; services then call random() & co. without
+ * having to thread the RNG through every signature. Nothing is bound for states
+ * created before seeding existed, in which case draws fall back to Math.random.
+ */
+
+import { RngState } from '../../types';
+
+// Stack of bound streams (entries are private mutable copies, never the state's object)
+const boundStreams: (RngState | null)[] = [];
+
+const activeStream = (): RngState | null =>
+    boundStreams.length > 0 ? boundStreams[boundStreams.length - 1] : null;
+
+/** Generate a fresh seed (the only place allowed to use Math.random for seeding) */
+export const generateSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+/** Create the RNG state for a new game */
+export const createRngState = (seed: number = generateSeed()): RngState => ({
+    seed: seed >>> 0,
+    state: seed >>> 0,
+    clock: 0
+});
+
+/** mulberry32 step - advances the stream and returns a 32-bit unsigned integer */
+const nextUint32 = (stream: RngState): number => {
+    stream.state = (stream.state + 0x6D2B79F5) >>> 0;
+    let t = stream.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+};
+
+/**
+ * Bind a stream for the duration of a synchronous call.
+ * Passing undefined keeps whatever stream is already bound (nested entry points).
+ * Returns the advanced RNG state to store back on the game state.
+ */
+export const withRng = <T>(rng: RngState | undefined, fn: () => T): { result: T; rng: RngState | undefined } => {
+    const stream = rng ? { ...rng } : activeStream();
+    boundStreams.push(stream);
+    try {
+        const result = fn();
+        return { result, rng: stream ? { ...stream } : undefined };
+    } finally {
+        boundStreams.pop();
+    }
+};
+
+/**
+ * Run fn on the state's stream and attach the advanced RNG state to its result.
+ * For entry points that return a (partial) game state.
+ */
+export const withGameRng = <R extends object>(state: { rng?: RngState }, fn: () => R): R => {
+    const { result, rng } = withRng(state.rng, fn);
+    return rng ? { ...result, rng } : result;
+};
+
+/** Uniform float in [0, 1) - drop-in replacement for Math.random() */
+export const random = (): number => {
+    const stream = activeStream();
+    return stream ? nextUint32(stream) / 0x100000000 : Math.random();
+};
+
+/** Uniform integer in [0, maxExclusive) */
+export const randomInt = (maxExclusive: number): number => Math.floor(random() * maxExclusive);
+
+/** Pick a random element (undefined for an empty list) */
+export const randomChoice = <T>(items: T[]): T => items[randomInt(items.length)];
+
+/** Random base-36 suffix for entity IDs */
+export const randomId = (length: number = 9): string => {
+    let id = '';
+    while (id.length < length) {
+        id += (random() * 0x100000000 >>> 0).toString(36);
+    }
+    return id.substring(0, length);
+};
+
+/**
+ * Monotonic tick used where services used Date.now() for ordering (e.g. alert timestamps).
+ * Deterministic while a stream is bound, wall clock otherwise.
+ */
+export const nextTick = (): number => {
+    const stream = activeStream();
+    if (!stream) return Date.now();
+    stream.clock += 1;
+    return stream.clock;
+};
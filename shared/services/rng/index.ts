@@ -0,0 +1,5 @@
+/**
+ * RNG Service - Seeded randomness shared by client and server
+ */
+
+export * from './gameRng';
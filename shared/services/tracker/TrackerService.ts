@@ -29,14 +29,14 @@ const calculateTotalTroops = (armies: Army[], faction: FactionId): number => {
 };
 
 /**
- * Count living leaders for a faction
+ * Living leaders of a faction
  */
-const countLivingLeaders = (characters: Character[], faction: FactionId): number => {
+const getLivingLeaders = (characters: Character[], faction: FactionId): Character[] => {
     return characters.filter(c => 
         c.faction === faction && 
         c.status !== CharacterStatus.DEAD &&
         !c.isRecruitableLeader // Exclude not-yet-recruited leaders
-    ).length;
+    );
 };
 
 /**
@@ -46,9 +46,10 @@ const calculateTotalIncome = (
     locations: Location[],
     roads: GameState['roads'],
     characters: Character[],
-    faction: FactionId
+    faction: FactionId,
+    mapId?: string
 ): number => {
-    return calculateFactionRevenue(faction, locations, roads, characters);
+    return calculateFactionRevenue(faction, locations, roads, characters, mapId);
 };
 
 /**
@@ -112,13 +113,18 @@ export const captureSnapshot = (state: GameState): TurnSnapshot => {
     const factionSnapshots: Partial<Record<FactionId, FactionSnapshot>> = {};
     
     for (const faction of playableFactions) {
+        const livingLeaders = getLivingLeaders(state.characters, faction);
+        const controlled = state.locations.filter(l => l.faction === faction);
         factionSnapshots[faction] = {
             gold: state.resources[faction]?.gold ?? 0,
             stability: calculateAverageStability(state.locations, faction),
             troops: calculateTotalTroops(state.armies, faction),
-            leaders: countLivingLeaders(state.characters, faction),
-            income: calculateTotalIncome(state.locations, state.roads, state.characters, faction),
-            foodBalance: calculateFoodBalance(state.locations, state.armies, state.characters, faction, state.mapId)
+            leaders: livingLeaders.length,
+            income: calculateTotalIncome(state.locations, state.roads, state.characters, faction, state.mapId),
+            foodBalance: calculateFoodBalance(state.locations, state.armies, state.characters, faction, state.mapId),
+            locations: controlled.length,
+            cities: controlled.filter(l => l.type === LocationType.CITY).length,
+            livingLeaderIds: livingLeaders.map(c => c.id)
         };
     }
     
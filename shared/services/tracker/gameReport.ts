@@ -0,0 +1,77 @@
+/**
+ * Game Report - End-of-game statistics
+ * Shared module: built by the server when a victory is declared
+ */
+
+import { GameState, FactionId, CharacterStatus } from '../../types';
+import { TurnSnapshot } from '../../types/trackerTypes';
+import { FactionReport, GameReport } from '../../types/gameReportTypes';
+import { getFactionGameStats } from '../domain/stats';
+import { captureSnapshot, addSnapshot, getPlayableFactions } from './TrackerService';
+
+/**
+ * Leaders that died, grouped by the faction they last served alive
+ */
+const collectLeadersLost = (state: GameState, snapshots: TurnSnapshot[]): Map<FactionId, string[]> => {
+    const lastServed = new Map<string, FactionId>();
+    for (const snapshot of snapshots) {
+        for (const [faction, metrics] of Object.entries(snapshot.factions)) {
+            metrics?.livingLeaderIds?.forEach(id => lastServed.set(id, faction as FactionId));
+        }
+    }
+
+    const lost = new Map<FactionId, string[]>();
+    for (const character of state.characters) {
+        const faction = lastServed.get(character.id);
+        if (!faction || character.status !== CharacterStatus.DEAD) continue;
+        lost.set(faction, [...(lost.get(faction) ?? []), character.id]);
+    }
+    return lost;
+};
+
+/**
+ * Build the end-of-game report from the per-turn snapshots and the stats counters.
+ * The final state is always added as the last snapshot.
+ * Returns null while the game has no winner.
+ */
+export const buildGameReport = (state: GameState, snapshots: TurnSnapshot[]): GameReport | null => {
+    if (!state.victory) return null;
+
+    const allSnapshots = addSnapshot({ enabled: true, snapshots }, captureSnapshot(state)).snapshots
+        .slice()
+        .sort((a, b) => a.turn - b.turn);
+    const leadersLost = collectLeadersLost(state, allSnapshots);
+
+    const standingsOrder = state.victory.standings?.map(s => s.faction) ?? [];
+    const factions = [
+        ...standingsOrder,
+        ...getPlayableFactions(state.mapId).filter(f => !standingsOrder.includes(f))
+    ];
+
+    const reports: FactionReport[] = factions.map(faction => {
+        const stats = getFactionGameStats(state.stats, faction);
+        return {
+            faction,
+            territory: allSnapshots
+                .filter(s => s.factions[faction]?.locations !== undefined)
+                .map(s => ({ turn: s.turn, locations: s.factions[faction]!.locations!, cities: s.factions[faction]!.cities ?? 0 })),
+            battlesFought: stats.battlesFought,
+            battlesWon: stats.battlesWon,
+            leadersLost: leadersLost.get(faction) ?? [],
+            insurrectionsTriggered: stats.insurrectionsTriggered,
+            insurrectionsSuffered: stats.insurrectionsSuffered,
+            goldSpent: stats.goldSpent,
+            totalGoldSpent: Object.values(stats.goldSpent).reduce((sum, amount) => sum + (amount ?? 0), 0),
+            famineCasualties: stats.famineCasualties
+        };
+    });
+
+    return {
+        mapId: state.mapId ?? '',
+        turn: state.victory.turn ?? state.turn,
+        victory: state.victory,
+        deathToll: state.stats.deathToll,
+        factions: reports,
+        snapshots: allSnapshots
+    };
+};
@@ -3,4 +3,6 @@
  */
 
 export * from './TrackerService';
+export * from './gameReport';
 export * from '../../types/trackerTypes';
+export * from '../../types/gameReportTypes';
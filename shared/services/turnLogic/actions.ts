@@ -12,11 +12,10 @@ import { isNeutralInsurrectionBlocked, createBlockedInsurrectionLog } from '../d
 import { validateGovernorStatus } from '../domain/governor/governorService';
 import { handleLeaderStatusOnCapture } from './leaderStatusUpdates';
 import { evaluateSmugglerDispatch, assignSmugglerMission } from '../ai/leaders/missions/SmugglerMissionService';
+import { random, randomId } from '../rng/gameRng';
 
-let logIdCounter = 0;
 const generateLogId = (): string => {
-    logIdCounter++;
-    return `log_actions_${Date.now()}_${logIdCounter}`;
+    return `log_actions_${randomId()}`;
 };
 
 export const processInsurrections = (
@@ -88,7 +87,7 @@ export const processInsurrections = (
                     nextLocations[locIndex].population = Math.max(0, loc.population - numInsurgents);
 
                     // 4. Create Insurgent Army
-                    const insurgentArmyId = `insurgent_${char.id}_${Math.random()}`;
+                    const insurgentArmyId = `insurgent_${char.id}_${randomId()}`;
                     nextArmies.push({
                         id: insurgentArmyId,
                         faction: char.faction,
@@ -156,12 +155,12 @@ export const processInsurrections = (
                 else if (loc.stability >= 10) chance = 75;
                 else chance = 100;
 
-                if (Math.random() * 100 < chance) {
+                if (random() * 100 < chance) {
                     const divisor = loc.type === LocationType.CITY ? 1000 : 10000;
                     const numInsurgents = Math.floor((50 - loc.stability) * (loc.population / divisor));
 
                     if (numInsurgents > 0) {
-                        const insurgentArmyId = `neutral_rising_${loc.id}_${Math.random()}`;
+                        const insurgentArmyId = `neutral_rising_${loc.id}_${randomId()}`;
 
                         console.log(`[INSURRECTION] Creating Neutral insurgent army at ${loc.name} (${loc.id})`);
 
@@ -24,6 +24,7 @@ import {
 
 // Import log factory
 import { createTurnMarkerLog, createNarrativeLog } from './logs/logFactory';
+import { trimLogWindow } from './logs/logArchive';
 
 // Import undercover mission processing and Nobles leader availability
 import { processUndercoverMissionTravel, processNoblesLeaderAvailability } from './domain/leaders';
@@ -42,6 +43,22 @@ import {
 // Import Free Trader enforcement
 import { enforceFreeTraderLimits } from './domain/economy/freeTrader';
 
+// Import physical treasury rules (tax gold shipped to capitals)
+import { isPhysicalTreasury, updateCapitals, collectPhysicalTaxes } from './domain/economy/treasury';
+import { randomId, withRng } from './rng/gameRng';
+
+// Import agreements between factions (tribute, grain trade access, non-aggression pacts)
+import { processAgreements, detectAgreementBreaches } from './domain/politics/agreements';
+
+// Import naval transport of armies (landings at destination ports)
+import { processNavalTransports } from './domain/military/navalTransport';
+
+// Import victory rules evaluation
+import { evaluateVictory } from './domain/victory';
+
+// Import end-of-game statistics counters
+import { recordInsurrection, recordTreasuryDrop } from './domain/stats';
+
 /**
  * AI function types for injection
  */
@@ -50,6 +67,8 @@ export interface TurnProcessorOptions {
     processAITurn?: (state: GameState) => GameState;
     /** Generate narrative flavor text (client-only, may use external API) */
     generateTurnNarrative?: (turn: number, events: string[], faction: FactionId) => Promise<string>;
+    /** Throw when the turn fails instead of returning the previous state with an error log */
+    rethrow?: boolean;
 }
 
 // Default stubs (used by server)
@@ -62,12 +81,14 @@ const defaultGenerateTurnNarrative = async (_turn: number, _events: string[], _f
  * Phases:
  * 1. AI Planning & Execution
  * 2. Turn Advancement & Reset
- * 3. Movement & Collisions
+ * 3. Movement, Landings & Collisions
  * 4. Events & Actions (Insurrections, Construction, Auto-Capture)
- * 5. Logistics (Convoys, Economy, Famine, Stability, Negotiations)
+ * 5. Logistics (Convoys, Economy, Famine, Stability, Negotiations, Agreements)
  * 6. AI Battle Resolution
  * 7. Narrative & Victory Check
  * 
+ * All random draws come from the state's seeded stream (GameState.rng).
+ *
  * @param initialState - Game state before the turn
  * @param options - Optional AI functions to inject (client provides these)
  * @returns Promise resolving to the updated game state
@@ -75,6 +96,16 @@ const defaultGenerateTurnNarrative = async (_turn: number, _events: string[], _f
 export const processTurn = async (
     initialState: GameState,
     options: TurnProcessorOptions = {}
+): Promise<GameState> => {
+    // The phases never await, so the whole turn runs while the stream is bound
+    const { result, rng } = withRng(initialState.rng, () => runTurnPhases(initialState, options));
+    const state = await result;
+    return rng ? { ...state, rng } : state;
+};
+
+const runTurnPhases = async (
+    initialState: GameState,
+    options: TurnProcessorOptions
 ): Promise<GameState> => {
     const {
         processAITurn = defaultProcessAITurn,
@@ -83,6 +114,7 @@ export const processTurn = async (
 
     let state = { ...initialState };
     const logs: LogEntry[] = [];
+    const physicalTreasury = isPhysicalTreasury(state);
 
     try {
         // --- PHASE 1: AI PLANNING & EXECUTION ---
@@ -136,6 +168,19 @@ export const processTurn = async (
         // Reset justMoved AFTER movement resolution to prevent double-move bug
         state.armies = state.armies.map(a => ({ ...a, justMoved: false }));
 
+        // Armies at sea land at their destination port (battles there are detected with the others)
+        const landingResult = processNavalTransports(state.navalTransports, state.armies, state.characters, state.locations, state.turn);
+        state.navalTransports = landingResult.navalTransports;
+        state.armies = landingResult.armies;
+        state.characters = landingResult.characters;
+        logs.push(...landingResult.logs);
+
+        // Armies that marched onto a pact partner's ground break the pact before any battle
+        const breachResult = detectAgreementBreaches(state.agreements, state.armies, state.locations, state.roads, state.turn);
+        state.agreements = breachResult.agreements;
+        state.locations = breachResult.locations;
+        logs.push(...breachResult.logs);
+
         // Process undercover leader travel
         const missionResult = processUndercoverMissionTravel(state.characters, state.locations, state.armies, state.turn);
         state.characters = missionResult.characters;
@@ -162,13 +207,22 @@ export const processTurn = async (
 
         // --- PHASE 3b: CLANDESTINE ACTIONS ---
         // Process active clandestine operations (costs deducted at turn start, effects applied)
-        const clandestineResult = processClandestineActions(state.characters, state.locations, state.armies, state.turn);
+        const clandestineResult = processClandestineActions(
+            state.characters, state.locations, state.armies, state.turn,
+            physicalTreasury ? { convoys: state.convoys, roads: state.roads } : undefined
+        );
         state.characters = clandestineResult.characters;
         state.locations = clandestineResult.locations;
         if (clandestineResult.armies) {
             state.armies = clandestineResult.armies;
         }
+        if (clandestineResult.convoys) {
+            state.convoys = clandestineResult.convoys;
+        }
         logs.push(...clandestineResult.logs);
+        clandestineResult.insurrections?.forEach(({ triggeredBy, targetFaction }) => {
+            state.stats = recordInsurrection(state.stats, triggeredBy, targetFaction);
+        });
 
         // Add generated armies (e.g. insurgents)
         if (clandestineResult.newArmies && clandestineResult.newArmies.length > 0) {
@@ -190,7 +244,15 @@ export const processTurn = async (
 
         // --- PHASE 4: EVENTS & ACTIONS ---
         console.log('[TURN] Phase 4: Processing insurrections...');
+        const armyIdsBeforeRevolts = new Set(state.armies.map(a => a.id));
+        const ownersBeforeRevolts = new Map(state.locations.map(l => [l.id, l.faction]));
         const revoltResult = processInsurrections(state.locations, state.characters, state.armies, state.playerFaction, state.turn);
+        revoltResult.armies
+            .filter(a => a.isInsurgent && !armyIdsBeforeRevolts.has(a.id))
+            .forEach(a => {
+                // Neutral insurgents here are spontaneous uprisings: nobody triggered them
+                state.stats = recordInsurrection(state.stats, a.faction, a.locationId ? ownersBeforeRevolts.get(a.locationId) : undefined);
+            });
         state.locations = revoltResult.locations;
         state.characters = revoltResult.characters;
         state.armies = revoltResult.armies;
@@ -221,8 +283,10 @@ export const processTurn = async (
         const grainTradeNotification = state.grainTradeNotification || captureResult.tradeNotification;
 
         // --- PHASE 5: LOGISTICS ---
-        // 5.1 Land Convoys
-        const convoyResult = processConvoys(state.convoys, state.roads, state.locations, state.turn);
+        // 5.1 Land Convoys (armies only intercept them with the physical treasury)
+        const convoyResult = processConvoys(
+            state.convoys, state.roads, state.locations, state.turn, physicalTreasury ? state.armies : []
+        );
         state.convoys = convoyResult.convoys;
         state.locations = convoyResult.locations;
         logs.push(...convoyResult.logs);
@@ -246,12 +310,30 @@ export const processTurn = async (
 
         // 5.5 Gold Income
         console.log(`[TURN PROCESSOR] Gold BEFORE income: NOBLES=${state.resources.NOBLES?.gold}, REP=${state.resources.REPUBLICANS?.gold}, CONS=${state.resources.CONSPIRATORS?.gold}`);
-        Object.values(FactionId).forEach(fid => {
-            if (state.resources[fid]) {
-                const income = state.locations.filter(l => l.faction === fid).reduce((sum, l) => sum + l.goldIncome, 0);
-                state.resources[fid].gold += income;
-            }
-        });
+        if (physicalTreasury) {
+            // Cities keep their taxes; only the gold stored in a capital reaches the treasury
+            const capitalResult = updateCapitals(
+                state.locations,
+                Object.values(FactionId).filter(fid => fid !== FactionId.NEUTRAL && state.resources[fid]),
+                state.capitals,
+                state.turn
+            );
+            state.capitals = capitalResult.capitals;
+            logs.push(...capitalResult.logs);
+
+            const taxResult = collectPhysicalTaxes(state.locations, state.capitals);
+            state.locations = taxResult.locations;
+            Object.entries(taxResult.income).forEach(([fid, income]) => {
+                if (income && state.resources[fid as FactionId]) state.resources[fid as FactionId].gold += income;
+            });
+        } else {
+            Object.values(FactionId).forEach(fid => {
+                if (state.resources[fid]) {
+                    const income = state.locations.filter(l => l.faction === fid).reduce((sum, l) => sum + l.goldIncome, 0);
+                    state.resources[fid].gold += income;
+                }
+            });
+        }
         console.log(`[TURN PROCESSOR] Gold AFTER income: NOBLES=${state.resources.NOBLES?.gold}, REP=${state.resources.REPUBLICANS?.gold}, CONS=${state.resources.CONSPIRATORS?.gold}`);
 
         // 5.5b Governor Policies (STABILIZE_REGION, APPEASE_MINDS, etc.)
@@ -269,7 +351,9 @@ export const processTurn = async (
         // Deduct gold costs from faction treasuries
         Object.entries(govPoliciesResult.goldCosts).forEach(([faction, cost]) => {
             if (cost > 0 && state.resources[faction as FactionId]) {
-                state.resources[faction as FactionId].gold = Math.max(0, state.resources[faction as FactionId].gold - cost);
+                const goldBefore = state.resources[faction as FactionId].gold;
+                state.resources[faction as FactionId].gold = Math.max(0, goldBefore - cost);
+                state.stats = recordTreasuryDrop(state.stats, faction as FactionId, 'GOVERNANCE', goldBefore, state.resources[faction as FactionId].gold);
             }
         });
 
@@ -320,6 +404,16 @@ export const processTurn = async (
         state.characters = negResult.characters;
         logs.push(...negResult.logs);
 
+        // 5.8 Agreements (tributes, expiry, grain trade access)
+        const agreementResult = processAgreements(state.agreements, state.resources, state.locations, state.turn);
+        state.agreements = agreementResult.agreements;
+        (Object.keys(agreementResult.resources) as FactionId[]).forEach(fid => {
+            state.stats = recordTreasuryDrop(state.stats, fid, 'DIPLOMACY', state.resources[fid]?.gold ?? 0, agreementResult.resources[fid]?.gold ?? 0);
+        });
+        state.resources = agreementResult.resources;
+        state.locations = agreementResult.locations;
+        logs.push(...agreementResult.logs);
+
         // --- PHASE 6: AI BATTLE RESOLUTION ---
         const battleResult = resolveAIBattles(state, insurrectionNotification);
         state.locations = battleResult.locations;
@@ -332,7 +426,7 @@ export const processTurn = async (
 
         // Detect player battles
         console.log('[TURN] Detecting battles...');
-        const battles = detectBattles(state.locations, state.armies, state.roads);
+        const battles = detectBattles(state.locations, state.armies, state.roads, state.agreements);
         console.log(`[TURN] detectBattles returned ${battles.length} total battles`);
 
         let playerBattles: typeof battles = [];
@@ -365,33 +459,11 @@ export const processTurn = async (
         // logs.push(createNarrativeLog(flavorText, state.turn));
 
         // --- VICTORY CHECK ---
-        const activeFactions = [
-            FactionId.REPUBLICANS, FactionId.CONSPIRATORS, FactionId.NOBLES,
-            FactionId.LINEAGES_COUNCIL, FactionId.OATH_COALITION, FactionId.LARION_EXPEDITION,
-            FactionId.LARION_KNIGHTS
-        ];
-        for (const faction of activeFactions) {
-            const ownedLocations = state.locations.filter(l => l.faction === faction);
-            if (ownedLocations.length === state.locations.length) {
-                let messageKey = "victory.messages.default";
-                switch (faction) {
-                    case FactionId.REPUBLICANS: messageKey = "victory.messages.REPUBLICANS"; break;
-                    case FactionId.CONSPIRATORS: messageKey = "victory.messages.CONSPIRATORS"; break;
-                    case FactionId.NOBLES: messageKey = "victory.messages.NOBLES"; break;
-                    // Thyrakat factions use the thyrakat namespace
-                    case FactionId.OATH_COALITION: messageKey = "thyrakat:victory.messages.OATH_COALITION"; break;
-                    case FactionId.LINEAGES_COUNCIL: messageKey = "thyrakat:victory.messages.LINEAGES_COUNCIL"; break;
-                    case FactionId.LARION_EXPEDITION: messageKey = "thyrakat:victory.messages.LARION_EXPEDITION"; break;
-                    // Tutorial
-                    case FactionId.LARION_KNIGHTS: messageKey = "tutorial:tutorial.victory.message"; break;
-                }
-
-                state.victory = {
-                    winner: faction,
-                    message: messageKey
-                };
-                break;
-            }
+        // Rules come from the map (MapDefinition.victoryConditions) or the lobby's selection
+        const victoryCheck = evaluateVictory(state);
+        state.victoryProgress = victoryCheck.progress;
+        if (victoryCheck.victory) {
+            state.victory = victoryCheck.victory;
         }
 
         return {
@@ -399,7 +471,8 @@ export const processTurn = async (
             locations: updatePreviousFaction(state.locations),
             combatState: playerBattles.length > 0 ? playerBattles[0] : null,
             combatQueue: playerBattles.length > 0 ? playerBattles.slice(1) : [],
-            logs: [...state.logs, ...logs].slice(-100),
+            // Everything logged since the turn started survives the trim (see trimLogWindow)
+            logs: trimLogWindow([...state.logs, ...logs], initialState.turn),
             isProcessing: false,
             famineNotification,
             insurrectionNotification: (insurrectionNotification as any),
@@ -407,13 +480,14 @@ export const processTurn = async (
             leaderEliminatedNotification: (leaderEliminatedNotification as any)
         };
     } catch (error) {
+        if (options.rethrow) throw error;
         console.error('[TURN PROCESSOR] Critical Error:', error);
         // Ensure we unblock the UI even if turn failed
         return {
             ...initialState,
             isProcessing: false,
             logs: [...initialState.logs, {
-                id: `error-${Date.now()}`,
+                id: `error-${randomId()}`,
                 type: LogType.NARRATIVE,
                 message: "Turn processing failed: " + (error instanceof Error ? error.message : String(error)),
                 turn: initialState.turn,
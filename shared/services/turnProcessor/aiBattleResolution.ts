@@ -12,11 +12,14 @@ import {
 import { FORTIFICATION_LEVELS } from '../../constants';
 import { detectBattles } from '../combatDetection';
 import { calculateCombatStrength, applySequentialLosses } from '../combat';
+import { resolveBattleOutcome, getActiveCombatRuleset } from '../combat/combatRuleset';
 import { AIBattleResolutionResult } from './types';
 import { createLeaderDiedLog } from '../logs/logFactory';
 import { isMakeExamplesActive, processMakeExamples } from '../domain/governor/makeExamples';
 import { validateGovernorStatus } from '../domain/governor/governorService';
 import { handleLeaderStatusOnCapture } from '../turnLogic/leaderStatusUpdates';
+import { recordBattle } from '../domain/stats';
+import { random, randomChoice } from '../rng/gameRng';
 
 /**
  * Resolve all AI vs AI battles for the current turn.
@@ -39,13 +42,14 @@ export function resolveAIBattles(
     let characters = [...state.characters];
     let stats = { ...state.stats };
     let insurrectionNotification = existingInsurrectionNotification;
+    const ruleset = getActiveCombatRuleset(state);
 
     let loops = 0;
     let battles: CombatState[] = [];
 
     while (loops < 10) {
         loops++;
-        battles = detectBattles(locations, armies, roads);
+        battles = detectBattles(locations, armies, roads, state.agreements);
 
         const humanFactions: FactionId[] = (state as any).humanFactions || [state.playerFaction];
 
@@ -68,14 +72,14 @@ export function resolveAIBattles(
         const attStr = calculateCombatStrength(battle.attackers, characters, 0);
         const defStr = calculateCombatStrength(battle.defenders, characters, battle.defenseBonus);
 
-        const attWin = attStr > defStr;
+        const { attackerWins: attWin, winnerLosses: losses } = resolveBattleOutcome(attStr, defStr, battle.defenseBonus, ruleset);
         const loserArmies = attWin ? battle.defenders : battle.attackers;
         const winnerArmies = attWin ? battle.attackers : battle.defenders;
-        const losses = attWin ? defStr : Math.max(0, attStr - battle.defenseBonus);
 
         // Calculate death toll
         const deadDef = battle.defenders.reduce((s, a) => s + a.strength, 0);
         const deadAtt = battle.attackers.reduce((s, a) => s + a.strength, 0);
+        stats = recordBattle(stats, battle.attackerFaction, battle.defenderFaction, attWin);
 
         if (attWin) {
             stats.deathToll += deadDef + Math.min(deadAtt, losses);
@@ -227,7 +231,7 @@ export function resolveAIBattles(
 
             leadersInArmy.forEach(leader => {
                 if (!armies.find(a => a.id === army.id)) {
-                    let died = Math.random() > 0.5;
+                    let died = random() > 0.5;
 
                     // Insurrection leaders always die on defeat
                     if (battle.isInsurgentBattle && army.faction === battle.attackerFaction) {
@@ -246,7 +250,7 @@ export function resolveAIBattles(
                     } else {
                         const escapeLocs = locations.filter(loc => loc.faction === leader.faction);
                         const target = escapeLocs.length
-                            ? escapeLocs[Math.floor(Math.random() * escapeLocs.length)].id
+                            ? randomChoice(escapeLocs).id
                             : null;
 
                         if (target) {
@@ -1,9 +1,20 @@
 // Famine Module - Process food shortages and their consequences
 
-import { GameState, Location, Army, FactionId, LocationType, LogEntry } from '../../types';
+import { GameState, GameStats, Location, Army, FactionId, LocationType, LogEntry } from '../../types';
 import { applySequentialLosses } from '../combat';
 import { FamineProcessingResult } from './types';
 import { createFamineLog, createLowFoodWarningLog } from '../logs/logFactory';
+import { randomInt } from '../rng/gameRng';
+import { recordFamineCasualties } from '../domain/stats';
+
+/**
+ * Count the troops each faction lost to famine (armies may belong to several factions)
+ */
+const recordTroopLosses = (stats: GameStats, starving: Army[], updated: Army[], deadIds: string[]): GameStats =>
+    starving.reduce((acc, army) => {
+        const survivor = deadIds.includes(army.id) ? undefined : updated.find(u => u.id === army.id);
+        return recordFamineCasualties(acc, army.faction, army.strength - (survivor?.strength ?? 0));
+    }, stats);
 
 /**
  * Process famine effects for all cities.
@@ -69,12 +80,13 @@ export function processFamine(state: GameState): FamineProcessingResult {
         // Population deaths and refugees (separate random values)
         if (city.population > 2500) {
             const maxLoss = city.population > 10000 ? 5000 : 1000;
-            const deaths = Math.floor(Math.random() * maxLoss) + 1;
-            const refugees = Math.floor(Math.random() * maxLoss) + 1;
+            const deaths = randomInt(maxLoss) + 1;
+            const refugees = randomInt(maxLoss) + 1;
             const totalLoss = deaths + refugees;
 
             locations[cityIndex].population = Math.max(0, city.population - totalLoss);
             stats.deathToll += deaths;
+            stats = recordFamineCasualties(stats, city.faction, deaths);
 
             if (city.linkedLocationId) {
                 const ruralIdx = locations.findIndex(l => l.id === city.linkedLocationId);
@@ -92,9 +104,10 @@ export function processFamine(state: GameState): FamineProcessingResult {
         );
 
         if (cityArmies.length > 0) {
-            const armyDeaths = Math.floor(Math.random() * 2500) + 1;
+            const armyDeaths = randomInt(2500) + 1;
             const { updatedArmies, deadArmyIds } = applySequentialLosses(cityArmies, armyDeaths);
             stats.deathToll += Math.min(armyDeaths, cityArmies.reduce((s, a) => s + a.strength, 0));
+            stats = recordTroopLosses(stats, cityArmies, updatedArmies, deadArmyIds);
             armies = armies
                 .map(a => updatedArmies.find(ua => ua.id === a.id) || a)
                 .filter(a => !deadArmyIds.includes(a.id));
@@ -109,11 +122,12 @@ export function processFamine(state: GameState): FamineProcessingResult {
 
                 if (rural.population > 2500) {
                     const maxLoss = rural.population > 10000 ? 5000 : 1000;
-                    const rDeaths = Math.floor(Math.random() * maxLoss) + 1;
+                    const rDeaths = randomInt(maxLoss) + 1;
                     const ruralIdx = locations.findIndex(l => l.id === rural.id);
                     if (ruralIdx !== -1) {
                         locations[ruralIdx].population = Math.max(0, locations[ruralIdx].population - rDeaths);
                         stats.deathToll += rDeaths;
+                        stats = recordFamineCasualties(stats, rural.faction, rDeaths);
                     }
                 }
 
@@ -124,9 +138,10 @@ export function processFamine(state: GameState): FamineProcessingResult {
                 );
 
                 if (ruralArmies.length > 0) {
-                    const rArmyDeaths = Math.floor(Math.random() * 2500) + 1;
+                    const rArmyDeaths = randomInt(2500) + 1;
                     const { updatedArmies: rUpdated, deadArmyIds: rDead } = applySequentialLosses(ruralArmies, rArmyDeaths);
                     stats.deathToll += Math.min(rArmyDeaths, ruralArmies.reduce((s, a) => s + a.strength, 0));
+                    stats = recordTroopLosses(stats, ruralArmies, rUpdated, rDead);
                     armies = armies
                         .map(a => rUpdated.find(ua => ua.id === a.id) || a)
                         .filter(a => !rDead.includes(a.id));
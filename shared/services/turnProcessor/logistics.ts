@@ -1,32 +1,106 @@
 // Logistics Module - Convoy processing and delivery
 
-import { GameState, Convoy, NavalConvoy, Location, Road, LogEntry } from '../../types';
+import { GameState, Convoy, NavalConvoy, Location, Road, LogEntry, Army, FactionId, LocationType } from '../../types';
 import { ConvoyProcessingResult, NavalConvoyProcessingResult } from './types';
-import { createConvoyArrivalLog, createNavalConvoyArrivalLog } from '../logs/logFactory';
+import {
+    createConvoyArrivalLog,
+    createNavalConvoyArrivalLog,
+    createConvoyReroutedLog,
+    createConvoyHaltedLog,
+    createConvoyCapturedLog
+} from '../logs/logFactory';
+import { isConvoyRouteBlocked, rerouteConvoy, getConvoyRemainingTurns } from '../domain/convoyRouting';
+
+/**
+ * Army of another faction standing on the convoy's road stage, if any
+ */
+const findInterceptingArmy = (convoy: Convoy, armies: Army[]): Army | undefined =>
+    armies.find(a =>
+        a.faction !== convoy.faction &&
+        a.strength > 0 &&
+        a.locationType === 'ROAD' &&
+        a.roadId === convoy.roadId &&
+        a.stageIndex === convoy.stageIndex
+    );
+
+/**
+ * Hand a seized convoy to its captors, bound for their nearest city.
+ * Returns null when the cargo is plundered instead (neutral captors, or no open road).
+ */
+const seizeConvoy = (convoy: Convoy, captor: FactionId, roads: Road[], locations: Location[], currentTurn: number): Convoy | null => {
+    if (captor === FactionId.NEUTRAL) return null;
+
+    let best: Convoy | null = null;
+    locations
+        .filter(l => l.faction === captor && l.type === LocationType.CITY)
+        .forEach(city => {
+            const seized = rerouteConvoy(
+                { ...convoy, faction: captor, destinationCityId: city.id, isCaptured: true, routePreference: 'SHORTEST' },
+                roads, locations, currentTurn
+            );
+            if (seized && (!best || seized.arrivalTurn! < best.arrivalTurn!)) best = seized;
+        });
+    return best;
+};
 
 /**
  * Process land convoy movements and deliveries.
- * Convoys move one stage per turn and deliver food when they reach their destination.
+ * Convoys move one stage per turn and deliver food (and gold) when they reach their destination.
+ * A convoy whose route was cut re-routes first, or halts until a route opens again.
+ * A convoy that shares a road stage with an army of another faction, before or after
+ * moving, is seized and taken to the captors' nearest city.
  * 
  * @param convoys - Current list of active convoys
  * @param roads - All roads in the game
  * @param locations - All locations (will be modified for food delivery)
  * @param currentTurn - Current game turn for log creation
+ * @param armies - Armies that can intercept convoys (empty: no interception)
  * @returns Updated convoys, locations and logs
  */
 export function processConvoys(
     convoys: Convoy[],
     roads: Road[],
     locations: Location[],
-    currentTurn: number = 1
+    currentTurn: number = 1,
+    armies: Army[] = []
 ): ConvoyProcessingResult {
     const logs: LogEntry[] = [];
     const updatedLocations = locations.map(l => ({ ...l }));
     const nextConvoys: Convoy[] = [];
 
-    convoys.forEach(convoy => {
-        const road = roads.find(r => r.id === convoy.roadId);
+    // Seize the convoy if an enemy army holds its stage; true when it was seized
+    const intercept = (convoy: Convoy): boolean => {
+        const army = findInterceptingArmy(convoy, armies);
+        if (!army) return false;
+
+        const seized = seizeConvoy(convoy, army.faction, roads, locations, currentTurn);
+        logs.push(createConvoyCapturedLog(
+            convoy.faction, army.faction, convoy.roadId!, convoy.stageIndex,
+            convoy.foodAmount, convoy.goldAmount ?? 0, currentTurn, seized?.destinationCityId
+        ));
+        if (seized) nextConvoys.push(seized);
+        return true;
+    };
+
+    convoys.forEach(routedConvoy => {
+        const road = roads.find(r => r.id === routedConvoy.roadId);
         if (!road) return;
+        if (intercept(routedConvoy)) return;
+
+        let convoy = routedConvoy;
+        if (isConvoyRouteBlocked(convoy, roads, locations)) {
+            const rerouted = rerouteConvoy(convoy, roads, locations, currentTurn);
+            if (!rerouted) {
+                if (!convoy.isHalted) logs.push(createConvoyHaltedLog(convoy.faction, convoy.destinationCityId, currentTurn));
+                nextConvoys.push({ ...convoy, isHalted: true });
+                return;
+            }
+            logs.push(createConvoyReroutedLog(convoy.faction, convoy.destinationCityId, rerouted.arrivalTurn!, currentTurn));
+            convoy = rerouted;
+        } else if (convoy.isHalted) {
+            // The route reopened: move on and arrive that much later
+            convoy = { ...convoy, isHalted: false, arrivalTurn: currentTurn + getConvoyRemainingTurns(convoy, roads) };
+        }
 
         const nextIndex = convoy.stageIndex + (convoy.direction === 'FORWARD' ? 1 : -1);
 
@@ -44,32 +118,38 @@ export function processConvoys(
                     const currentRoadEndLoc = convoy.direction === 'FORWARD' ? road.to : road.from;
                     const isStartOfNextRoad = nextRoad.from === currentRoadEndLoc;
 
-                    nextConvoys.push({
+                    const moved: Convoy = {
                         ...convoy,
                         roadId: nextRoadId,
                         stageIndex: isStartOfNextRoad ? 0 : nextRoad.stages.length - 1,
                         direction: isStartOfNextRoad ? 'FORWARD' : 'BACKWARD',
                         pathIndex: nextPathIndex,
                         lastSafePosition: { type: 'LOCATION', id: currentRoadEndLoc }
-                    });
+                    };
+                    if (!intercept(moved)) nextConvoys.push(moved);
                     return;
                 }
             }
 
-            // Final destination reached - deliver food
+            // Final destination reached - deliver food and gold (gold joins the city's stock)
             const destCityIndex = updatedLocations.findIndex(l => l.id === convoy.destinationCityId);
             if (destCityIndex !== -1) {
                 updatedLocations[destCityIndex].foodStock += convoy.foodAmount;
+                if (convoy.goldAmount) {
+                    updatedLocations[destCityIndex].goldStock = (updatedLocations[destCityIndex].goldStock ?? 0) + convoy.goldAmount;
+                }
                 const arrivalLog = createConvoyArrivalLog(
                     updatedLocations[destCityIndex].id,
                     convoy.foodAmount,
-                    currentTurn
+                    currentTurn,
+                    convoy.goldAmount
                 );
                 logs.push(arrivalLog);
             }
         } else {
             // Convoy continues moving on current road
-            nextConvoys.push({ ...convoy, stageIndex: nextIndex });
+            const moved: Convoy = { ...convoy, stageIndex: nextIndex };
+            if (!intercept(moved)) nextConvoys.push(moved);
         }
     });
 
@@ -82,7 +162,7 @@ export function processConvoys(
 
 /**
  * Process naval convoy movements and deliveries.
- * Naval convoys decrement their days remaining and deliver when they arrive.
+ * Naval convoys decrement their days remaining and deliver food (and gold) when they arrive.
  * 
  * @param navalConvoys - Current list of active naval convoys
  * @param locations - All locations (will be modified for food delivery)
@@ -106,10 +186,14 @@ export function processNavalConvoys(
             const destCityIndex = updatedLocations.findIndex(l => l.id === convoy.destinationCityId);
             if (destCityIndex !== -1) {
                 updatedLocations[destCityIndex].foodStock += convoy.foodAmount;
+                if (convoy.goldAmount) {
+                    updatedLocations[destCityIndex].goldStock = (updatedLocations[destCityIndex].goldStock ?? 0) + convoy.goldAmount;
+                }
                 const navalArrivalLog = createNavalConvoyArrivalLog(
                     updatedLocations[destCityIndex].id,
                     convoy.foodAmount,
-                    currentTurn
+                    currentTurn,
+                    convoy.goldAmount
                 );
                 logs.push(navalArrivalLog);
             }
@@ -4,6 +4,7 @@ import { GameState, FactionId, Location, Army, LocationType, FACTION_NAMES, LogE
 import { NegotiationProcessingResult } from './types';
 import { createNegotiationsSuccessLog, createNegotiationsFailedLog } from '../logs/logFactory';
 import { handleLeaderStatusOnCapture } from '../turnLogic/leaderStatusUpdates';
+import { random } from '../rng/gameRng';
 
 /**
  * Process pending negotiations with neutral territories.
@@ -49,7 +50,7 @@ export function processNegotiations(state: GameState): NegotiationProcessingResu
                 const successChance = Math.max(0, Math.min(100, Math.round(rawScore)));
 
                 // Roll for success
-                const roll = Math.random() * 100;
+                const roll = random() * 100;
                 const success = roll < successChance;
 
                 if (success) {
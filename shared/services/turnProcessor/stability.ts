@@ -2,6 +2,7 @@
 
 import { Location, Character, CharacterStatus, LocationType, LogEntry, LogSeverity, LogType, FactionId } from '../../types';
 import { StabilityProcessingResult } from './types';
+import { randomId } from '../rng/gameRng';
 
 /**
  * Get the effective stability modifier for a character.
@@ -155,7 +156,7 @@ export function applyHighTaxStabilityPenalty(
         // Generate logs for each penalty
         messages.forEach(message => {
             logs.push({
-                id: `stability_penalty_${loc.id}_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+                id: `stability_penalty_${loc.id}_${randomId(5)}`,
                 type: LogType.ECONOMY,
                 message,
                 turn,
@@ -126,6 +126,11 @@ import { GovernorPolicy } from './types/governorTypes';
 export * from './types/governorTypes';
 export * from './types/clandestineTypes';
 export * from './types/trackerTypes';
+export * from './types/gameReportTypes';
+
+// Diplomacy
+import { DiplomaticAgreement } from './types/diplomacyTypes';
+export * from './types/diplomacyTypes';
 
 // Republican Internal Factions - One-time choice for gameplay bonuses
 export type RepublicanInternalFaction = 'KNIGHTLY_COUP' | 'RABBLE_VICTORY' | 'MERCHANT_DOMINATION' | null;
@@ -177,6 +182,7 @@ export interface Location {
   tradeTaxLevel?: ManagementLevel;
   foodCollectionLevel?: ManagementLevel;
   isGrainTradeActive?: boolean;
+  grainTradeAccess?: FactionId[]; // Windward: factions spared by its embargo (GRAIN_TRADE_ACCESS agreements)
 
   // Action Tracking
   actionsTaken?: {
@@ -198,6 +204,9 @@ export interface Location {
   burnedFields?: number;
   burnedDistricts?: number;
 
+  // PHYSICAL treasury: tax gold waiting in the city until a convoy carries it to the capital
+  goldStock?: number;
+
   // Granted Fief (Nobles recruitment mechanic)
   // When a Noble leader is recruited, a fief is granted in a territory
   // This reduces production by 30 (food for rural, gold for city) while the granting faction controls the territory
@@ -288,10 +297,14 @@ export interface Army {
   action?: 'FORTIFY';
 }
 
+/** SAFEST keeps to the faction's own territory and away from fortifications it does not hold, SHORTEST only avoids enemy-held locations and stages */
+export type ConvoyRoutePreference = 'SAFEST' | 'SHORTEST';
+
 export interface Convoy {
   id: string;
   faction: FactionId;
   foodAmount: number;
+  goldAmount?: number; // PHYSICAL treasury only
   sourceCityId: string;
   destinationCityId: string;
 
@@ -309,17 +322,33 @@ export interface Convoy {
   // Multi-road path support (for AI and long-distance convoys)
   path?: string[];      // Array of road IDs to traverse
   pathIndex?: number;   // Current index in path array (which road we're on)
+
+  routePreference?: ConvoyRoutePreference; // Used again when re-routing (default SAFEST)
+  arrivalTurn?: number;                    // Expected delivery turn, updated on re-route
+  isHalted?: boolean;                      // Waiting in place: no open route to the destination
 }
 
 export interface NavalConvoy {
   id: string;
   faction: FactionId;
   foodAmount: number;
+  goldAmount?: number; // PHYSICAL treasury only
   sourceCityId: string;
   destinationCityId: string;
   daysRemaining: number;
 }
 
+/** An army at sea between two ports, with the leaders attached to it. Off state.armies until it lands. */
+export interface NavalTransport {
+  id: string;
+  faction: FactionId;
+  army: Army;             // As it embarked (position is set again on landing)
+  leaderIds: string[];
+  sourcePortId: string;
+  destinationPortId: string;
+  daysRemaining: number;
+}
+
 export interface Character {
   id: string;
   name: string;
@@ -452,8 +481,102 @@ export interface CombatState {
   isInsurgentBattle: boolean;
 }
 
+/**
+ * How battles are decided: DETERMINISTIC (the stronger side always wins, loser's strength as losses)
+ * or PROBABILISTIC (winner and losses drawn from the strength ratio)
+ */
+export type CombatRuleset = 'DETERMINISTIC' | 'PROBABILISTIC';
+
+export const COMBAT_RULESETS: CombatRuleset[] = ['DETERMINISTIC', 'PROBABILISTIC'];
+
+export const DEFAULT_COMBAT_RULESET: CombatRuleset = 'DETERMINISTIC';
+
+/**
+ * Where tax gold goes: CENTRAL (straight into the faction treasury) or PHYSICAL
+ * (piles up in each city and only becomes spendable once convoys bring it to the capital)
+ */
+export type TreasuryRuleset = 'CENTRAL' | 'PHYSICAL';
+
+export const TREASURY_RULESETS: TreasuryRuleset[] = ['CENTRAL', 'PHYSICAL'];
+
+export const DEFAULT_TREASURY_RULESET: TreasuryRuleset = 'CENTRAL';
+
+// Where a faction's gold went (end-of-game report)
+export type SpendingCategory =
+  | 'RECRUITMENT'
+  | 'FORTIFICATION'
+  | 'SIEGE'
+  | 'CLANDESTINE'
+  | 'DIPLOMACY'
+  | 'LEADERS'
+  | 'GOVERNANCE'
+  | 'LOGISTICS'
+  | 'OTHER';
+
+export interface FactionGameStats {
+  battlesFought: number;
+  battlesWon: number;
+  insurrectionsTriggered: number; // Uprisings started by its leaders (incl. incited neutral ones)
+  insurrectionsSuffered: number;  // Uprisings breaking out in its territory
+  famineCasualties: number;       // Population and troops lost to famine
+  goldSpent: Partial<Record<SpendingCategory, number>>;
+}
+
 export interface GameStats {
   deathToll: number;
+  factions?: Partial<Record<FactionId, FactionGameStats>>; // Missing in older saves
+}
+
+// --- VICTORY CONDITIONS ---
+
+export type VictoryConditionType = 'TOTAL_CONQUEST' | 'HOLD_KEY_LOCATIONS' | 'SCORE_AT_TURN_LIMIT' | 'ELIMINATE_LEADERS';
+
+interface VictoryConditionBase {
+  id: string;                 // Unique within a map, used by lobbies to pick the rules of a game
+  nameKey: string;            // i18n key describing the rule
+  messageKey?: string;        // Victory message; defaults to the winner's faction message
+  factions?: FactionId[];     // Factions that can win this way (default: every faction of the map)
+  enabledByDefault?: boolean; // false = only applies when the host picks it (default true)
+}
+
+/**
+ * A way to win a map, declared on its MapDefinition
+ * - TOTAL_CONQUEST: own every location
+ * - HOLD_KEY_LOCATIONS: own all listed locations at the end of `turns` consecutive turns
+ * - SCORE_AT_TURN_LIMIT: best score once turn `turnLimit` has been played
+ * - ELIMINATE_LEADERS: be the only faction with living leaders
+ */
+export type VictoryCondition = VictoryConditionBase & (
+  | { type: 'TOTAL_CONQUEST' }
+  | { type: 'HOLD_KEY_LOCATIONS'; locationIds: string[]; turns: number }
+  | { type: 'SCORE_AT_TURN_LIMIT'; turnLimit: number }
+  | { type: 'ELIMINATE_LEADERS' }
+);
+
+/** Final (or current) position of one faction */
+export interface FactionStanding {
+  faction: FactionId;
+  rank: number;           // 1 = winner
+  score: number;
+  locations: number;
+  cities: number;
+  keyLocations: number;   // Key locations of the active HOLD_KEY_LOCATIONS rules it owns
+  livingLeaders: number;
+  eliminated: boolean;    // No location and no living leader left
+}
+
+export interface VictoryResult {
+  winner: FactionId;
+  message: string;        // i18n key
+  conditionId?: string;
+  conditionType?: VictoryConditionType;
+  turn?: number;
+  standings?: FactionStanding[]; // Every faction of the map, best first (missing in older saves)
+}
+
+export interface VictoryProgress {
+  // HOLD_KEY_LOCATIONS rule id -> faction owning every key location and for how many turns
+  keyLocationHolds: Record<string, { faction: FactionId; turns: number }>;
 }
 
 export interface InsurrectionNotification {
@@ -532,6 +655,11 @@ export interface AIGoal {
   assignedArmyIds?: string[]; // Added for compatibility
 }
 
+/** How strong an AI-played faction is, chosen per AI seat */
+export type AIDifficulty = 'EASY' | 'NORMAL' | 'HARD' | 'BRUTAL';
+
+export const DEFAULT_AI_DIFFICULTY: AIDifficulty = 'NORMAL';
+
 export interface FactionAIState {
   theaters: AITheater[];
   goals: AIGoal[]; // Kept for legacy/transition
@@ -555,6 +683,13 @@ export interface LeaderEliminatedNotification {
   buttonText: string;
 }
 
+/** Seeded RNG stream (see services/rng) - persisted with the game so replays are reproducible */
+export interface RngState {
+  seed: number;
+  state: number; // mulberry32 state, advanced by every draw
+  clock: number; // deterministic tick replacing Date.now() in ordering timestamps
+}
+
 export interface GameState {
   turn: number;
   mapId?: string; // ID of the currently active map (e.g. 'larion', 'valis')
@@ -580,6 +715,8 @@ export interface GameState {
   aiState?: {
     [key in FactionId]?: FactionAIState;
   };
+  // Level of each AI-played faction (missing = DEFAULT_AI_DIFFICULTY)
+  aiDifficulties?: Partial<Record<FactionId, AIDifficulty>>;
 
   selectedType: 'LOCATION' | 'ROAD_STAGE' | null;
   selectedId: string | null;
@@ -606,10 +743,14 @@ export interface GameState {
   siegeNotification: SiegeNotification | null;
   leaderEliminatedNotification: LeaderEliminatedNotification | null;
 
-  victory?: {
-    winner: FactionId;
-    message: string;
-  };
+  victory?: VictoryResult;
+  victoryConditions?: VictoryCondition[]; // Rules of this game (default: the map's default rules)
+  victoryProgress?: VictoryProgress;
+  combatRuleset?: CombatRuleset;           // Default: the map's ruleset, else DEFAULT_COMBAT_RULESET
+  treasuryRuleset?: TreasuryRuleset;       // Default: the map's ruleset, else DEFAULT_TREASURY_RULESET
+  capitals?: Partial<Record<FactionId, string>>; // PHYSICAL treasury: city each faction ships its gold to
+  agreements?: DiplomaticAgreement[];      // Proposed, running and ended agreements between factions
+  navalTransports?: NavalTransport[];      // Armies at sea
 
   hasScannedBattles: boolean;
 
@@ -628,6 +769,9 @@ export interface GameState {
 
   // DevTool: Tracker state for monitoring faction metrics over time
   trackerState?: import('./types/trackerTypes').TrackerState;
+
+  // Seeded RNG - not part of CoreGameState, so multiplayer clients cannot predict rolls
+  rng?: RngState;
 }
 
 export const FACTION_COLORS = {
@@ -644,6 +788,11 @@ export const FACTION_COLORS = {
   [FactionId.LINEAGES_COUNCIL]: 'text-purple-400 bg-purple-900 border-purple-500',
   [FactionId.OATH_COALITION]: 'text-stone-200 bg-stone-800 border-stone-400',
   [FactionId.LARION_EXPEDITION]: 'text-red-400 bg-red-900 border-red-500',
+
+  // Valis
+  [FactionId.LOYALISTS]: 'text-fuchsia-300 bg-fuchsia-950 border-fuchsia-600',
+  [FactionId.PRINCELY_ARMY]: 'text-neutral-300 bg-neutral-900 border-neutral-500',
+  [FactionId.CONFEDERATE_CITIES]: 'text-orange-300 bg-orange-950 border-orange-600',
 };
 
 export const FACTION_NAMES = {
@@ -660,6 +809,11 @@ export const FACTION_NAMES = {
   [FactionId.LINEAGES_COUNCIL]: 'Council of Lineages',
   [FactionId.OATH_COALITION]: 'Coalition of the Oath',
   [FactionId.LARION_EXPEDITION]: "Larion's Expedition",
+
+  // Valis
+  [FactionId.LOYALISTS]: 'Loyalists',
+  [FactionId.PRINCELY_ARMY]: 'Princely Army',
+  [FactionId.CONFEDERATE_CITIES]: 'Confederate Cities',
 };
 
 // --- MULTIPLAYER TYPES ---
@@ -675,7 +829,8 @@ export interface CoreGameState {
   currentPlayerFaction: FactionId;
   turnOrder: FactionId[];
   playerFactions: FactionId[];
-  aiFaction: FactionId | null;
+  aiFaction: FactionId | null; // First AI faction (kept for older clients)
+  aiFactions?: FactionId[];    // Every AI-played faction, including ones handed over by their player
 
   locations: Location[];
   armies: Army[];
@@ -704,7 +859,14 @@ export interface CoreGameState {
   aiState?: { [key in FactionId]?: FactionAIState };
   stats: GameStats;
   logs: LogEntry[];
-  victory?: { winner: FactionId; message: string };
+  victory?: VictoryResult;
+  victoryConditions?: VictoryCondition[];
+  victoryProgress?: VictoryProgress;
+  combatRuleset?: CombatRuleset;
+  treasuryRuleset?: TreasuryRuleset;
+  capitals?: Partial<Record<FactionId, string>>;
+  agreements?: DiplomaticAgreement[];
+  navalTransports?: NavalTransport[];
 }
 
 /**
@@ -743,7 +905,7 @@ export interface PlayerInfo {
 export interface GameLobby {
   code: string;
   hostSocketId: string;
-  maxPlayers: 2 | 3;
+  maxPlayers: number; // Human seats
   players: PlayerInfo[];
   status: 'WAITING' | 'STARTING' | 'IN_PROGRESS' | 'FINISHED';
   createdAt: number;
@@ -762,9 +924,10 @@ export type GameAction =
   | { type: 'REQUISITION'; locationId: string; resourceType: 'GOLD' | 'FOOD'; faction: FactionId }
   | { type: 'NEGOTIATE'; locationId: string; gold: number; food: number; foodSourceIds: string[]; faction: FactionId }
   | { type: 'UPDATE_CITY_MANAGEMENT'; locationId: string; updates: Partial<Location>; faction: FactionId }
-  | { type: 'SEND_CONVOY'; locationId: string; amount: number; destinationId: string; faction: FactionId }
-  | { type: 'SEND_NAVAL_CONVOY'; locationId: string; amount: number; destinationId: string; faction: FactionId }
+  | { type: 'SEND_CONVOY'; locationId: string; amount: number; destinationId: string; routePreference?: ConvoyRoutePreference; goldAmount?: number; faction: FactionId }
+  | { type: 'SEND_NAVAL_CONVOY'; locationId: string; amount: number; destinationId: string; goldAmount?: number; faction: FactionId }
   | { type: 'REVERSE_CONVOY'; convoyId: string; faction: FactionId }
+  | { type: 'EMBARK_ARMY'; armyId: string; destinationPortId: string; faction: FactionId }
   | { type: 'ATTACH_LEADER'; armyId: string; characterId: string; faction: FactionId }
   | { type: 'DETACH_LEADER'; characterId: string; faction: FactionId }
   | { type: 'MOVE_LEADER'; characterId: string; destinationId: string; faction: FactionId }
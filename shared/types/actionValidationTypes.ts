@@ -0,0 +1,55 @@
+/**
+ * Action Validation Types
+ * Structured rejection codes returned by the server when a player action is refused.
+ * Clients localize the code; the message is an English fallback for logs.
+ */
+
+export enum ActionRejectionCode {
+    // Turn & identity
+    NOT_IN_GAME = 'NOT_IN_GAME',
+    NOT_YOUR_TURN = 'NOT_YOUR_TURN',
+    COMBAT_PENDING = 'COMBAT_PENDING',
+    FACTION_MISMATCH = 'FACTION_MISMATCH',
+    FACTION_RESTRICTED = 'FACTION_RESTRICTED',
+    AI_CONTROLLED = 'AI_CONTROLLED',
+    SPECTATOR = 'SPECTATOR',
+    UNKNOWN_ACTION = 'UNKNOWN_ACTION',
+    INVALID_PARAMETERS = 'INVALID_PARAMETERS',
+
+    // Missing targets
+    LOCATION_NOT_FOUND = 'LOCATION_NOT_FOUND',
+    ROAD_NOT_FOUND = 'ROAD_NOT_FOUND',
+    ARMY_NOT_FOUND = 'ARMY_NOT_FOUND',
+    LEADER_NOT_FOUND = 'LEADER_NOT_FOUND',
+    CONVOY_NOT_FOUND = 'CONVOY_NOT_FOUND',
+
+    // Ownership
+    NOT_YOUR_LOCATION = 'NOT_YOUR_LOCATION',
+    NOT_YOUR_ARMY = 'NOT_YOUR_ARMY',
+    NOT_YOUR_LEADER = 'NOT_YOUR_LEADER',
+    NOT_YOUR_CONVOY = 'NOT_YOUR_CONVOY',
+    OWN_LOCATION = 'OWN_LOCATION',
+
+    // Resources
+    INSUFFICIENT_GOLD = 'INSUFFICIENT_GOLD',
+    INSUFFICIENT_FOOD = 'INSUFFICIENT_FOOD',
+
+    // Reachability & availability
+    NOT_ADJACENT = 'NOT_ADJACENT',
+    NOT_REACHABLE = 'NOT_REACHABLE',
+    ARMY_UNAVAILABLE = 'ARMY_UNAVAILABLE',
+    LEADER_UNAVAILABLE = 'LEADER_UNAVAILABLE',
+
+    // Per-turn limits (Location.actionsTaken and similar)
+    TURN_LIMIT_REACHED = 'TURN_LIMIT_REACHED',
+    ALREADY_DONE = 'ALREADY_DONE',
+
+    // The action passed validation but the domain service refused it
+    ACTION_FAILED = 'ACTION_FAILED',
+    SERVER_ERROR = 'SERVER_ERROR'
+}
+
+export interface ActionRejection {
+    code: ActionRejectionCode;
+    message: string;
+}
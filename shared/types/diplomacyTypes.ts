@@ -0,0 +1,45 @@
+/**
+ * Diplomacy Types
+ * Agreements negotiated between two factions (players or AI).
+ */
+
+import { FactionId } from '../types';
+
+/**
+ * One clause of an agreement.
+ * Transfers are paid once, on acceptance; the other terms last for the agreement's duration.
+ */
+export type AgreementTerm =
+    | { type: 'GOLD_TRANSFER'; from: FactionId; amount: number }
+    | { type: 'FOOD_TRANSFER'; from: FactionId; amount: number; sourceCityId: string; destinationCityId: string }
+    | { type: 'TRIBUTE'; from: FactionId; goldPerTurn: number }
+    | { type: 'GRAIN_TRADE_ACCESS'; grantedBy: FactionId }   // The grantee's cities ignore the Windward embargo
+    | { type: 'NON_AGGRESSION' };                             // No battles between the parties, no army on the other's ground
+
+export type AgreementTermType = AgreementTerm['type'];
+
+export type AgreementStatus =
+    | 'PROPOSED'
+    | 'ACTIVE'
+    | 'REJECTED'
+    | 'COMPLETED'   // Only one-off transfers: done on acceptance
+    | 'EXPIRED'     // Proposal left unanswered, or duration over
+    | 'BROKEN';
+
+/** What a faction sends when it proposes an agreement */
+export interface AgreementProposal {
+    recipient: FactionId;
+    terms: AgreementTerm[];
+    duration: number;        // Turns the lasting terms apply once accepted
+}
+
+export interface DiplomaticAgreement extends AgreementProposal {
+    id: string;
+    proposer: FactionId;
+    status: AgreementStatus;
+    proposedTurn: number;
+    acceptedTurn?: number;
+    expiresTurn?: number;    // Last turn the lasting terms apply
+    endedTurn?: number;
+    brokenBy?: FactionId;
+}
@@ -0,0 +1,41 @@
+/**
+ * Game Report Types - End-of-game statistics sent to every player
+ * Built from the per-turn snapshots and the GameStats counters
+ */
+
+import { FactionId, SpendingCategory, VictoryResult } from '../types';
+import { TurnSnapshot } from './trackerTypes';
+
+/**
+ * Territory held by a faction at the end of a turn
+ */
+export interface TerritoryPoint {
+    turn: number;
+    locations: number;
+    cities: number;
+}
+
+/**
+ * Statistics of a single faction over the whole game
+ */
+export interface FactionReport {
+    faction: FactionId;
+    territory: TerritoryPoint[];     // Territory over time, one point per snapshot
+    battlesFought: number;
+    battlesWon: number;
+    leadersLost: string[];           // Ids of its leaders that died during the game
+    insurrectionsTriggered: number;
+    insurrectionsSuffered: number;
+    goldSpent: Partial<Record<SpendingCategory, number>>;
+    totalGoldSpent: number;
+    famineCasualties: number;
+}
+
+export interface GameReport {
+    mapId: string;
+    turn: number;                    // Turn the game ended on
+    victory: VictoryResult;
+    deathToll: number;
+    factions: FactionReport[];       // In the order of the final standings
+    snapshots: TurnSnapshot[];       // Full per-turn metrics (gold, troops, income...)
+}
@@ -20,6 +20,9 @@ export interface FactionSnapshot {
     leaders: number;        // Count of living leaders (not DEAD)
     income: number;         // Total gold income per turn
     foodBalance: number;    // Food production - consumption (can be negative)
+    locations?: number;     // Controlled locations (missing in older snapshots)
+    cities?: number;        // Controlled cities
+    livingLeaderIds?: string[]; // Leaders counted in `leaders`
 }
 
 /**
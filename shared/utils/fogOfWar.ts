@@ -0,0 +1,112 @@
+// Fog of War - Per-faction projection of the synchronized game state
+// Used by the server to send each player only what their faction is allowed to know
+
+import {
+    CoreGameState,
+    Character,
+    CharacterStatus,
+    FactionId,
+    Location,
+    LogEntry
+} from '../types';
+import { isThresholdExceeded } from '../services/domain/clandestine/detectionLevelService';
+
+/**
+ * Check whether a log entry can be seen by a faction
+ * Empty visibleToFactions = visible to all
+ */
+export const isLogVisibleTo = (log: LogEntry, viewer: FactionId): boolean => {
+    return !log.visibleToFactions || log.visibleToFactions.length === 0 || log.visibleToFactions.includes(viewer);
+};
+
+/**
+ * Check whether an enemy leader's position is known to the viewer.
+ * Undercover agents stay hidden until detected on arrival or until their
+ * detection level exceeds the local threshold. Agents still travelling
+ * to their target are never visible.
+ */
+export const isEnemyLeaderVisible = (leader: Character, state: { locations: Location[] }): boolean => {
+    if (leader.undercoverMission) return false;
+    if (leader.status !== CharacterStatus.UNDERCOVER) return true;
+    if (leader.isDetectedOnArrival === true) return true;
+
+    const location = state.locations.find(l => l.id === leader.locationId);
+    return location ? isThresholdExceeded(leader, location) : false;
+};
+
+/**
+ * Strip an enemy leader of everything only its own faction should know
+ * (budgets, detection, missions, planned actions). Revealed assassination
+ * plots stay visible because the target faction has been warned.
+ */
+const redactEnemyLeader = (leader: Character): Character => {
+    const revealedActions = (leader.activeClandestineActions || []).filter(a => a.isRevealed);
+
+    return {
+        ...leader,
+        budget: undefined,
+        clandestineBudget: undefined,
+        missionData: undefined,
+        undercoverMission: undefined,
+        governorMission: undefined,
+        activeClandestineActions: revealedActions.length > 0 ? revealedActions : undefined,
+        detectionLevel: undefined,
+        pendingDetectionEffects: undefined,
+        pendingAlertEvents: undefined,
+        plannedMissionAction: undefined,
+        isSmugglerMission: undefined,
+        smugglerTargetCityId: undefined
+    };
+};
+
+/**
+ * Project the full core state onto what a single faction may see.
+ *
+ * Hidden from the viewer:
+ * - Undetected enemy undercover leaders (removed) and private leader data (redacted)
+ * - Enemy treasuries (reported as 0 gold), including the gold stored in their
+ *   cities and carried by their land convoys under the PHYSICAL treasury
+ * - Other factions' AI state, negotiations and naval convoys (at sea, out of sight)
+ * - Agreements the viewer is not a party to
+ * - Logs not addressed to the viewer and battles not involving them
+ *
+ * Armies, locations and roads are otherwise public map information and are kept as-is.
+ */
+export const projectStateForFaction = (state: CoreGameState, viewer: FactionId): CoreGameState => {
+    const characters = state.characters
+        .filter(c => c.faction === viewer || isEnemyLeaderVisible(c, state))
+        .map(c => c.faction === viewer ? c : redactEnemyLeader(c));
+
+    const resources = { ...state.resources };
+    (Object.keys(resources) as FactionId[]).forEach(faction => {
+        if (faction !== viewer) {
+            resources[faction] = { gold: 0 };
+        }
+    });
+
+    const locations = state.locations.map(l =>
+        l.faction !== viewer && l.goldStock !== undefined ? { ...l, goldStock: undefined } : l
+    );
+    const convoys = state.convoys.map(c =>
+        c.faction !== viewer && c.goldAmount !== undefined ? { ...c, goldAmount: undefined } : c
+    );
+
+    const involvesViewer = (combat: { attackerFaction: FactionId; defenderFaction: FactionId }) =>
+        combat.attackerFaction === viewer || combat.defenderFaction === viewer;
+
+    return {
+        ...state,
+        characters,
+        resources,
+        locations,
+        convoys,
+        navalConvoys: state.navalConvoys.filter(c => c.faction === viewer),
+        navalTransports: state.navalTransports?.filter(t => t.faction === viewer),
+        pendingNegotiations: state.pendingNegotiations.filter(n => n.factionId === viewer),
+        agreements: state.agreements?.filter(a => a.proposer === viewer || a.recipient === viewer),
+        combatState: state.combatState && involvesViewer(state.combatState) ? state.combatState : null,
+        combatQueue: (state.combatQueue || []).filter(involvesViewer),
+        aiState: state.aiState?.[viewer] ? { [viewer]: state.aiState[viewer] } : undefined,
+        logs: state.logs.filter(log => isLogVisibleTo(log, viewer))
+    };
+};
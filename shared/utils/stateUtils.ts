@@ -17,7 +17,9 @@ export const extractCoreState = (state: GameState, gameId: string = 'solo'): Cor
     // Use currentTurnFaction if it exists (multiplayer), otherwise playerFaction (solo)
     const currentFaction = (state as any).currentTurnFaction || state.playerFaction;
     const humanFactions = (state as any).humanFactions || [state.playerFaction];
-    const aiFactionValue = (state as any).aiFaction !== undefined ? (state as any).aiFaction : null;
+    // Multiplayer states list every AI-played faction; older states carry a single aiFaction
+    const aiFactionsValue: FactionId[] = (state as any).aiFactions
+        || ((state as any).aiFaction ? [(state as any).aiFaction] : []);
     const turnOrderValue = (state as any).turnOrder || [FactionId.REPUBLICANS, FactionId.CONSPIRATORS, FactionId.NOBLES];
 
     return {
@@ -26,7 +28,8 @@ export const extractCoreState = (state: GameState, gameId: string = 'solo'): Cor
         currentPlayerFaction: currentFaction,
         turnOrder: turnOrderValue,
         playerFactions: humanFactions,
-        aiFaction: aiFactionValue,
+        aiFaction: aiFactionsValue[0] ?? null,
+        aiFactions: aiFactionsValue,
 
         locations: state.locations,
         armies: state.armies,
@@ -44,7 +47,14 @@ export const extractCoreState = (state: GameState, gameId: string = 'solo'): Cor
         aiState: state.aiState,
         stats: state.stats,
         logs: state.logs,
-        victory: state.victory
+        victory: state.victory,
+        victoryConditions: state.victoryConditions,
+        victoryProgress: state.victoryProgress,
+        combatRuleset: state.combatRuleset,
+        treasuryRuleset: state.treasuryRuleset,
+        capitals: state.capitals,
+        agreements: state.agreements,
+        navalTransports: state.navalTransports
     };
 };
 
@@ -119,6 +129,13 @@ export const combineToLegacyState = (
         leaderEliminatedNotification: ui.leaderEliminatedNotification,
 
         victory: core.victory,
+        victoryConditions: core.victoryConditions,
+        victoryProgress: core.victoryProgress,
+        combatRuleset: core.combatRuleset,
+        treasuryRuleset: core.treasuryRuleset,
+        capitals: core.capitals,
+        agreements: core.agreements,
+        navalTransports: core.navalTransports,
         hasScannedBattles: ui.hasScannedBattles
     };
 };